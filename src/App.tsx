@@ -3,6 +3,8 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import AppRoutes from './routes'
 import { AuthProvider } from '@store/AuthContext'
 import { ThemeProvider } from '@store/ThemeContext'
+import { OfflineQueueProvider } from '@store/OfflineQueueProvider'
+import { SavedSearchProvider } from '@store/SavedSearchProvider'
 
 // Create a client for React Query
 const queryClient = new QueryClient({
@@ -21,7 +23,11 @@ function App() {
       <BrowserRouter>
         <ThemeProvider>
           <AuthProvider>
-            <AppRoutes />
+            <OfflineQueueProvider>
+              <SavedSearchProvider>
+                <AppRoutes />
+              </SavedSearchProvider>
+            </OfflineQueueProvider>
           </AuthProvider>
         </ThemeProvider>
       </BrowserRouter>
@@ -0,0 +1,28 @@
+/**
+ * Can Component
+ * Renders children only when the user holds the required permission
+ */
+
+import { ReactNode } from 'react'
+import { usePermission } from '@hooks/usePermission'
+
+export interface CanProps {
+  /** Permission code the user must hold */
+  permission?: string
+  /** Alternatively, any one of these permission codes */
+  anyOf?: string[]
+  /** Rendered when the check fails */
+  fallback?: ReactNode
+  children: ReactNode
+}
+
+export function Can({ permission, anyOf, fallback = null, children }: CanProps) {
+  const { hasPermission, hasAnyPermission } = usePermission()
+
+  const allowed =
+    (!permission || hasPermission(permission)) && (!anyOf || anyOf.length === 0 || hasAnyPermission(anyOf))
+
+  return <>{allowed ? children : fallback}</>
+}
+
+export default Can
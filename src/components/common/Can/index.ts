@@ -0,0 +1,7 @@
+/**
+ * Can component barrel export
+ */
+
+export { Can } from './Can'
+export type { CanProps } from './Can'
+export { Can as default } from './Can'
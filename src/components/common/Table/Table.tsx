@@ -9,7 +9,7 @@ import './Table.css'
 
 export interface Column<T> {
   key: string
-  header: string
+  header: ReactNode
   render?: (item: T) => ReactNode
   sortable?: boolean
   width?: string
@@ -0,0 +1,183 @@
+/**
+ * Upload Preview Component
+ * Editable grid that validates upload rows in the browser so bad rows can be fixed or dropped before upload
+ */
+
+import { useState, useMemo } from 'react'
+import { cn, buildFieldRules, validateUploadRows } from '@utils'
+import type { UploadSchema, UploadSheet } from '@utils'
+import { Button } from '../Button/Button'
+import './UploadPreview.css'
+
+export interface UploadPreviewProps {
+  sheet: UploadSheet
+  schema: UploadSchema
+  isUploading?: boolean
+  onUpload: (sheet: UploadSheet) => void
+  onCancel?: () => void
+}
+
+const PAGE_SIZE = 25
+
+export function UploadPreview({ sheet, schema, isUploading = false, onUpload, onCancel }: UploadPreviewProps) {
+  const [rows, setRows] = useState<string[][]>(() => sheet.rows.map((row) => [...row]))
+  const [droppedRows, setDroppedRows] = useState<Set<number>>(new Set())
+  const [showIssuesOnly, setShowIssuesOnly] = useState(false)
+  const [page, setPage] = useState(0)
+
+  const rules = useMemo(() => buildFieldRules(sheet.headers, schema), [sheet.headers, schema])
+  const issues = useMemo(
+    () => validateUploadRows(rows, rules, droppedRows, sheet.rowNumbers),
+    [rows, rules, droppedRows, sheet.rowNumbers]
+  )
+
+  const rowsWithIssues = issues.filter((rowIssues) => Object.keys(rowIssues).length > 0).length
+  const keptRows = rows.length - droppedRows.size
+
+  const visibleRows = rows
+    .map((_, rowIndex) => rowIndex)
+    .filter((rowIndex) => !showIssuesOnly || Object.keys(issues[rowIndex]).length > 0)
+  const totalPages = Math.max(1, Math.ceil(visibleRows.length / PAGE_SIZE))
+  const currentPage = Math.min(page, totalPages - 1)
+  const pageRows = visibleRows.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE)
+
+  const updateCell = (rowIndex: number, column: number, value: string) => {
+    setRows((prev) => prev.map((row, i) => (i === rowIndex ? row.map((cell, c) => (c === column ? value : cell)) : row)))
+  }
+
+  const toggleDrop = (rowIndex: number) => {
+    const next = new Set(droppedRows)
+    if (next.has(rowIndex)) {
+      next.delete(rowIndex)
+    } else {
+      next.add(rowIndex)
+    }
+    setDroppedRows(next)
+  }
+
+  const dropRowsWithIssues = () => {
+    const next = new Set(droppedRows)
+    issues.forEach((rowIssues, rowIndex) => {
+      if (Object.keys(rowIssues).length > 0) next.add(rowIndex)
+    })
+    setDroppedRows(next)
+  }
+
+  const handleUpload = () => {
+    onUpload({
+      headers: sheet.headers,
+      rows: rows.filter((_, rowIndex) => !droppedRows.has(rowIndex)),
+      rowNumbers: sheet.rowNumbers.filter((_, rowIndex) => !droppedRows.has(rowIndex)),
+    })
+  }
+
+  return (
+    <div className="upload-preview">
+      <div className="upload-preview__summary">
+        <span className="upload-preview__stat">{rows.length} rows</span>
+        <span className="upload-preview__stat upload-preview__stat--success">{keptRows - rowsWithIssues} ready</span>
+        {rowsWithIssues > 0 && (
+          <span className="upload-preview__stat upload-preview__stat--danger">{rowsWithIssues} with issues</span>
+        )}
+        {droppedRows.size > 0 && <span className="upload-preview__stat">{droppedRows.size} dropped</span>}
+        <label className="upload-preview__toggle">
+          <input
+            type="checkbox"
+            checked={showIssuesOnly}
+            onChange={(e) => {
+              setShowIssuesOnly(e.target.checked)
+              setPage(0)
+            }}
+          />
+          Only rows with issues
+        </label>
+      </div>
+
+      <div className="upload-preview__grid">
+        <table className="upload-preview__table">
+          <thead>
+            <tr>
+              <th className="upload-preview__row-number">Row</th>
+              {rules.map((rule) => (
+                <th key={rule.header}>
+                  {rule.header}
+                  {rule.required && <span className="upload-preview__required">*</span>}
+                </th>
+              ))}
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.length === 0 ? (
+              <tr>
+                <td className="upload-preview__empty" colSpan={rules.length + 2}>
+                  {showIssuesOnly ? 'No rows with issues' : 'The file has no data rows'}
+                </td>
+              </tr>
+            ) : (
+              pageRows.map((rowIndex) => {
+                const isDropped = droppedRows.has(rowIndex)
+                return (
+                  <tr key={rowIndex} className={cn(isDropped && 'upload-preview__row--dropped')}>
+                    <td className="upload-preview__row-number">{sheet.rowNumbers[rowIndex] ?? rowIndex + 2}</td>
+                    {rows[rowIndex].map((cell, column) => (
+                      <td key={column}>
+                        <input
+                          className={cn(
+                            'upload-preview__cell',
+                            issues[rowIndex][column] && 'upload-preview__cell--error'
+                          )}
+                          value={cell}
+                          title={issues[rowIndex][column]}
+                          disabled={isDropped}
+                          onChange={(e) => updateCell(rowIndex, column, e.target.value)}
+                        />
+                      </td>
+                    ))}
+                    <td>
+                      <button className="upload-preview__drop" onClick={() => toggleDrop(rowIndex)}>
+                        {isDropped ? 'Restore' : 'Drop'}
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {totalPages > 1 && (
+        <div className="upload-preview__pagination">
+          <button disabled={currentPage === 0} onClick={() => setPage(currentPage - 1)}>
+            Previous
+          </button>
+          <span>
+            Page {currentPage + 1} of {totalPages}
+          </span>
+          <button disabled={currentPage >= totalPages - 1} onClick={() => setPage(currentPage + 1)}>
+            Next
+          </button>
+        </div>
+      )}
+
+      <div className="upload-preview__actions">
+        {onCancel && (
+          <Button variant="secondary" onClick={onCancel} disabled={isUploading}>
+            Back
+          </Button>
+        )}
+        {rowsWithIssues > 0 && (
+          <Button variant="outline" onClick={dropRowsWithIssues} disabled={isUploading}>
+            Drop {rowsWithIssues} Rows With Issues
+          </Button>
+        )}
+        <Button onClick={handleUpload} isLoading={isUploading} disabled={rowsWithIssues > 0 || keptRows === 0}>
+          Upload {keptRows} Rows
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+export default UploadPreview
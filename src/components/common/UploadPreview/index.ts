@@ -0,0 +1,7 @@
+/**
+ * UploadPreview component barrel export
+ */
+
+export { UploadPreview } from './UploadPreview'
+export type { UploadPreviewProps } from './UploadPreview'
+export { UploadPreview as default } from './UploadPreview'
@@ -8,3 +8,9 @@ export type { ButtonProps } from './Button/Button'
 
 export { Input } from './Input/Input'
 export type { InputProps } from './Input/Input'
+
+export { Can } from './Can/Can'
+export type { CanProps } from './Can/Can'
+
+export { UploadPreview } from './UploadPreview/UploadPreview'
+export type { UploadPreviewProps } from './UploadPreview/UploadPreview'
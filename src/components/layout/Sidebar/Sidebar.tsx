@@ -4,8 +4,10 @@
  */
 
 import { useState } from 'react'
-import { NavLink, useLocation } from 'react-router-dom'
+import { Link, NavLink, useLocation } from 'react-router-dom'
 import { ROUTES } from '@config/constants'
+import { usePermission, useSavedSearches } from '@hooks'
+import { SAVED_SEARCH_PARAM, getSavedSearchQuery } from '@utils'
 import './Sidebar.css'
 
 interface MenuItem {
@@ -17,7 +19,9 @@ interface MenuItem {
 
 export function Sidebar() {
   const location = useLocation()
-  const [expandedMenus, setExpandedMenus] = useState<string[]>(['access-management', 'case-sourcing', 'strategy-engine', 'allocation', 'repayment'])
+  const { canAccessRoute } = usePermission()
+  const { pinnedSearches } = useSavedSearches()
+  const [expandedMenus, setExpandedMenus] = useState<string[]>(['access-management', 'case-sourcing', 'strategy-engine', 'allocation', 'repayment', 'saved-searches'])
 
   const toggleMenu = (menuId: string) => {
     setExpandedMenus((prev) =>
@@ -74,6 +78,22 @@ export function Sidebar() {
       label: 'My Workflow',
       path: ROUTES.WORKFLOW,
     },
+    {
+      icon: (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path
+            d="M9 12L11 14L15 10"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          />
+          <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2" />
+        </svg>
+      ),
+      label: 'PTP Tracker',
+      path: ROUTES.WORKFLOW_PTP_TRACKER,
+    },
     {
       icon: (
         <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -505,11 +525,20 @@ export function Sidebar() {
     ],
   }
 
+  // Only show entries the user is permitted to open
+  const visibleChildren = (menu: { children: MenuItem[] }) =>
+    menu.children.filter((child) => canAccessRoute(child.path))
+
   const isAccessManagementActive = location.pathname.startsWith('/access-management')
   const isCaseSourcingActive = location.pathname.startsWith('/case-sourcing')
   const isStrategyEngineActive = location.pathname.startsWith('/strategy-engine')
   const isAllocationActive = location.pathname.startsWith('/allocation')
   const isRepaymentActive = location.pathname.startsWith('/repayment')
+  const activeSavedSearchId =
+    location.pathname === ROUTES.CASE_SOURCING_SEARCH
+      ? new URLSearchParams(location.search).get(SAVED_SEARCH_PARAM)
+      : null
+  const showSavedSearches = pinnedSearches.length > 0 && canAccessRoute(ROUTES.CASE_SOURCING_SEARCH)
 
   return (
     <aside className="sidebar">
@@ -549,7 +578,7 @@ export function Sidebar() {
 
       <nav className="sidebar__nav">
         {/* Main menu items */}
-        {menuItems.map((item) => (
+        {menuItems.filter((item) => canAccessRoute(item.path)).map((item) => (
           <NavLink
             key={item.path}
             to={item.path}
@@ -563,265 +592,336 @@ export function Sidebar() {
         ))}
 
         {/* Access Management submenu */}
-        <div className="sidebar__submenu">
-          <button
-            className={`sidebar__nav-item sidebar__nav-item--parent ${
-              isAccessManagementActive ? 'sidebar__nav-item--active' : ''
-            }`}
-            onClick={() => toggleMenu(accessManagementMenu.id)}
-          >
-            <span className="sidebar__nav-icon">{accessManagementMenu.icon}</span>
-            <span className="sidebar__nav-label">{accessManagementMenu.label}</span>
-            <svg
-              className={`sidebar__nav-arrow ${
-                expandedMenus.includes(accessManagementMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+        {visibleChildren(accessManagementMenu).length > 0 && (
+          <div className="sidebar__submenu">
+            <button
+              className={`sidebar__nav-item sidebar__nav-item--parent ${
+                isAccessManagementActive ? 'sidebar__nav-item--active' : ''
               }`}
-              viewBox="0 0 24 24"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+              onClick={() => toggleMenu(accessManagementMenu.id)}
             >
-              <path
-                d="M6 9L12 15L18 9"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </button>
-          {expandedMenus.includes(accessManagementMenu.id) && (
-            <div className="sidebar__submenu-items">
-              {accessManagementMenu.children.map((child) => (
-                <NavLink
-                  key={child.path}
-                  to={child.path}
-                  className={({ isActive }) =>
-                    `sidebar__nav-item sidebar__nav-item--child ${
-                      isActive ? 'sidebar__nav-item--active' : ''
-                    }`
-                  }
-                >
-                  <span className="sidebar__nav-icon">{child.icon}</span>
-                  <span className="sidebar__nav-label">{child.label}</span>
-                </NavLink>
-              ))}
-            </div>
-          )}
-        </div>
+              <span className="sidebar__nav-icon">{accessManagementMenu.icon}</span>
+              <span className="sidebar__nav-label">{accessManagementMenu.label}</span>
+              <svg
+                className={`sidebar__nav-arrow ${
+                  expandedMenus.includes(accessManagementMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+                }`}
+                viewBox="0 0 24 24"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M6 9L12 15L18 9"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </button>
+            {expandedMenus.includes(accessManagementMenu.id) && (
+              <div className="sidebar__submenu-items">
+                {visibleChildren(accessManagementMenu).map((child) => (
+                  <NavLink
+                    key={child.path}
+                    to={child.path}
+                    className={({ isActive }) =>
+                      `sidebar__nav-item sidebar__nav-item--child ${
+                        isActive ? 'sidebar__nav-item--active' : ''
+                      }`
+                    }
+                  >
+                    <span className="sidebar__nav-icon">{child.icon}</span>
+                    <span className="sidebar__nav-label">{child.label}</span>
+                  </NavLink>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Case Sourcing submenu */}
-        <div className="sidebar__submenu">
-          <button
-            className={`sidebar__nav-item sidebar__nav-item--parent ${
-              isCaseSourcingActive ? 'sidebar__nav-item--active' : ''
-            }`}
-            onClick={() => toggleMenu(caseSourcingMenu.id)}
-          >
-            <span className="sidebar__nav-icon">{caseSourcingMenu.icon}</span>
-            <span className="sidebar__nav-label">{caseSourcingMenu.label}</span>
-            <svg
-              className={`sidebar__nav-arrow ${
-                expandedMenus.includes(caseSourcingMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+        {visibleChildren(caseSourcingMenu).length > 0 && (
+          <div className="sidebar__submenu">
+            <button
+              className={`sidebar__nav-item sidebar__nav-item--parent ${
+                isCaseSourcingActive ? 'sidebar__nav-item--active' : ''
               }`}
-              viewBox="0 0 24 24"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+              onClick={() => toggleMenu(caseSourcingMenu.id)}
             >
-              <path
-                d="M6 9L12 15L18 9"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </button>
-          {expandedMenus.includes(caseSourcingMenu.id) && (
-            <div className="sidebar__submenu-items">
-              {caseSourcingMenu.children.map((child) => (
-                <NavLink
-                  key={child.path}
-                  to={child.path}
-                  className={({ isActive }) =>
-                    `sidebar__nav-item sidebar__nav-item--child ${
-                      isActive ? 'sidebar__nav-item--active' : ''
-                    }`
-                  }
-                >
-                  <span className="sidebar__nav-icon">{child.icon}</span>
-                  <span className="sidebar__nav-label">{child.label}</span>
-                </NavLink>
-              ))}
-            </div>
-          )}
-        </div>
+              <span className="sidebar__nav-icon">{caseSourcingMenu.icon}</span>
+              <span className="sidebar__nav-label">{caseSourcingMenu.label}</span>
+              <svg
+                className={`sidebar__nav-arrow ${
+                  expandedMenus.includes(caseSourcingMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+                }`}
+                viewBox="0 0 24 24"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M6 9L12 15L18 9"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </button>
+            {expandedMenus.includes(caseSourcingMenu.id) && (
+              <div className="sidebar__submenu-items">
+                {visibleChildren(caseSourcingMenu).map((child) => (
+                  <NavLink
+                    key={child.path}
+                    to={child.path}
+                    className={({ isActive }) =>
+                      `sidebar__nav-item sidebar__nav-item--child ${
+                        isActive ? 'sidebar__nav-item--active' : ''
+                      }`
+                    }
+                  >
+                    <span className="sidebar__nav-icon">{child.icon}</span>
+                    <span className="sidebar__nav-label">{child.label}</span>
+                  </NavLink>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Strategy Engine submenu */}
-        <div className="sidebar__submenu">
-          <button
-            className={`sidebar__nav-item sidebar__nav-item--parent ${
-              isStrategyEngineActive ? 'sidebar__nav-item--active' : ''
-            }`}
-            onClick={() => toggleMenu(strategyEngineMenu.id)}
-          >
-            <span className="sidebar__nav-icon">{strategyEngineMenu.icon}</span>
-            <span className="sidebar__nav-label">{strategyEngineMenu.label}</span>
-            <svg
-              className={`sidebar__nav-arrow ${
-                expandedMenus.includes(strategyEngineMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+        {visibleChildren(strategyEngineMenu).length > 0 && (
+          <div className="sidebar__submenu">
+            <button
+              className={`sidebar__nav-item sidebar__nav-item--parent ${
+                isStrategyEngineActive ? 'sidebar__nav-item--active' : ''
               }`}
-              viewBox="0 0 24 24"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+              onClick={() => toggleMenu(strategyEngineMenu.id)}
             >
-              <path
-                d="M6 9L12 15L18 9"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </button>
-          {expandedMenus.includes(strategyEngineMenu.id) && (
-            <div className="sidebar__submenu-items">
-              {strategyEngineMenu.children.map((child) => (
-                <NavLink
-                  key={child.path}
-                  to={child.path}
-                  className={({ isActive }) =>
-                    `sidebar__nav-item sidebar__nav-item--child ${
-                      isActive ? 'sidebar__nav-item--active' : ''
-                    }`
-                  }
-                >
-                  <span className="sidebar__nav-icon">{child.icon}</span>
-                  <span className="sidebar__nav-label">{child.label}</span>
-                </NavLink>
-              ))}
-            </div>
-          )}
-        </div>
+              <span className="sidebar__nav-icon">{strategyEngineMenu.icon}</span>
+              <span className="sidebar__nav-label">{strategyEngineMenu.label}</span>
+              <svg
+                className={`sidebar__nav-arrow ${
+                  expandedMenus.includes(strategyEngineMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+                }`}
+                viewBox="0 0 24 24"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M6 9L12 15L18 9"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </button>
+            {expandedMenus.includes(strategyEngineMenu.id) && (
+              <div className="sidebar__submenu-items">
+                {visibleChildren(strategyEngineMenu).map((child) => (
+                  <NavLink
+                    key={child.path}
+                    to={child.path}
+                    className={({ isActive }) =>
+                      `sidebar__nav-item sidebar__nav-item--child ${
+                        isActive ? 'sidebar__nav-item--active' : ''
+                      }`
+                    }
+                  >
+                    <span className="sidebar__nav-icon">{child.icon}</span>
+                    <span className="sidebar__nav-label">{child.label}</span>
+                  </NavLink>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Allocation submenu */}
-        <div className="sidebar__submenu">
-          <button
-            className={`sidebar__nav-item sidebar__nav-item--parent ${
-              isAllocationActive ? 'sidebar__nav-item--active' : ''
-            }`}
-            onClick={() => toggleMenu(allocationMenu.id)}
-          >
-            <span className="sidebar__nav-icon">{allocationMenu.icon}</span>
-            <span className="sidebar__nav-label">{allocationMenu.label}</span>
-            <svg
-              className={`sidebar__nav-arrow ${
-                expandedMenus.includes(allocationMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+        {visibleChildren(allocationMenu).length > 0 && (
+          <div className="sidebar__submenu">
+            <button
+              className={`sidebar__nav-item sidebar__nav-item--parent ${
+                isAllocationActive ? 'sidebar__nav-item--active' : ''
               }`}
-              viewBox="0 0 24 24"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+              onClick={() => toggleMenu(allocationMenu.id)}
             >
-              <path
-                d="M6 9L12 15L18 9"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </button>
-          {expandedMenus.includes(allocationMenu.id) && (
-            <div className="sidebar__submenu-items">
-              {allocationMenu.children.map((child) => (
-                <NavLink
-                  key={child.path}
-                  to={child.path}
-                  className={({ isActive }) =>
-                    `sidebar__nav-item sidebar__nav-item--child ${
-                      isActive ? 'sidebar__nav-item--active' : ''
-                    }`
-                  }
-                >
-                  <span className="sidebar__nav-icon">{child.icon}</span>
-                  <span className="sidebar__nav-label">{child.label}</span>
-                </NavLink>
-              ))}
-            </div>
-          )}
-        </div>
+              <span className="sidebar__nav-icon">{allocationMenu.icon}</span>
+              <span className="sidebar__nav-label">{allocationMenu.label}</span>
+              <svg
+                className={`sidebar__nav-arrow ${
+                  expandedMenus.includes(allocationMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+                }`}
+                viewBox="0 0 24 24"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M6 9L12 15L18 9"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </button>
+            {expandedMenus.includes(allocationMenu.id) && (
+              <div className="sidebar__submenu-items">
+                {visibleChildren(allocationMenu).map((child) => (
+                  <NavLink
+                    key={child.path}
+                    to={child.path}
+                    className={({ isActive }) =>
+                      `sidebar__nav-item sidebar__nav-item--child ${
+                        isActive ? 'sidebar__nav-item--active' : ''
+                      }`
+                    }
+                  >
+                    <span className="sidebar__nav-icon">{child.icon}</span>
+                    <span className="sidebar__nav-label">{child.label}</span>
+                  </NavLink>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
         {/* Template Management */}
-        <NavLink
-          to={ROUTES.TEMPLATE_MANAGEMENT}
-          className={({ isActive }) =>
-            `sidebar__nav-item ${isActive ? 'sidebar__nav-item--active' : ''}`
-          }
-        >
-          <span className="sidebar__nav-icon">
-            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-              <path
-                d="M14 2H6C5.46957 2 4.96086 2.21071 4.58579 2.58579C4.21071 2.96086 4 3.46957 4 4V20C4 20.5304 4.21071 21.0391 4.58579 21.4142C4.96086 21.7893 5.46957 22 6 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V8L14 2Z"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-              <path d="M14 2V8H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-              <path d="M16 13H8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-              <path d="M16 17H8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-              <path d="M10 9H9H8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-            </svg>
-          </span>
-          <span className="sidebar__nav-label">Template Management</span>
-        </NavLink>
+        {canAccessRoute(ROUTES.TEMPLATE_MANAGEMENT) && (
+          <NavLink
+            to={ROUTES.TEMPLATE_MANAGEMENT}
+            className={({ isActive }) =>
+              `sidebar__nav-item ${isActive ? 'sidebar__nav-item--active' : ''}`
+            }
+          >
+            <span className="sidebar__nav-icon">
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path
+                  d="M14 2H6C5.46957 2 4.96086 2.21071 4.58579 2.58579C4.21071 2.96086 4 3.46957 4 4V20C4 20.5304 4.21071 21.0391 4.58579 21.4142C4.96086 21.7893 5.46957 22 6 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V8L14 2Z"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+                <path d="M14 2V8H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                <path d="M16 13H8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                <path d="M16 17H8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                <path d="M10 9H9H8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+              </svg>
+            </span>
+            <span className="sidebar__nav-label">Template Management</span>
+          </NavLink>
+        )}
 
         {/* Repayment submenu */}
-        <div className="sidebar__submenu">
-          <button
-            className={`sidebar__nav-item sidebar__nav-item--parent ${
-              isRepaymentActive ? 'sidebar__nav-item--active' : ''
-            }`}
-            onClick={() => toggleMenu(repaymentMenu.id)}
-          >
-            <span className="sidebar__nav-icon">{repaymentMenu.icon}</span>
-            <span className="sidebar__nav-label">{repaymentMenu.label}</span>
-            <svg
-              className={`sidebar__nav-arrow ${
-                expandedMenus.includes(repaymentMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+        {visibleChildren(repaymentMenu).length > 0 && (
+          <div className="sidebar__submenu">
+            <button
+              className={`sidebar__nav-item sidebar__nav-item--parent ${
+                isRepaymentActive ? 'sidebar__nav-item--active' : ''
               }`}
-              viewBox="0 0 24 24"
-              fill="none"
-              xmlns="http://www.w3.org/2000/svg"
+              onClick={() => toggleMenu(repaymentMenu.id)}
             >
-              <path
-                d="M6 9L12 15L18 9"
-                stroke="currentColor"
-                strokeWidth="2"
-                strokeLinecap="round"
-                strokeLinejoin="round"
-              />
-            </svg>
-          </button>
-          {expandedMenus.includes(repaymentMenu.id) && (
-            <div className="sidebar__submenu-items">
-              {repaymentMenu.children.map((child) => (
-                <NavLink
-                  key={child.path}
-                  to={child.path}
-                  className={({ isActive }) =>
-                    `sidebar__nav-item sidebar__nav-item--child ${
-                      isActive ? 'sidebar__nav-item--active' : ''
-                    }`
-                  }
-                >
-                  <span className="sidebar__nav-icon">{child.icon}</span>
-                  <span className="sidebar__nav-label">{child.label}</span>
-                </NavLink>
-              ))}
-            </div>
-          )}
-        </div>
+              <span className="sidebar__nav-icon">{repaymentMenu.icon}</span>
+              <span className="sidebar__nav-label">{repaymentMenu.label}</span>
+              <svg
+                className={`sidebar__nav-arrow ${
+                  expandedMenus.includes(repaymentMenu.id) ? 'sidebar__nav-arrow--expanded' : ''
+                }`}
+                viewBox="0 0 24 24"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M6 9L12 15L18 9"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </button>
+            {expandedMenus.includes(repaymentMenu.id) && (
+              <div className="sidebar__submenu-items">
+                {visibleChildren(repaymentMenu).map((child) => (
+                  <NavLink
+                    key={child.path}
+                    to={child.path}
+                    className={({ isActive }) =>
+                      `sidebar__nav-item sidebar__nav-item--child ${
+                        isActive ? 'sidebar__nav-item--active' : ''
+                      }`
+                    }
+                  >
+                    <span className="sidebar__nav-icon">{child.icon}</span>
+                    <span className="sidebar__nav-label">{child.label}</span>
+                  </NavLink>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
 
+        {/* Pinned saved searches */}
+        {showSavedSearches && (
+          <div className="sidebar__submenu">
+            <button
+              className="sidebar__nav-item sidebar__nav-item--parent"
+              onClick={() => toggleMenu('saved-searches')}
+            >
+              <span className="sidebar__nav-icon">
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <path
+                    d="M19 21L12 16L5 21V5C5 4.46957 5.21071 3.96086 5.58579 3.58579C5.96086 3.21071 6.46957 3 7 3H17C17.5304 3 18.0391 3.21071 18.4142 3.58579C18.7893 3.96086 19 4.46957 19 5V21Z"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                </svg>
+              </span>
+              <span className="sidebar__nav-label">Saved Searches</span>
+              <svg
+                className={`sidebar__nav-arrow ${
+                  expandedMenus.includes('saved-searches') ? 'sidebar__nav-arrow--expanded' : ''
+                }`}
+                viewBox="0 0 24 24"
+                fill="none"
+                xmlns="http://www.w3.org/2000/svg"
+              >
+                <path
+                  d="M6 9L12 15L18 9"
+                  stroke="currentColor"
+                  strokeWidth="2"
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                />
+              </svg>
+            </button>
+            {expandedMenus.includes('saved-searches') && (
+              <div className="sidebar__submenu-items">
+                {pinnedSearches.map((search) => (
+                  <Link
+                    key={search.id}
+                    to={`${ROUTES.CASE_SOURCING_SEARCH}?${getSavedSearchQuery(search)}`}
+                    className={`sidebar__nav-item sidebar__nav-item--child ${
+                      activeSavedSearchId === search.id ? 'sidebar__nav-item--active' : ''
+                    }`}
+                    title={search.name}
+                  >
+                    <span className="sidebar__nav-label sidebar__nav-label--truncate">{search.name}</span>
+                    {search.newMatchCount > 0 && (
+                      <span className="sidebar__nav-badge">
+                        {search.newMatchCount > 99 ? '99+' : search.newMatchCount}
+                      </span>
+                    )}
+                  </Link>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </nav>
     </aside>
   )
@@ -1,10 +1,10 @@
 /**
  * TopBar Navigation Component
- * Top header with search, notifications, and user menu
+ * Top header with search, pending sync status, notifications, and user menu
  */
 
 import { useState } from 'react'
-import { useAuth } from '@hooks'
+import { useAuth, useOfflineQueue } from '@hooks'
 import { useNavigate } from 'react-router-dom'
 import { ROUTES } from '@config/constants'
 import './TopBar.css'
@@ -14,6 +14,9 @@ export function TopBar() {
   const navigate = useNavigate()
   const [showUserMenu, setShowUserMenu] = useState(false)
   const [showNotifications, setShowNotifications] = useState(false)
+  const [showSync, setShowSync] = useState(false)
+  const { drafts, pendingCount, conflictCount, isOnline, isSyncing, syncNow, retryDraft, discardDraft } =
+    useOfflineQueue()
 
   const handleLogout = async () => {
     await logout()
@@ -24,6 +27,9 @@ export function TopBar() {
   const displayName = user ? `${user.firstName} ${user.lastName}` : 'Guest User'
   const userRole = user?.roles?.[0]?.displayName || user?.role || 'User'
 
+  const formatAmount = (amount: number) =>
+    new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 0 }).format(amount)
+
   return (
     <header className="topbar">
       <div className="topbar__content">
@@ -62,6 +68,83 @@ export function TopBar() {
 
         {/* Right Section */}
         <div className="topbar__actions">
+          {/* Pending Sync */}
+          {(!isOnline || drafts.length > 0) && (
+            <div className="topbar__sync">
+              <button
+                className={`topbar__icon-btn ${!isOnline ? 'topbar__icon-btn--offline' : ''}`}
+                title={isOnline ? `${pendingCount} pending sync` : 'Offline - captures will be queued'}
+                onClick={() => setShowSync(!showSync)}
+              >
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <path
+                    d="M20 16.58A5 5 0 0 0 18 7H16.74A8 8 0 1 0 4 15.25M12 12V21M12 12L8 16M12 12L16 16"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  />
+                </svg>
+                {drafts.length > 0 && (
+                  <span className={`topbar__badge ${conflictCount === 0 ? 'topbar__badge--pending' : ''}`}>
+                    {drafts.length}
+                  </span>
+                )}
+              </button>
+
+              {showSync && (
+                <div className="topbar__dropdown topbar__dropdown--right topbar__sync-dropdown">
+                  <div className="topbar__dropdown-header">
+                    <h3>Pending Sync</h3>
+                    <button
+                      className="topbar__dropdown-clear"
+                      onClick={() => syncNow()}
+                      disabled={!isOnline || isSyncing || pendingCount === 0}
+                    >
+                      {isSyncing ? 'Syncing...' : 'Sync now'}
+                    </button>
+                  </div>
+                  <div className={`topbar__sync-status ${isOnline ? '' : 'topbar__sync-status--offline'}`}>
+                    {isOnline
+                      ? `${pendingCount} waiting, ${conflictCount} need attention`
+                      : 'You are offline. Captures are saved on this device.'}
+                  </div>
+                  <div className="topbar__dropdown-content">
+                    {drafts.length === 0 ? (
+                      <div className="topbar__sync-empty">Nothing waiting to sync</div>
+                    ) : (
+                      drafts.map((draft) => (
+                        <div key={draft.idempotencyKey} className="topbar__sync-item">
+                          <div className="topbar__notification-text">
+                            <div className="topbar__notification-title">
+                              {formatAmount(draft.request.paymentAmount)} · {draft.label || `Case #${draft.request.caseId}`}
+                            </div>
+                            <div className="topbar__notification-desc">
+                              {draft.request.paymentMode} · captured {new Date(draft.createdAt).toLocaleString()}
+                            </div>
+                            {draft.status === 'CONFLICT' && (
+                              <div className="topbar__sync-conflict">{draft.conflictReason}</div>
+                            )}
+                          </div>
+                          {draft.status === 'CONFLICT' ? (
+                            <div className="topbar__sync-actions">
+                              <button onClick={() => retryDraft(draft.idempotencyKey)}>Retry</button>
+                              <button onClick={() => discardDraft(draft.idempotencyKey)}>Discard</button>
+                            </div>
+                          ) : (
+                            <span className="topbar__sync-state">
+                              {draft.status === 'SYNCING' ? 'Syncing' : 'Queued'}
+                            </span>
+                          )}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Notifications */}
           <div className="topbar__notification">
             <button
@@ -21,6 +21,8 @@ export const ROUTES = {
   ACCOUNT_LOCKOUT: '/access-management/account-lockout',
   // Master Data Routes
   MASTER_DATA: '/master-data',
+  // Unified case view; every case link opens this
+  CASE_DETAIL: '/cases/:caseId',
   // Case Sourcing Routes
   CASE_SOURCING: '/case-sourcing',
   CASE_SOURCING_DASHBOARD: '/case-sourcing/dashboard',
@@ -28,8 +30,10 @@ export const ROUTES = {
   CASE_SOURCING_BATCHES: '/case-sourcing/batches',
   CASE_SOURCING_BATCH_DETAIL: '/case-sourcing/batches/:batchId',
   CASE_SOURCING_UNALLOCATED: '/case-sourcing/unallocated',
+  // Legacy case detail link, redirects to CASE_DETAIL
   CASE_SOURCING_UNALLOCATED_DETAIL: '/case-sourcing/unallocated/:caseId',
   CASE_SOURCING_SEARCH: '/case-sourcing/search',
+  // Legacy case detail link, redirects to CASE_DETAIL
   CASE_SOURCING_CASE_DETAIL: '/case-sourcing/cases/:caseId',
   CASE_SOURCING_REPORTS: '/case-sourcing/reports',
   // Strategy Engine Routes
@@ -57,10 +61,77 @@ export const ROUTES = {
   REPAYMENT_DIGITAL_PAYMENT: '/repayment/digital-payment',
   // Workflow Routes
   WORKFLOW: '/workflow',
+  // Legacy case detail link, redirects to CASE_DETAIL
   WORKFLOW_CASE_DETAIL: '/workflow/case/:caseId',
+  WORKFLOW_PTP_TRACKER: '/workflow/ptps',
+  FORBIDDEN: '/forbidden',
   NOT_FOUND: '*',
 } as const
 
+// Permission codes as issued by access management (RESOURCE_ACTION)
+export const PERMISSIONS = {
+  USER_READ: 'USER_READ',
+  USER_CREATE: 'USER_CREATE',
+  USER_UPDATE: 'USER_UPDATE',
+  USER_DELETE: 'USER_DELETE',
+  ROLE_READ: 'ROLE_READ',
+  PERMISSION_READ: 'PERMISSION_READ',
+  MASTER_DATA_READ: 'MASTER_DATA_READ',
+  CASE_READ: 'CASE_READ',
+  CASE_CREATE: 'CASE_CREATE',
+  PTP_TEAM_READ: 'PTP_TEAM_READ',
+  STRATEGY_READ: 'STRATEGY_READ',
+  ALLOCATION_READ: 'ALLOCATION_READ',
+  ALLOCATION_UPDATE: 'ALLOCATION_UPDATE',
+  ALLOCATION_RULE_DELETE: 'ALLOCATION_RULE_DELETE',
+  TEMPLATE_READ: 'TEMPLATE_READ',
+  TEMPLATE_APPROVE: 'TEMPLATE_APPROVE',
+  REPAYMENT_READ: 'REPAYMENT_READ',
+  REPAYMENT_CREATE: 'REPAYMENT_CREATE',
+  REPAYMENT_APPROVE: 'REPAYMENT_APPROVE',
+  REPAYMENT_APPROVAL_CONFIG: 'REPAYMENT_APPROVAL_CONFIG',
+  REPAYMENT_RECONCILE: 'REPAYMENT_RECONCILE',
+} as const
+
+export type PermissionCode = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
+
+// Permission required to open a route; routes not listed only need authentication
+export const ROUTE_PERMISSIONS: Partial<Record<string, PermissionCode>> = {
+  [ROUTES.USERS]: PERMISSIONS.USER_READ,
+  [ROUTES.USER_DETAIL]: PERMISSIONS.USER_READ,
+  [ROUTES.ROLES]: PERMISSIONS.ROLE_READ,
+  [ROUTES.PERMISSIONS]: PERMISSIONS.PERMISSION_READ,
+  [ROUTES.ACCOUNT_LOCKOUT]: PERMISSIONS.USER_UPDATE,
+  [ROUTES.MASTER_DATA]: PERMISSIONS.MASTER_DATA_READ,
+  [ROUTES.CASE_SOURCING_UPLOAD]: PERMISSIONS.CASE_CREATE,
+  [ROUTES.CASE_DETAIL]: PERMISSIONS.CASE_READ,
+  [ROUTES.CASE_SOURCING_BATCH_DETAIL]: PERMISSIONS.CASE_READ,
+  [ROUTES.CASE_SOURCING_UNALLOCATED]: PERMISSIONS.CASE_READ,
+  [ROUTES.CASE_SOURCING_SEARCH]: PERMISSIONS.CASE_READ,
+  [ROUTES.STRATEGY_ENGINE]: PERMISSIONS.STRATEGY_READ,
+  [ROUTES.STRATEGY_ENGINE_LOGS]: PERMISSIONS.STRATEGY_READ,
+  [ROUTES.ALLOCATION]: PERMISSIONS.ALLOCATION_READ,
+  [ROUTES.ALLOCATION_UPLOAD]: PERMISSIONS.ALLOCATION_UPDATE,
+  [ROUTES.ALLOCATION_RULES]: PERMISSIONS.ALLOCATION_READ,
+  [ROUTES.ALLOCATION_RULE_DETAIL]: PERMISSIONS.ALLOCATION_READ,
+  [ROUTES.ALLOCATION_WORKLOAD]: PERMISSIONS.ALLOCATION_READ,
+  [ROUTES.ALLOCATION_REALLOCATION]: PERMISSIONS.ALLOCATION_UPDATE,
+  [ROUTES.ALLOCATION_BATCHES]: PERMISSIONS.ALLOCATION_READ,
+  [ROUTES.ALLOCATION_BATCH_DETAIL]: PERMISSIONS.ALLOCATION_READ,
+  [ROUTES.REALLOCATION_BATCH_DETAIL]: PERMISSIONS.ALLOCATION_READ,
+  [ROUTES.ALLOCATED_CASES]: PERMISSIONS.ALLOCATION_READ,
+  [ROUTES.TEMPLATE_MANAGEMENT]: PERMISSIONS.TEMPLATE_READ,
+  [ROUTES.REPAYMENT]: PERMISSIONS.REPAYMENT_READ,
+  [ROUTES.REPAYMENT_LIST]: PERMISSIONS.REPAYMENT_READ,
+  [ROUTES.REPAYMENT_DETAIL]: PERMISSIONS.REPAYMENT_READ,
+  [ROUTES.REPAYMENT_APPROVALS]: PERMISSIONS.REPAYMENT_APPROVE,
+  [ROUTES.REPAYMENT_RECONCILIATION]: PERMISSIONS.REPAYMENT_RECONCILE,
+  [ROUTES.REPAYMENT_DIGITAL_PAYMENT]: PERMISSIONS.REPAYMENT_CREATE,
+}
+
+// Roles that bypass permission checks
+export const SUPER_USER_ROLES = ['ADMIN', 'SUPER_ADMIN'] as const
+
 export const API_ENDPOINTS = {
   AUTH: {
     LOGIN: '/access/auth/login',
@@ -94,6 +165,10 @@ export const API_ENDPOINTS = {
       CREATE: '/access/management/roles',
       UPDATE: (id: number) => `/access/management/roles/${id}`,
       DELETE: (id: number) => `/access/management/roles/${id}`,
+      // Dashboard layouts pushed as role defaults, keyed by role code
+      DASHBOARD_LAYOUTS: '/access/management/roles/dashboard-layouts',
+      DASHBOARD_LAYOUT: (roleCode: string) =>
+        `/access/management/roles/dashboard-layouts/${encodeURIComponent(roleCode)}`,
     },
     // User endpoints
     USERS: {
@@ -145,6 +220,7 @@ export const API_ENDPOINTS = {
     UNALLOCATED_DETAIL: (caseId: number) => `/source/unallocated/${caseId}`,
     SEARCH: '/case/source/search',
     CASE_TIMELINE: (caseId: number) => `/case/source/${caseId}/timeline`,
+    CASE_TAGS: (caseId: number) => `/case/source/${caseId}/tags`,
     REPORTS_INTAKE: '/case/source/reports/intake',
     REPORTS_UNALLOCATED: '/case/source/reports/unallocated',
   },
@@ -21,6 +21,12 @@ export const config = {
     refreshTokenKey: 'app_refresh_token',
     sessionIdKey: 'app_session_id',
     userKey: 'app_user',
+    workQueueKey: 'app_work_queue',
+    queueWeightsKey: 'app_queue_weights',
+    repaymentQueueKey: 'app_repayment_queue',
+    caseMappingProfilesKey: 'app_case_mapping_profiles',
+    dashboardLayoutKey: 'app_dashboard_layout',
+    savedCaseSearchesKey: 'app_saved_case_searches',
   },
 } as const
 
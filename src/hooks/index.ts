@@ -6,3 +6,6 @@ export { useAuth } from './useAuth'
 export { useLocalStorage } from './useLocalStorage'
 export { useDebounce } from './useDebounce'
 export { useToggle } from './useToggle'
+export { usePermission } from './usePermission'
+export { useOfflineQueue } from './useOfflineQueue'
+export { useSavedSearches } from './useSavedSearches'
@@ -5,17 +5,26 @@
 
 import { useState, useEffect } from 'react'
 
+const readValue = <T>(key: string, initialValue: T): T => {
+  try {
+    const item = window.localStorage.getItem(key)
+    return item ? JSON.parse(item) : initialValue
+  } catch (error) {
+    console.error('Error reading from localStorage:', error)
+    return initialValue
+  }
+}
+
 export function useLocalStorage<T>(key: string, initialValue: T) {
   // State to store our value
-  const [storedValue, setStoredValue] = useState<T>(() => {
-    try {
-      const item = window.localStorage.getItem(key)
-      return item ? JSON.parse(item) : initialValue
-    } catch (error) {
-      console.error('Error reading from localStorage:', error)
-      return initialValue
-    }
-  })
+  const [storedValue, setStoredValue] = useState<T>(() => readValue(key, initialValue))
+  const [storedKey, setStoredKey] = useState(key)
+
+  // Key changed (e.g. a per-user key after login): load the new key's value before it is written back
+  if (storedKey !== key) {
+    setStoredKey(key)
+    setStoredValue(readValue(key, initialValue))
+  }
 
   // Update localStorage when state changes
   useEffect(() => {
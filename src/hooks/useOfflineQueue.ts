@@ -0,0 +1,19 @@
+/**
+ * Offline queue hook
+ * Capture repayments that survive a dropped connection and track what is still unsynced
+ */
+
+import { useContext } from 'react'
+import { OfflineQueueContext } from '@store/OfflineQueueContext'
+
+export const useOfflineQueue = () => {
+  const context = useContext(OfflineQueueContext)
+
+  if (!context) {
+    throw new Error('useOfflineQueue must be used within an OfflineQueueProvider')
+  }
+
+  return context
+}
+
+export default useOfflineQueue
@@ -0,0 +1,38 @@
+/**
+ * Permission hook
+ * Checks the signed-in user's permissions and route access
+ */
+
+import { useCallback, useMemo } from 'react'
+import { useAuth } from './useAuth'
+import { getUserPermissions, isSuperUser } from '@utils/permissions'
+import { ROUTE_PERMISSIONS } from '@config/constants'
+
+export function usePermission() {
+  const { user } = useAuth()
+
+  const permissions = useMemo(() => getUserPermissions(user), [user])
+  const superUser = useMemo(() => isSuperUser(user), [user])
+
+  const hasPermission = useCallback(
+    (permission: string) => !!user && (superUser || permissions.has(permission)),
+    [user, superUser, permissions]
+  )
+
+  const hasAnyPermission = useCallback(
+    (required: string[]) => required.some((permission) => hasPermission(permission)),
+    [hasPermission]
+  )
+
+  const canAccessRoute = useCallback(
+    (path: string) => {
+      const required = ROUTE_PERMISSIONS[path]
+      return !required || hasPermission(required)
+    },
+    [hasPermission]
+  )
+
+  return { permissions, hasPermission, hasAnyPermission, canAccessRoute }
+}
+
+export default usePermission
@@ -0,0 +1,19 @@
+/**
+ * Saved searches hook
+ * Save, pin and schedule case searches, and see how many new cases they picked up
+ */
+
+import { useContext } from 'react'
+import { SavedSearchContext } from '@store/SavedSearchContext'
+
+export const useSavedSearches = () => {
+  const context = useContext(SavedSearchContext)
+
+  if (!context) {
+    throw new Error('useSavedSearches must be used within a SavedSearchProvider')
+  }
+
+  return context
+}
+
+export default useSavedSearches
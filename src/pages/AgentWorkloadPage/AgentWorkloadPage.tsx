@@ -1,12 +1,18 @@
 /**
  * Agent Workload Page
  * Dashboard for viewing and managing agent workloads
+ * Capacity reflects each agent's leave, half-days and training on the chosen day
  */
 
 import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { allocationService } from '@services/api'
+import { useAgentAvailability } from '@services/queries'
+import { getAvailabilityTypeLabel, shiftDateKey, todayKey } from '@utils'
 import type { AgentWorkload } from '@types'
+import { withEffectiveCapacity } from './agentCapacity'
+import { AgentAvailabilityCalendar } from './components/AgentAvailabilityCalendar'
+import { ExtendedLeavePanel } from './components/ExtendedLeavePanel'
 import './AgentWorkloadPage.css'
 
 const GEOGRAPHIES = [
@@ -27,6 +33,15 @@ export function AgentWorkloadPage() {
   const [searchQuery, setSearchQuery] = useState('')
   const [sortBy, setSortBy] = useState<'utilization' | 'capacity' | 'name'>('utilization')
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc')
+  const [successMessage, setSuccessMessage] = useState('')
+  const [capacityDate, setCapacityDate] = useState(todayKey)
+  const [calendarAgent, setCalendarAgent] = useState<AgentWorkload | null>(null)
+
+  // A window around the day, so leave that started earlier or runs on is seen whole
+  const { data: availability = [] } = useAgentAvailability(
+    shiftDateKey(capacityDate, -60),
+    shiftDateKey(capacityDate, 60)
+  )
 
   const fetchAgents = useCallback(async () => {
     try {
@@ -48,7 +63,9 @@ export function AgentWorkloadPage() {
     fetchAgents()
   }, [fetchAgents])
 
-  const filteredAgents = agents
+  const effectiveAgents = withEffectiveCapacity(agents, availability, capacityDate)
+
+  const filteredAgents = effectiveAgents
     .filter((agent) => {
       if (searchQuery) {
         return agent.agentName.toLowerCase().includes(searchQuery.toLowerCase())
@@ -59,10 +76,10 @@ export function AgentWorkloadPage() {
       let comparison = 0
       switch (sortBy) {
         case 'utilization':
-          comparison = a.utilizationPercentage - b.utilizationPercentage
+          comparison = a.effectiveUtilization - b.effectiveUtilization
           break
         case 'capacity':
-          comparison = a.capacity - b.capacity
+          comparison = a.effectiveCapacity - b.effectiveCapacity
           break
         case 'name':
           comparison = a.agentName.localeCompare(b.agentName)
@@ -85,12 +102,13 @@ export function AgentWorkloadPage() {
     return 'Low'
   }
 
-  const totalCapacity = agents.reduce((sum, a) => sum + a.capacity, 0)
-  const totalAllocated = agents.reduce((sum, a) => sum + a.activeAllocations, 0)
-  const avgUtilization = agents.length > 0
-    ? agents.reduce((sum, a) => sum + a.utilizationPercentage, 0) / agents.length
+  const totalCapacity = effectiveAgents.reduce((sum, a) => sum + a.effectiveCapacity, 0)
+  const totalAllocated = effectiveAgents.reduce((sum, a) => sum + a.activeAllocations, 0)
+  const avgUtilization = effectiveAgents.length > 0
+    ? effectiveAgents.reduce((sum, a) => sum + a.effectiveUtilization, 0) / effectiveAgents.length
     : 0
-  const criticalAgents = agents.filter((a) => a.utilizationPercentage >= 90).length
+  const criticalAgents = effectiveAgents.filter((a) => a.effectiveUtilization >= 90).length
+  const awayAgents = effectiveAgents.filter((a) => a.availability).length
 
   return (
     <div className="workload-page">
@@ -110,13 +128,30 @@ export function AgentWorkloadPage() {
         </div>
       </div>
 
-      {/* Error Alert */}
+      {/* Alerts */}
       {error && (
         <div className="alert alert--error">
           <span>{error}</span>
           <button onClick={() => setError('')}>Dismiss</button>
         </div>
       )}
+      {successMessage && (
+        <div className="alert alert--success">
+          <span>{successMessage}</span>
+          <button onClick={() => setSuccessMessage('')}>Dismiss</button>
+        </div>
+      )}
+
+      <ExtendedLeavePanel
+        agents={effectiveAgents}
+        availability={availability}
+        dateKey={capacityDate}
+        onReallocated={(message) => {
+          setSuccessMessage(message)
+          fetchAgents()
+        }}
+        onError={setError}
+      />
 
       {/* Stats Grid */}
       <div className="workload-stats-grid">
@@ -141,7 +176,9 @@ export function AgentWorkloadPage() {
           </div>
           <div className="workload-stat-card__content">
             <div className="workload-stat-card__value">{totalAllocated}/{totalCapacity}</div>
-            <div className="workload-stat-card__label">Allocated/Capacity</div>
+            <div className="workload-stat-card__label">
+              Allocated/Capacity{awayAgents > 0 ? ` (${awayAgents} away)` : ''}
+            </div>
           </div>
         </div>
 
@@ -186,6 +223,15 @@ export function AgentWorkloadPage() {
         </div>
 
         <div className="filter-group">
+          <label className="capacity-date">
+            <span>Capacity on</span>
+            <input
+              type="date"
+              value={capacityDate}
+              onChange={(e) => setCapacityDate(e.target.value || todayKey())}
+            />
+          </label>
+
           <select
             className="filter-select"
             value={selectedGeography}
@@ -246,18 +292,26 @@ export function AgentWorkloadPage() {
                 <div className="agent-row__details">
                   <h3 className="agent-row__name">{agent.agentName}</h3>
                   <span className="agent-row__geography">{agent.geography}</span>
+                  {agent.availability && (
+                    <span
+                      className={`availability-tag availability-tag--${agent.availability.type.toLowerCase()}`}
+                      title={agent.availability.note}
+                    >
+                      {getAvailabilityTypeLabel(agent.availability.type)}
+                    </span>
+                  )}
                 </div>
               </div>
 
               <div className="agent-row__progress">
                 <div className="agent-row__progress-info">
                   <span className="agent-row__progress-label">Utilization</span>
-                  <span className="agent-row__progress-value">{agent.utilizationPercentage.toFixed(0)}%</span>
+                  <span className="agent-row__progress-value">{agent.effectiveUtilization.toFixed(0)}%</span>
                 </div>
                 <div className="agent-row__progress-bar">
                   <div
-                    className={`agent-row__progress-fill ${getUtilizationClass(agent.utilizationPercentage)}`}
-                    style={{ width: `${Math.min(agent.utilizationPercentage, 100)}%` }}
+                    className={`agent-row__progress-fill ${getUtilizationClass(agent.effectiveUtilization)}`}
+                    style={{ width: `${Math.min(agent.effectiveUtilization, 100)}%` }}
                   />
                 </div>
               </div>
@@ -267,23 +321,35 @@ export function AgentWorkloadPage() {
                   <span className="agent-row__stat-value">{agent.activeAllocations}</span>
                   <span className="agent-row__stat-label">Active</span>
                 </div>
-                <div className="agent-row__stat">
-                  <span className="agent-row__stat-value">{agent.capacity}</span>
+                <div
+                  className="agent-row__stat"
+                  title={agent.availability ? `Normal capacity ${agent.capacity}` : undefined}
+                >
+                  <span className="agent-row__stat-value">{agent.effectiveCapacity}</span>
                   <span className="agent-row__stat-label">Capacity</span>
                 </div>
                 <div className="agent-row__stat">
-                  <span className="agent-row__stat-value">{agent.availableCapacity}</span>
+                  <span className="agent-row__stat-value">{agent.effectiveAvailableCapacity}</span>
                   <span className="agent-row__stat-label">Available</span>
                 </div>
               </div>
 
-              <span className={`utilization-badge ${getUtilizationClass(agent.utilizationPercentage)}`}>
-                {getUtilizationLabel(agent.utilizationPercentage)}
+              <span className={`utilization-badge ${getUtilizationClass(agent.effectiveUtilization)}`}>
+                {getUtilizationLabel(agent.effectiveUtilization)}
               </span>
+
+              <button className="btn-calendar" onClick={() => setCalendarAgent(agent)} title="Availability calendar">
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <rect x="3" y="4" width="18" height="18" rx="2" stroke="currentColor" strokeWidth="2"/>
+                  <path d="M16 2V6M8 2V6M3 10H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round"/>
+                </svg>
+              </button>
             </div>
           ))}
         </div>
       )}
+
+      <AgentAvailabilityCalendar agent={calendarAgent} onClose={() => setCalendarAgent(null)} />
     </div>
   )
 }
@@ -0,0 +1,73 @@
+/**
+ * Agent Capacity
+ * Workload figures adjusted for each agent's leave, half-days and training on a chosen day
+ */
+
+import { getAvailabilityOn, getEffectiveCapacity, isOnExtendedLeave } from '@utils'
+import type { AgentAvailability, AgentWorkload } from '@types'
+
+export interface EffectiveWorkload extends AgentWorkload {
+  effectiveCapacity: number
+  effectiveAvailableCapacity: number
+  effectiveUtilization: number
+  // Leave, half-day or training on the day, if any
+  availability?: AgentAvailability
+}
+
+/**
+ * Recalculate capacity and utilization for the day
+ * An agent with no capacity that day but open cases counts as fully utilized.
+ */
+export function withEffectiveCapacity(
+  agents: AgentWorkload[],
+  availability: AgentAvailability[],
+  dateKey: string
+): EffectiveWorkload[] {
+  return agents.map((agent) => {
+    const entry = getAvailabilityOn(availability, agent.agentId, dateKey)
+    if (!entry) {
+      return {
+        ...agent,
+        effectiveCapacity: agent.capacity,
+        effectiveAvailableCapacity: agent.availableCapacity,
+        effectiveUtilization: agent.utilizationPercentage,
+      }
+    }
+
+    const effectiveCapacity = getEffectiveCapacity(agent.capacity, availability, agent.agentId, dateKey)
+    return {
+      ...agent,
+      availability: entry,
+      effectiveCapacity,
+      effectiveAvailableCapacity: Math.max(effectiveCapacity - agent.activeAllocations, 0),
+      effectiveUtilization:
+        effectiveCapacity > 0
+          ? (agent.activeAllocations / effectiveCapacity) * 100
+          : agent.activeAllocations > 0 ? 100 : 0,
+    }
+  })
+}
+
+/**
+ * Agent best placed to take over another's cases on the day: not away, not on extended leave,
+ * most spare capacity, same geography first
+ */
+export function suggestReallocationTarget(
+  from: EffectiveWorkload,
+  agents: EffectiveWorkload[],
+  availability: AgentAvailability[],
+  dateKey: string
+): EffectiveWorkload | undefined {
+  return agents
+    .filter(
+      (agent) =>
+        agent.agentId !== from.agentId &&
+        agent.effectiveAvailableCapacity > 0 &&
+        !isOnExtendedLeave(availability, agent.agentId, dateKey)
+    )
+    .sort(
+      (a, b) =>
+        Number(b.geography === from.geography) - Number(a.geography === from.geography) ||
+        b.effectiveAvailableCapacity - a.effectiveAvailableCapacity
+    )[0]
+}
@@ -0,0 +1,262 @@
+/**
+ * Agent Availability Calendar
+ * Month view of one agent's leave, half-days and training days, with adding and removing entries
+ */
+
+import { useState } from 'react'
+import {
+  addMonths,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  parseISO,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+import { Modal } from '@components/common/Modal'
+import { useAgentAvailability, useCreateAgentAvailability, useDeleteAgentAvailability } from '@services/queries'
+import {
+  AVAILABILITY_TYPES,
+  cn,
+  getAvailabilityOn,
+  getAvailabilityTypeLabel,
+  getEffectiveCapacity,
+  toDateKey,
+  todayKey,
+} from '@utils'
+import type { AgentWorkload, AvailabilityType } from '@types'
+
+interface AgentAvailabilityCalendarProps {
+  agent: AgentWorkload | null
+  onClose: () => void
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+const EMPTY_FORM = {
+  type: 'LEAVE' as AvailabilityType,
+  startDate: '',
+  endDate: '',
+  note: '',
+}
+
+export function AgentAvailabilityCalendar({ agent, onClose }: AgentAvailabilityCalendarProps) {
+  const [month, setMonth] = useState(() => startOfMonth(new Date()))
+  const [form, setForm] = useState(EMPTY_FORM)
+  const [error, setError] = useState('')
+
+  const monthStart = toDateKey(startOfMonth(month))
+  const monthEnd = toDateKey(endOfMonth(month))
+  const { data: entries = [], isLoading } = useAgentAvailability(
+    agent ? monthStart : '',
+    agent ? monthEnd : '',
+    agent ? [agent.agentId] : []
+  )
+  const createAvailability = useCreateAgentAvailability()
+  const deleteAvailability = useDeleteAgentAvailability()
+
+  const days = eachDayOfInterval({
+    start: startOfWeek(startOfMonth(month), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(month), { weekStartsOn: 1 }),
+  })
+
+  const handleClose = () => {
+    setForm(EMPTY_FORM)
+    setError('')
+    setMonth(startOfMonth(new Date()))
+    onClose()
+  }
+
+  const handleDayClick = (dateKey: string) => {
+    setError('')
+    // A second click later in the month extends the range; otherwise start a new one
+    if (form.startDate && form.startDate === form.endDate && dateKey > form.startDate) {
+      setForm({ ...form, endDate: dateKey })
+    } else {
+      setForm({ ...form, startDate: dateKey, endDate: dateKey })
+    }
+  }
+
+  const handleAdd = async () => {
+    if (!agent) return
+    if (!form.startDate || !form.endDate) {
+      setError('Pick a start and end date')
+      return
+    }
+    if (form.endDate < form.startDate) {
+      setError('End date cannot be before the start date')
+      return
+    }
+    const overlapping = entries.find((entry) => entry.startDate <= form.endDate && form.startDate <= entry.endDate)
+    if (overlapping) {
+      setError(
+        `Overlaps ${getAvailabilityTypeLabel(overlapping.type).toLowerCase()} from ${overlapping.startDate} ` +
+          `to ${overlapping.endDate}; remove it first`
+      )
+      return
+    }
+
+    try {
+      setError('')
+      await createAvailability.mutateAsync({
+        agentId: agent.agentId,
+        type: form.type,
+        startDate: form.startDate,
+        endDate: form.endDate,
+        note: form.note.trim() || undefined,
+      })
+      setForm({ ...EMPTY_FORM, type: form.type })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save availability')
+    }
+  }
+
+  const handleDelete = async (availabilityId: number) => {
+    try {
+      setError('')
+      await deleteAvailability.mutateAsync(availabilityId)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove availability')
+    }
+  }
+
+  const today = todayKey()
+
+  return (
+    <Modal
+      isOpen={!!agent}
+      onClose={handleClose}
+      title={agent ? `Availability: ${agent.agentName}` : 'Availability'}
+      size="lg"
+    >
+      {agent && (
+        <div className="availability-calendar">
+          <div className="availability-calendar__nav">
+            <button className="btn-secondary" onClick={() => setMonth(addMonths(month, -1))}>
+              Previous
+            </button>
+            <span className="availability-calendar__month">{format(month, 'MMMM yyyy')}</span>
+            <button className="btn-secondary" onClick={() => setMonth(addMonths(month, 1))}>
+              Next
+            </button>
+          </div>
+
+          <div className="availability-calendar__grid">
+            {WEEKDAYS.map((weekday) => (
+              <div key={weekday} className="availability-calendar__weekday">
+                {weekday}
+              </div>
+            ))}
+            {days.map((day) => {
+              const dateKey = toDateKey(day)
+              const entry = getAvailabilityOn(entries, agent.agentId, dateKey)
+              const isSelected = !!form.startDate && form.startDate <= dateKey && dateKey <= form.endDate
+
+              return (
+                <button
+                  key={dateKey}
+                  className={cn(
+                    'availability-day',
+                    !isSameMonth(day, month) && 'availability-day--outside',
+                    dateKey === today && 'availability-day--today',
+                    entry && `availability-day--${entry.type.toLowerCase()}`,
+                    isSelected && 'availability-day--selected'
+                  )}
+                  onClick={() => handleDayClick(dateKey)}
+                  title={
+                    entry
+                      ? `${getAvailabilityTypeLabel(entry.type)}${entry.note ? `: ${entry.note}` : ''} ` +
+                        `(capacity ${getEffectiveCapacity(agent.capacity, entries, agent.agentId, dateKey)} ` +
+                        `of ${agent.capacity})`
+                      : undefined
+                  }
+                >
+                  <span className="availability-day__number">{format(day, 'd')}</span>
+                  {entry && <span className="availability-day__type">{getAvailabilityTypeLabel(entry.type)}</span>}
+                </button>
+              )
+            })}
+          </div>
+
+          <div className="availability-form">
+            <select
+              className="filter-select"
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as AvailabilityType })}
+            >
+              {AVAILABILITY_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="date"
+              className="availability-form__input"
+              value={form.startDate}
+              onChange={(e) => setForm({ ...form, startDate: e.target.value })}
+              aria-label="Start date"
+            />
+            <input
+              type="date"
+              className="availability-form__input"
+              value={form.endDate}
+              min={form.startDate || undefined}
+              onChange={(e) => setForm({ ...form, endDate: e.target.value })}
+              aria-label="End date"
+            />
+            <input
+              type="text"
+              className="availability-form__input availability-form__note"
+              placeholder="Note (optional)"
+              value={form.note}
+              onChange={(e) => setForm({ ...form, note: e.target.value })}
+            />
+            <button className="btn-primary" onClick={handleAdd} disabled={createAvailability.isPending}>
+              {createAvailability.isPending ? 'Saving...' : 'Add'}
+            </button>
+          </div>
+          {error && <div className="availability-calendar__error">{error}</div>}
+
+          <div className="availability-list">
+            <h4>This month</h4>
+            {isLoading ? (
+              <div className="availability-list__empty">Loading...</div>
+            ) : entries.length === 0 ? (
+              <div className="availability-list__empty">No leave, half-days or training this month.</div>
+            ) : (
+              entries
+                .slice()
+                .sort((a, b) => a.startDate.localeCompare(b.startDate))
+                .map((entry) => (
+                  <div key={entry.id} className="availability-list__item">
+                    <span className={`availability-tag availability-tag--${entry.type.toLowerCase()}`}>
+                      {getAvailabilityTypeLabel(entry.type)}
+                    </span>
+                    <span className="availability-list__dates">
+                      {entry.startDate === entry.endDate
+                        ? format(parseISO(entry.startDate), 'dd MMM yyyy')
+                        : `${format(parseISO(entry.startDate), 'dd MMM')} - ` +
+                          format(parseISO(entry.endDate), 'dd MMM yyyy')}
+                    </span>
+                    {entry.note && <span className="availability-list__note">{entry.note}</span>}
+                    <button
+                      className="availability-list__remove"
+                      onClick={() => handleDelete(entry.id)}
+                      disabled={deleteAvailability.isPending}
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  )
+}
+
+export default AgentAvailabilityCalendar
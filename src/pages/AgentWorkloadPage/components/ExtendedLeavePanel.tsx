@@ -0,0 +1,118 @@
+/**
+ * Extended Leave Panel
+ * Flags agents on extended leave who still hold cases and reallocates their cases
+ * to a suggested colleague through the reallocation service.
+ */
+
+import { useState } from 'react'
+import { parseISO } from 'date-fns'
+import { useReallocateByAgent } from '@services/queries'
+import { EXTENDED_LEAVE_DAYS, formatDate, getLeaveSpan, isOnExtendedLeave } from '@utils'
+import type { AgentAvailability } from '@types'
+import { suggestReallocationTarget, type EffectiveWorkload } from '../agentCapacity'
+
+interface ExtendedLeavePanelProps {
+  agents: EffectiveWorkload[]
+  availability: AgentAvailability[]
+  dateKey: string
+  onReallocated: (message: string) => void
+  onError: (message: string) => void
+}
+
+export function ExtendedLeavePanel({
+  agents,
+  availability,
+  dateKey,
+  onReallocated,
+  onError,
+}: ExtendedLeavePanelProps) {
+  const reallocate = useReallocateByAgent()
+  // Target picked by the user per agent on leave; falls back to the suggestion
+  const [targets, setTargets] = useState<Record<number, string>>({})
+  const [pendingAgentId, setPendingAgentId] = useState<number | null>(null)
+
+  const flagged = agents.filter(
+    (agent) => agent.activeAllocations > 0 && isOnExtendedLeave(availability, agent.agentId, dateKey)
+  )
+  if (flagged.length === 0) return null
+
+  const handleReallocate = async (agent: EffectiveWorkload, toAgentId: string) => {
+    const span = getLeaveSpan(availability, agent.agentId, dateKey)
+    const target = agents.find((other) => other.agentId.toString() === toAgentId)
+    try {
+      setPendingAgentId(agent.agentId)
+      const result = await reallocate.mutateAsync({
+        fromAgent: agent.agentId.toString(),
+        toAgent: toAgentId,
+        reason: span ? `Extended leave ${span.startDate} to ${span.endDate}` : 'Extended leave',
+      })
+      const count = result.casesReallocated ?? result.totalReallocated ?? agent.activeAllocations
+      onReallocated(`${count} cases of ${agent.agentName} reallocated to ${target?.agentName || 'the selected agent'}`)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'Failed to reallocate cases')
+    } finally {
+      setPendingAgentId(null)
+    }
+  }
+
+  return (
+    <div className="extended-leave">
+      <div className="extended-leave__header">
+        <h3 className="extended-leave__title">
+          {flagged.length} agent{flagged.length === 1 ? '' : 's'} on extended leave with open cases
+        </h3>
+        <p className="extended-leave__subtitle">
+          Leave of {EXTENDED_LEAVE_DAYS} or more days in a row. Reallocate their cases so customers are not left
+          without an owner.
+        </p>
+      </div>
+
+      <div className="extended-leave__list">
+        {flagged.map((agent) => {
+          const span = getLeaveSpan(availability, agent.agentId, dateKey)
+          const suggestion = suggestReallocationTarget(agent, agents, availability, dateKey)
+          const toAgentId = targets[agent.agentId] ?? suggestion?.agentId.toString() ?? ''
+
+          return (
+            <div key={agent.agentId} className="extended-leave__item">
+              <div className="extended-leave__agent">
+                <span className="extended-leave__name">{agent.agentName}</span>
+                <span className="extended-leave__meta">
+                  {span &&
+                    `${formatDate(parseISO(span.startDate), 'dd MMM')} - ` +
+                      `${formatDate(parseISO(span.endDate), 'dd MMM yyyy')}`}
+                  {span && ` (${span.days} days)`} | {agent.activeAllocations} open cases
+                </span>
+              </div>
+              <select
+                className="filter-select"
+                value={toAgentId}
+                onChange={(e) => setTargets({ ...targets, [agent.agentId]: e.target.value })}
+                disabled={pendingAgentId !== null}
+              >
+                <option value="">Select agent</option>
+                {agents
+                  .filter((other) => other.agentId !== agent.agentId)
+                  .map((other) => (
+                    <option key={other.agentId} value={other.agentId}>
+                      {`${other.agentName} (${other.effectiveAvailableCapacity} free)` +
+                        (other.agentId === suggestion?.agentId ? ' - suggested' : '')}
+                    </option>
+                  ))}
+              </select>
+              <button
+                className="btn-primary"
+                onClick={() => handleReallocate(agent, toAgentId)}
+                disabled={!toAgentId || pendingAgentId !== null}
+              >
+                {pendingAgentId === agent.agentId ? 'Reallocating...' : 'Reallocate Cases'}
+              </button>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+export default ExtendedLeavePanel
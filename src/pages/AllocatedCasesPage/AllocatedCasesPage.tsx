@@ -6,6 +6,7 @@
 import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { allocationService } from '@services/api'
+import { ROUTES } from '@config/constants'
 import type { AllocatedCase } from '@types'
 import './AllocatedCasesPage.css'
 
@@ -183,7 +184,7 @@ export function AllocatedCasesPage() {
                       <div className="table-actions">
                         <button
                           className="btn-icon"
-                          onClick={() => navigate(`/case-sourcing/cases/${caseItem.caseId}`)}
+                          onClick={() => navigate(ROUTES.CASE_DETAIL.replace(':caseId', String(caseItem.caseId)))}
                           title="View Case Details"
                         >
                           <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
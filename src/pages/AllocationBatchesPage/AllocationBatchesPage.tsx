@@ -3,43 +3,31 @@
  * View and manage batch history
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { allocationService } from '@services/api'
-import type { AllocationBatch } from '@types'
+import { useAllocationBatches } from '@services/queries'
 import './AllocationBatchesPage.css'
 
 export function AllocationBatchesPage() {
   const navigate = useNavigate()
-  const [batches, setBatches] = useState<AllocationBatch[]>([])
-  const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
   const [statusFilter, setStatusFilter] = useState('')
   const [startDate, setStartDate] = useState('')
   const [endDate, setEndDate] = useState('')
 
-  const fetchBatches = useCallback(async () => {
-    try {
-      setIsLoading(true)
-      setError('')
-      const data = await allocationService.getBatches({
-        status: statusFilter || undefined,
-        startDate: startDate || undefined,
-        endDate: endDate || undefined,
-        page: 0,
-        size: 50,
-      })
-      setBatches(data)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch batches')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [statusFilter, startDate, endDate])
-
-  useEffect(() => {
-    fetchBatches()
-  }, [fetchBatches])
+  const {
+    data: batches = [],
+    isLoading,
+    error: fetchError,
+    refetch,
+  } = useAllocationBatches({
+    status: statusFilter || undefined,
+    startDate: startDate || undefined,
+    endDate: endDate || undefined,
+    page: 0,
+    size: 50,
+  })
 
   const handleExport = async (batchId: string) => {
     try {
@@ -119,12 +107,17 @@ export function AllocationBatchesPage() {
       </div>
 
       {/* Error Alert */}
-      {error && (
+      {error ? (
         <div className="alert alert--error">
           <span>{error}</span>
           <button onClick={() => setError('')}>Dismiss</button>
         </div>
-      )}
+      ) : fetchError ? (
+        <div className="alert alert--error">
+          <span>{fetchError.message || 'Failed to fetch batches'}</span>
+          <button onClick={() => refetch()}>Retry</button>
+        </div>
+      ) : null}
 
       {/* Filters */}
       <div className="batches-filters">
@@ -153,7 +146,7 @@ export function AllocationBatchesPage() {
           onChange={(e) => setEndDate(e.target.value)}
           placeholder="End Date"
         />
-        <button className="btn-secondary" onClick={fetchBatches}>
+        <button className="btn-secondary" onClick={() => refetch()}>
           Apply Filters
         </button>
       </div>
@@ -4,18 +4,28 @@
  * Shows compact list view with navigation to rule details
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useMemo, useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { allocationService } from '@services/api'
+import { useAllocationRules, useApplyRule, useDeleteRule, useReorderRules } from '@services/queries'
 import { Modal } from '@components/common/Modal'
 import { AllocationRuleWizard } from './components/AllocationRuleWizard'
+import { RuleConflictsPanel } from './components/RuleConflictsPanel'
+import { RuleDryRunModal } from './components/RuleDryRunModal'
+import { getRuleTypeBadgeClass, getRuleTypeLabel, usesAgentCapacity } from './allocationRules'
+import { analyzeRuleConflicts, isRuleLive, sortRulesByPriority, type RuleConflict } from './ruleConflicts'
+import { Can } from '@components/common'
+import { PERMISSIONS } from '@config/constants'
+import { todayKey } from '@utils'
 import type { AllocationRule, RuleSimulationResult } from '@types'
 import './AllocationRulesPage.css'
 
 export function AllocationRulesPage() {
   const navigate = useNavigate()
-  const [rules, setRules] = useState<AllocationRule[]>([])
-  const [isLoading, setIsLoading] = useState(true)
+  const { data: rules = [], isLoading, error: fetchError, refetch: refetchRules } = useAllocationRules()
+  const applyRule = useApplyRule()
+  const deleteRule = useDeleteRule()
+  const reorderRules = useReorderRules()
   const [error, setError] = useState('')
   const [successMessage, setSuccessMessage] = useState('')
 
@@ -27,29 +37,45 @@ export function AllocationRulesPage() {
   const [selectedRule, setSelectedRule] = useState<AllocationRule | null>(null)
   const [simulationResult, setSimulationResult] = useState<RuleSimulationResult | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [isDryRunOpen, setIsDryRunOpen] = useState(false)
+  // Day whose effective agent capacity an applied rule uses
+  const [targetDate, setTargetDate] = useState(todayKey)
+
+  // Unsaved rule order (rule ids, first runs first); null when showing the saved order
+  const [draftOrder, setDraftOrder] = useState<number[] | null>(null)
+  const [draggedRuleId, setDraggedRuleId] = useState<number | null>(null)
+
+  const savedOrder = useMemo(() => sortRulesByPriority(rules), [rules])
+
+  // Rules as they would run, with priorities renumbered to match an unsaved order
+  const orderedRules = useMemo(() => {
+    if (!draftOrder) return savedOrder
+    const byId = new Map(savedOrder.map((rule) => [rule.id, rule]))
+    const drafted = draftOrder.flatMap((ruleId) => byId.get(ruleId) || [])
+    // Rules created since the drag started go last
+    const added = savedOrder.filter((rule) => !draftOrder.includes(rule.id))
+    return [...drafted, ...added].map((rule, index) => ({ ...rule, priority: index + 1 }))
+  }, [draftOrder, savedOrder])
+
+  const liveRules = useMemo(() => orderedRules.filter(isRuleLive), [orderedRules])
+  const conflicts = useMemo(() => analyzeRuleConflicts(orderedRules), [orderedRules])
+  const conflictsByRule = useMemo(() => {
+    const grouped = new Map<number, RuleConflict[]>()
+    conflicts.forEach((conflict) => {
+      grouped.set(conflict.ruleId, [...(grouped.get(conflict.ruleId) || []), conflict])
+    })
+    return grouped
+  }, [conflicts])
+
+  const changedRules = draftOrder
+    ? orderedRules.filter((rule) => rule.priority !== rules.find((saved) => saved.id === rule.id)?.priority)
+    : []
 
   // Navigate to rule details page
   const handleRuleClick = (ruleId: number) => {
     navigate(`/allocation/rules/${ruleId}`)
   }
 
-  const fetchRules = useCallback(async () => {
-    try {
-      setIsLoading(true)
-      setError('')
-      const data = await allocationService.getRules()
-      setRules(data)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch rules')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [])
-
-  useEffect(() => {
-    fetchRules()
-  }, [fetchRules])
-
   const handleCreateRule = () => {
     setSelectedRule(null)
     setIsWizardOpen(true)
@@ -70,11 +96,10 @@ export function AllocationRulesPage() {
 
     try {
       setIsSubmitting(true)
-      await allocationService.deleteRule(selectedRule.id)
+      await deleteRule.mutateAsync(selectedRule.id)
       setIsDeleteModalOpen(false)
       setSelectedRule(null)
       setSuccessMessage('Rule deleted successfully')
-      fetchRules()
       setTimeout(() => setSuccessMessage(''), 3000)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete rule')
@@ -109,11 +134,13 @@ export function AllocationRulesPage() {
     try {
       setIsSubmitting(true)
       // Apply rule with empty body - agents are auto-detected by backend
-      const result = await allocationService.applyRule(selectedRule.id)
+      const result = await applyRule.mutateAsync({
+        ruleId: selectedRule.id,
+        targetDate: usesAgentCapacity(selectedRule.ruleType) ? targetDate : undefined,
+      })
       setIsApplyModalOpen(false)
       setSelectedRule(null)
       setSuccessMessage(`Rule applied successfully. ${result.totalCasesAllocated} cases allocated.`)
-      fetchRules() // Refresh to show updated status
       setTimeout(() => setSuccessMessage(''), 5000)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to apply rule')
@@ -122,38 +149,34 @@ export function AllocationRulesPage() {
     }
   }
 
-  const handleWizardSubmit = async () => {
-    setIsWizardOpen(false)
-    setSelectedRule(null)
-    setSuccessMessage(selectedRule ? 'Rule updated successfully' : 'Rule created successfully')
-    fetchRules()
-    setTimeout(() => setSuccessMessage(''), 3000)
+  const moveRule = (ruleId: number, toIndex: number) => {
+    const ids = orderedRules.map((rule) => rule.id)
+    const fromIndex = ids.indexOf(ruleId)
+    if (fromIndex === -1 || toIndex < 0 || toIndex >= ids.length || fromIndex === toIndex) return
+    ids.splice(fromIndex, 1)
+    ids.splice(toIndex, 0, ruleId)
+    setDraftOrder(ids)
   }
 
-  const getRuleTypeLabel = (type: string) => {
-    switch (type) {
-      case 'PERCENTAGE_SPLIT':
-        return 'Percentage Split'
-      case 'CAPACITY_BASED':
-        return 'Capacity Based'
-      case 'GEOGRAPHY':
-        return 'Geography'
-      default:
-        return type
+  const handleSaveOrder = async () => {
+    try {
+      await reorderRules.mutateAsync(
+        changedRules.map((rule) => ({ ruleId: rule.id, priority: rule.priority }))
+      )
+      setDraftOrder(null)
+      setSuccessMessage('Rule order saved')
+      setTimeout(() => setSuccessMessage(''), 3000)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule order')
     }
   }
 
-  const getRuleTypeBadgeClass = (type: string) => {
-    switch (type) {
-      case 'PERCENTAGE_SPLIT':
-        return 'badge--blue'
-      case 'CAPACITY_BASED':
-        return 'badge--purple'
-      case 'GEOGRAPHY':
-        return 'badge--green'
-      default:
-        return 'badge--default'
-    }
+  const handleWizardSubmit = async () => {
+    setIsWizardOpen(false)
+    setSelectedRule(null)
+    setSuccessMessage(selectedRule ? 'Rule updated successfully' : 'Rule created successfully')
+    refetchRules()
+    setTimeout(() => setSuccessMessage(''), 3000)
   }
 
   return (
@@ -173,22 +196,36 @@ export function AllocationRulesPage() {
               Create and manage rules for automatic case allocation
             </p>
           </div>
-          <button className="btn-primary" onClick={handleCreateRule}>
-            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-              <path d="M12 5V19M5 12H19" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-            </svg>
-            Create Rule
-          </button>
+          <div className="rules-header__actions">
+            <button className="btn-secondary" onClick={() => setIsDryRunOpen(true)} disabled={rules.length === 0}>
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
+                <polygon points="10,8 16,12 10,16" fill="currentColor"/>
+              </svg>
+              Dry Run All
+            </button>
+            <button className="btn-primary" onClick={handleCreateRule}>
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M12 5V19M5 12H19" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+              </svg>
+              Create Rule
+            </button>
+          </div>
         </div>
       </div>
 
       {/* Alerts */}
-      {error && (
+      {error ? (
         <div className="alert alert--error">
           <span>{error}</span>
           <button onClick={() => setError('')}>Dismiss</button>
         </div>
-      )}
+      ) : fetchError ? (
+        <div className="alert alert--error">
+          <span>{fetchError.message || 'Failed to fetch rules'}</span>
+          <button onClick={() => refetchRules()}>Retry</button>
+        </div>
+      ) : null}
       {successMessage && (
         <div className="alert alert--success">
           <span>{successMessage}</span>
@@ -217,98 +254,178 @@ export function AllocationRulesPage() {
             </button>
           </div>
         ) : (
-          <div className="rules-table-container">
-            <table className="rules-table">
-              <thead>
-                <tr>
-                  <th>Rule Name</th>
-                  <th>Type</th>
-                  <th>Status</th>
-                  <th>Actions</th>
-                </tr>
-              </thead>
-              <tbody>
-                {rules.map((rule) => (
-                  <tr key={rule.id} className="rule-row">
-                    <td>
-                      <button
-                        className="rule-name-link"
-                        onClick={() => handleRuleClick(rule.id)}
-                        title="View rule details"
-                      >
-                        {rule.name}
-                      </button>
-                    </td>
-                    <td>
-                      <span className={`badge ${getRuleTypeBadgeClass(rule.ruleType)}`}>
-                        {getRuleTypeLabel(rule.ruleType)}
-                      </span>
-                    </td>
-                    <td>
-                      <span className={`badge ${rule.status === 'ACTIVE' ? 'badge--success' : 'badge--default'}`}>
-                        {rule.status}
-                      </span>
-                    </td>
-                    <td>
-                      <div className="rule-actions">
-                        <button
-                          className="btn-action-icon btn-action--simulate"
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleSimulateClick(rule)
-                          }}
-                          title="Simulate"
-                        >
-                          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                            <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
-                            <polygon points="10,8 16,12 10,16" fill="currentColor"/>
-                          </svg>
-                        </button>
-                        <button
-                          className="btn-action-icon btn-action--apply"
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleApplyClick(rule)
-                          }}
-                          title="Apply"
-                        >
-                          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                            <path d="M9 12L11 14L15 10M21 12C21 16.9706 16.9706 21 12 21C7.02944 21 3 16.9706 3 12C3 7.02944 7.02944 3 12 3C16.9706 3 21 7.02944 21 12Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                          </svg>
-                        </button>
-                        <button
-                          className="btn-action-icon btn-action--edit"
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleEditRule(rule)
-                          }}
-                          title="Edit"
-                        >
-                          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                            <path d="M11 4H4C3.46957 4 2.96086 4.21071 2.58579 4.58579C2.21071 4.96086 2 5.46957 2 6V20C2 20.5304 2.21071 21.0391 2.58579 21.4142C2.96086 21.7893 3.46957 22 4 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V13" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                            <path d="M18.5 2.50001C18.8978 2.10219 19.4374 1.87869 20 1.87869C20.5626 1.87869 21.1022 2.10219 21.5 2.50001C21.8978 2.89784 22.1213 3.4374 22.1213 4.00001C22.1213 4.56262 21.8978 5.10219 21.5 5.50001L12 15L8 16L9 12L18.5 2.50001Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                          </svg>
-                        </button>
-                        <button
-                          className="btn-action-icon btn-action--delete"
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            handleDeleteClick(rule)
-                          }}
-                          title="Delete"
-                        >
-                          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                            <path d="M3 6H5H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                            <path d="M19 6V20C19 20.5304 18.7893 21.0391 18.4142 21.4142C18.0391 21.7893 17.5304 22 17 22H7C6.46957 22 5.96086 21.7893 5.58579 21.4142C5.21071 21.0391 5 20.5304 5 20V6M8 6V4C8 3.46957 8.21071 2.96086 8.58579 2.58579C8.96086 2.21071 9.46957 2 10 2H14C14.5304 2 15.0391 2.21071 15.4142 2.58579C15.7893 2.96086 16 3.46957 16 4V6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                          </svg>
-                        </button>
-                      </div>
-                    </td>
+          <>
+            {changedRules.length > 0 && (
+              <div className="rules-order-bar">
+                <span>
+                  Rule order changed. {changedRules.length} rule{changedRules.length === 1 ? '' : 's'} will get a new
+                  priority.
+                </span>
+                <div className="rules-order-bar__actions">
+                  <button
+                    className="btn-secondary"
+                    onClick={() => setDraftOrder(null)}
+                    disabled={reorderRules.isPending}
+                  >
+                    Reset
+                  </button>
+                  <button className="btn-primary" onClick={handleSaveOrder} disabled={reorderRules.isPending}>
+                    {reorderRules.isPending ? 'Saving...' : 'Save Order'}
+                  </button>
+                </div>
+              </div>
+            )}
+            <RuleConflictsPanel conflicts={conflicts} rules={orderedRules} />
+            <div className="rules-table-container">
+              <table className="rules-table">
+                <thead>
+                  <tr>
+                    <th className="rule-order-cell">Priority</th>
+                    <th>Rule Name</th>
+                    <th>Type</th>
+                    <th>Status</th>
+                    <th>Actions</th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
+                </thead>
+                <tbody>
+                  {orderedRules.map((rule, index) => {
+                    const ruleConflicts = conflictsByRule.get(rule.id) || []
+                    const isShadowed = ruleConflicts.some((conflict) => conflict.kind === 'SHADOWED')
+                    return (
+                      <tr
+                        key={rule.id}
+                        className={`rule-row${draggedRuleId === rule.id ? ' rule-row--dragging' : ''}`}
+                        draggable={!reorderRules.isPending}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move'
+                          e.dataTransfer.setData('text/plain', String(rule.id))
+                          setDraggedRuleId(rule.id)
+                        }}
+                        onDragOver={(e) => {
+                          if (draggedRuleId === null) return
+                          e.preventDefault()
+                          if (draggedRuleId !== rule.id) moveRule(draggedRuleId, index)
+                        }}
+                        onDrop={(e) => e.preventDefault()}
+                        onDragEnd={() => setDraggedRuleId(null)}
+                      >
+                        <td className="rule-order-cell">
+                          <div className="rule-order">
+                            <span className="rule-order__handle" title="Drag to reorder">
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M9 6H9.01M15 6H15.01M9 12H9.01M15 12H15.01M9 18H9.01M15 18H15.01" stroke="currentColor" strokeWidth="3" strokeLinecap="round"/>
+                              </svg>
+                            </span>
+                            <span className="rule-order__number">{rule.priority}</span>
+                            <div className="rule-order__moves">
+                              <button
+                                onClick={() => moveRule(rule.id, index - 1)}
+                                disabled={index === 0 || reorderRules.isPending}
+                                title="Move up"
+                              >
+                                ▲
+                              </button>
+                              <button
+                                onClick={() => moveRule(rule.id, index + 1)}
+                                disabled={index === orderedRules.length - 1 || reorderRules.isPending}
+                                title="Move down"
+                              >
+                                ▼
+                              </button>
+                            </div>
+                          </div>
+                        </td>
+                        <td>
+                          <button
+                            className="rule-name-link"
+                            onClick={() => handleRuleClick(rule.id)}
+                            title="View rule details"
+                          >
+                            {rule.name}
+                          </button>
+                          {ruleConflicts.length > 0 && (
+                            <span
+                              className={`rule-conflict-flag${isShadowed ? ' rule-conflict-flag--shadowed' : ''}`}
+                              title={ruleConflicts.map((conflict) => conflict.message).join('\n')}
+                            >
+                              {isShadowed ? 'Never fires' : 'Conflict'}
+                            </span>
+                          )}
+                        </td>
+                        <td>
+                          <span className={`badge ${getRuleTypeBadgeClass(rule.ruleType)}`}>
+                            {getRuleTypeLabel(rule.ruleType)}
+                          </span>
+                        </td>
+                        <td>
+                          <span className={`badge ${rule.status === 'ACTIVE' ? 'badge--success' : 'badge--default'}`}>
+                            {rule.status}
+                          </span>
+                        </td>
+                        <td>
+                          <div className="rule-actions">
+                            <button
+                              className="btn-action-icon btn-action--simulate"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                handleSimulateClick(rule)
+                              }}
+                              title="Simulate"
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
+                                <polygon points="10,8 16,12 10,16" fill="currentColor"/>
+                              </svg>
+                            </button>
+                            <button
+                              className="btn-action-icon btn-action--apply"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                handleApplyClick(rule)
+                              }}
+                              title="Apply"
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M9 12L11 14L15 10M21 12C21 16.9706 16.9706 21 12 21C7.02944 21 3 16.9706 3 12C3 7.02944 7.02944 3 12 3C16.9706 3 21 7.02944 21 12Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                              </svg>
+                            </button>
+                            <button
+                              className="btn-action-icon btn-action--edit"
+                              onClick={(e) => {
+                                e.stopPropagation()
+                                handleEditRule(rule)
+                              }}
+                              title="Edit"
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M11 4H4C3.46957 4 2.96086 4.21071 2.58579 4.58579C2.21071 4.96086 2 5.46957 2 6V20C2 20.5304 2.21071 21.0391 2.58579 21.4142C2.96086 21.7893 3.46957 22 4 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V13" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                                <path d="M18.5 2.50001C18.8978 2.10219 19.4374 1.87869 20 1.87869C20.5626 1.87869 21.1022 2.10219 21.5 2.50001C21.8978 2.89784 22.1213 3.4374 22.1213 4.00001C22.1213 4.56262 21.8978 5.10219 21.5 5.50001L12 15L8 16L9 12L18.5 2.50001Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                              </svg>
+                            </button>
+                            <Can permission={PERMISSIONS.ALLOCATION_RULE_DELETE}>
+                              <button
+                                className="btn-action-icon btn-action--delete"
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  handleDeleteClick(rule)
+                                }}
+                                title="Delete"
+                              >
+                                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                  <path d="M3 6H5H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                                  <path d="M19 6V20C19 20.5304 18.7893 21.0391 18.4142 21.4142C18.0391 21.7893 17.5304 22 17 22H7C6.46957 22 5.96086 21.7893 5.58579 21.4142C5.21071 21.0391 5 20.5304 5 20V6M8 6V4C8 3.46957 8.21071 2.96086 8.58579 2.58579C8.96086 2.21071 9.46957 2 10 2H14C14.5304 2 15.0391 2.21071 15.4142 2.58579C15.7893 2.96086 16 3.46957 16 4V6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                                </svg>
+                              </button>
+                            </Can>
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
         )}
       </div>
 
@@ -440,6 +557,9 @@ export function AllocationRulesPage() {
         </div>
       </Modal>
 
+      {/* Dry Run Modal */}
+      <RuleDryRunModal isOpen={isDryRunOpen} onClose={() => setIsDryRunOpen(false)} rules={liveRules} />
+
       {/* Apply Confirmation Modal */}
       <Modal
         isOpen={isApplyModalOpen}
@@ -458,6 +578,13 @@ export function AllocationRulesPage() {
           <p>
             This will apply the rule <strong>"{selectedRule?.name}"</strong> and allocate matching cases to agents.
           </p>
+          {selectedRule && usesAgentCapacity(selectedRule.ruleType) && (
+            <label className="apply-modal-date">
+              <span>Use agent capacity on</span>
+              <input type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value || todayKey())} />
+              <small>Leave, half-days and training on this day reduce each agent's capacity.</small>
+            </label>
+          )}
           <div className="apply-modal-actions">
             <button
               className="btn-secondary"
@@ -4,20 +4,39 @@
  * API: GET /allocations/rules/:ruleId
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { allocationService } from '@services/api'
+import { useAllocationRule, useAllocationRules, useApplyRule, useDeleteRule } from '@services/queries'
 import { Modal } from '@components/common/Modal'
 import { AllocationRuleWizard } from './components/AllocationRuleWizard'
-import type { AllocationRule, RuleSimulationResult } from '@types'
+import { SimulationWhatIf } from './components/SimulationWhatIf'
+import {
+  describeRuleCriteria,
+  getRuleTypeBadgeClass,
+  getRuleTypeDescription,
+  getRuleTypeLabel,
+  usesAgentCapacity,
+} from './allocationRules'
+import { Can } from '@components/common'
+import { PERMISSIONS } from '@config/constants'
+import { todayKey } from '@utils'
+import type { RuleSimulationResult } from '@types'
 import './RuleDetailsPage.css'
 
 export function RuleDetailsPage() {
   const navigate = useNavigate()
   const { ruleId } = useParams<{ ruleId: string }>()
 
-  const [rule, setRule] = useState<AllocationRule | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
+  const {
+    data: rule,
+    isLoading,
+    error: fetchError,
+    refetch: refetchRule,
+  } = useAllocationRule(ruleId ? Number(ruleId) : undefined)
+  const { data: allRules = [] } = useAllocationRules()
+  const applyRule = useApplyRule()
+  const deleteRule = useDeleteRule()
   const [error, setError] = useState('')
   const [successMessage, setSuccessMessage] = useState('')
 
@@ -28,25 +47,8 @@ export function RuleDetailsPage() {
   const [isApplyModalOpen, setIsApplyModalOpen] = useState(false)
   const [simulationResult, setSimulationResult] = useState<RuleSimulationResult | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
-
-  const fetchRule = useCallback(async () => {
-    if (!ruleId) return
-
-    try {
-      setIsLoading(true)
-      setError('')
-      const data = await allocationService.getRuleById(Number(ruleId))
-      setRule(data)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch rule details')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [ruleId])
-
-  useEffect(() => {
-    fetchRule()
-  }, [fetchRule])
+  // Day whose effective agent capacity the simulation and apply use
+  const [targetDate, setTargetDate] = useState(todayKey)
 
   const handleEditRule = () => {
     setIsWizardOpen(true)
@@ -61,7 +63,7 @@ export function RuleDetailsPage() {
 
     try {
       setIsSubmitting(true)
-      await allocationService.deleteRule(rule.id)
+      await deleteRule.mutateAsync(rule.id)
       setIsDeleteModalOpen(false)
       setSuccessMessage('Rule deleted successfully')
       setTimeout(() => {
@@ -74,13 +76,13 @@ export function RuleDetailsPage() {
     }
   }
 
-  const handleSimulateClick = async () => {
+  const handleSimulateClick = async (date = targetDate) => {
     if (!rule) return
 
     setIsSimulateModalOpen(true)
     try {
       setIsSubmitting(true)
-      const result = await allocationService.simulateRule(rule.id)
+      const result = await allocationService.simulateRule(rule.id, usesAgentCapacity(rule.ruleType) ? date : undefined)
       setSimulationResult(result)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to simulate rule')
@@ -100,10 +102,12 @@ export function RuleDetailsPage() {
     try {
       setIsSubmitting(true)
       // Apply rule with empty body - agents are auto-detected by backend
-      const result = await allocationService.applyRule(rule.id)
+      const result = await applyRule.mutateAsync({
+        ruleId: rule.id,
+        targetDate: usesAgentCapacity(rule.ruleType) ? targetDate : undefined,
+      })
       setIsApplyModalOpen(false)
       setSuccessMessage(`Rule applied successfully. ${result.totalCasesAllocated} cases allocated.`)
-      fetchRule() // Refresh to show updated status
       setTimeout(() => setSuccessMessage(''), 5000)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to apply rule')
@@ -115,36 +119,10 @@ export function RuleDetailsPage() {
   const handleWizardSubmit = async () => {
     setIsWizardOpen(false)
     setSuccessMessage('Rule updated successfully')
-    fetchRule()
+    refetchRule()
     setTimeout(() => setSuccessMessage(''), 3000)
   }
 
-  const getRuleTypeLabel = (type: string) => {
-    switch (type) {
-      case 'PERCENTAGE_SPLIT':
-        return 'Percentage Split'
-      case 'CAPACITY_BASED':
-        return 'Capacity Based'
-      case 'GEOGRAPHY':
-        return 'Geography'
-      default:
-        return type
-    }
-  }
-
-  const getRuleTypeBadgeClass = (type: string) => {
-    switch (type) {
-      case 'PERCENTAGE_SPLIT':
-        return 'badge--blue'
-      case 'CAPACITY_BASED':
-        return 'badge--purple'
-      case 'GEOGRAPHY':
-        return 'badge--green'
-      default:
-        return 'badge--default'
-    }
-  }
-
   const formatDateTime = (dateStr: string): string => {
     return new Date(dateStr).toLocaleString('en-US', {
       month: 'short',
@@ -166,7 +144,7 @@ export function RuleDetailsPage() {
     )
   }
 
-  if (error && !rule) {
+  if (fetchError && !rule) {
     return (
       <div className="rule-details-page">
         <div className="error-container">
@@ -174,7 +152,7 @@ export function RuleDetailsPage() {
             <path d="M12 9V13M12 17H12.01M21 12C21 16.9706 16.9706 21 12 21C7.02944 21 3 16.9706 3 12C3 7.02944 7.02944 3 12 3C16.9706 3 21 7.02944 21 12Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
           </svg>
           <h3>Failed to load rule</h3>
-          <p>{error}</p>
+          <p>{fetchError.message || 'Failed to fetch rule details'}</p>
           <button className="btn-primary" onClick={() => navigate('/allocation/rules')}>
             Back to Rules
           </button>
@@ -213,7 +191,7 @@ export function RuleDetailsPage() {
             )}
           </div>
           <div className="rule-details-header__actions">
-            <button className="btn-action btn-action--simulate" onClick={handleSimulateClick}>
+            <button className="btn-action btn-action--simulate" onClick={() => handleSimulateClick()}>
               <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                 <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
                 <polygon points="10,8 16,12 10,16" fill="currentColor"/>
@@ -233,13 +211,15 @@ export function RuleDetailsPage() {
               </svg>
               Edit
             </button>
-            <button className="btn-action btn-action--delete" onClick={handleDeleteClick}>
-              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                <path d="M3 6H5H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                <path d="M19 6V20C19 20.5304 18.7893 21.0391 18.4142 21.4142C18.0391 21.7893 17.5304 22 17 22H7C6.46957 22 5.96086 21.7893 5.58579 21.4142C5.21071 21.0391 5 20.5304 5 20V6M8 6V4C8 3.46957 8.21071 2.96086 8.58579 2.58579C8.96086 2.21071 9.46957 2 10 2H14C14.5304 2 15.0391 2.21071 15.4142 2.58579C15.7893 2.96086 16 3.46957 16 4V6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-              </svg>
-              Delete
-            </button>
+            <Can permission={PERMISSIONS.ALLOCATION_RULE_DELETE}>
+              <button className="btn-action btn-action--delete" onClick={handleDeleteClick}>
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                  <path d="M3 6H5H21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                  <path d="M19 6V20C19 20.5304 18.7893 21.0391 18.4142 21.4142C18.0391 21.7893 17.5304 22 17 22H7C6.46957 22 5.96086 21.7893 5.58579 21.4142C5.21071 21.0391 5 20.5304 5 20V6M8 6V4C8 3.46957 8.21071 2.96086 8.58579 2.58579C8.96086 2.21071 9.46957 2 10 2H14C14.5304 2 15.0391 2.21071 15.4142 2.58579C15.7893 2.96086 16 3.46957 16 4V6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+                Delete
+              </button>
+            </Can>
           </div>
         </div>
       </div>
@@ -305,14 +285,24 @@ export function RuleDetailsPage() {
             </>
           )}
 
+          {/* Criteria for the other rule types */}
+          {rule.ruleType !== 'GEOGRAPHY' && describeRuleCriteria(rule).map((criterion) => (
+            <div key={criterion.label} className="rule-detail-item rule-detail-item--full">
+              <span className="rule-detail-item__label">{criterion.label}</span>
+              <span className="rule-detail-item__value">{criterion.value}</span>
+            </div>
+          ))}
+
           {/* Info about how the rule works */}
           <div className="rule-detail-item rule-detail-item--full">
             <span className="rule-detail-item__label">How It Works</span>
             <div className="rule-detail-item__info">
               {rule.ruleType === 'GEOGRAPHY' ? (
                 <p>This rule matches unallocated cases to agents based on geographic location. Cases are filtered by the selected state/city, and agents are auto-detected based on their state/city profile settings.</p>
-              ) : (
+              ) : rule.ruleType === 'CAPACITY_BASED' ? (
                 <p>This rule distributes ALL unallocated cases to ALL active agents based on their current workload capacity. Agents with fewer cases get priority (workload equalization).</p>
+              ) : (
+                <p>{getRuleTypeDescription(rule.ruleType)}</p>
               )}
             </div>
           </div>
@@ -375,67 +365,35 @@ export function RuleDetailsPage() {
           setIsSimulateModalOpen(false)
           setSimulationResult(null)
         }}
-        title="Simulation Results"
-        size="md"
+        title="What-If: Projected Agent Load"
+        size="xl"
       >
         <div className="simulation-modal-content">
-          {isSubmitting ? (
+          {isSubmitting && !simulationResult ? (
             <div className="loading-container">
               <div className="spinner"></div>
               <span>Running simulation...</span>
             </div>
           ) : simulationResult ? (
-            <>
-              <div className="simulation-summary">
-                <div className="simulation-stat">
-                  <span className="simulation-stat__value">{simulationResult.unallocatedCases}</span>
-                  <span className="simulation-stat__label">Unallocated Cases</span>
-                </div>
-                <div className="simulation-stat">
-                  <span className="simulation-stat__value">{simulationResult.eligibleAgents.length}</span>
-                  <span className="simulation-stat__label">Eligible Agents</span>
-                </div>
-              </div>
-
-              <h4>Eligible Agents & Suggested Distribution</h4>
-              <div className="simulation-agents">
-                {simulationResult.eligibleAgents.map((agent) => (
-                  <div key={agent.agentId} className="simulation-agent">
-                    <div className="simulation-agent__info">
-                      <span className="simulation-agent__name">{agent.agentName}</span>
-                      <span className="simulation-agent__meta">
-                        Capacity: {agent.capacity} | Current: {agent.currentWorkload} | Available: {agent.availableCapacity}
-                      </span>
-                    </div>
-                    <span className="simulation-agent__count">
-                      {simulationResult.suggestedDistribution[agent.agentId.toString()] || 0} cases
-                    </span>
-                  </div>
-                ))}
-              </div>
-
-              <div className="simulation-actions">
-                <button
-                  className="btn-secondary"
-                  onClick={() => {
-                    setIsSimulateModalOpen(false)
-                    setSimulationResult(null)
-                  }}
-                >
-                  Close
-                </button>
-                <button
-                  className="btn-primary"
-                  onClick={() => {
-                    setIsSimulateModalOpen(false)
-                    setSimulationResult(null)
-                    handleApplyClick()
-                  }}
-                >
-                  Apply Rule
-                </button>
-              </div>
-            </>
+            <SimulationWhatIf
+              rule={rule}
+              simulation={simulationResult}
+              compareRules={allRules}
+              targetDate={usesAgentCapacity(rule.ruleType) ? targetDate : undefined}
+              onTargetDateChange={(date) => {
+                setTargetDate(date)
+                handleSimulateClick(date)
+              }}
+              onClose={() => {
+                setIsSimulateModalOpen(false)
+                setSimulationResult(null)
+              }}
+              onApply={() => {
+                setIsSimulateModalOpen(false)
+                setSimulationResult(null)
+                handleApplyClick()
+              }}
+            />
           ) : null}
         </div>
       </Modal>
@@ -455,6 +413,13 @@ export function RuleDetailsPage() {
           <p>
             This will apply the rule <strong>"{rule.name}"</strong> and allocate matching cases to agents.
           </p>
+          {usesAgentCapacity(rule.ruleType) && (
+            <label className="apply-modal-date">
+              <span>Use agent capacity on</span>
+              <input type="date" value={targetDate} onChange={(e) => setTargetDate(e.target.value || todayKey())} />
+              <small>Leave, half-days and training on this day reduce each agent's capacity.</small>
+            </label>
+          )}
           <div className="apply-modal-actions">
             <button
               className="btn-secondary"
@@ -0,0 +1,205 @@
+/**
+ * Allocation Rule Types
+ * Labels, criteria validation and summaries for each allocation rule type, shared by
+ * the rule wizard, the rules list and the rule details page.
+ */
+
+import { formatCurrency } from '@utils'
+import type {
+  AllocationRuleCreate,
+  AllocationSplit,
+  DpdBand,
+  LanguageFallback,
+  RuleType,
+  TicketSizeBand,
+} from '@types'
+
+export interface RuleTypeDefinition {
+  value: RuleType
+  label: string
+  description: string
+  badgeClass: string
+}
+
+export const RULE_TYPES: RuleTypeDefinition[] = [
+  {
+    value: 'GEOGRAPHY',
+    label: 'Geography',
+    description: 'Matches cases to agents based on geographic location (state/city matching). Agent state and city fields must be set in user profile.',
+    badgeClass: 'badge--green',
+  },
+  {
+    value: 'CAPACITY_BASED',
+    label: 'Capacity Based',
+    description: 'Distributes ALL unallocated cases to ALL active agents based on workload capacity. Agents with fewer cases get priority.',
+    badgeClass: 'badge--purple',
+  },
+  {
+    value: 'PERCENTAGE_SPLIT',
+    label: 'Percentage Split',
+    description: 'Splits unallocated cases between agencies by fixed shares, e.g. 60% to one agency and 40% to another.',
+    badgeClass: 'badge--blue',
+  },
+  {
+    value: 'BUCKET',
+    label: 'Bucket',
+    description: 'Allocates cases in the selected delinquency buckets to agents based on workload.',
+    badgeClass: 'badge--orange',
+  },
+  {
+    value: 'DPD_BAND',
+    label: 'DPD Band',
+    description: 'Allocates cases whose days past due fall in the selected bands to agents based on workload.',
+    badgeClass: 'badge--orange',
+  },
+  {
+    value: 'PRODUCT',
+    label: 'Product',
+    description: 'Allocates cases for the selected product types to agents based on workload.',
+    badgeClass: 'badge--teal',
+  },
+  {
+    value: 'TICKET_SIZE',
+    label: 'Ticket Size',
+    description: 'Allocates cases whose outstanding amount falls in the selected ranges to agents based on workload.',
+    badgeClass: 'badge--teal',
+  },
+  {
+    value: 'LANGUAGE_SKILL',
+    label: 'Language Skill',
+    description: 'Matches each customer\'s preferred language to agents with that language skill in their profile.',
+    badgeClass: 'badge--pink',
+  },
+]
+
+export const LANGUAGE_FALLBACK_OPTIONS: { value: LanguageFallback; label: string }[] = [
+  { value: 'ANY_AGENT', label: 'Allocate to any agent by workload' },
+  { value: 'LEAVE_UNALLOCATED', label: 'Leave the case unallocated' },
+]
+
+// Master data types that supply the options for rule criteria
+export const CRITERIA_MASTER_DATA_TYPES = {
+  AGENCY: 'AGENCY',
+  BUCKET: 'BUCKET',
+  PRODUCT: 'PRODUCT',
+  LANGUAGE: 'LANGUAGE',
+}
+
+export const getRuleTypeLabel = (type: string): string =>
+  RULE_TYPES.find((definition) => definition.value === type)?.label || type
+
+export const getRuleTypeBadgeClass = (type: string): string =>
+  RULE_TYPES.find((definition) => definition.value === type)?.badgeClass || 'badge--default'
+
+export const getRuleTypeDescription = (type: string): string =>
+  RULE_TYPES.find((definition) => definition.value === type)?.description || ''
+
+// Every type except percentage split hands cases to agents by workload, so agent capacity on the day matters
+export const usesAgentCapacity = (type: string): boolean => type !== 'PERCENTAGE_SPLIT'
+
+export const getSplitTotal = (splits: AllocationSplit[]): number =>
+  splits.reduce((total, split) => total + (split.percentage || 0), 0)
+
+/**
+ * Check agency shares: two or more distinct agencies, each with a positive share, adding up to 100
+ */
+export function validateSplits(splits: AllocationSplit[]): string | null {
+  if (splits.length < 2) return 'Add at least two agencies to split between'
+  if (splits.some((split) => !split.agencyCode)) return 'Select an agency for every row'
+
+  const codes = new Set(splits.map((split) => split.agencyCode))
+  if (codes.size !== splits.length) return 'Each agency can only appear once'
+
+  if (splits.some((split) => !(split.percentage > 0))) return 'Every agency needs a share above 0%'
+
+  const total = getSplitTotal(splits)
+  if (Math.abs(total - 100) > 0.001) return `Shares must add up to 100% (currently ${total}%)`
+  return null
+}
+
+interface NumericBand {
+  min: number
+  max: number | null
+}
+
+// Bands must be well formed and must not overlap, or a case could match two of them
+const validateBands = (bands: NumericBand[], name: string): string | null => {
+  if (bands.length === 0) return `Add at least one ${name}`
+
+  for (const band of bands) {
+    if (!Number.isFinite(band.min) || band.min < 0) return `Every ${name} needs a starting value of 0 or more`
+    if (band.max !== null && band.max < band.min) return `A ${name} cannot end before it starts`
+  }
+
+  const sorted = [...bands].sort((a, b) => a.min - b.min)
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1]
+    if (previous.max === null || sorted[i].min <= previous.max) {
+      return `${name[0].toUpperCase()}${name.slice(1)}s overlap`
+    }
+  }
+  return null
+}
+
+export const validateDpdBands = (bands: DpdBand[]): string | null =>
+  validateBands(bands.map((band) => ({ min: band.minDpd, max: band.maxDpd })), 'DPD band')
+
+export const validateTicketSizes = (bands: TicketSizeBand[]): string | null =>
+  validateBands(bands.map((band) => ({ min: band.minAmount, max: band.maxAmount })), 'ticket size range')
+
+export const formatDpdBand = (band: DpdBand): string =>
+  band.maxDpd === null ? `${band.minDpd}+ DPD` : `${band.minDpd}-${band.maxDpd} DPD`
+
+export const formatTicketSize = (band: TicketSizeBand): string =>
+  band.maxAmount === null
+    ? `${formatCurrency(band.minAmount)} and above`
+    : `${formatCurrency(band.minAmount)} - ${formatCurrency(band.maxAmount)}`
+
+export interface RuleCriterion {
+  label: string
+  value: string
+}
+
+/**
+ * Human-readable criteria of a rule, for review screens
+ */
+export function describeRuleCriteria(rule: AllocationRuleCreate): RuleCriterion[] {
+  const criteria: RuleCriterion[] = []
+  const addList = (label: string, values: string[] | undefined) => {
+    if (values && values.length > 0) criteria.push({ label, value: values.join(', ') })
+  }
+
+  switch (rule.ruleType) {
+    case 'GEOGRAPHY':
+      addList('States', rule.states)
+      addList('Cities', rule.cities)
+      break
+    case 'PERCENTAGE_SPLIT':
+      addList('Split', rule.splits?.map((split) => `${split.agencyName} ${split.percentage}%`))
+      break
+    case 'BUCKET':
+      addList('Buckets', rule.buckets)
+      break
+    case 'DPD_BAND':
+      addList('DPD Bands', rule.dpdBands?.map(formatDpdBand))
+      break
+    case 'PRODUCT':
+      addList('Products', rule.products)
+      break
+    case 'TICKET_SIZE':
+      addList('Ticket Sizes', rule.ticketSizes?.map(formatTicketSize))
+      break
+    case 'LANGUAGE_SKILL':
+      criteria.push({
+        label: 'Languages',
+        value: rule.languages && rule.languages.length > 0 ? rule.languages.join(', ') : 'All languages',
+      })
+      criteria.push({
+        label: 'No Matching Agent',
+        value: LANGUAGE_FALLBACK_OPTIONS.find((option) => option.value === rule.languageFallback)?.label
+          || LANGUAGE_FALLBACK_OPTIONS[0].label,
+      })
+      break
+  }
+  return criteria
+}
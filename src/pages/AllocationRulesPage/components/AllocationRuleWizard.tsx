@@ -2,15 +2,41 @@
  * Allocation Rule Wizard Component
  * Multi-step wizard for creating and editing allocation rules
  *
- * Supports two rule types:
+ * Supported rule types:
  * 1. GEOGRAPHY - Matches cases to agents based on geographic location (state/city)
  * 2. CAPACITY_BASED - Distributes ALL unallocated cases to ALL active agents
+ * 3. PERCENTAGE_SPLIT - Splits cases between agencies by fixed shares
+ * 4. BUCKET / DPD_BAND / PRODUCT / TICKET_SIZE - Selects cases by case attributes
+ * 5. LANGUAGE_SKILL - Matches the customer's preferred language to agent language skills
+ *
+ * Every type except CAPACITY_BASED has its own criteria step.
  */
 
 import { useState, useEffect, useRef } from 'react'
 import { createPortal } from 'react-dom'
 import { allocationService, masterDataService } from '@services/api'
-import type { AllocationRule, AllocationRuleCreate, RuleType, MasterData } from '@types'
+import type {
+  AllocationRule,
+  AllocationRuleCreate,
+  AllocationSplit,
+  DpdBand,
+  LanguageFallback,
+  MasterData,
+  RuleType,
+  TicketSizeBand,
+} from '@types'
+import {
+  CRITERIA_MASTER_DATA_TYPES,
+  LANGUAGE_FALLBACK_OPTIONS,
+  RULE_TYPES,
+  describeRuleCriteria,
+  getRuleTypeDescription,
+  getRuleTypeLabel,
+  getSplitTotal,
+  validateDpdBands,
+  validateSplits,
+  validateTicketSizes,
+} from '../allocationRules'
 import './AllocationRuleWizard.css'
 
 interface AllocationRuleWizardProps {
@@ -20,7 +46,19 @@ interface AllocationRuleWizardProps {
   editRule: AllocationRule | null
 }
 
-type WizardStep = 'basic' | 'type' | 'geography' | 'review'
+type CriteriaStep = 'geography' | 'split' | 'bucket' | 'dpd' | 'product' | 'ticketSize' | 'language'
+type WizardStep = 'basic' | 'type' | CriteriaStep | 'review'
+
+// Criteria step for each rule type; CAPACITY_BASED has none (allocates ALL cases to ALL agents)
+const CRITERIA_STEPS: Partial<Record<RuleType, { key: CriteriaStep; label: string }>> = {
+  GEOGRAPHY: { key: 'geography', label: 'Geography' },
+  PERCENTAGE_SPLIT: { key: 'split', label: 'Agency Split' },
+  BUCKET: { key: 'bucket', label: 'Buckets' },
+  DPD_BAND: { key: 'dpd', label: 'DPD Bands' },
+  PRODUCT: { key: 'product', label: 'Products' },
+  TICKET_SIZE: { key: 'ticketSize', label: 'Ticket Size' },
+  LANGUAGE_SKILL: { key: 'language', label: 'Languages' },
+}
 
 // Steps are dynamically determined based on rule type
 const getStepsForRuleType = (ruleType: RuleType | ''): { key: WizardStep; label: string }[] => {
@@ -28,30 +66,15 @@ const getStepsForRuleType = (ruleType: RuleType | ''): { key: WizardStep; label:
     { key: 'basic' as WizardStep, label: 'Basic Info' },
     { key: 'type' as WizardStep, label: 'Rule Type' },
   ]
+  const criteriaStep = ruleType ? CRITERIA_STEPS[ruleType] : undefined
 
-  // GEOGRAPHY requires geography selection step
-  // CAPACITY_BASED skips geography (allocates ALL cases to ALL agents)
-  if (ruleType === 'GEOGRAPHY') {
-    return [...baseSteps, { key: 'geography' as WizardStep, label: 'Geography' }, { key: 'review' as WizardStep, label: 'Review' }]
+  // Not selected yet or CAPACITY_BASED - no criteria step needed
+  if (!criteriaStep) {
+    return [...baseSteps, { key: 'review' as WizardStep, label: 'Review' }]
   }
-
-  // CAPACITY_BASED or not selected yet - no geography step needed
-  return [...baseSteps, { key: 'review' as WizardStep, label: 'Review' }]
+  return [...baseSteps, criteriaStep, { key: 'review' as WizardStep, label: 'Review' }]
 }
 
-const RULE_TYPES: { value: RuleType; label: string; description: string }[] = [
-  {
-    value: 'GEOGRAPHY',
-    label: 'Geography',
-    description: 'Matches cases to agents based on geographic location (state/city matching). Agent state and city fields must be set in user profile.',
-  },
-  {
-    value: 'CAPACITY_BASED',
-    label: 'Capacity Based',
-    description: 'Distributes ALL unallocated cases to ALL active agents based on workload capacity. Agents with fewer cases get priority.',
-  },
-]
-
 // Master data type constants for states and cities
 const MASTER_DATA_TYPES = {
   STATE: 'STATE',
@@ -65,9 +88,42 @@ interface FormData {
   // Geography fields (required for GEOGRAPHY rule type only)
   states: string[]
   cities: string[]
+  // Criteria for the other rule types; only the selected type's fields are sent
+  splits: AllocationSplit[]
+  buckets: string[]
+  dpdBands: DpdBand[]
+  products: string[]
+  ticketSizes: TicketSizeBand[]
+  languages: string[]
+  languageFallback: LanguageFallback
   priority: number
 }
 
+type CriteriaOptionType = keyof typeof CRITERIA_MASTER_DATA_TYPES
+type ToggleField = 'buckets' | 'products' | 'languages'
+
+const EMPTY_FORM_DATA: FormData = {
+  name: '',
+  description: '',
+  ruleType: '',
+  states: [],
+  cities: [],
+  splits: [
+    { agencyCode: '', agencyName: '', percentage: 50 },
+    { agencyCode: '', agencyName: '', percentage: 50 },
+  ],
+  buckets: [],
+  dpdBands: [{ minDpd: 0, maxDpd: 30 }],
+  products: [],
+  ticketSizes: [{ minAmount: 0, maxAmount: 100000 }],
+  languages: [],
+  languageFallback: 'ANY_AGENT',
+  priority: 1,
+}
+
+// Empty number inputs mean "no upper limit"
+const parseOptionalNumber = (value: string): number | null => (value === '' ? null : Number(value))
+
 export function AllocationRuleWizard({
   isOpen,
   onClose,
@@ -81,6 +137,12 @@ export function AllocationRuleWizard({
   // Master data for states and cities
   const [masterStates, setMasterStates] = useState<MasterData[]>([])
   const [masterCities, setMasterCities] = useState<MasterData[]>([])
+  const [criteriaOptions, setCriteriaOptions] = useState<Record<CriteriaOptionType, MasterData[]>>({
+    AGENCY: [],
+    BUCKET: [],
+    PRODUCT: [],
+    LANGUAGE: [],
+  })
   const [isLoadingMasterData, setIsLoadingMasterData] = useState(false)
 
   // Dropdown open states
@@ -93,14 +155,7 @@ export function AllocationRuleWizard({
   const statesDropdownRef = useRef<HTMLDivElement>(null)
   const citiesDropdownRef = useRef<HTMLDivElement>(null)
 
-  const [formData, setFormData] = useState<FormData>({
-    name: '',
-    description: '',
-    ruleType: '',
-    states: [],
-    cities: [],
-    priority: 1,
-  })
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM_DATA)
 
   // Get steps based on current rule type
   const steps = getStepsForRuleType(formData.ruleType)
@@ -112,13 +167,26 @@ export function AllocationRuleWizard({
 
       try {
         setIsLoadingMasterData(true)
-        const [statesData, citiesData] = await Promise.all([
+        const [statesData, citiesData, agencies, buckets, products, languages] = await Promise.all([
           masterDataService.getByType(MASTER_DATA_TYPES.STATE),
           masterDataService.getByType(MASTER_DATA_TYPES.CITY),
+          // Criteria lists are optional; a missing type only empties its own step
+          masterDataService.getByType(CRITERIA_MASTER_DATA_TYPES.AGENCY).catch(() => []),
+          masterDataService.getByType(CRITERIA_MASTER_DATA_TYPES.BUCKET).catch(() => []),
+          masterDataService.getByType(CRITERIA_MASTER_DATA_TYPES.PRODUCT).catch(() => []),
+          masterDataService.getByType(CRITERIA_MASTER_DATA_TYPES.LANGUAGE).catch(() => []),
         ])
+        const activeSorted = (items: MasterData[]) =>
+          items.filter(item => item.isActive).sort((a, b) => a.displayOrder - b.displayOrder)
         // Filter only active entries and sort by displayOrder
-        setMasterStates(statesData.filter(s => s.isActive).sort((a, b) => a.displayOrder - b.displayOrder))
-        setMasterCities(citiesData.filter(c => c.isActive).sort((a, b) => a.displayOrder - b.displayOrder))
+        setMasterStates(activeSorted(statesData))
+        setMasterCities(activeSorted(citiesData))
+        setCriteriaOptions({
+          AGENCY: activeSorted(agencies),
+          BUCKET: activeSorted(buckets),
+          PRODUCT: activeSorted(products),
+          LANGUAGE: activeSorted(languages),
+        })
       } catch (err) {
         console.error('Failed to fetch master data:', err)
         // Set empty arrays on error - UI will show appropriate message
@@ -151,22 +219,23 @@ export function AllocationRuleWizard({
   useEffect(() => {
     if (editRule) {
       setFormData({
+        ...EMPTY_FORM_DATA,
         name: editRule.name,
         description: editRule.description || '',
         ruleType: editRule.ruleType,
         states: editRule.states || [],
         cities: editRule.cities || [],
+        splits: editRule.splits?.length ? editRule.splits : EMPTY_FORM_DATA.splits,
+        buckets: editRule.buckets || [],
+        dpdBands: editRule.dpdBands?.length ? editRule.dpdBands : EMPTY_FORM_DATA.dpdBands,
+        products: editRule.products || [],
+        ticketSizes: editRule.ticketSizes?.length ? editRule.ticketSizes : EMPTY_FORM_DATA.ticketSizes,
+        languages: editRule.languages || [],
+        languageFallback: editRule.languageFallback || EMPTY_FORM_DATA.languageFallback,
         priority: editRule.priority,
       })
     } else {
-      setFormData({
-        name: '',
-        description: '',
-        ruleType: '',
-        states: [],
-        cities: [],
-        priority: 1,
-      })
+      setFormData(EMPTY_FORM_DATA)
     }
     setCurrentStep('basic')
     setError('')
@@ -212,6 +281,45 @@ export function AllocationRuleWizard({
           }
         }
         break
+      case 'split': {
+        const splitError = validateSplits(formData.splits)
+        if (splitError) {
+          setError(splitError)
+          return false
+        }
+        break
+      }
+      case 'bucket':
+        if (formData.buckets.length === 0) {
+          setError('Please select at least one bucket')
+          return false
+        }
+        break
+      case 'dpd': {
+        const bandError = validateDpdBands(formData.dpdBands)
+        if (bandError) {
+          setError(bandError)
+          return false
+        }
+        break
+      }
+      case 'product':
+        if (formData.products.length === 0) {
+          setError('Please select at least one product')
+          return false
+        }
+        break
+      case 'ticketSize': {
+        const rangeError = validateTicketSizes(formData.ticketSizes)
+        if (rangeError) {
+          setError(rangeError)
+          return false
+        }
+        break
+      }
+      case 'language':
+        // No languages selected means the rule covers every language
+        break
     }
     setError('')
     return true
@@ -223,31 +331,56 @@ export function AllocationRuleWizard({
     }
   }
 
-  const handleSubmit = async () => {
-    if (!validateStep()) return
-
-    try {
-      setIsSubmitting(true)
-      setError('')
-
-      // Build rule data based on rule type
-      const ruleData: AllocationRuleCreate = {
-        name: formData.name,
-        description: formData.description || undefined,
-        ruleType: formData.ruleType as RuleType,
-        priority: formData.priority,
-      }
+  // Build rule data based on rule type; only the selected type's criteria are sent
+  const buildRuleData = (): AllocationRuleCreate => {
+    const ruleData: AllocationRuleCreate = {
+      name: formData.name,
+      description: formData.description || undefined,
+      ruleType: formData.ruleType as RuleType,
+      priority: formData.priority,
+    }
 
-      // For GEOGRAPHY rule type, include states and cities
-      // For CAPACITY_BASED, no geography fields needed (allocates ALL cases to ALL agents)
-      if (formData.ruleType === 'GEOGRAPHY') {
+    switch (formData.ruleType) {
+      case 'GEOGRAPHY':
         if (formData.states.length > 0) {
           ruleData.states = formData.states
         }
         if (formData.cities.length > 0) {
           ruleData.cities = formData.cities
         }
-      }
+        break
+      case 'PERCENTAGE_SPLIT':
+        ruleData.splits = formData.splits
+        break
+      case 'BUCKET':
+        ruleData.buckets = formData.buckets
+        break
+      case 'DPD_BAND':
+        ruleData.dpdBands = [...formData.dpdBands].sort((a, b) => a.minDpd - b.minDpd)
+        break
+      case 'PRODUCT':
+        ruleData.products = formData.products
+        break
+      case 'TICKET_SIZE':
+        ruleData.ticketSizes = [...formData.ticketSizes].sort((a, b) => a.minAmount - b.minAmount)
+        break
+      case 'LANGUAGE_SKILL':
+        ruleData.languages = formData.languages
+        ruleData.languageFallback = formData.languageFallback
+        break
+      // CAPACITY_BASED needs no criteria (allocates ALL cases to ALL agents)
+    }
+    return ruleData
+  }
+
+  const handleSubmit = async () => {
+    if (!validateStep()) return
+
+    try {
+      setIsSubmitting(true)
+      setError('')
+
+      const ruleData = buildRuleData()
 
       if (editRule) {
         await allocationService.updateRule(editRule.id, ruleData)
@@ -263,10 +396,6 @@ export function AllocationRuleWizard({
     }
   }
 
-  const getRuleTypeLabel = (type: string) => {
-    return RULE_TYPES.find((t) => t.value === type)?.label || type
-  }
-
   // Toggle state selection
   const toggleStateSelection = (stateValue: string) => {
     setFormData(prev => ({
@@ -287,6 +416,65 @@ export function AllocationRuleWizard({
     }))
   }
 
+  // Toggle a bucket, product or language selection
+  const toggleOption = (field: ToggleField, value: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].includes(value)
+        ? prev[field].filter(v => v !== value)
+        : [...prev[field], value]
+    }))
+  }
+
+  const updateSplit = (index: number, changes: Partial<AllocationSplit>) => {
+    setFormData(prev => ({
+      ...prev,
+      splits: prev.splits.map((split, i) => (i === index ? { ...split, ...changes } : split))
+    }))
+  }
+
+  const selectSplitAgency = (index: number, agencyCode: string) => {
+    const agency = criteriaOptions.AGENCY.find(option => option.code === agencyCode)
+    updateSplit(index, { agencyCode, agencyName: agency?.value || '' })
+  }
+
+  const addSplit = () => {
+    setFormData(prev => ({
+      ...prev,
+      splits: [...prev.splits, { agencyCode: '', agencyName: '', percentage: 0 }]
+    }))
+  }
+
+  const removeSplit = (index: number) => {
+    setFormData(prev => ({ ...prev, splits: prev.splits.filter((_, i) => i !== index) }))
+  }
+
+  // Even shares in whole numbers; the first agencies absorb the remainder
+  const splitEvenly = () => {
+    setFormData(prev => {
+      const count = prev.splits.length
+      const base = Math.floor(100 / count)
+      return {
+        ...prev,
+        splits: prev.splits.map((split, i) => ({ ...split, percentage: base + (i < 100 - base * count ? 1 : 0) }))
+      }
+    })
+  }
+
+  const updateDpdBand = (index: number, changes: Partial<DpdBand>) => {
+    setFormData(prev => ({
+      ...prev,
+      dpdBands: prev.dpdBands.map((band, i) => (i === index ? { ...band, ...changes } : band))
+    }))
+  }
+
+  const updateTicketSize = (index: number, changes: Partial<TicketSizeBand>) => {
+    setFormData(prev => ({
+      ...prev,
+      ticketSizes: prev.ticketSizes.map((band, i) => (i === index ? { ...band, ...changes } : band))
+    }))
+  }
+
   // Filtered states based on search
   const filteredStates = masterStates.filter(state =>
     state.value.toLowerCase().includes(statesSearchTerm.toLowerCase())
@@ -299,6 +487,38 @@ export function AllocationRuleWizard({
 
   if (!isOpen) return null
 
+  const reviewCriteria = describeRuleCriteria(buildRuleData())
+  const splitTotal = getSplitTotal(formData.splits)
+  const usedAgencies = formData.splits.map(split => split.agencyCode)
+
+  const renderOptionToggles = (options: MasterData[], field: ToggleField, emptyMessage: string) => {
+    if (isLoadingMasterData) {
+      return (
+        <div className="loading-container">
+          <div className="spinner"></div>
+          <span>Loading options...</span>
+        </div>
+      )
+    }
+    if (options.length === 0) {
+      return <div className="empty-master-data">{emptyMessage}</div>
+    }
+    return (
+      <div className="option-toggles">
+        {options.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            className={`option-toggle ${formData[field].includes(option.value) ? 'option-toggle--selected' : ''}`}
+            onClick={() => toggleOption(field, option.value)}
+          >
+            {option.value}
+          </button>
+        ))}
+      </div>
+    )
+  }
+
   const modalContent = (
     <div className="wizard-overlay" onClick={onClose}>
       <div className="wizard-modal" onClick={(e) => e.stopPropagation()}>
@@ -635,6 +855,265 @@ export function AllocationRuleWizard({
             </div>
           )}
 
+          {/* Agency Split (PERCENTAGE_SPLIT) */}
+          {currentStep === 'split' && (
+            <div className="wizard-step-content">
+              <h3>Split Between Agencies</h3>
+              <p>Choose the agencies and the share of matched cases each one receives. Shares must add up to 100%.</p>
+
+              {criteriaOptions.AGENCY.length === 0 && !isLoadingMasterData ? (
+                <div className="empty-master-data">
+                  No agencies found in master data. Please add agencies in Master Data management.
+                </div>
+              ) : (
+                <>
+                  <div className="criteria-rows">
+                    {formData.splits.map((split, index) => (
+                      <div key={index} className="criteria-row">
+                        <select
+                          className="form-input"
+                          value={split.agencyCode}
+                          onChange={(e) => selectSplitAgency(index, e.target.value)}
+                        >
+                          <option value="">Select agency...</option>
+                          {criteriaOptions.AGENCY.map((agency) => (
+                            <option
+                              key={agency.id}
+                              value={agency.code}
+                              disabled={agency.code !== split.agencyCode && usedAgencies.includes(agency.code)}
+                            >
+                              {agency.value}
+                            </option>
+                          ))}
+                        </select>
+                        <div className="criteria-row__suffix-input">
+                          <input
+                            type="number"
+                            className="form-input form-input--small"
+                            min={0}
+                            max={100}
+                            value={split.percentage}
+                            onChange={(e) => updateSplit(index, { percentage: parseFloat(e.target.value) || 0 })}
+                          />
+                          <span>%</span>
+                        </div>
+                        <button
+                          type="button"
+                          className="criteria-row__remove"
+                          onClick={() => removeSplit(index)}
+                          disabled={formData.splits.length <= 2}
+                          title="Remove agency"
+                        >
+                          &times;
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="criteria-actions">
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={addSplit}
+                      disabled={formData.splits.length >= criteriaOptions.AGENCY.length}
+                    >
+                      + Add Agency
+                    </button>
+                    <button type="button" className="btn-secondary" onClick={splitEvenly}>
+                      Split Evenly
+                    </button>
+                    <span className={`split-total ${splitTotal === 100 ? 'split-total--valid' : 'split-total--invalid'}`}>
+                      Total: {splitTotal}%
+                    </span>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Buckets (BUCKET) */}
+          {currentStep === 'bucket' && (
+            <div className="wizard-step-content">
+              <h3>Select Buckets</h3>
+              <p>Cases in any of the selected delinquency buckets are allocated by this rule.</p>
+              {renderOptionToggles(
+                criteriaOptions.BUCKET,
+                'buckets',
+                'No buckets found in master data. Please add buckets in Master Data management.'
+              )}
+            </div>
+          )}
+
+          {/* DPD Bands (DPD_BAND) */}
+          {currentStep === 'dpd' && (
+            <div className="wizard-step-content">
+              <h3>Define DPD Bands</h3>
+              <p>Cases whose days past due fall inside any band are allocated by this rule. Leave the upper limit empty for an open-ended band.</p>
+
+              <div className="criteria-rows">
+                {formData.dpdBands.map((band, index) => (
+                  <div key={index} className="criteria-row">
+                    <input
+                      type="number"
+                      className="form-input"
+                      min={0}
+                      placeholder="From"
+                      value={band.minDpd}
+                      onChange={(e) => updateDpdBand(index, { minDpd: parseInt(e.target.value) || 0 })}
+                    />
+                    <span className="criteria-row__separator">to</span>
+                    <input
+                      type="number"
+                      className="form-input"
+                      min={0}
+                      placeholder="No limit"
+                      value={band.maxDpd ?? ''}
+                      onChange={(e) => updateDpdBand(index, { maxDpd: parseOptionalNumber(e.target.value) })}
+                    />
+                    <span className="criteria-row__separator">days</span>
+                    <button
+                      type="button"
+                      className="criteria-row__remove"
+                      onClick={() => setFormData(prev => ({
+                        ...prev,
+                        dpdBands: prev.dpdBands.filter((_, i) => i !== index)
+                      }))}
+                      disabled={formData.dpdBands.length <= 1}
+                      title="Remove band"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="criteria-actions">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setFormData(prev => {
+                    const last = prev.dpdBands[prev.dpdBands.length - 1]
+                    const start = last && last.maxDpd !== null ? last.maxDpd + 1 : 0
+                    return { ...prev, dpdBands: [...prev.dpdBands, { minDpd: start, maxDpd: start + 29 }] }
+                  })}
+                >
+                  + Add Band
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Products (PRODUCT) */}
+          {currentStep === 'product' && (
+            <div className="wizard-step-content">
+              <h3>Select Products</h3>
+              <p>Cases for any of the selected product types are allocated by this rule.</p>
+              {renderOptionToggles(
+                criteriaOptions.PRODUCT,
+                'products',
+                'No products found in master data. Please add products in Master Data management.'
+              )}
+            </div>
+          )}
+
+          {/* Ticket Size (TICKET_SIZE) */}
+          {currentStep === 'ticketSize' && (
+            <div className="wizard-step-content">
+              <h3>Define Ticket Sizes</h3>
+              <p>Cases whose outstanding amount (₹) falls inside any range are allocated by this rule. Leave the upper limit empty for an open-ended range.</p>
+
+              <div className="criteria-rows">
+                {formData.ticketSizes.map((band, index) => (
+                  <div key={index} className="criteria-row">
+                    <input
+                      type="number"
+                      className="form-input"
+                      min={0}
+                      placeholder="From ₹"
+                      value={band.minAmount}
+                      onChange={(e) => updateTicketSize(index, { minAmount: parseFloat(e.target.value) || 0 })}
+                    />
+                    <span className="criteria-row__separator">to</span>
+                    <input
+                      type="number"
+                      className="form-input"
+                      min={0}
+                      placeholder="No limit"
+                      value={band.maxAmount ?? ''}
+                      onChange={(e) => updateTicketSize(index, { maxAmount: parseOptionalNumber(e.target.value) })}
+                    />
+                    <button
+                      type="button"
+                      className="criteria-row__remove"
+                      onClick={() => setFormData(prev => ({
+                        ...prev,
+                        ticketSizes: prev.ticketSizes.filter((_, i) => i !== index)
+                      }))}
+                      disabled={formData.ticketSizes.length <= 1}
+                      title="Remove range"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="criteria-actions">
+                <button
+                  type="button"
+                  className="btn-secondary"
+                  onClick={() => setFormData(prev => {
+                    const last = prev.ticketSizes[prev.ticketSizes.length - 1]
+                    const start = last && last.maxAmount !== null ? last.maxAmount + 1 : 0
+                    return { ...prev, ticketSizes: [...prev.ticketSizes, { minAmount: start, maxAmount: null }] }
+                  })}
+                >
+                  + Add Range
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Languages (LANGUAGE_SKILL) */}
+          {currentStep === 'language' && (
+            <div className="wizard-step-content">
+              <h3>Match Language Skills</h3>
+              <p>Each case goes to an agent who speaks the customer's preferred language. Select languages to limit the rule, or none to cover every language.</p>
+
+              <div className="form-group">
+                <label className="form-label">Languages</label>
+                {renderOptionToggles(
+                  criteriaOptions.LANGUAGE,
+                  'languages',
+                  'No languages found in master data. The rule will cover every language.'
+                )}
+              </div>
+
+              <div className="form-group">
+                <label className="form-label">When no agent speaks the customer's language</label>
+                <div className="radio-options">
+                  {LANGUAGE_FALLBACK_OPTIONS.map((option) => (
+                    <label key={option.value} className="radio-option">
+                      <input
+                        type="radio"
+                        name="languageFallback"
+                        checked={formData.languageFallback === option.value}
+                        onChange={() => setFormData(prev => ({ ...prev, languageFallback: option.value }))}
+                      />
+                      {option.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="geography-info">
+                <strong>How Language Matching Works:</strong>
+                <ul>
+                  <li>The customer's language preference on the case is compared with each agent's language skills</li>
+                  <li>Agents' language skills are set in their user profile</li>
+                  <li>Among matching agents, cases go to those with fewer cases first</li>
+                </ul>
+              </div>
+            </div>
+          )}
+
           {/* Review Step */}
           {currentStep === 'review' && (
             <div className="wizard-step-content">
@@ -660,18 +1139,12 @@ export function AllocationRuleWizard({
                   <span className="review-item__label">Priority</span>
                   <span className="review-item__value">{formData.priority}</span>
                 </div>
-                {formData.ruleType === 'GEOGRAPHY' && formData.states.length > 0 && (
-                  <div className="review-item">
-                    <span className="review-item__label">States</span>
-                    <span className="review-item__value">{formData.states.join(', ')}</span>
+                {reviewCriteria.map((criterion) => (
+                  <div key={criterion.label} className="review-item">
+                    <span className="review-item__label">{criterion.label}</span>
+                    <span className="review-item__value">{criterion.value}</span>
                   </div>
-                )}
-                {formData.ruleType === 'GEOGRAPHY' && formData.cities.length > 0 && (
-                  <div className="review-item">
-                    <span className="review-item__label">Cities</span>
-                    <span className="review-item__value">{formData.cities.join(', ')}</span>
-                  </div>
-                )}
+                ))}
 
                 {/* Info about how allocation will work */}
                 <div className="review-info">
@@ -680,11 +1153,16 @@ export function AllocationRuleWizard({
                       <strong>How this rule will work:</strong>
                       <p>When applied, this rule will find all unallocated cases matching the selected geography and distribute them to agents whose profile matches the same geography.</p>
                     </>
-                  ) : (
+                  ) : formData.ruleType === 'CAPACITY_BASED' ? (
                     <>
                       <strong>How this rule will work:</strong>
                       <p>When applied, this rule will distribute ALL unallocated cases to ALL active agents based on their current workload capacity. Agents with fewer cases will get priority.</p>
                     </>
+                  ) : (
+                    <>
+                      <strong>How this rule will work:</strong>
+                      <p>{getRuleTypeDescription(formData.ruleType)}</p>
+                    </>
                   )}
                 </div>
               </div>
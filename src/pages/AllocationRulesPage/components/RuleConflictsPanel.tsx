@@ -0,0 +1,56 @@
+/**
+ * Rule Conflicts Panel
+ * Lists overlapping, shadowed and tied live rules for the current rule order
+ */
+
+import type { AllocationRule } from '@types'
+import type { RuleConflict, RuleConflictKind } from '../ruleConflicts'
+
+interface RuleConflictsPanelProps {
+  conflicts: RuleConflict[]
+  rules: AllocationRule[]
+}
+
+const KIND_LABELS: Record<RuleConflictKind, string> = {
+  SHADOWED: 'Never fires',
+  OVERLAP: 'Overlap',
+  SAME_PRIORITY: 'Tied priority',
+}
+
+// Most serious first
+const KIND_ORDER: RuleConflictKind[] = ['SHADOWED', 'SAME_PRIORITY', 'OVERLAP']
+
+export function RuleConflictsPanel({ conflicts, rules }: RuleConflictsPanelProps) {
+  if (conflicts.length === 0) {
+    return (
+      <div className="rule-conflicts rule-conflicts--clear">
+        No conflicts between live rules in this order.
+      </div>
+    )
+  }
+
+  const ruleName = (ruleId: number) => rules.find((rule) => rule.id === ruleId)?.name || `Rule #${ruleId}`
+  const sorted = [...conflicts].sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind))
+
+  return (
+    <div className="rule-conflicts">
+      <h4 className="rule-conflicts__title">
+        {conflicts.length} rule conflict{conflicts.length === 1 ? '' : 's'}
+      </h4>
+      <ul className="rule-conflicts__list">
+        {sorted.map((conflict) => (
+          <li key={`${conflict.kind}-${conflict.ruleId}-${conflict.otherRuleId}`} className="rule-conflicts__item">
+            <span className={`rule-conflicts__kind rule-conflicts__kind--${conflict.kind.toLowerCase()}`}>
+              {KIND_LABELS[conflict.kind]}
+            </span>
+            <span>
+              <strong>{ruleName(conflict.ruleId)}</strong>: {conflict.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+export default RuleConflictsPanel
@@ -0,0 +1,134 @@
+/**
+ * Rule Dry Run Modal
+ * Simulates every live rule and combines the results in priority order, showing how many
+ * cases each rule would actually allocate once higher-priority rules have taken theirs.
+ * Nothing is allocated.
+ */
+
+import { useEffect, useState } from 'react'
+import { allocationService } from '@services/api'
+import { Modal } from '@components/common/Modal'
+import type { AllocationRule, RuleSimulationResult } from '@types'
+import { getRuleTypeBadgeClass, getRuleTypeLabel } from '../allocationRules'
+import { combineSimulations, type DryRunResult } from '../ruleConflicts'
+
+interface RuleDryRunModalProps {
+  isOpen: boolean
+  onClose: () => void
+  // Live rules in the order they run
+  rules: AllocationRule[]
+}
+
+export function RuleDryRunModal({ isOpen, onClose, rules }: RuleDryRunModalProps) {
+  const [result, setResult] = useState<DryRunResult | null>(null)
+  const [isRunning, setIsRunning] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    let cancelled = false
+
+    const runSimulations = async () => {
+      setIsRunning(true)
+      setResult(null)
+      const settled = await Promise.allSettled(rules.map((rule) => allocationService.simulateRule(rule.id)))
+      if (cancelled) return
+
+      const simulations = new Map<number, RuleSimulationResult | Error>()
+      settled.forEach((outcome, index) => {
+        simulations.set(
+          rules[index].id,
+          outcome.status === 'fulfilled'
+            ? outcome.value
+            : outcome.reason instanceof Error ? outcome.reason : new Error('Simulation failed')
+        )
+      })
+      setResult(combineSimulations(rules, simulations))
+      setIsRunning(false)
+    }
+
+    runSimulations()
+    return () => {
+      cancelled = true
+    }
+  }, [isOpen, rules])
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Dry Run: All Live Rules" size="lg">
+      <div className="simulation-modal-content">
+        {rules.length === 0 ? (
+          <div className="dry-run__empty">
+            No active or ready rules to run. Activate a rule to include it in the dry run.
+          </div>
+        ) : isRunning || !result ? (
+          <div className="loading-container">
+            <div className="spinner"></div>
+            <span>Simulating {rules.length} rule{rules.length === 1 ? '' : 's'}...</span>
+          </div>
+        ) : (
+          <>
+            <div className="simulation-summary">
+              <div className="simulation-stat">
+                <span className="simulation-stat__value">{result.totalCases}</span>
+                <span className="simulation-stat__label">Cases Allocated</span>
+              </div>
+              <div className="simulation-stat">
+                <span className="simulation-stat__value">{result.overlappingCases}</span>
+                <span className="simulation-stat__label">Matched by More Than One Rule</span>
+              </div>
+            </div>
+
+            <table className="dry-run__table">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Rule</th>
+                  <th>Matches Alone</th>
+                  <th>Taken Earlier</th>
+                  <th>Allocates</th>
+                  <th>Agents</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rules.map((row, index) => (
+                  <tr
+                    key={row.rule.id}
+                    className={
+                      !row.error && row.matchedCases > 0 && row.allocatedCases === 0 ? 'dry-run__row--idle' : undefined
+                    }
+                  >
+                    <td>{index + 1}</td>
+                    <td>
+                      <div className="dry-run__rule">
+                        <span>{row.rule.name}</span>
+                        <span className={`badge ${getRuleTypeBadgeClass(row.rule.ruleType)}`}>
+                          {getRuleTypeLabel(row.rule.ruleType)}
+                        </span>
+                      </div>
+                      {row.error && <div className="dry-run__error">{row.error}</div>}
+                    </td>
+                    <td>{row.error ? '-' : row.matchedCases}</td>
+                    <td>{row.error ? '-' : row.takenByEarlierRules}</td>
+                    <td className="dry-run__allocated">{row.error ? '-' : row.allocatedCases}</td>
+                    <td>{row.error ? '-' : row.eligibleAgents}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="dry-run__note">
+              "Taken Earlier" counts cases a higher-priority rule allocates first. A rule whose matches are all
+              taken earlier allocates nothing.
+            </p>
+          </>
+        )}
+
+        <div className="simulation-actions">
+          <button className="btn-secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export default RuleDryRunModal
@@ -0,0 +1,262 @@
+/**
+ * Simulation What-If
+ * Projected load per agent against capacity for a rule simulation, with over-capacity
+ * warnings and an optional side-by-side comparison with a second rule.
+ */
+
+import { useEffect, useState } from 'react'
+import { allocationService } from '@services/api'
+import { useAgentAvailability, useAgentWorkload } from '@services/queries'
+import { getAvailabilityTypeLabel } from '@utils'
+import type { AllocationRule, RuleSimulationResult } from '@types'
+import { getRuleTypeBadgeClass, getRuleTypeLabel } from '../allocationRules'
+import {
+  getProjectionScale,
+  getSimulationAgentIds,
+  projectSimulation,
+  type ProjectedAgentLoad,
+  type SimulationProjection,
+} from '../simulationProjection'
+import './SimulationWhatIf.css'
+
+interface SimulationWhatIfProps {
+  rule: AllocationRule
+  simulation: RuleSimulationResult
+  // Rules the user can compare against
+  compareRules: AllocationRule[]
+  // Day whose effective capacity is projected; omitted for rules that ignore agent capacity
+  targetDate?: string
+  onTargetDateChange: (date: string) => void
+  onClose: () => void
+  onApply: () => void
+}
+
+const percentOf = (value: number, scale: number) => `${(Math.max(value, 0) / scale) * 100}%`
+
+function LoadBar({ agent, scale }: { agent: ProjectedAgentLoad; scale: number }) {
+  const base = Math.min(agent.currentLoad, agent.capacity)
+  const added = Math.max(Math.min(agent.projectedLoad, agent.capacity) - agent.currentLoad, 0)
+
+  return (
+    <div className="whatif-bar">
+      <div className="whatif-bar__label">
+        <span className="whatif-bar__name">
+          {agent.agentName}
+          {agent.availability && (
+            <span className="whatif-bar__availability">{getAvailabilityTypeLabel(agent.availability)}</span>
+          )}
+        </span>
+        <span className={`whatif-bar__value${agent.overCapacityBy > 0 ? ' whatif-bar__value--over' : ''}`}>
+          {agent.currentUtilization}% → {agent.projectedUtilization}% ({agent.projectedLoad}/{agent.capacity})
+        </span>
+      </div>
+      <div
+        className="whatif-bar__track"
+        title={
+          `Today: ${agent.currentLoad} (${agent.currentUtilization}%) | New: +${agent.projectedCases} | ` +
+          `After: ${agent.projectedLoad} (${agent.projectedUtilization}%)`
+        }
+      >
+        <div className="whatif-bar__segment whatif-bar__segment--current" style={{ width: percentOf(base, scale) }} />
+        <div className="whatif-bar__segment whatif-bar__segment--added" style={{ width: percentOf(added, scale) }} />
+        <div
+          className="whatif-bar__segment whatif-bar__segment--over"
+          style={{ width: percentOf(agent.overCapacityBy, scale) }}
+        />
+        <div className="whatif-bar__capacity" style={{ left: percentOf(agent.capacity, scale) }} />
+      </div>
+    </div>
+  )
+}
+
+function ProjectionColumn({
+  rule,
+  projection,
+  scale,
+}: {
+  rule: AllocationRule
+  projection: SimulationProjection
+  scale: number
+}) {
+  return (
+    <div className="whatif-column">
+      <div className="whatif-column__header">
+        <span className="whatif-column__title">{rule.name}</span>
+        <span className={`badge ${getRuleTypeBadgeClass(rule.ruleType)}`}>{getRuleTypeLabel(rule.ruleType)}</span>
+      </div>
+
+      <div className="whatif-stats">
+        <div className="whatif-stat">
+          <span className="whatif-stat__value">{projection.totalProjectedCases}</span>
+          <span className="whatif-stat__label">Cases Allocated</span>
+        </div>
+        <div className="whatif-stat">
+          <span className="whatif-stat__value">{projection.agents.length}</span>
+          <span className="whatif-stat__label">Agents</span>
+        </div>
+        <div className={`whatif-stat${projection.overCapacityAgents.length > 0 ? ' whatif-stat--danger' : ''}`}>
+          <span className="whatif-stat__value">{projection.overCapacityAgents.length}</span>
+          <span className="whatif-stat__label">Over Capacity</span>
+        </div>
+        <div className={`whatif-stat${projection.peakUtilization > 100 ? ' whatif-stat--danger' : ''}`}>
+          <span className="whatif-stat__value">{projection.peakUtilization}%</span>
+          <span className="whatif-stat__label">Peak Utilization</span>
+        </div>
+      </div>
+
+      {projection.overCapacityAgents.length > 0 && (
+        <div className="whatif-warning">
+          <strong>
+            {projection.overCapacityAgents.length} agent{projection.overCapacityAgents.length === 1 ? '' : 's'} pushed
+            over capacity
+          </strong>
+          <ul>
+            {projection.overCapacityAgents.map((agent) => (
+              <li key={agent.agentId}>
+                {agent.agentName}: {agent.projectedLoad} cases for a capacity of {agent.capacity} (+
+                {agent.overCapacityBy})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {projection.unplacedCases > 0 && (
+        <div className="whatif-note">
+          {projection.unplacedCases} matched case{projection.unplacedCases === 1 ? '' : 's'} would stay unallocated.
+        </div>
+      )}
+
+      {projection.agents.length === 0 ? (
+        <div className="whatif-empty">No eligible agents for this rule.</div>
+      ) : (
+        <div className="whatif-chart">
+          {projection.agents.map((agent) => (
+            <LoadBar key={agent.agentId} agent={agent} scale={scale} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function SimulationWhatIf({
+  rule,
+  simulation,
+  compareRules,
+  targetDate,
+  onTargetDateChange,
+  onClose,
+  onApply,
+}: SimulationWhatIfProps) {
+  const [compareRuleId, setCompareRuleId] = useState<number | null>(null)
+  const [compareSimulation, setCompareSimulation] = useState<RuleSimulationResult | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+  const [compareError, setCompareError] = useState('')
+
+  const compareRule = compareRules.find((other) => other.id === compareRuleId) || null
+  const agentIds = getSimulationAgentIds([simulation, compareSimulation])
+  const { data: workloads, isLoading: isLoadingWorkload, error: workloadError } = useAgentWorkload(agentIds)
+  const { data: availability = [] } = useAgentAvailability(targetDate || '', targetDate || '', agentIds)
+
+  // Re-run the comparison whenever the compared rule or the day changes
+  useEffect(() => {
+    setCompareSimulation(null)
+    setCompareError('')
+    if (compareRuleId === null) return
+    let cancelled = false
+
+    setIsComparing(true)
+    allocationService
+      .simulateRule(compareRuleId, targetDate)
+      .then((result) => {
+        if (!cancelled) setCompareSimulation(result)
+      })
+      .catch((err) => {
+        if (!cancelled) setCompareError(err instanceof Error ? err.message : 'Failed to simulate rule')
+      })
+      .finally(() => {
+        if (!cancelled) setIsComparing(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [compareRuleId, targetDate])
+
+  const projection = projectSimulation(simulation, workloads, availability, targetDate)
+  const comparison = compareSimulation
+    ? projectSimulation(compareSimulation, workloads, availability, targetDate)
+    : null
+  const scale = getProjectionScale(comparison ? [projection, comparison] : [projection])
+
+  return (
+    <div className="whatif">
+      <div className="whatif-toolbar">
+        <label className="whatif-toolbar__compare">
+          <span>Compare with</span>
+          <select
+            value={compareRuleId ?? ''}
+            onChange={(e) => setCompareRuleId(e.target.value ? Number(e.target.value) : null)}
+            disabled={isComparing}
+          >
+            <option value="">No comparison</option>
+            {compareRules
+              .filter((other) => other.id !== rule.id)
+              .map((other) => (
+                <option key={other.id} value={other.id}>
+                  {other.name} ({getRuleTypeLabel(other.ruleType)})
+                </option>
+              ))}
+          </select>
+        </label>
+        {targetDate && (
+          <label className="whatif-toolbar__compare">
+            <span>Capacity on</span>
+            <input
+              type="date"
+              value={targetDate}
+              onChange={(e) => e.target.value && onTargetDateChange(e.target.value)}
+            />
+          </label>
+        )}
+        <div className="whatif-legend">
+          <span className="whatif-legend__item whatif-legend__item--current">Today</span>
+          <span className="whatif-legend__item whatif-legend__item--added">New cases</span>
+          <span className="whatif-legend__item whatif-legend__item--over">Over capacity</span>
+          <span className="whatif-legend__item whatif-legend__item--capacity">Capacity</span>
+        </div>
+      </div>
+
+      {(isLoadingWorkload || workloadError) && (
+        <div className="whatif-note">
+          {isLoadingWorkload
+            ? "Loading today's workload; figures below use the workload captured by the simulation."
+            : "Could not load today's workload; figures below use the workload captured by the simulation."}
+        </div>
+      )}
+      {compareError && <div className="whatif-warning">{compareError}</div>}
+
+      <div className={`whatif-columns${comparison || isComparing ? ' whatif-columns--compare' : ''}`}>
+        <ProjectionColumn rule={rule} projection={projection} scale={scale} />
+        {compareRule && comparison ? (
+          <ProjectionColumn rule={compareRule} projection={comparison} scale={scale} />
+        ) : compareRule && isComparing ? (
+          <div className="loading-container">
+            <div className="spinner"></div>
+            <span>Simulating {compareRule.name}...</span>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="simulation-actions">
+        <button className="btn-secondary" onClick={onClose}>
+          Close
+        </button>
+        <button className="btn-primary" onClick={onApply}>
+          Apply {rule.name}
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default SimulationWhatIf
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import type { AllocationRule } from '@types'
+import { analyzeRuleConflicts } from './ruleConflicts'
+
+const geographyRule = (
+  id: number,
+  priority: number,
+  geography: Pick<AllocationRule, 'states' | 'cities'>
+): AllocationRule => ({
+  id,
+  name: `Rule ${id}`,
+  ruleType: 'GEOGRAPHY',
+  status: 'ACTIVE',
+  priority,
+  createdBy: 1,
+  createdAt: `2026-01-0${id}T00:00:00Z`,
+  updatedAt: `2026-01-0${id}T00:00:00Z`,
+  ...geography,
+})
+
+const shadowedBy = (rules: AllocationRule[], ruleId: number): number | undefined =>
+  analyzeRuleConflicts(rules).find(
+    (conflict) => conflict.kind === 'SHADOWED' && conflict.ruleId === ruleId
+  )?.otherRuleId
+
+describe('analyzeRuleConflicts for geography rules', () => {
+  it('finds a state-only rule shadowing a later rule for cities in those states', () => {
+    const rules = [
+      geographyRule(1, 1, { states: ['Maharashtra'], cities: [] }),
+      geographyRule(2, 2, { states: ['Maharashtra'], cities: ['Pune', 'Nagpur'] }),
+    ]
+    expect(shadowedBy(rules, 2)).toBe(1)
+  })
+
+  it('finds a city-only rule shadowing a later rule for some of those cities', () => {
+    const rules = [
+      geographyRule(1, 1, { cities: ['Pune', 'Mumbai'] }),
+      geographyRule(2, 2, { states: ['Maharashtra'], cities: ['pune'] }),
+    ]
+    expect(shadowedBy(rules, 2)).toBe(1)
+  })
+
+  it('does not report an unrestricted later rule as covered by a narrower one', () => {
+    const rules = [
+      geographyRule(1, 1, { states: ['Maharashtra'] }),
+      geographyRule(2, 2, { states: [], cities: [] }),
+    ]
+    expect(shadowedBy(rules, 2)).toBeUndefined()
+  })
+
+  it('does not report a later rule without a city limit as covered by a city rule', () => {
+    const rules = [
+      geographyRule(1, 1, { states: ['Maharashtra'], cities: ['Pune'] }),
+      geographyRule(2, 2, { states: ['Maharashtra'] }),
+    ]
+    expect(shadowedBy(rules, 2)).toBeUndefined()
+  })
+
+  it('does not report a later rule reaching states the earlier rule leaves out', () => {
+    const rules = [
+      geographyRule(1, 1, { states: ['Maharashtra'] }),
+      geographyRule(2, 2, { states: ['Maharashtra', 'Karnataka'] }),
+    ]
+    expect(shadowedBy(rules, 2)).toBeUndefined()
+  })
+
+  it('reports an unrestricted earlier rule as shadowing everything after it', () => {
+    const rules = [
+      geographyRule(1, 1, {}),
+      geographyRule(2, 2, { states: ['Karnataka'], cities: ['Bengaluru'] }),
+    ]
+    expect(shadowedBy(rules, 2)).toBe(1)
+  })
+})
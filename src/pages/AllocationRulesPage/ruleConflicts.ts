@@ -0,0 +1,280 @@
+/**
+ * Rule Conflicts
+ * Works out how allocation rules interact when they run in priority order: which rules
+ * overlap, which can never fire because an earlier rule takes all their cases, and
+ * what a dry run of every live rule together would allocate.
+ */
+
+import type { AllocationRule, RuleSimulationResult } from '@types'
+import { formatDpdBand, formatTicketSize, getRuleTypeLabel } from './allocationRules'
+
+export type RuleConflictKind = 'OVERLAP' | 'SHADOWED' | 'SAME_PRIORITY'
+
+export interface RuleConflict {
+  kind: RuleConflictKind
+  // The rule the warning is about; for SHADOWED, the rule that never fires
+  ruleId: number
+  otherRuleId: number
+  message: string
+}
+
+interface Interval {
+  min: number
+  max: number | null
+}
+
+// Drafts and inactive rules never run, so they cannot conflict
+export const isRuleLive = (rule: AllocationRule): boolean =>
+  rule.status === 'ACTIVE' || rule.status === 'READY_FOR_APPLY'
+
+/**
+ * Rules in the order they run: lowest priority number first, ties by creation
+ */
+export function sortRulesByPriority(rules: AllocationRule[]): AllocationRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.createdAt.localeCompare(b.createdAt))
+}
+
+// Rules that take every unallocated case, whatever the case looks like
+const matchesEveryCase = (rule: AllocationRule): boolean => {
+  switch (rule.ruleType) {
+    case 'CAPACITY_BASED':
+    case 'PERCENTAGE_SPLIT':
+      return true
+    case 'LANGUAGE_SKILL':
+      // Every language, and cases nobody speaks still go to any agent
+      return !rule.languages?.length && rule.languageFallback !== 'LEAVE_UNALLOCATED'
+    default:
+      return false
+  }
+}
+
+const normalize = (values: string[] | undefined): string[] =>
+  (values || []).map((value) => value.trim().toLowerCase())
+
+const sharedValues = (a: string[] | undefined, b: string[] | undefined): string[] => {
+  const other = new Set(normalize(b))
+  return (a || []).filter((value) => other.has(value.trim().toLowerCase()))
+}
+
+const isSubset = (inner: string[] | undefined, outer: string[] | undefined): boolean => {
+  const outerSet = new Set(normalize(outer))
+  return normalize(inner).every((value) => outerSet.has(value))
+}
+
+// For filters where an empty list means "any value": the earlier list must allow every value
+// the later one does, and a later list with no limit is only covered by another with no limit
+const filterCovers = (later: string[] | undefined, earlier: string[] | undefined): boolean => {
+  if (!earlier?.length) return true
+  return !!later?.length && isSubset(later, earlier)
+}
+
+const intervalsOverlap = (a: Interval, b: Interval): boolean =>
+  (a.max === null || b.min <= a.max) && (b.max === null || a.min <= b.max)
+
+// Join touching ranges; band editors start the next band one above the previous end
+const mergeIntervals = (intervals: Interval[]): Interval[] => {
+  const merged: Interval[] = []
+  ;[...intervals]
+    .sort((a, b) => a.min - b.min)
+    .forEach((interval) => {
+      const last = merged[merged.length - 1]
+      if (last && (last.max === null || interval.min <= last.max + 1)) {
+        if (last.max !== null) last.max = interval.max === null ? null : Math.max(last.max, interval.max)
+      } else {
+        merged.push({ ...interval })
+      }
+    })
+  return merged
+}
+
+const intervalsCovered = (inner: Interval[], outer: Interval[]): boolean => {
+  const merged = mergeIntervals(outer)
+  return inner.every((interval) =>
+    merged.some(
+      (cover) =>
+        cover.min <= interval.min &&
+        (cover.max === null || (interval.max !== null && interval.max <= cover.max))
+    )
+  )
+}
+
+const dpdIntervals = (rule: AllocationRule): Interval[] =>
+  (rule.dpdBands || []).map((band) => ({ min: band.minDpd, max: band.maxDpd }))
+
+const ticketIntervals = (rule: AllocationRule): Interval[] =>
+  (rule.ticketSizes || []).map((band) => ({ min: band.minAmount, max: band.maxAmount }))
+
+/**
+ * What two rules of the same type both match, or null when they are disjoint
+ */
+function describeOverlap(a: AllocationRule, b: AllocationRule): string | null {
+  const listOverlap = (label: string, values: string[]) =>
+    values.length > 0 ? `${label} ${values.join(', ')}` : null
+
+  switch (a.ruleType) {
+    case 'GEOGRAPHY': {
+      const parts = [
+        listOverlap('states', sharedValues(a.states, b.states)),
+        listOverlap('cities', sharedValues(a.cities, b.cities)),
+      ].filter(Boolean)
+      return parts.length > 0 ? parts.join('; ') : null
+    }
+    case 'BUCKET':
+      return listOverlap('buckets', sharedValues(a.buckets, b.buckets))
+    case 'PRODUCT':
+      return listOverlap('products', sharedValues(a.products, b.products))
+    case 'LANGUAGE_SKILL':
+      if (!a.languages?.length || !b.languages?.length) return 'all languages'
+      return listOverlap('languages', sharedValues(a.languages, b.languages))
+    case 'DPD_BAND': {
+      const shared = (a.dpdBands || []).filter((band) =>
+        dpdIntervals(b).some((other) => intervalsOverlap({ min: band.minDpd, max: band.maxDpd }, other))
+      )
+      return shared.length > 0 ? `DPD ${shared.map(formatDpdBand).join(', ')}` : null
+    }
+    case 'TICKET_SIZE': {
+      const shared = (a.ticketSizes || []).filter((band) =>
+        ticketIntervals(b).some((other) => intervalsOverlap({ min: band.minAmount, max: band.maxAmount }, other))
+      )
+      return shared.length > 0 ? `ticket sizes ${shared.map(formatTicketSize).join(', ')}` : null
+    }
+    default:
+      return null
+  }
+}
+
+/**
+ * Whether an earlier rule of the same type matches every case the later one would
+ */
+function coversRule(earlier: AllocationRule, later: AllocationRule): boolean {
+  switch (later.ruleType) {
+    case 'GEOGRAPHY':
+      return filterCovers(later.states, earlier.states) && filterCovers(later.cities, earlier.cities)
+    case 'BUCKET':
+      return isSubset(later.buckets, earlier.buckets)
+    case 'PRODUCT':
+      return isSubset(later.products, earlier.products)
+    case 'LANGUAGE_SKILL':
+      return filterCovers(later.languages, earlier.languages)
+    case 'DPD_BAND':
+      return intervalsCovered(dpdIntervals(later), dpdIntervals(earlier))
+    case 'TICKET_SIZE':
+      return intervalsCovered(ticketIntervals(later), ticketIntervals(earlier))
+    default:
+      return false
+  }
+}
+
+/**
+ * Find overlapping, shadowed and tied live rules
+ * A shadowed rule is only reported against the first rule that hides it.
+ */
+export function analyzeRuleConflicts(rules: AllocationRule[]): RuleConflict[] {
+  const ordered = sortRulesByPriority(rules.filter(isRuleLive))
+  const conflicts: RuleConflict[] = []
+
+  ordered.forEach((rule, index) => {
+    const earlierRules = ordered.slice(0, index)
+
+    const tie = earlierRules.find((earlier) => earlier.priority === rule.priority)
+    if (tie) {
+      conflicts.push({
+        kind: 'SAME_PRIORITY',
+        ruleId: rule.id,
+        otherRuleId: tie.id,
+        message: `Shares priority ${rule.priority} with "${tie.name}", so which runs first is not defined`,
+      })
+    }
+
+    const shadowing = earlierRules.find(
+      (earlier) =>
+        matchesEveryCase(earlier) || (earlier.ruleType === rule.ruleType && coversRule(earlier, rule))
+    )
+    if (shadowing) {
+      conflicts.push({
+        kind: 'SHADOWED',
+        ruleId: rule.id,
+        otherRuleId: shadowing.id,
+        message: matchesEveryCase(shadowing)
+          ? `Never fires: "${shadowing.name}" (${getRuleTypeLabel(shadowing.ruleType)}) runs first and takes every case`
+          : `Never fires: "${shadowing.name}" runs first and matches every case this rule would`,
+      })
+      return
+    }
+
+    earlierRules
+      .filter((earlier) => earlier.ruleType === rule.ruleType)
+      .forEach((earlier) => {
+        const overlap = describeOverlap(earlier, rule)
+        if (overlap) {
+          conflicts.push({
+            kind: 'OVERLAP',
+            ruleId: rule.id,
+            otherRuleId: earlier.id,
+            message: `Overlaps "${earlier.name}" on ${overlap}; those cases go to "${earlier.name}" first`,
+          })
+        }
+      })
+  })
+
+  return conflicts
+}
+
+export interface DryRunRuleResult {
+  rule: AllocationRule
+  // Cases the rule matches on its own
+  matchedCases: number
+  // Cases left for it after higher-priority rules took theirs
+  allocatedCases: number
+  takenByEarlierRules: number
+  eligibleAgents: number
+  error?: string
+}
+
+export interface DryRunResult {
+  rules: DryRunRuleResult[]
+  totalCases: number
+  overlappingCases: number
+}
+
+/**
+ * Combine per-rule simulations as if the rules ran one after another in priority order
+ * Each simulation sees every unallocated case, so cases claimed by an earlier rule are
+ * subtracted from the later ones.
+ */
+export function combineSimulations(
+  orderedRules: AllocationRule[],
+  simulations: Map<number, RuleSimulationResult | Error>
+): DryRunResult {
+  const claimed = new Set<number>()
+  let overlappingCases = 0
+
+  const results = orderedRules.map((rule): DryRunRuleResult => {
+    const simulation = simulations.get(rule.id)
+    if (!simulation || simulation instanceof Error) {
+      return {
+        rule,
+        matchedCases: 0,
+        allocatedCases: 0,
+        takenByEarlierRules: 0,
+        eligibleAgents: 0,
+        error: simulation?.message || 'Simulation did not run',
+      }
+    }
+
+    const caseIds = simulation.caseIds || []
+    const fresh = caseIds.filter((caseId) => !claimed.has(caseId))
+    fresh.forEach((caseId) => claimed.add(caseId))
+    overlappingCases += caseIds.length - fresh.length
+
+    return {
+      rule,
+      matchedCases: caseIds.length,
+      allocatedCases: fresh.length,
+      takenByEarlierRules: caseIds.length - fresh.length,
+      eligibleAgents: simulation.eligibleAgents?.length || 0,
+    }
+  })
+
+  return { rules: results, totalCases: claimed.size, overlappingCases }
+}
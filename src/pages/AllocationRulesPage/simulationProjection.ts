@@ -0,0 +1,105 @@
+/**
+ * Simulation Projection
+ * Turns a rule simulation into per-agent projected load: today's workload plus the
+ * cases the rule would hand each agent, measured against their capacity.
+ */
+
+import { getAvailabilityOn, getEffectiveCapacity } from '@utils'
+import type { AgentAvailability, AgentWorkload, AvailabilityType, RuleSimulationResult } from '@types'
+
+export interface ProjectedAgentLoad {
+  agentId: number
+  agentName: string
+  // Effective capacity on the target day
+  capacity: number
+  // Leave, half-day or training on the target day
+  availability?: AvailabilityType
+  currentLoad: number
+  projectedCases: number
+  projectedLoad: number
+  currentUtilization: number
+  projectedUtilization: number
+  // Cases beyond capacity after allocation; 0 when within capacity
+  overCapacityBy: number
+}
+
+export interface SimulationProjection {
+  agents: ProjectedAgentLoad[]
+  totalProjectedCases: number
+  // Matched cases the suggested distribution does not place with any agent
+  unplacedCases: number
+  overCapacityAgents: ProjectedAgentLoad[]
+  peakUtilization: number
+}
+
+const utilization = (load: number, capacity: number): number =>
+  capacity > 0 ? Math.round((load / capacity) * 100) : 0
+
+/**
+ * Project a simulation onto today's workload
+ * Live workload wins over the figures captured in the simulation, which may be older.
+ * With a target date, capacity is cut for agents on leave, half-day or training that day.
+ */
+export function projectSimulation(
+  simulation: RuleSimulationResult,
+  workloads: AgentWorkload[] = [],
+  availability: AgentAvailability[] = [],
+  targetDate?: string
+): SimulationProjection {
+  const workloadByAgent = new Map(workloads.map((workload) => [workload.agentId, workload]))
+
+  const agents = simulation.eligibleAgents
+    .map((agent): ProjectedAgentLoad => {
+      const workload = workloadByAgent.get(agent.agentId)
+      const baseCapacity = workload?.capacity ?? agent.capacity
+      const capacity = targetDate
+        ? getEffectiveCapacity(baseCapacity, availability, agent.agentId, targetDate)
+        : baseCapacity
+      const currentLoad = workload?.activeAllocations ?? agent.currentWorkload
+      const projectedCases = simulation.suggestedDistribution[agent.agentId.toString()] || 0
+      const projectedLoad = currentLoad + projectedCases
+
+      return {
+        agentId: agent.agentId,
+        agentName: agent.agentName,
+        capacity,
+        availability: targetDate ? getAvailabilityOn(availability, agent.agentId, targetDate)?.type : undefined,
+        currentLoad,
+        projectedCases,
+        projectedLoad,
+        currentUtilization: utilization(currentLoad, capacity),
+        projectedUtilization: utilization(projectedLoad, capacity),
+        overCapacityBy: Math.max(projectedLoad - capacity, 0),
+      }
+    })
+    .sort((a, b) => b.projectedUtilization - a.projectedUtilization || a.agentName.localeCompare(b.agentName))
+
+  const totalProjectedCases = agents.reduce((total, agent) => total + agent.projectedCases, 0)
+
+  return {
+    agents,
+    totalProjectedCases,
+    unplacedCases: Math.max(simulation.unallocatedCases - totalProjectedCases, 0),
+    overCapacityAgents: agents.filter((agent) => agent.overCapacityBy > 0),
+    peakUtilization: agents.reduce((peak, agent) => Math.max(peak, agent.projectedUtilization), 0),
+  }
+}
+
+/**
+ * Largest load or capacity across projections, so bars drawn side by side share one scale
+ */
+export const getProjectionScale = (projections: SimulationProjection[]): number =>
+  Math.max(
+    1,
+    ...projections.flatMap((projection) =>
+      projection.agents.map((agent) => Math.max(agent.capacity, agent.projectedLoad))
+    )
+  )
+
+/**
+ * Agents whose workload has to be fetched to project the given simulations
+ */
+export const getSimulationAgentIds = (simulations: (RuleSimulationResult | null)[]): number[] =>
+  Array.from(
+    new Set(simulations.flatMap((simulation) => simulation?.eligibleAgents.map((agent) => agent.agentId) || []))
+  ).sort((a, b) => a - b)
@@ -1,18 +1,28 @@
 /**
  * Allocation Upload Page
- * Upload CSV files for bulk case allocation with batch history
+ * Upload CSV/XLSX files for bulk case allocation with row preview and batch history
  */
 
 import { useState, useRef, useCallback, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { allocationService } from '@services/api'
+import { UploadPreview } from '@components/common/UploadPreview'
+import { createUploadFile, isSpreadsheetFile, readUploadSheet } from '@utils'
+import type { UploadSchema, UploadSheet } from '@utils'
 import type { AllocationBatchUploadResponse, AllocationBatchStatusResponse, AllocationBatch } from '@types'
 import './AllocationUploadPage.css'
 
+// Row checks run in the browser before upload (normalised header names)
+const ALLOCATION_UPLOAD_SCHEMA: UploadSchema = {
+  requiredFields: ['caseid', 'loanaccountnumber', 'externalcaseid', 'primaryagentid', 'agentid', 'userid'],
+  uniqueFields: ['caseid', 'loanaccountnumber', 'externalcaseid'],
+}
+
 export function AllocationUploadPage() {
   const navigate = useNavigate()
   const fileInputRef = useRef<HTMLInputElement>(null)
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
+  const [previewSheet, setPreviewSheet] = useState<UploadSheet | null>(null)
   const [isUploading, setIsUploading] = useState(false)
   const [isDownloading, setIsDownloading] = useState(false)
   const [uploadResult, setUploadResult] = useState<AllocationBatchUploadResponse | null>(null)
@@ -50,34 +60,38 @@ export function AllocationUploadPage() {
     fetchBatches()
   }, [fetchBatches])
 
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (file) {
-      if (!file.name.endsWith('.csv')) {
-        setError('Please select a CSV file')
-        return
-      }
+  const selectFile = async (file: File) => {
+    if (!isSpreadsheetFile(file)) {
+      setError('Please select a CSV or XLSX file')
+      return
+    }
+
+    try {
+      const sheet = await readUploadSheet(file)
       setSelectedFile(file)
+      setPreviewSheet(sheet)
       setError('')
       setUploadResult(null)
       setBatchStatus(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file')
+    }
+  }
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (file) {
+      selectFile(file)
     }
   }
 
-  const handleDrop = useCallback((event: React.DragEvent) => {
+  const handleDrop = (event: React.DragEvent) => {
     event.preventDefault()
     const file = event.dataTransfer.files[0]
     if (file) {
-      if (!file.name.endsWith('.csv')) {
-        setError('Please select a CSV file')
-        return
-      }
-      setSelectedFile(file)
-      setError('')
-      setUploadResult(null)
-      setBatchStatus(null)
+      selectFile(file)
     }
-  }, [])
+  }
 
   const handleDragOver = (event: React.DragEvent) => {
     event.preventDefault()
@@ -106,7 +120,7 @@ export function AllocationUploadPage() {
     }
   }
 
-  const handleUpload = async () => {
+  const handleUpload = async (sheet: UploadSheet) => {
     if (!selectedFile) return
 
     try {
@@ -114,13 +128,15 @@ export function AllocationUploadPage() {
       setError('')
       setSuccessMessage('')
 
-      const result = await allocationService.uploadBatch(selectedFile)
+      // Upload the previewed rows (with edits and dropped rows applied) rather than the raw file
+      const result = await allocationService.uploadBatch(createUploadFile(selectedFile.name, sheet))
 
       setUploadResult(result)
       setSuccessMessage('File uploaded successfully! Processing in progress...')
 
       // Clear the selected file after successful upload
       setSelectedFile(null)
+      setPreviewSheet(null)
       if (fileInputRef.current) {
         fileInputRef.current.value = ''
       }
@@ -182,6 +198,7 @@ export function AllocationUploadPage() {
 
   const resetUpload = () => {
     setSelectedFile(null)
+    setPreviewSheet(null)
     setUploadResult(null)
     setBatchStatus(null)
     setError('')
@@ -274,7 +291,7 @@ export function AllocationUploadPage() {
         <div className="upload-header__content">
           <h1 className="upload-title">Upload Allocation Batch</h1>
           <p className="upload-subtitle">
-            Upload CSV files for bulk case allocation
+            Upload CSV or XLSX files for bulk case allocation
           </p>
         </div>
       </div>
@@ -324,7 +341,7 @@ export function AllocationUploadPage() {
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv"
+              accept=".csv,.xlsx"
               onChange={handleFileSelect}
               style={{ display: 'none' }}
             />
@@ -361,35 +378,24 @@ export function AllocationUploadPage() {
                 <p className="upload-dropzone__text">
                   <span className="upload-dropzone__text--primary">Click to upload</span> or drag and drop
                 </p>
-                <p className="upload-dropzone__hint">CSV files only</p>
+                <p className="upload-dropzone__hint">CSV or XLSX files</p>
               </>
             )}
           </div>
 
-          {/* Upload Button */}
-          <div className="upload-actions">
-            <button
-              className="btn-primary btn-upload"
-              onClick={handleUpload}
-              disabled={!selectedFile || isUploading}
-            >
-              {isUploading ? (
-                <>
-                  <div className="spinner-small"></div>
-                  Uploading...
-                </>
-              ) : (
-                <>
-                  <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                    <path d="M21 15V19C21 19.5304 20.7893 20.0391 20.4142 20.4142C20.0391 20.7893 19.5304 21 19 21H5C4.46957 21 3.96086 20.7893 3.58579 20.4142C3.21071 20.0391 3 19.5304 3 19V15" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                    <polyline points="17 8 12 3 7 8" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                    <line x1="12" y1="3" x2="12" y2="15" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                  </svg>
-                  Upload File
-                </>
-              )}
-            </button>
-          </div>
+          {/* Row Preview */}
+          {selectedFile && previewSheet && (
+            <div className="upload-preview-section">
+              <UploadPreview
+                key={`${selectedFile.name}-${selectedFile.lastModified}`}
+                sheet={previewSheet}
+                schema={ALLOCATION_UPLOAD_SCHEMA}
+                isUploading={isUploading}
+                onCancel={resetUpload}
+                onUpload={handleUpload}
+              />
+            </div>
+          )}
         </div>
       </div>
 
@@ -472,7 +478,8 @@ export function AllocationUploadPage() {
         <ul className="instructions-list">
           <li>Download the template to see the required format</li>
           <li>Fill in case_id, primary_agent_id, and optionally secondary_agent_id</li>
-          <li>Save the file as CSV format</li>
+          <li>Save the file as CSV or XLSX format</li>
+          <li>Fix or drop any rows flagged in the preview, then upload</li>
           <li>Upload the file and wait for processing to complete</li>
         </ul>
       </div>
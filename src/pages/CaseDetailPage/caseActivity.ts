@@ -0,0 +1,224 @@
+/**
+ * Case Activity
+ * Merges the case sourcing timeline with the workflow call, SMS, email, PTP,
+ * repayment and notice records into one list for the case timeline.
+ */
+
+import { format, isValid } from 'date-fns';
+import type { TimelineEvent, WorkflowCaseDetail } from '@types';
+
+export type CaseActivityKind =
+  | 'CALL'
+  | 'SMS'
+  | 'EMAIL'
+  | 'PTP'
+  | 'REPAYMENT'
+  | 'NOTICE'
+  | 'ALLOCATION'
+  | 'OTHER';
+
+export type CaseActivityTone = 'success' | 'warning' | 'danger' | 'info' | 'default';
+
+export interface CaseActivityBadge {
+  label: string;
+  tone: CaseActivityTone;
+}
+
+export interface CaseActivity {
+  id: string;
+  kind: CaseActivityKind;
+  timestamp: string;
+  title: string;
+  description?: string;
+  userName?: string;
+  durationSeconds?: number;
+  badges: CaseActivityBadge[];
+}
+
+export interface CaseActivityFilters {
+  // Empty means every kind
+  kinds: CaseActivityKind[];
+  search: string;
+  // yyyy-mm-dd, inclusive; empty for no bound
+  fromDate: string;
+  toDate: string;
+}
+
+export const CASE_ACTIVITY_KINDS: { kind: CaseActivityKind; label: string }[] = [
+  { kind: 'CALL', label: 'Calls' },
+  { kind: 'SMS', label: 'SMS' },
+  { kind: 'EMAIL', label: 'Emails' },
+  { kind: 'PTP', label: 'PTPs' },
+  { kind: 'REPAYMENT', label: 'Repayments' },
+  { kind: 'NOTICE', label: 'Notices' },
+  { kind: 'ALLOCATION', label: 'Allocation' },
+  { kind: 'OTHER', label: 'Other' },
+];
+
+export const EMPTY_ACTIVITY_FILTERS: CaseActivityFilters = { kinds: [], search: '', fromDate: '', toDate: '' };
+
+// Source timeline calls and messages within this window of a workflow record are the same contact
+const DUPLICATE_WINDOW_MS = 60 * 1000;
+
+const SUCCESS_STATUSES = ['CONNECTED', 'DELIVERED', 'APPROVED', 'KEPT', 'SUCCESS', 'COMPLETED'];
+const DANGER_STATUSES = ['FAILED', 'BROKEN', 'MISSED', 'REJECTED', 'BOUNCED', 'NOT_CONNECTED'];
+const INFO_STATUSES = ['SENT', 'DISPATCHED', 'IN_TRANSIT'];
+
+const statusBadge = (status: string | undefined): CaseActivityBadge[] => {
+  if (!status) return [];
+  const value = status.toUpperCase();
+  if (SUCCESS_STATUSES.includes(value)) return [{ label: status, tone: 'success' }];
+  if (DANGER_STATUSES.includes(value)) return [{ label: status, tone: 'danger' }];
+  if (INFO_STATUSES.includes(value)) return [{ label: status, tone: 'info' }];
+  return [{ label: status, tone: 'warning' }];
+};
+
+const formatAmount = (amount: number | undefined): string => {
+  if (amount === undefined || amount === null) return '-';
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+// Local calendar day of a timestamp, or '' when it cannot be parsed
+const toDay = (value: string): string => {
+  const date = new Date(value);
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : '';
+};
+
+const getTimelineKind = (event: TimelineEvent): CaseActivityKind => {
+  const type = event.eventType.toUpperCase();
+  if (type.includes('CALL')) return 'CALL';
+  if (type.includes('SMS') || type.includes('WHATSAPP')) return 'SMS';
+  if (type.includes('EMAIL')) return 'EMAIL';
+  if (type.includes('PTP')) return 'PTP';
+  if (type.includes('PAYMENT')) return 'REPAYMENT';
+  if (type.includes('NOTICE')) return 'NOTICE';
+  if (type.includes('ALLOCAT')) return 'ALLOCATION';
+  return 'OTHER';
+};
+
+const fromTimelineEvent = (event: TimelineEvent): CaseActivity => ({
+  id: `timeline-${event.eventId}`,
+  kind: getTimelineKind(event),
+  timestamp: event.eventTimestamp,
+  title: event.eventTitle,
+  description: event.eventDescription,
+  userName: event.userName,
+  durationSeconds: event.callDurationSeconds,
+  badges: [
+    ...(event.disposition ? [{ label: event.disposition, tone: 'info' as const }] : []),
+    ...(event.subDisposition ? [{ label: event.subDisposition, tone: 'default' as const }] : []),
+    ...statusBadge(event.contactResult),
+    ...statusBadge(event.messageStatus),
+  ],
+});
+
+const fromWorkflowDetail = (detail: WorkflowCaseDetail): CaseActivity[] => [
+  ...(detail.callLogs || []).map((call) => ({
+    id: `call-${call.id}`,
+    kind: 'CALL' as const,
+    timestamp: call.startTime || call.createdAt,
+    title: `${call.callType ? `${call.callType} call` : 'Call'}${call.calledNumber ? ` to ${call.calledNumber}` : ''}`,
+    description: call.notes,
+    durationSeconds: call.duration,
+    badges: [
+      ...statusBadge(call.callStatus),
+      ...(call.dispositionCode ? [{ label: call.dispositionCode, tone: 'info' as const }] : []),
+    ],
+  })),
+  ...(detail.smsHistory || []).map((sms) => ({
+    id: `sms-${sms.id}`,
+    kind: 'SMS' as const,
+    timestamp: sms.sentAt || sms.createdAt,
+    title: `SMS${sms.phoneNumber ? ` to ${sms.phoneNumber}` : ''}`,
+    description: sms.message,
+    badges: statusBadge(sms.status),
+  })),
+  ...(detail.emailHistory || []).map((email) => ({
+    id: `email-${email.id}`,
+    kind: 'EMAIL' as const,
+    timestamp: email.sentAt || email.createdAt,
+    title: email.subject ? `Email: ${email.subject}` : 'Email',
+    description: email.toEmail ? `To ${email.toEmail}` : undefined,
+    badges: statusBadge(email.status),
+  })),
+  ...(detail.ptps || [])
+    .filter((ptp) => ptp.createdAt || ptp.ptpDate)
+    .map((ptp) => ({
+      id: `ptp-${ptp.id}`,
+      kind: 'PTP' as const,
+      timestamp: (ptp.createdAt || ptp.ptpDate) as string,
+      title: `Promise to pay ${formatAmount(ptp.ptpAmount)}${
+        ptp.commitmentDate ? ` by ${ptp.commitmentDate.slice(0, 10)}` : ''
+      }`,
+      description: ptp.brokenReason || ptp.notes,
+      badges: statusBadge(ptp.ptpStatus),
+    })),
+  ...(detail.repayments || []).map((repayment) => ({
+    id: `repayment-${repayment.id}`,
+    kind: 'REPAYMENT' as const,
+    timestamp: repayment.paymentDate || repayment.createdAt,
+    title: `Repayment of ${formatAmount(repayment.amount)} via ${repayment.paymentMode}`,
+    description: repayment.referenceNumber ? `Reference ${repayment.referenceNumber}` : repayment.remarks,
+    badges: statusBadge(repayment.status),
+  })),
+  ...(detail.notices || []).map((notice) => ({
+    id: `notice-${notice.id}`,
+    kind: 'NOTICE' as const,
+    timestamp: notice.sentDate || notice.createdAt,
+    title: `${notice.noticeType} notice ${notice.noticeNumber}`,
+    badges: statusBadge(notice.status),
+  })),
+];
+
+/**
+ * Combine both sources, newest first
+ * Workflow records carry more detail, so a source timeline call or message that
+ * matches one of them is dropped rather than shown twice.
+ */
+export const buildCaseActivity = (
+  events: TimelineEvent[],
+  detail: WorkflowCaseDetail | undefined
+): CaseActivity[] => {
+  const workflowActivity = detail ? fromWorkflowDetail(detail) : [];
+  const isDuplicate = (activity: CaseActivity) => {
+    if (!['CALL', 'SMS', 'EMAIL'].includes(activity.kind)) return false;
+    const time = new Date(activity.timestamp).getTime();
+    return workflowActivity.some(
+      (other) =>
+        other.kind === activity.kind && Math.abs(new Date(other.timestamp).getTime() - time) <= DUPLICATE_WINDOW_MS
+    );
+  };
+
+  return [...events.map(fromTimelineEvent).filter((activity) => !isDuplicate(activity)), ...workflowActivity].sort(
+    (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
+  );
+};
+
+export const filterCaseActivity = (activities: CaseActivity[], filters: CaseActivityFilters): CaseActivity[] => {
+  const search = filters.search.trim().toLowerCase();
+  return activities.filter((activity) => {
+    if (filters.kinds.length > 0 && !filters.kinds.includes(activity.kind)) return false;
+    const day = toDay(activity.timestamp);
+    if (filters.fromDate && (!day || day < filters.fromDate)) return false;
+    if (filters.toDate && (!day || day > filters.toDate)) return false;
+    if (!search) return true;
+    return [activity.title, activity.description, activity.userName, ...activity.badges.map((badge) => badge.label)]
+      .filter(Boolean)
+      .some((text) => (text as string).toLowerCase().includes(search));
+  });
+};
+
+export const countByKind = (activities: CaseActivity[]): Record<CaseActivityKind, number> => {
+  const counts = Object.fromEntries(CASE_ACTIVITY_KINDS.map(({ kind }) => [kind, 0])) as Record<
+    CaseActivityKind,
+    number
+  >;
+  activities.forEach((activity) => {
+    counts[activity.kind]++;
+  });
+  return counts;
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkflowDocument } from '@types';
+import { groupDocumentVersions } from './caseDocuments';
+
+const doc = (id: number, day: number, changes: Partial<WorkflowDocument> = {}): WorkflowDocument => ({
+  id,
+  caseId: 1,
+  documentName: `file-${id}.pdf`,
+  documentType: 'KYC',
+  uploadedAt: `2026-03-${String(day).padStart(2, '0')}T10:00:00Z`,
+  ...changes,
+});
+
+describe('groupDocumentVersions', () => {
+  it('keeps separate uploads of the same type as separate documents', () => {
+    const groups = groupDocumentVersions([doc(1, 1), doc(2, 1), doc(3, 2)]);
+    expect(groups.map((group) => group.versions.map((version) => version.id))).toEqual([[3], [1], [2]]);
+  });
+
+  it('groups a replacement chain with the newest version first', () => {
+    const groups = groupDocumentVersions([
+      doc(1, 1),
+      doc(2, 2, { replacesDocumentId: 1 }),
+      doc(3, 3),
+      doc(4, 4, { replacesDocumentId: 2 }),
+    ]);
+    expect(groups.map((group) => group.versions.map((version) => version.id))).toEqual([[4, 2, 1], [3]]);
+  });
+
+  it('starts a chain at a replaced document that is not in the list', () => {
+    const groups = groupDocumentVersions([doc(5, 2, { replacesDocumentId: 99 }), doc(6, 3, { replacesDocumentId: 5 })]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].versions.map((version) => version.id)).toEqual([6, 5]);
+  });
+
+  it('takes the document type from the latest version', () => {
+    const groups = groupDocumentVersions([doc(1, 1, { documentType: 'OTHER' }), doc(2, 2, { replacesDocumentId: 1 })]);
+    expect(groups[0].documentType).toBe('KYC');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Case Documents
+ * File checks, preview support and version grouping for case documents
+ */
+
+import type { WorkflowDocument } from '@types';
+
+export const MAX_DOCUMENT_SIZE_BYTES = 10 * 1024 * 1024;
+
+export const ACCEPTED_DOCUMENT_EXTENSIONS = ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'webp', 'doc', 'docx', 'xls', 'xlsx', 'csv', 'txt'];
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp'];
+
+export type DocumentPreviewKind = 'pdf' | 'image';
+
+export interface DocumentGroup {
+  key: string;
+  documentType?: string;
+  // Newest version first
+  versions: WorkflowDocument[];
+}
+
+const getExtension = (name: string): string => {
+  const dot = name.lastIndexOf('.');
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : '';
+};
+
+/**
+ * Reason a file cannot be uploaded, or undefined when it is fine
+ */
+export const validateDocumentFile = (file: File): string | undefined => {
+  if (!ACCEPTED_DOCUMENT_EXTENSIONS.includes(getExtension(file.name))) {
+    return `Unsupported file type. Allowed: ${ACCEPTED_DOCUMENT_EXTENSIONS.join(', ')}`;
+  }
+  if (file.size > MAX_DOCUMENT_SIZE_BYTES) {
+    return `File is larger than ${formatFileSize(MAX_DOCUMENT_SIZE_BYTES)}`;
+  }
+  if (file.size === 0) {
+    return 'File is empty';
+  }
+  return undefined;
+};
+
+/**
+ * How a document can be shown in the browser, or null when it can only be downloaded
+ */
+export const getPreviewKind = (document: WorkflowDocument): DocumentPreviewKind | null => {
+  const mimeType = document.mimeType?.toLowerCase() || '';
+  const extension = getExtension(document.documentName);
+  if (mimeType === 'application/pdf' || extension === 'pdf') return 'pdf';
+  if (mimeType.startsWith('image/') || IMAGE_EXTENSIONS.includes(extension)) return 'image';
+  return null;
+};
+
+export const formatFileSize = (bytes: number | undefined): string => {
+  if (!bytes) return '-';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const byNewest = (a: WorkflowDocument, b: WorkflowDocument): number => {
+  if (a.version !== undefined && b.version !== undefined && a.version !== b.version) {
+    return b.version - a.version;
+  }
+  return new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime();
+};
+
+/**
+ * Document the version chain starts from, following replacesDocumentId back through the list
+ * A replaced document missing from the list ends the chain where the list stops.
+ */
+const findChainRoot = (
+  document: WorkflowDocument,
+  byId: Map<number, WorkflowDocument>
+): WorkflowDocument => {
+  const seen = new Set<number>([document.id]);
+  let root = document;
+  let previous = root.replacesDocumentId !== undefined ? byId.get(root.replacesDocumentId) : undefined;
+  while (previous && !seen.has(previous.id)) {
+    seen.add(previous.id);
+    root = previous;
+    previous = root.replacesDocumentId !== undefined ? byId.get(root.replacesDocumentId) : undefined;
+  }
+  return root;
+};
+
+/**
+ * Group documents so each shows its latest version with the versions it replaced beneath it
+ * Versions are linked only through replacesDocumentId, so separate uploads of the same type
+ * (front and back of a KYC document, several payment proofs) stay separate documents.
+ */
+export const groupDocumentVersions = (documents: WorkflowDocument[]): DocumentGroup[] => {
+  const byId = new Map(documents.map((document) => [document.id, document]));
+  const groups = new Map<string, DocumentGroup>();
+  documents.forEach((document) => {
+    const key = `document-${findChainRoot(document, byId).id}`;
+    const group = groups.get(key) ?? { key, versions: [] };
+    group.versions.push(document);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const versions = [...group.versions].sort(byNewest);
+      return { ...group, documentType: versions[0].documentType, versions };
+    })
+    .sort((a, b) => byNewest(a.versions[0], b.versions[0]));
+};
+
+/**
+ * Version number shown for a document; falls back to its position when the API sends none
+ */
+export const getDocumentVersion = (group: DocumentGroup, document: WorkflowDocument): number => {
+  return document.version ?? group.versions.length - group.versions.indexOf(document);
+};
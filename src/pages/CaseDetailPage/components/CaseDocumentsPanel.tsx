@@ -0,0 +1,395 @@
+/**
+ * Case Documents Panel
+ * Upload, tag, preview and download case documents; replacing a document adds a new version
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Button } from '@components/common/Button';
+import { workflowService } from '@services/api';
+import { useMasterDataByType, workflowKeys } from '@services/queries';
+import { DOCUMENT_TYPE_MASTER_DATA_TYPE } from '@types';
+import type { ApiError, WorkflowDocument } from '@types';
+import { cn, generateId } from '@utils';
+import {
+  ACCEPTED_DOCUMENT_EXTENSIONS,
+  MAX_DOCUMENT_SIZE_BYTES,
+  formatFileSize,
+  getDocumentVersion,
+  getPreviewKind,
+  groupDocumentVersions,
+  validateDocumentFile,
+  type DocumentGroup,
+} from '../caseDocuments';
+import { DocumentPreviewModal } from './DocumentPreviewModal';
+import './CaseDocumentsPanel.css';
+
+interface CaseDocumentsPanelProps {
+  caseId: number;
+  documents: WorkflowDocument[];
+  onUploaded: () => void;
+}
+
+type PendingStatus = 'READY' | 'INVALID' | 'UPLOADING' | 'DONE' | 'FAILED';
+
+interface PendingUpload {
+  id: string;
+  file: File;
+  documentType: string;
+  // Set only when the user chooses to replace an existing document with this file
+  replacesDocumentId?: number;
+  progress: number;
+  status: PendingStatus;
+  error?: string;
+}
+
+const formatDate = (dateString: string | undefined): string => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+const getErrorMessage = (err: unknown): string => {
+  return (err as ApiError)?.message || (err instanceof Error ? err.message : 'Upload failed');
+};
+
+export function CaseDocumentsPanel({ caseId, documents, onUploaded }: CaseDocumentsPanelProps) {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingUpload[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [selectedDocument, setSelectedDocument] = useState<WorkflowDocument | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
+
+  const documentTypesQuery = useMasterDataByType(DOCUMENT_TYPE_MASTER_DATA_TYPE);
+  const documentTypes = useMemo(
+    () =>
+      (documentTypesQuery.data || [])
+        .filter((item) => item.isActive)
+        .sort((a, b) => a.displayOrder - b.displayOrder),
+    [documentTypesQuery.data]
+  );
+
+  const groups = useMemo(() => groupDocumentVersions(documents), [documents]);
+  const groupsByType = useMemo(() => {
+    const byType = new Map<string, DocumentGroup[]>();
+    groups.forEach((group) => {
+      if (!group.documentType) return;
+      byType.set(group.documentType, [...(byType.get(group.documentType) || []), group]);
+    });
+    return byType;
+  }, [groups]);
+
+  const getTypeLabel = (code: string | undefined): string => {
+    if (!code) return 'Document';
+    return documentTypes.find((item) => item.code === code)?.value || code;
+  };
+
+  const updatePending = (id: string, changes: Partial<PendingUpload>) => {
+    setPending((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  };
+
+  const addFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const added = Array.from(files).map((file): PendingUpload => {
+      const error = validateDocumentFile(file);
+      return {
+        id: generateId(),
+        file,
+        documentType: '',
+        progress: 0,
+        status: error ? 'INVALID' : 'READY',
+        error,
+      };
+    });
+    setPending((prev) => [...prev.filter((item) => item.status !== 'DONE'), ...added]);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!isUploading) addFiles(e.dataTransfer.files);
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(e.target.files);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+  };
+
+  const toUpload = pending.filter((item) => item.status === 'READY' || item.status === 'FAILED');
+  const missingType = toUpload.some((item) => !item.documentType);
+
+  /**
+   * Upload one file at a time so progress is clear
+   */
+  const handleUpload = async () => {
+    if (toUpload.length === 0 || missingType) return;
+    setIsUploading(true);
+    let uploaded = 0;
+
+    for (const item of toUpload) {
+      updatePending(item.id, { status: 'UPLOADING', progress: 0, error: undefined });
+      try {
+        await workflowService.uploadCaseDocument(
+          caseId,
+          { file: item.file, documentType: item.documentType, replacesDocumentId: item.replacesDocumentId },
+          (progress) => updatePending(item.id, { progress })
+        );
+        updatePending(item.id, { status: 'DONE', progress: 100 });
+        uploaded++;
+      } catch (err) {
+        updatePending(item.id, { status: 'FAILED', error: getErrorMessage(err) });
+      }
+    }
+
+    setIsUploading(false);
+    if (uploaded > 0) onUploaded();
+  };
+
+  /**
+   * Files are only reachable through signed links, which the backend audits as it issues them
+   */
+  const downloadDocument = async (document: WorkflowDocument) => {
+    try {
+      setAccessError(null);
+      const link = await workflowService.getDocumentAccessLink(caseId, document.id, 'DOWNLOAD');
+      window.location.assign(link.url);
+      queryClient.invalidateQueries({ queryKey: workflowKeys.documentAudit(caseId, document.id) });
+    } catch (err) {
+      setAccessError(getErrorMessage(err));
+    }
+  };
+
+  const toggleGroup = (key: string) => {
+    setExpandedGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const renderDocumentActions = (document: WorkflowDocument) => (
+    <div className="case-documents__actions">
+      <button type="button" className="case-documents__action" onClick={() => setSelectedDocument(document)}>
+        {getPreviewKind(document) ? 'Preview' : 'History'}
+      </button>
+      <button
+        type="button"
+        className="case-documents__action case-documents__action--primary"
+        onClick={() => downloadDocument(document)}
+      >
+        Download
+      </button>
+    </div>
+  );
+
+  const renderGroup = (group: DocumentGroup) => {
+    const [latest, ...previous] = group.versions;
+    const isExpanded = expandedGroups.has(group.key);
+    return (
+      <div key={group.key} className="case-documents__group">
+        <div className="document-card">
+          <div className="document-card__info">
+            <span className="document-card__name">{latest.documentName}</span>
+            <span className="document-card__meta">
+              {getTypeLabel(latest.documentType)} • {formatFileSize(latest.fileSize)}
+              {previous.length > 0 && ` • v${getDocumentVersion(group, latest)}`}
+            </span>
+            <span className="document-card__date">
+              Uploaded {formatDate(latest.uploadedAt)}
+              {latest.uploadedBy && ` by ${latest.uploadedBy}`}
+            </span>
+          </div>
+          {renderDocumentActions(latest)}
+        </div>
+        {previous.length > 0 && (
+          <button type="button" className="case-documents__versions-toggle" onClick={() => toggleGroup(group.key)}>
+            {isExpanded ? 'Hide' : 'Show'} {previous.length} previous version{previous.length === 1 ? '' : 's'}
+          </button>
+        )}
+        {isExpanded && (
+          <ul className="case-documents__versions">
+            {previous.map((document) => (
+              <li key={document.id} className="case-documents__version">
+                <div className="case-documents__version-info">
+                  <span className="case-documents__version-number">v{getDocumentVersion(group, document)}</span>
+                  <span>{document.documentName}</span>
+                  <span className="case-documents__muted">
+                    {formatDate(document.uploadedAt)}
+                    {document.uploadedBy && ` by ${document.uploadedBy}`}
+                  </span>
+                </div>
+                {renderDocumentActions(document)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="case-documents">
+      {accessError && <p className="case-documents__error">{accessError}</p>}
+      <div
+        className={cn('case-documents__drop-zone', isDragging && 'case-documents__drop-zone--active')}
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onClick={() => !isUploading && fileInputRef.current?.click()}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ACCEPTED_DOCUMENT_EXTENSIONS.map((extension) => `.${extension}`).join(',')}
+          onChange={handleFileChange}
+          hidden
+        />
+        <p className="case-documents__drop-title">Drop files here or click to browse</p>
+        <p className="case-documents__muted">
+          {ACCEPTED_DOCUMENT_EXTENSIONS.join(', ').toUpperCase()} up to {formatFileSize(MAX_DOCUMENT_SIZE_BYTES)} each
+        </p>
+      </div>
+
+      {pending.length > 0 && (
+        <div className="case-documents__pending">
+          {pending.map((item) => {
+            const replaceable = item.documentType ? groupsByType.get(item.documentType) || [] : [];
+            // One file per document, so a batch never forks a version chain
+            const claimedIds = new Set(
+              pending
+                .filter((other) => other.id !== item.id && other.status !== 'DONE')
+                .map((other) => other.replacesDocumentId)
+            );
+            const locked = isUploading || item.status === 'DONE' || item.status === 'INVALID';
+            return (
+              <div
+                key={item.id}
+                className={cn(
+                  'case-documents__pending-item',
+                  `case-documents__pending-item--${item.status.toLowerCase()}`
+                )}
+              >
+                <div className="case-documents__pending-file">
+                  <span className="case-documents__pending-name">{item.file.name}</span>
+                  <span className="case-documents__muted">{formatFileSize(item.file.size)}</span>
+                </div>
+                <div className="case-documents__pending-type">
+                  <select
+                    className="case-documents__select"
+                    value={item.documentType}
+                    onChange={(e) =>
+                      updatePending(item.id, { documentType: e.target.value, replacesDocumentId: undefined })
+                    }
+                    disabled={locked}
+                  >
+                    <option value="">
+                      {documentTypesQuery.isLoading ? 'Loading types...' : 'Select document type'}
+                    </option>
+                    {documentTypes.map((type) => (
+                      <option key={type.id} value={type.code}>
+                        {type.value}
+                      </option>
+                    ))}
+                  </select>
+                  {replaceable.length > 0 && (
+                    <select
+                      className="case-documents__select"
+                      value={item.replacesDocumentId ?? ''}
+                      onChange={(e) =>
+                        updatePending(item.id, {
+                          replacesDocumentId: e.target.value ? Number(e.target.value) : undefined,
+                        })
+                      }
+                      disabled={locked}
+                    >
+                      <option value="">Add as a new document</option>
+                      {replaceable.map((group) => {
+                        const latest = group.versions[0];
+                        return (
+                          <option key={group.key} value={latest.id} disabled={claimedIds.has(latest.id)}>
+                            Replace {latest.documentName} (v{getDocumentVersion(group, latest)})
+                          </option>
+                        );
+                      })}
+                    </select>
+                  )}
+                </div>
+                <div className="case-documents__pending-status">
+                  {item.status === 'UPLOADING' && (
+                    <div className="case-documents__progress">
+                      <div className="case-documents__progress-bar" style={{ width: `${item.progress}%` }} />
+                    </div>
+                  )}
+                  {item.status === 'DONE' && <span className="badge badge--success">Uploaded</span>}
+                  {item.error && <span className="case-documents__error">{item.error}</span>}
+                </div>
+                {!isUploading && item.status !== 'DONE' && (
+                  <button
+                    type="button"
+                    className="case-documents__remove"
+                    onClick={() => setPending((prev) => prev.filter((other) => other.id !== item.id))}
+                    title="Remove"
+                  >
+                    &times;
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <div className="case-documents__pending-footer">
+            {missingType && <span className="case-documents__muted">Choose a document type for every file</span>}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setPending([])}
+              disabled={isUploading}
+            >
+              Clear
+            </Button>
+            <Button size="sm" onClick={handleUpload} disabled={isUploading || toUpload.length === 0 || missingType}>
+              {isUploading ? 'Uploading...' : `Upload ${toUpload.length} file${toUpload.length === 1 ? '' : 's'}`}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="empty-state">
+          <p>No documents found</p>
+          <span>No documents have been uploaded for this case</span>
+        </div>
+      ) : (
+        <div className="case-documents__list">{groups.map(renderGroup)}</div>
+      )}
+
+      <DocumentPreviewModal
+        caseId={caseId}
+        document={selectedDocument}
+        typeLabel={getTypeLabel(selectedDocument?.documentType)}
+        onClose={() => setSelectedDocument(null)}
+        onDownload={downloadDocument}
+      />
+    </div>
+  );
+}
+
+export default CaseDocumentsPanel;
@@ -0,0 +1,253 @@
+/**
+ * Case Timeline
+ * Every contact, promise, payment and allocation change on a case in one filterable list
+ */
+
+import { useMemo, useState } from 'react';
+import type { TimelineSummary } from '@types';
+import { cn } from '@utils';
+import {
+  CASE_ACTIVITY_KINDS,
+  EMPTY_ACTIVITY_FILTERS,
+  countByKind,
+  filterCaseActivity,
+  type CaseActivity,
+  type CaseActivityFilters,
+  type CaseActivityKind,
+} from '../caseActivity';
+import './CaseTimeline.css';
+
+interface CaseTimelineProps {
+  activities: CaseActivity[];
+  summary?: TimelineSummary;
+}
+
+const KIND_COLORS: Record<CaseActivityKind, string> = {
+  CALL: 'blue',
+  SMS: 'green',
+  EMAIL: 'green',
+  PTP: 'orange',
+  REPAYMENT: 'green',
+  NOTICE: 'red',
+  ALLOCATION: 'blue',
+  OTHER: 'gray',
+};
+
+const formatDateTime = (dateString: string): string => {
+  return new Date(dateString).toLocaleString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const getKindIcon = (kind: CaseActivityKind): JSX.Element => {
+  switch (kind) {
+    case 'CALL':
+      return (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M22 16.92V19.92C22.0011 20.1985 21.9441 20.4742 21.8325 20.7294C21.7209 20.9845 21.5573 21.2136 21.3521 21.4019C21.1468 21.5901 20.9046 21.7335 20.6407 21.8227C20.3769 21.9119 20.0974 21.9451 19.82 21.92C16.7428 21.5856 13.787 20.5341 11.19 18.85C8.77382 17.3147 6.72533 15.2662 5.18999 12.85C3.49997 10.2412 2.44824 7.27099 2.11999 4.18C2.09501 3.90347 2.12787 3.62476 2.2165 3.36162C2.30513 3.09849 2.44756 2.85669 2.63476 2.65162C2.82196 2.44655 3.0498 2.28271 3.30379 2.17052C3.55777 2.05833 3.83233 2.00026 4.10999 2H7.10999C7.5953 1.99522 8.06579 2.16708 8.43376 2.48353C8.80173 2.79999 9.04207 3.23945 9.10999 3.72C9.23662 4.68007 9.47144 5.62273 9.80999 6.53C9.94454 6.88792 9.97366 7.27691 9.89391 7.65088C9.81415 8.02485 9.62886 8.36811 9.35999 8.64L8.08999 9.91C9.51355 12.4135 11.5865 14.4864 14.09 15.91L15.36 14.64C15.6319 14.3711 15.9751 14.1858 16.3491 14.1061C16.7231 14.0263 17.1121 14.0555 17.47 14.19C18.3773 14.5286 19.3199 14.7634 20.28 14.89C20.7658 14.9585 21.2094 15.2032 21.5265 15.5775C21.8437 15.9518 22.0122 16.4296 22 16.92Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      );
+    case 'SMS':
+      return (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M21 15C21 15.5304 20.7893 16.0391 20.4142 16.4142C20.0391 16.7893 19.5304 17 19 17H7L3 21V5C3 4.46957 3.21071 3.96086 3.58579 3.58579C3.96086 3.21071 4.46957 3 5 3H19C19.5304 3 20.0391 3.21071 20.4142 3.58579C20.7893 3.96086 21 4.46957 21 5V15Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      );
+    case 'EMAIL':
+      return (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M4 4H20C21.1 4 22 4.9 22 6V18C22 19.1 21.1 20 20 20H4C2.9 20 2 19.1 2 18V6C2 4.9 2.9 4 4 4Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+          <polyline points="22,6 12,13 2,6" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      );
+    case 'PTP':
+      return (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M9 12L11 14L15 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+          <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2" />
+        </svg>
+      );
+    case 'REPAYMENT':
+      return (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <rect x="2" y="4" width="20" height="16" rx="2" stroke="currentColor" strokeWidth="2" />
+          <path d="M2 10H22" stroke="currentColor" strokeWidth="2" />
+        </svg>
+      );
+    case 'NOTICE':
+      return (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M14 2H6C5.46957 2 4.96086 2.21071 4.58579 2.58579C4.21071 2.96086 4 3.46957 4 4V20C4 20.5304 4.21071 21.0391 4.58579 21.4142C4.96086 21.7893 5.46957 22 6 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V8L14 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+          <path d="M14 2V8H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+      );
+    case 'ALLOCATION':
+      return (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <path d="M20 21V19C20 17.9391 19.5786 16.9217 18.8284 16.1716C18.0783 15.4214 17.0609 15 16 15H8C6.93913 15 5.92172 15.4214 5.17157 16.1716C4.42143 16.9217 4 17.9391 4 19V21" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+          <circle cx="12" cy="7" r="4" stroke="currentColor" strokeWidth="2" />
+        </svg>
+      );
+    default:
+      return (
+        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+          <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2" />
+          <path d="M12 8V12M12 16H12.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round" />
+        </svg>
+      );
+  }
+};
+
+export function CaseTimeline({ activities, summary }: CaseTimelineProps) {
+  const [filters, setFilters] = useState<CaseActivityFilters>(EMPTY_ACTIVITY_FILTERS);
+
+  const counts = useMemo(() => countByKind(activities), [activities]);
+  const visible = useMemo(() => filterCaseActivity(activities, filters), [activities, filters]);
+  const isFiltered =
+    filters.kinds.length > 0 || !!filters.search || !!filters.fromDate || !!filters.toDate;
+
+  const toggleKind = (kind: CaseActivityKind) => {
+    setFilters((prev) => ({
+      ...prev,
+      kinds: prev.kinds.includes(kind) ? prev.kinds.filter((item) => item !== kind) : [...prev.kinds, kind],
+    }));
+  };
+
+  return (
+    <div className="case-timeline">
+      {summary && (
+        <div className="case-timeline__summary">
+          <div className="case-timeline__stat">
+            <span className="case-timeline__stat-value">{summary.totalCalls}</span>
+            <span className="case-timeline__stat-label">Calls</span>
+          </div>
+          <div className="case-timeline__stat">
+            <span className="case-timeline__stat-value">{summary.connectedCalls}</span>
+            <span className="case-timeline__stat-label">Connected</span>
+          </div>
+          <div className="case-timeline__stat">
+            <span className="case-timeline__stat-value">{summary.failedCalls}</span>
+            <span className="case-timeline__stat-label">Failed Calls</span>
+          </div>
+          <div className="case-timeline__stat">
+            <span className="case-timeline__stat-value">{summary.totalMessages}</span>
+            <span className="case-timeline__stat-label">Messages</span>
+          </div>
+          <div className="case-timeline__stat">
+            <span className="case-timeline__stat-value">{summary.daysSinceLastActivity}</span>
+            <span className="case-timeline__stat-label">Days Inactive</span>
+          </div>
+          {summary.lastContactedAt && (
+            <div className="case-timeline__stat">
+              <span className="case-timeline__stat-value case-timeline__stat-value--small">
+                {formatDateTime(summary.lastContactedAt)}
+              </span>
+              <span className="case-timeline__stat-label">
+                Last Contacted{summary.lastContactResult ? ` · ${summary.lastContactResult}` : ''}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="case-timeline__filters">
+        <div className="case-timeline__kinds">
+          {CASE_ACTIVITY_KINDS.filter(({ kind }) => counts[kind] > 0).map(({ kind, label }) => (
+            <button
+              key={kind}
+              type="button"
+              className={cn('case-timeline__kind', filters.kinds.includes(kind) && 'case-timeline__kind--active')}
+              onClick={() => toggleKind(kind)}
+            >
+              {label} <span className="case-timeline__kind-count">{counts[kind]}</span>
+            </button>
+          ))}
+        </div>
+        <div className="case-timeline__search">
+          <input
+            type="text"
+            className="case-timeline__input"
+            placeholder="Search activity"
+            value={filters.search}
+            onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+          />
+          <input
+            type="date"
+            className="case-timeline__input"
+            value={filters.fromDate}
+            max={filters.toDate || undefined}
+            onChange={(e) => setFilters({ ...filters, fromDate: e.target.value })}
+            aria-label="From date"
+          />
+          <input
+            type="date"
+            className="case-timeline__input"
+            value={filters.toDate}
+            min={filters.fromDate || undefined}
+            onChange={(e) => setFilters({ ...filters, toDate: e.target.value })}
+            aria-label="To date"
+          />
+          {isFiltered && (
+            <button type="button" className="case-timeline__clear" onClick={() => setFilters(EMPTY_ACTIVITY_FILTERS)}>
+              Clear
+            </button>
+          )}
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="timeline-empty">{isFiltered ? 'No activity matches these filters' : 'No activity recorded'}</div>
+      ) : (
+        <div className="timeline">
+          {visible.map((activity) => (
+            <div key={activity.id} className={`timeline-event timeline-event--${KIND_COLORS[activity.kind]}`}>
+              <div className="timeline-event__marker">
+                <div className="timeline-event__icon">{getKindIcon(activity.kind)}</div>
+                <div className="timeline-event__line"></div>
+              </div>
+              <div className="timeline-event__content">
+                <div className="timeline-event__header">
+                  <span className="timeline-event__title">{activity.title}</span>
+                  <span className="timeline-event__time">{formatDateTime(activity.timestamp)}</span>
+                </div>
+                <div className="timeline-event__body">
+                  {activity.description && <p className="timeline-event__description">{activity.description}</p>}
+                  {activity.userName && (
+                    <div className="timeline-event__meta">
+                      <span className="timeline-event__meta-item">{activity.userName}</span>
+                    </div>
+                  )}
+                  <div className="timeline-event__details">
+                    {activity.badges.map((badge) => (
+                      <span
+                        key={badge.label}
+                        className={`timeline-event__badge timeline-event__badge--${badge.tone}`}
+                      >
+                        {badge.label}
+                      </span>
+                    ))}
+                    {!!activity.durationSeconds && (
+                      <span className="timeline-event__duration">{formatDuration(activity.durationSeconds)}</span>
+                    )}
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default CaseTimeline;
@@ -0,0 +1,159 @@
+/**
+ * Document Preview Modal
+ * Shows a PDF or image in the browser alongside who has uploaded, viewed and downloaded it
+ */
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Modal } from '@components/common/Modal';
+import { workflowService } from '@services/api';
+import { useDocumentAuditTrail, workflowKeys } from '@services/queries';
+import type { WorkflowDocument } from '@types';
+import { formatFileSize, getPreviewKind } from '../caseDocuments';
+import './DocumentPreviewModal.css';
+
+interface DocumentPreviewModalProps {
+  caseId: number;
+  document: WorkflowDocument | null;
+  typeLabel: string;
+  onClose: () => void;
+  onDownload: (document: WorkflowDocument) => void;
+}
+
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+  UPLOAD: 'Uploaded',
+  VIEW: 'Viewed',
+  DOWNLOAD: 'Downloaded',
+};
+
+const formatDateTime = (dateString: string): string => {
+  return new Date(dateString).toLocaleString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function DocumentPreviewModal({ caseId, document, typeLabel, onClose, onDownload }: DocumentPreviewModalProps) {
+  const queryClient = useQueryClient();
+  const auditQuery = useDocumentAuditTrail(caseId, document?.id);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const documentId = document?.id;
+  const canPreview = !!document && !!getPreviewKind(document);
+
+  // Each preview gets its own signed link, so the view is audited when the link is issued
+  useEffect(() => {
+    setPreviewUrl(null);
+    setPreviewError(null);
+    if (!documentId || !canPreview) return;
+
+    let cancelled = false;
+    workflowService
+      .getDocumentAccessLink(caseId, documentId, 'VIEW')
+      .then((link) => {
+        if (cancelled) return;
+        setPreviewUrl(link.url);
+        queryClient.invalidateQueries({ queryKey: workflowKeys.documentAudit(caseId, documentId) });
+      })
+      .catch((err) => {
+        if (!cancelled) setPreviewError(err instanceof Error ? err.message : 'Failed to open document');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [caseId, documentId, canPreview, queryClient]);
+
+  if (!document) return null;
+
+  const previewKind = getPreviewKind(document);
+
+  const renderPreview = () => {
+    if (previewKind && previewError) {
+      return <div className="document-preview__unavailable">Preview could not be opened ({previewError})</div>;
+    }
+    if (previewKind && !previewUrl) {
+      return <div className="document-preview__unavailable">Loading preview...</div>;
+    }
+    if (previewKind === 'pdf' && previewUrl) {
+      return <iframe className="document-preview__frame" src={previewUrl} title={document.documentName} />;
+    }
+    if (previewKind === 'image' && previewUrl) {
+      return <img className="document-preview__image" src={previewUrl} alt={document.documentName} />;
+    }
+    return (
+      <div className="document-preview__unavailable">
+        Preview is not available for this file type. Download it to open it.
+      </div>
+    );
+  };
+
+  const renderAuditTrail = () => {
+    if (auditQuery.isLoading) {
+      return <p className="document-preview__muted">Loading history...</p>;
+    }
+    if (auditQuery.error) {
+      return <p className="document-preview__muted">History could not be loaded ({auditQuery.error.message})</p>;
+    }
+    const entries = auditQuery.data || [];
+    if (entries.length === 0) {
+      return <p className="document-preview__muted">No activity recorded yet</p>;
+    }
+    return (
+      <ul className="document-preview__audit">
+        {entries.map((entry) => (
+          <li key={entry.id} className="document-preview__audit-entry">
+            <span className="document-preview__audit-action">
+              {AUDIT_ACTION_LABELS[entry.action] || entry.action}
+            </span>
+            <span>{entry.performedByName || `User #${entry.performedBy}`}</span>
+            <span className="document-preview__muted">{formatDateTime(entry.performedAt)}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={document.documentName}
+      size="xl"
+      footer={
+        <button type="button" className="document-preview__download" onClick={() => onDownload(document)}>
+          Download
+        </button>
+      }
+    >
+      <div className="document-preview">
+        <div className="document-preview__content">{renderPreview()}</div>
+        <aside className="document-preview__sidebar">
+          <dl className="document-preview__details">
+            <dt>Type</dt>
+            <dd>{typeLabel}</dd>
+            <dt>Size</dt>
+            <dd>{formatFileSize(document.fileSize)}</dd>
+            {document.version !== undefined && (
+              <>
+                <dt>Version</dt>
+                <dd>v{document.version}</dd>
+              </>
+            )}
+            <dt>Uploaded</dt>
+            <dd>
+              {formatDateTime(document.uploadedAt)}
+              {document.uploadedBy && ` by ${document.uploadedBy}`}
+            </dd>
+          </dl>
+          <h4 className="document-preview__heading">Access history</h4>
+          {renderAuditTrail()}
+        </aside>
+      </div>
+    </Modal>
+  );
+}
+
+export default DocumentPreviewModal;
@@ -0,0 +1,364 @@
+/**
+ * Log Interaction Panel
+ * Captures a disposition, an optional promise to pay and a call log entry for a case
+ */
+
+import { useState, useEffect } from 'react';
+import { workflowService } from '@services/api/workflow.service';
+import { masterDataService } from '@services/api/masterData.service';
+import { todayKey } from '@utils';
+import type { MasterData, WorkflowCallLog } from '@types';
+import {
+  WORKFLOW_CALL_TYPES,
+  WORKFLOW_CALL_STATUSES,
+  DISPOSITION_MASTER_DATA_TYPE,
+  PTP_DISPOSITION_CODE,
+} from '@types';
+import './LogInteractionPanel.css';
+
+interface LogInteractionPanelProps {
+  caseId: number;
+  defaultPhoneNumber?: string;
+  onLogged: () => void;
+}
+
+interface InteractionFormState {
+  dispositionCode: string;
+  calledNumber: string;
+  callType: string;
+  callStatus: string;
+  durationMinutes: string;
+  notes: string;
+  capturePtp: boolean;
+  ptpAmount: string;
+  ptpDate: string;
+}
+
+const createInitialState = (phoneNumber?: string): InteractionFormState => ({
+  dispositionCode: '',
+  calledNumber: phoneNumber || '',
+  callType: WORKFLOW_CALL_TYPES[0],
+  callStatus: WORKFLOW_CALL_STATUSES[0],
+  durationMinutes: '',
+  notes: '',
+  capturePtp: false,
+  ptpAmount: '',
+  ptpDate: '',
+});
+
+export function LogInteractionPanel({ caseId, defaultPhoneNumber, onLogged }: LogInteractionPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [dispositions, setDispositions] = useState<MasterData[]>([]);
+  const [dispositionsLoading, setDispositionsLoading] = useState(false);
+  const [form, setForm] = useState<InteractionFormState>(() => createInitialState(defaultPhoneNumber));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Call log saved by an earlier attempt whose PTP failed, so a retry only resubmits the PTP
+  const [loggedCall, setLoggedCall] = useState<WorkflowCallLog | null>(null);
+
+  // The case (and its phone number) usually loads after the panel mounts
+  useEffect(() => {
+    if (!defaultPhoneNumber) return;
+    setForm((prev) => (prev.calledNumber ? prev : { ...prev, calledNumber: defaultPhoneNumber }));
+  }, [defaultPhoneNumber]);
+
+  useEffect(() => {
+    if (!isOpen || dispositions.length > 0) return;
+
+    const fetchDispositions = async () => {
+      try {
+        setDispositionsLoading(true);
+        const data = await masterDataService.getByType(DISPOSITION_MASTER_DATA_TYPE);
+        setDispositions(
+          data.filter((item) => item.isActive).sort((a, b) => a.displayOrder - b.displayOrder)
+        );
+      } catch (err) {
+        setSubmitError(err instanceof Error ? err.message : 'Failed to load disposition codes');
+      } finally {
+        setDispositionsLoading(false);
+      }
+    };
+
+    fetchDispositions();
+  }, [isOpen, dispositions.length]);
+
+  const requiresPtp = form.dispositionCode === PTP_DISPOSITION_CODE;
+  const showPtpFields = requiresPtp || form.capturePtp;
+
+  const updateField = <K extends keyof InteractionFormState>(field: K, value: InteractionFormState[K]) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+    if (errors[field]) {
+      setErrors((prev) => {
+        const next = { ...prev };
+        delete next[field];
+        return next;
+      });
+    }
+  };
+
+  const validate = (): boolean => {
+    const nextErrors: Record<string, string> = {};
+
+    if (!form.dispositionCode) {
+      nextErrors.dispositionCode = 'Disposition is required';
+    }
+    if (form.durationMinutes && (isNaN(Number(form.durationMinutes)) || Number(form.durationMinutes) < 0)) {
+      nextErrors.durationMinutes = 'Duration must be a positive number';
+    }
+    if (showPtpFields) {
+      const amount = Number(form.ptpAmount);
+      if (!form.ptpAmount || isNaN(amount) || amount <= 0) {
+        nextErrors.ptpAmount = 'Enter a valid PTP amount';
+      }
+      if (!form.ptpDate) {
+        nextErrors.ptpDate = 'PTP date is required';
+      } else if (form.ptpDate < todayKey()) {
+        nextErrors.ptpDate = 'PTP date cannot be in the past';
+      }
+    }
+
+    setErrors(nextErrors);
+    return Object.keys(nextErrors).length === 0;
+  };
+
+  const handleCancel = () => {
+    setIsOpen(false);
+    setForm(createInitialState(defaultPhoneNumber));
+    setErrors({});
+    setSubmitError(null);
+    setLoggedCall(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!validate()) return;
+
+    try {
+      setIsSubmitting(true);
+      setSubmitError(null);
+      setSuccessMessage(null);
+
+      if (!loggedCall) {
+        const callLog = await workflowService.createCaseCallLog(caseId, {
+          calledNumber: form.calledNumber.trim() || undefined,
+          callType: form.callType,
+          callStatus: form.callStatus,
+          dispositionCode: form.dispositionCode,
+          duration: form.durationMinutes ? Math.round(Number(form.durationMinutes) * 60) : undefined,
+          startTime: new Date().toISOString(),
+          notes: form.notes.trim() || undefined,
+        });
+        setLoggedCall(callLog);
+      }
+
+      if (showPtpFields) {
+        try {
+          await workflowService.createCasePtp(caseId, {
+            ptpAmount: Number(form.ptpAmount),
+            ptpDate: form.ptpDate,
+            commitmentDate: todayKey(),
+            dispositionCode: form.dispositionCode,
+            notes: form.notes.trim() || undefined,
+          });
+        } catch (err) {
+          const reason = err instanceof Error ? err.message : 'Failed to create PTP';
+          setSubmitError(`Call logged, but the PTP was not saved: ${reason}. Submit again to retry the PTP.`);
+          onLogged();
+          return;
+        }
+      }
+
+      setSuccessMessage(showPtpFields ? 'Interaction and PTP logged successfully' : 'Interaction logged successfully');
+      setForm(createInitialState(defaultPhoneNumber));
+      setLoggedCall(null);
+      setIsOpen(false);
+      onLogged();
+    } catch (err) {
+      setSubmitError(err instanceof Error ? err.message : 'Failed to log interaction');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="log-interaction">
+      <div className="log-interaction__header">
+        <div>
+          <h3 className="log-interaction__title">Log Interaction</h3>
+          <p className="log-interaction__subtitle">Record the call outcome, disposition and any promise to pay</p>
+        </div>
+        {!isOpen && (
+          <button
+            className="btn-log-interaction"
+            onClick={() => {
+              setIsOpen(true);
+              setSuccessMessage(null);
+            }}
+          >
+            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M12 5V19M5 12H19" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+            </svg>
+            New Interaction
+          </button>
+        )}
+      </div>
+
+      {successMessage && (
+        <div className="log-interaction__alert log-interaction__alert--success">
+          <span>{successMessage}</span>
+          <button onClick={() => setSuccessMessage(null)}>Dismiss</button>
+        </div>
+      )}
+
+      {isOpen && (
+        <form className="log-interaction__form" onSubmit={handleSubmit}>
+          {submitError && (
+            <div className="log-interaction__alert log-interaction__alert--error">
+              <span>{submitError}</span>
+              <button type="button" onClick={() => setSubmitError(null)}>Dismiss</button>
+            </div>
+          )}
+
+          <div className="log-interaction__grid">
+            <div className="log-interaction__field">
+              <label className="log-interaction__label">Disposition *</label>
+              <select
+                className={`log-interaction__input ${errors.dispositionCode ? 'log-interaction__input--error' : ''}`}
+                value={form.dispositionCode}
+                onChange={(e) => updateField('dispositionCode', e.target.value)}
+                disabled={dispositionsLoading}
+              >
+                <option value="">{dispositionsLoading ? 'Loading...' : 'Select disposition'}</option>
+                {dispositions.map((item) => (
+                  <option key={item.id} value={item.code}>
+                    {item.value}
+                  </option>
+                ))}
+              </select>
+              {errors.dispositionCode && <span className="log-interaction__error">{errors.dispositionCode}</span>}
+            </div>
+
+            <div className="log-interaction__field">
+              <label className="log-interaction__label">Called Number</label>
+              <input
+                type="tel"
+                className="log-interaction__input"
+                value={form.calledNumber}
+                onChange={(e) => updateField('calledNumber', e.target.value)}
+                placeholder="Customer mobile"
+              />
+            </div>
+
+            <div className="log-interaction__field">
+              <label className="log-interaction__label">Call Type</label>
+              <select
+                className="log-interaction__input"
+                value={form.callType}
+                onChange={(e) => updateField('callType', e.target.value)}
+              >
+                {WORKFLOW_CALL_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type.replace(/_/g, ' ')}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="log-interaction__field">
+              <label className="log-interaction__label">Call Status</label>
+              <select
+                className="log-interaction__input"
+                value={form.callStatus}
+                onChange={(e) => updateField('callStatus', e.target.value)}
+              >
+                {WORKFLOW_CALL_STATUSES.map((status) => (
+                  <option key={status} value={status}>
+                    {status.replace(/_/g, ' ')}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <div className="log-interaction__field">
+              <label className="log-interaction__label">Duration (minutes)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                className={`log-interaction__input ${errors.durationMinutes ? 'log-interaction__input--error' : ''}`}
+                value={form.durationMinutes}
+                onChange={(e) => updateField('durationMinutes', e.target.value)}
+              />
+              {errors.durationMinutes && <span className="log-interaction__error">{errors.durationMinutes}</span>}
+            </div>
+          </div>
+
+          {!requiresPtp && (
+            <label className="log-interaction__checkbox">
+              <input
+                type="checkbox"
+                checked={form.capturePtp}
+                onChange={(e) => updateField('capturePtp', e.target.checked)}
+              />
+              Customer made a promise to pay
+            </label>
+          )}
+
+          {showPtpFields && (
+            <div className="log-interaction__ptp">
+              <h4 className="log-interaction__section-title">Promise to Pay</h4>
+              <div className="log-interaction__grid">
+                <div className="log-interaction__field">
+                  <label className="log-interaction__label">PTP Amount *</label>
+                  <input
+                    type="number"
+                    min="0"
+                    className={`log-interaction__input ${errors.ptpAmount ? 'log-interaction__input--error' : ''}`}
+                    value={form.ptpAmount}
+                    onChange={(e) => updateField('ptpAmount', e.target.value)}
+                  />
+                  {errors.ptpAmount && <span className="log-interaction__error">{errors.ptpAmount}</span>}
+                </div>
+                <div className="log-interaction__field">
+                  <label className="log-interaction__label">PTP Date *</label>
+                  <input
+                    type="date"
+                    min={todayKey()}
+                    className={`log-interaction__input ${errors.ptpDate ? 'log-interaction__input--error' : ''}`}
+                    value={form.ptpDate}
+                    onChange={(e) => updateField('ptpDate', e.target.value)}
+                  />
+                  {errors.ptpDate && <span className="log-interaction__error">{errors.ptpDate}</span>}
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="log-interaction__field">
+            <label className="log-interaction__label">Notes</label>
+            <textarea
+              className="log-interaction__input log-interaction__textarea"
+              rows={3}
+              value={form.notes}
+              onChange={(e) => updateField('notes', e.target.value)}
+              placeholder="Conversation summary, customer remarks..."
+            />
+          </div>
+
+          <div className="log-interaction__actions">
+            <button type="button" className="btn-secondary" onClick={handleCancel} disabled={isSubmitting}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-log-interaction" disabled={isSubmitting}>
+              {isSubmitting ? 'Saving...' : 'Save Interaction'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default LogInteractionPanel;
@@ -0,0 +1,107 @@
+/**
+ * Unallocated Case View
+ * What the case view can show for a case not yet allocated to an agent: intake customer and loan
+ * details from case sourcing. Interactions, repayments and the timeline start once it is allocated.
+ */
+
+import type { UnallocatedCaseDetail } from '@types';
+import { formatCurrency } from '@utils';
+
+interface UnallocatedCaseViewProps {
+  caseDetail: UnallocatedCaseDetail;
+  onBack: () => void;
+}
+
+const formatDateTime = (dateString: string): string => {
+  return new Date(dateString).toLocaleString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export function UnallocatedCaseView({ caseDetail, onBack }: UnallocatedCaseViewProps) {
+  const { customer, loanDetails } = caseDetail;
+
+  const sections: { title: string; items: { label: string; value: string | number }[] }[] = [
+    {
+      title: 'Customer Information',
+      items: [
+        { label: 'Customer Code', value: customer.customerCode },
+        { label: 'Name', value: customer.name },
+        { label: 'Mobile', value: customer.mobile },
+        { label: 'Email', value: customer.email || '-' },
+        { label: 'City', value: customer.city || '-' },
+        { label: 'State', value: customer.state || '-' },
+      ],
+    },
+    {
+      title: 'Loan Details',
+      items: [
+        { label: 'Loan Account Number', value: loanDetails.loanAccountNumber },
+        { label: 'Product Type', value: loanDetails.productType || '-' },
+        { label: 'Total Outstanding', value: formatCurrency(loanDetails.totalOutstanding) },
+        { label: 'DPD', value: loanDetails.dpd },
+        { label: 'Bucket', value: loanDetails.bucket || '-' },
+        { label: 'Geography Code', value: caseDetail.geographyCode || '-' },
+      ],
+    },
+    {
+      title: 'Case Information',
+      items: [
+        { label: 'Case Number', value: caseDetail.caseNumber },
+        { label: 'External Case ID', value: caseDetail.externalCaseId },
+        { label: 'Status', value: caseDetail.status },
+        { label: 'Created At', value: formatDateTime(caseDetail.createdAt) },
+      ],
+    },
+  ];
+
+  return (
+    <div className="case-detail-page">
+      <div className="case-detail-header">
+        <button className="btn-back" onClick={onBack}>
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path d="M19 12H5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+            <path d="M12 19L5 12L12 5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+          </svg>
+          Back
+        </button>
+        <div className="case-detail-header__content">
+          <h1 className="case-detail-title">Case: {caseDetail.caseNumber}</h1>
+          <p className="case-detail-subtitle">
+            {customer.name} • {loanDetails.loanAccountNumber}
+          </p>
+        </div>
+      </div>
+
+      <div className="case-detail-tabs">
+        <div className="tab-content">
+          <p className="tab-content__notice">
+            This case is not allocated yet. Interactions, repayments and the activity timeline appear once it is
+            allocated to an agent.
+          </p>
+          <div className="detail-grid">
+            {sections.map((section) => (
+              <div key={section.title} className="detail-section">
+                <h3 className="detail-section__title">{section.title}</h3>
+                <div className="detail-grid__items">
+                  {section.items.map((item) => (
+                    <div key={item.label} className="detail-item">
+                      <span className="detail-item__label">{item.label}</span>
+                      <span className="detail-item__value">{item.value}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default UnallocatedCaseView;
@@ -0,0 +1,9 @@
+/**
+ * Case Detail Page Components
+ */
+
+export { LogInteractionPanel } from './LogInteractionPanel';
+export { CaseTimeline } from './CaseTimeline';
+export { CaseDocumentsPanel } from './CaseDocumentsPanel';
+export { DocumentPreviewModal } from './DocumentPreviewModal';
+export { UnallocatedCaseView } from './UnallocatedCaseView';
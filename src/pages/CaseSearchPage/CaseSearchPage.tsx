@@ -1,101 +1,215 @@
 /**
  * Case Search Page
  * Advanced search for cases with multiple filters
+ * The search that was run lives in the URL so it can be bookmarked, shared or saved.
+ * Selected results can be acted on in bulk; see bulkActions.ts.
  */
 
-import { useState, useCallback } from 'react'
-import { useNavigate } from 'react-router-dom'
-import { caseSourcingService } from '@services/api'
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { useQueryClient } from '@tanstack/react-query'
+import { caseSourcingKeys, useCaseSearch } from '@services/queries'
 import { Table, Pagination, Column } from '@components/common/Table'
 import { Button } from '@components/common/Button'
-import type { CaseSearchResult, CaseSearchParams, CaseStatus } from '@types'
+import { ROUTES } from '@config/constants'
+import { useSavedSearches } from '@hooks'
+import {
+  SAVED_SEARCH_PARAM,
+  getSavedSearchQuery,
+  parseCaseSearch,
+  serializeCaseSearch,
+  validateCaseQuery,
+} from '@utils'
+import type { CaseSearchResult, CaseSearchParams, CaseStatus, SavedCaseSearch } from '@types'
+import { BulkActionBar, BulkActionDialog, BulkJobPanel, QueryBuilder, SavedSearchesPanel } from './components'
+import {
+  createBulkJob,
+  runBulkJob,
+  type BulkActionInput,
+  type BulkActionPreview,
+  type BulkActionType,
+  type BulkJob,
+  type BulkJobItem,
+} from './bulkActions'
 import './CaseSearchPage.css'
 
+const PAGE_SIZE = 20
+
+const EMPTY_FILTERS: CaseSearchParams = {
+  caseNumber: '',
+  loanAccountNumber: '',
+  customerName: '',
+  mobileNumber: '',
+  caseStatus: undefined,
+  bucket: '',
+  minDpd: undefined,
+  maxDpd: undefined,
+  geographyCode: '',
+  query: '',
+}
+
 export function CaseSearchPage() {
   const navigate = useNavigate()
-  const [results, setResults] = useState<CaseSearchResult[]>([])
-  const [isLoading, setIsLoading] = useState(false)
-  const [error, setError] = useState('')
-  const [hasSearched, setHasSearched] = useState(false)
-
-  // Search filters
-  const [filters, setFilters] = useState<CaseSearchParams>({
-    caseNumber: '',
-    loanAccountNumber: '',
-    customerName: '',
-    mobileNumber: '',
-    caseStatus: undefined,
-    bucket: '',
-    minDpd: undefined,
-    maxDpd: undefined,
-    geographyCode: '',
-    page: 0,
-    size: 20,
-  })
-
-  // Pagination
-  const [totalPages, setTotalPages] = useState(0)
-  const [totalElements, setTotalElements] = useState(0)
-
-  const handleSearch = useCallback(async (page: number = 0) => {
+  const queryClient = useQueryClient()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const { markSeen } = useSavedSearches()
+  const [linkCopied, setLinkCopied] = useState(false)
+  const [formError, setFormError] = useState('')
+
+  // Applied search from the URL; a page number is present once a search has been run
+  const appliedSearch = useMemo(() => parseCaseSearch(searchParams), [searchParams])
+  const hasSearched = appliedSearch.page !== undefined
+  const currentPage = appliedSearch.page ?? 0
+  const savedSearchId = searchParams.get(SAVED_SEARCH_PARAM)
+
+  // Form state; edits only apply when Search is pressed
+  const [filters, setFilters] = useState<CaseSearchParams>(() => ({ ...EMPTY_FILTERS, ...appliedSearch }))
+  const [showAdvanced, setShowAdvanced] = useState(() => !!appliedSearch.query)
+
+  // Back/forward and pinned links change the URL under the page, so keep the form in step
+  useEffect(() => {
+    setFilters({ ...EMPTY_FILTERS, ...appliedSearch })
+    if (appliedSearch.query) setShowAdvanced(true)
+  }, [appliedSearch])
+
+  // Opening a saved search clears its new-match badge
+  useEffect(() => {
+    if (savedSearchId) markSeen(savedSearchId)
+  }, [savedSearchId, markSeen])
+
+  // Selection survives paging but not a change of filters
+  const [selected, setSelected] = useState<Map<number, CaseSearchResult>>(() => new Map())
+  const filtersKey = useMemo(() => serializeCaseSearch({ ...appliedSearch, page: undefined }), [appliedSearch])
+  useEffect(() => {
+    setSelected(new Map())
+  }, [filtersKey])
+
+  const [bulkAction, setBulkAction] = useState<BulkActionType | null>(null)
+  const [bulkJob, setBulkJob] = useState<BulkJob | null>(null)
+  const [isJobRunning, setIsJobRunning] = useState(false)
+  const cancelJobRef = useRef(false)
+
+  const { data, isFetching, error, refetch } = useCaseSearch({ ...appliedSearch, size: PAGE_SIZE }, hasSearched)
+  const results = data?.content ?? []
+  const totalPages = data?.totalPages ?? 0
+  const totalElements = data?.totalElements ?? 0
+
+  const handleSearch = () => {
+    const queryError = filters.query?.trim() ? validateCaseQuery(filters.query) : null
+    if (queryError) {
+      setShowAdvanced(true)
+      setFormError(`Advanced query: ${queryError.message}`)
+      return
+    }
+    setFormError('')
+
+    const query = serializeCaseSearch({ ...filters, page: 0 })
+    if (query === searchParams.toString()) {
+      refetch()
+    } else {
+      setSearchParams(query)
+    }
+  }
+
+  const handleReset = () => {
+    setFormError('')
+    setFilters(EMPTY_FILTERS)
+    setSearchParams({})
+  }
+
+  const handleOpenSavedSearch = (search: SavedCaseSearch) => {
+    setSearchParams(getSavedSearchQuery(search))
+  }
+
+  const handleCopyLink = async () => {
     try {
-      setIsLoading(true)
-      setError('')
-      setHasSearched(true)
-
-      const searchParams: CaseSearchParams = {
-        ...filters,
-        page,
-        size: filters.size,
+      await navigator.clipboard.writeText(window.location.href)
+      setLinkCopied(true)
+      window.setTimeout(() => setLinkCopied(false), 2000)
+    } catch {
+      window.prompt('Copy this link', window.location.href)
+    }
+  }
+
+  const toggleSelected = (caseItem: CaseSearchResult) => {
+    setSelected((prev) => {
+      const next = new Map(prev)
+      if (next.has(caseItem.caseId)) {
+        next.delete(caseItem.caseId)
+      } else {
+        next.set(caseItem.caseId, caseItem)
       }
+      return next
+    })
+  }
 
-      // Remove empty values
-      Object.keys(searchParams).forEach((key) => {
-        const value = searchParams[key as keyof CaseSearchParams]
-        if (value === '' || value === undefined) {
-          delete searchParams[key as keyof CaseSearchParams]
+  const allOnPageSelected = results.length > 0 && results.every((item) => selected.has(item.caseId))
+
+  const togglePageSelected = () => {
+    setSelected((prev) => {
+      const next = new Map(prev)
+      results.forEach((item) => {
+        if (allOnPageSelected) {
+          next.delete(item.caseId)
+        } else {
+          next.set(item.caseId, item)
         }
       })
+      return next
+    })
+  }
 
-      const response = await caseSourcingService.searchCases(searchParams)
-      setResults(response.content)
-      setTotalPages(response.totalPages)
-      setTotalElements(response.totalElements)
-      setFilters((prev) => ({ ...prev, page }))
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Search failed')
-      setResults([])
-    } finally {
-      setIsLoading(false)
+  const startBulkJob = async (job: BulkJob) => {
+    const updateItem = (caseId: number, changes: Partial<BulkJobItem>) => {
+      setBulkJob((prev) =>
+        prev && prev.id === job.id
+          ? { ...prev, items: prev.items.map((item) => (item.caseId === caseId ? { ...item, ...changes } : item)) }
+          : prev
+      )
     }
-  }, [filters])
 
-  const handleReset = () => {
-    setFilters({
-      caseNumber: '',
-      loanAccountNumber: '',
-      customerName: '',
-      mobileNumber: '',
-      caseStatus: undefined,
-      bucket: '',
-      minDpd: undefined,
-      maxDpd: undefined,
-      geographyCode: '',
-      page: 0,
-      size: 20,
-    })
-    setResults([])
-    setHasSearched(false)
-    setTotalPages(0)
-    setTotalElements(0)
+    cancelJobRef.current = false
+    setBulkJob(job)
+    setIsJobRunning(true)
+    const succeeded = new Set<number>()
+    await runBulkJob(
+      job,
+      (caseId, changes) => {
+        if (changes.status === 'SUCCESS') succeeded.add(caseId)
+        updateItem(caseId, changes)
+      },
+      () => cancelJobRef.current
+    )
+    setIsJobRunning(false)
+    setBulkJob((prev) => (prev && prev.id === job.id ? { ...prev, finishedAt: new Date().toISOString() } : prev))
+
+    // Exports change nothing; otherwise refresh results and keep only the cases that still need attention
+    if (job.input.type !== 'EXPORT') {
+      queryClient.invalidateQueries({ queryKey: caseSourcingKeys.all })
+      setSelected((prev) => new Map([...prev].filter(([caseId]) => !succeeded.has(caseId))))
+    }
+  }
+
+  const handleConfirmBulkAction = (input: BulkActionInput, preview: BulkActionPreview) => {
+    setBulkAction(null)
+    startBulkJob(createBulkJob(input, preview))
+  }
+
+  const handleRetryFailed = () => {
+    if (!bulkJob) return
+    const failedIds = new Set(bulkJob.items.filter((item) => item.status === 'FAILED').map((item) => item.caseId))
+    const toRun = bulkJob.cases.filter((item) => failedIds.has(item.caseId))
+    startBulkJob(createBulkJob(bulkJob.input, { toRun, skipped: [], notes: [] }))
   }
 
   const handleViewCase = (caseItem: CaseSearchResult) => {
-    navigate(`/case-sourcing/cases/${caseItem.caseId}`)
+    navigate(ROUTES.CASE_DETAIL.replace(':caseId', String(caseItem.caseId)))
   }
 
   const handlePageChange = (page: number) => {
-    handleSearch(page)
+    const next = new URLSearchParams(searchParams)
+    next.set('page', String(page))
+    setSearchParams(next)
   }
 
   const formatCurrency = (amount: number): string => {
@@ -149,6 +263,28 @@ export function CaseSearchPage() {
   ]
 
   const columns: Column<CaseSearchResult>[] = [
+    {
+      key: 'select',
+      header: (
+        <input
+          type="checkbox"
+          checked={allOnPageSelected}
+          onChange={togglePageSelected}
+          disabled={results.length === 0}
+          aria-label="Select all cases on this page"
+        />
+      ),
+      width: '40px',
+      render: (item) => (
+        <input
+          type="checkbox"
+          checked={selected.has(item.caseId)}
+          onClick={(e) => e.stopPropagation()}
+          onChange={() => toggleSelected(item)}
+          aria-label={`Select case ${item.caseNumber}`}
+        />
+      ),
+    },
     {
       key: 'caseNumber',
       header: 'Case',
@@ -250,12 +386,24 @@ export function CaseSearchPage() {
             Search cases using multiple filters
           </p>
         </div>
+        {hasSearched && (
+          <Button variant="outline" onClick={handleCopyLink}>
+            {linkCopied ? 'Link Copied' : 'Copy Link'}
+          </Button>
+        )}
       </div>
 
+      {formError && (
+        <div className="alert alert--error">
+          <span>{formError}</span>
+          <button onClick={() => setFormError('')}>Dismiss</button>
+        </div>
+      )}
+
       {error && (
         <div className="alert alert--error">
-          <span>{error}</span>
-          <button onClick={() => setError('')}>Dismiss</button>
+          <span>{error instanceof Error ? error.message : 'Search failed'}</span>
+          <button onClick={() => refetch()}>Retry</button>
         </div>
       )}
 
@@ -361,11 +509,27 @@ export function CaseSearchPage() {
             />
           </div>
         </div>
+        <div className="search-form__advanced">
+          <button
+            type="button"
+            className="search-form__advanced-toggle"
+            onClick={() => setShowAdvanced((prev) => !prev)}
+          >
+            {showAdvanced ? 'Hide advanced query' : 'Advanced query'}
+            {!showAdvanced && filters.query && <span className="search-form__advanced-badge">Active</span>}
+          </button>
+          {showAdvanced && (
+            <QueryBuilder
+              value={filters.query || ''}
+              onChange={(query) => setFilters((prev) => ({ ...prev, query }))}
+            />
+          )}
+        </div>
         <div className="search-form__actions">
           <Button variant="secondary" onClick={handleReset}>
             Reset
           </Button>
-          <Button onClick={() => handleSearch(0)} isLoading={isLoading}>
+          <Button onClick={handleSearch} isLoading={isFetching}>
             <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" width="18" height="18">
               <circle cx="11" cy="11" r="8" stroke="currentColor" strokeWidth="2"/>
               <path d="M21 21L16.65 16.65" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
@@ -375,6 +539,12 @@ export function CaseSearchPage() {
         </div>
       </div>
 
+      <SavedSearchesPanel
+        currentSearch={hasSearched ? appliedSearch : null}
+        activeSearchId={savedSearchId}
+        onOpen={handleOpenSavedSearch}
+      />
+
       {/* Results */}
       {hasSearched && (
         <div className="search-results">
@@ -386,27 +556,55 @@ export function CaseSearchPage() {
               )}
             </h2>
           </div>
+          {(selected.size > 0 || bulkJob) && (
+            <div className="search-results__bulk">
+              <BulkActionBar
+                selectedCount={selected.size}
+                isBusy={isJobRunning}
+                onAction={setBulkAction}
+                onClear={() => setSelected(new Map())}
+              />
+              {bulkJob && (
+                <BulkJobPanel
+                  job={bulkJob}
+                  isRunning={isJobRunning}
+                  onCancel={() => {
+                    cancelJobRef.current = true
+                  }}
+                  onRetryFailed={handleRetryFailed}
+                  onDismiss={() => setBulkJob(null)}
+                />
+              )}
+            </div>
+          )}
           <div className="search-results__table">
             <Table
               columns={columns}
               data={results}
               keyExtractor={(item) => item.caseId}
-              isLoading={isLoading}
+              isLoading={isFetching}
               emptyMessage="No cases found matching your criteria"
               onRowClick={handleViewCase}
             />
           </div>
           {totalPages > 1 && (
             <Pagination
-              currentPage={filters.page || 0}
+              currentPage={currentPage}
               totalPages={totalPages}
               totalItems={totalElements}
-              pageSize={filters.size || 20}
+              pageSize={PAGE_SIZE}
               onPageChange={handlePageChange}
             />
           )}
         </div>
       )}
+
+      <BulkActionDialog
+        actionType={bulkAction}
+        cases={[...selected.values()]}
+        onClose={() => setBulkAction(null)}
+        onConfirm={handleConfirmBulkAction}
+      />
     </div>
   )
 }
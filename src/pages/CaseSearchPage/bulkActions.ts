@@ -0,0 +1,252 @@
+/**
+ * Bulk Actions
+ * Actions on the cases selected in search results. Each case gets its own request,
+ * so a job can report success or failure per case and retry only the failures.
+ */
+
+import { allocationService, caseSourcingService, workflowService } from '@services/api'
+import { PERMISSIONS, type PermissionCode } from '@config/constants'
+import { downloadBlob, generateId, toCsv } from '@utils'
+import type { ApiError, CaseSearchResult } from '@types'
+
+export type BulkActionType = 'ASSIGN' | 'DEALLOCATE' | 'COMMUNICATE' | 'EXPORT' | 'TAG'
+
+export interface BulkActionDefinition {
+  type: BulkActionType
+  label: string
+  permission: PermissionCode
+}
+
+export const BULK_ACTIONS: BulkActionDefinition[] = [
+  { type: 'ASSIGN', label: 'Assign', permission: PERMISSIONS.ALLOCATION_UPDATE },
+  { type: 'DEALLOCATE', label: 'Deallocate', permission: PERMISSIONS.ALLOCATION_UPDATE },
+  { type: 'COMMUNICATE', label: 'Send Communication', permission: PERMISSIONS.TEMPLATE_READ },
+  { type: 'TAG', label: 'Tag', permission: PERMISSIONS.CASE_CREATE },
+  { type: 'EXPORT', label: 'Export', permission: PERMISSIONS.CASE_READ },
+]
+
+// What the user chose in the action dialog
+export type BulkActionInput =
+  | { type: 'ASSIGN'; agentId: number; agentName: string; reason: string }
+  | { type: 'DEALLOCATE'; reason: string }
+  | { type: 'COMMUNICATE'; channel: string; templateId: number; templateName: string }
+  | { type: 'EXPORT' }
+  | { type: 'TAG'; tags: string[] }
+
+export type BulkItemStatus = 'PENDING' | 'RUNNING' | 'SUCCESS' | 'FAILED' | 'SKIPPED'
+
+export interface BulkJobItem {
+  caseId: number
+  caseNumber: string
+  status: BulkItemStatus
+  message?: string
+}
+
+export interface BulkJob {
+  id: string
+  input: BulkActionInput
+  label: string
+  cases: CaseSearchResult[]
+  items: BulkJobItem[]
+  startedAt: string
+  finishedAt?: string
+}
+
+export interface BulkActionPreview {
+  toRun: CaseSearchResult[]
+  skipped: { item: CaseSearchResult; reason: string }[]
+  // Extra lines for the confirmation, e.g. how many cases change hands
+  notes: string[]
+}
+
+// Requests in flight at once; keeps a large selection from flooding the API
+const BULK_CONCURRENCY = 4
+
+const EXPORT_COLUMNS: { header: string; value: (item: CaseSearchResult) => string | number | null }[] = [
+  { header: 'Case Number', value: (item) => item.caseNumber },
+  { header: 'External Case ID', value: (item) => item.externalCaseId },
+  { header: 'Customer Name', value: (item) => item.customerName },
+  { header: 'Mobile Number', value: (item) => item.mobileNumber },
+  { header: 'Loan Account', value: (item) => item.loanAccountNumber },
+  { header: 'Product Type', value: (item) => item.productType },
+  { header: 'Bank Code', value: (item) => item.bankCode },
+  { header: 'Total Outstanding', value: (item) => item.totalOutstanding },
+  { header: 'DPD', value: (item) => item.dpd },
+  { header: 'Bucket', value: (item) => item.bucket },
+  { header: 'Status', value: (item) => item.caseStatus },
+  { header: 'Allocated To', value: (item) => item.allocatedToUserName },
+  { header: 'Last Disposition', value: (item) => item.lastDisposition },
+  { header: 'Last Contacted', value: (item) => item.lastContactedAt },
+  { header: 'City', value: (item) => item.city },
+  { header: 'State', value: (item) => item.state },
+]
+
+const getErrorMessage = (err: unknown): string => {
+  return (err as ApiError)?.message || (err instanceof Error ? err.message : 'Request failed')
+}
+
+const plural = (count: number, word: string): string => `${count} ${word}${count === 1 ? '' : 's'}`
+
+/**
+ * Short description of an action, used as the job title
+ */
+export const describeBulkAction = (input: BulkActionInput): string => {
+  switch (input.type) {
+    case 'ASSIGN':
+      return `Assign to ${input.agentName}`
+    case 'DEALLOCATE':
+      return 'Deallocate'
+    case 'COMMUNICATE':
+      return `Send ${input.channel} "${input.templateName}"`
+    case 'TAG':
+      return `Tag ${input.tags.join(', ')}`
+    case 'EXPORT':
+      return 'Export'
+  }
+}
+
+/**
+ * Work out which selected cases the action applies to, for the confirmation step
+ */
+export const previewBulkAction = (input: BulkActionInput, cases: CaseSearchResult[]): BulkActionPreview => {
+  const skipped: BulkActionPreview['skipped'] = []
+  const notes: string[] = []
+  const skip = (item: CaseSearchResult, reason: string) => skipped.push({ item, reason })
+
+  switch (input.type) {
+    case 'ASSIGN': {
+      let reassigned = 0
+      let unallocated = 0
+      cases.forEach((item) => {
+        if (item.allocatedToUserId === input.agentId) skip(item, `Already assigned to ${input.agentName}`)
+        else if (item.allocatedToUserId) reassigned++
+        else unallocated++
+      })
+      if (unallocated > 0) notes.push(`${plural(unallocated, 'unallocated case')} will be assigned`)
+      if (reassigned > 0) notes.push(`${plural(reassigned, 'case')} will be taken from their current agent`)
+      break
+    }
+    case 'DEALLOCATE':
+      cases.forEach((item) => {
+        if (!item.allocatedToUserId) skip(item, 'Not allocated')
+      })
+      break
+    case 'COMMUNICATE':
+      cases.forEach((item) => {
+        if (input.channel === 'EMAIL' && !item.email) skip(item, 'No email address')
+        else if (input.channel !== 'EMAIL' && !item.mobileNumber) skip(item, 'No mobile number')
+      })
+      break
+    default:
+      break
+  }
+
+  const skippedIds = new Set(skipped.map(({ item }) => item.caseId))
+  return { toRun: cases.filter((item) => !skippedIds.has(item.caseId)), skipped, notes }
+}
+
+/**
+ * CSV of the given cases, as shown in search results
+ */
+export const exportCases = (cases: CaseSearchResult[]): void => {
+  const rows = cases.map((item) => EXPORT_COLUMNS.map((column) => String(column.value(item) ?? '')))
+  const csv = toCsv([EXPORT_COLUMNS.map((column) => column.header), ...rows])
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), `cases-${new Date().toISOString().slice(0, 10)}.csv`)
+}
+
+/**
+ * CSV of a job's per-case outcome
+ */
+export const exportJobResults = (job: BulkJob): void => {
+  const rows = job.items.map((item) => [item.caseNumber, item.status, item.message || ''])
+  const csv = toCsv([['Case Number', 'Result', 'Message'], ...rows])
+  downloadBlob(new Blob([csv], { type: 'text/csv' }), `bulk-${job.input.type.toLowerCase()}-results.csv`)
+}
+
+const runForCase = async (input: BulkActionInput, item: CaseSearchResult): Promise<string | undefined> => {
+  switch (input.type) {
+    case 'ASSIGN': {
+      await allocationService.assignCase(item.caseId, { userId: input.agentId, reason: input.reason || undefined })
+      return item.allocatedToUserName ? `Moved from ${item.allocatedToUserName}` : undefined
+    }
+    case 'DEALLOCATE':
+      return (await allocationService.deallocateCase(item.caseId, input.reason)) || undefined
+    case 'COMMUNICATE': {
+      const result = await workflowService.sendCaseCommunication(item.caseId, {
+        templateId: input.templateId,
+        channel: input.channel,
+      })
+      return result.status
+    }
+    case 'TAG': {
+      const tags = await caseSourcingService.addCaseTags(item.caseId, input.tags)
+      return tags.join(', ')
+    }
+    case 'EXPORT':
+      return undefined
+  }
+}
+
+export const createBulkJob = (input: BulkActionInput, preview: BulkActionPreview): BulkJob => ({
+  id: generateId(),
+  input,
+  label: describeBulkAction(input),
+  cases: preview.toRun,
+  items: [
+    ...preview.toRun.map((item) => ({ caseId: item.caseId, caseNumber: item.caseNumber, status: 'PENDING' as const })),
+    ...preview.skipped.map(({ item, reason }) => ({
+      caseId: item.caseId,
+      caseNumber: item.caseNumber,
+      status: 'SKIPPED' as const,
+      message: reason,
+    })),
+  ],
+  startedAt: new Date().toISOString(),
+})
+
+/**
+ * Run a job's pending cases a few at a time, reporting each case as it settles
+ * Cases not started when isCancelled turns true are marked skipped.
+ */
+export const runBulkJob = async (
+  job: BulkJob,
+  onItemUpdate: (caseId: number, changes: Partial<BulkJobItem>) => void,
+  isCancelled: () => boolean
+): Promise<void> => {
+  if (job.input.type === 'EXPORT') {
+    exportCases(job.cases)
+    job.cases.forEach((item) => onItemUpdate(item.caseId, { status: 'SUCCESS', message: 'Exported' }))
+    return
+  }
+
+  const queue = [...job.cases]
+  const worker = async () => {
+    while (queue.length > 0) {
+      const item = queue.shift()!
+      if (isCancelled()) {
+        onItemUpdate(item.caseId, { status: 'SKIPPED', message: 'Cancelled' })
+        continue
+      }
+      onItemUpdate(item.caseId, { status: 'RUNNING' })
+      try {
+        const message = await runForCase(job.input, item)
+        onItemUpdate(item.caseId, { status: 'SUCCESS', message })
+      } catch (err) {
+        onItemUpdate(item.caseId, { status: 'FAILED', message: getErrorMessage(err) })
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(BULK_CONCURRENCY, queue.length) }, worker))
+}
+
+export const getJobCounts = (job: BulkJob) => {
+  const count = (status: BulkItemStatus) => job.items.filter((item) => item.status === status).length
+  return {
+    total: job.items.length,
+    succeeded: count('SUCCESS'),
+    failed: count('FAILED'),
+    skipped: count('SKIPPED'),
+    remaining: count('PENDING') + count('RUNNING'),
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Bulk Action Bar
+ * Shows how many cases are selected and the actions the user may run on them
+ */
+
+import { Button } from '@components/common/Button'
+import { usePermission } from '@hooks'
+import { BULK_ACTIONS, type BulkActionType } from '../bulkActions'
+import './BulkActionBar.css'
+
+interface BulkActionBarProps {
+  selectedCount: number
+  // Disables the actions while a job is still running
+  isBusy: boolean
+  onAction: (type: BulkActionType) => void
+  onClear: () => void
+}
+
+export function BulkActionBar({ selectedCount, isBusy, onAction, onClear }: BulkActionBarProps) {
+  const { hasPermission } = usePermission()
+  const actions = BULK_ACTIONS.filter((action) => hasPermission(action.permission))
+
+  if (selectedCount === 0) return null
+
+  return (
+    <div className="bulk-action-bar">
+      <span className="bulk-action-bar__count">
+        {selectedCount} case{selectedCount === 1 ? '' : 's'} selected
+      </span>
+      <div className="bulk-action-bar__actions">
+        {actions.map((action) => (
+          <Button
+            key={action.type}
+            size="sm"
+            variant={action.type === 'DEALLOCATE' ? 'danger' : 'outline'}
+            onClick={() => onAction(action.type)}
+            disabled={isBusy}
+          >
+            {action.label}
+          </Button>
+        ))}
+        <button type="button" className="bulk-action-bar__clear" onClick={onClear}>
+          Clear selection
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default BulkActionBar
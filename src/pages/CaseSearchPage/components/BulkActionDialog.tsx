@@ -0,0 +1,273 @@
+/**
+ * Bulk Action Dialog
+ * Collects the options for a bulk action, then confirms it with the counts it will affect
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { Modal } from '@components/common/Modal'
+import { Button } from '@components/common/Button'
+import { useTemplateDropdown, useUsers } from '@services/queries'
+import type { CaseSearchResult } from '@types'
+import type { TemplateChannelType } from '../../../types/template.types'
+import {
+  BULK_ACTIONS,
+  previewBulkAction,
+  type BulkActionInput,
+  type BulkActionPreview,
+  type BulkActionType,
+} from '../bulkActions'
+import './BulkActionDialog.css'
+
+interface BulkActionDialogProps {
+  // Action being set up, or null when the dialog is closed
+  actionType: BulkActionType | null
+  cases: CaseSearchResult[]
+  onClose: () => void
+  onConfirm: (input: BulkActionInput, preview: BulkActionPreview) => void
+}
+
+const CHANNEL_OPTIONS: { value: TemplateChannelType; label: string }[] = [
+  { value: 'SMS', label: 'SMS' },
+  { value: 'WHATSAPP', label: 'WhatsApp' },
+  { value: 'EMAIL', label: 'Email' },
+  { value: 'IVR', label: 'IVR' },
+]
+
+// How many skipped cases to list by name in the confirmation
+const SKIPPED_PREVIEW_LIMIT = 5
+
+export function BulkActionDialog({ actionType, cases, onClose, onConfirm }: BulkActionDialogProps) {
+  const [input, setInput] = useState<BulkActionInput | null>(null)
+  const [agentId, setAgentId] = useState('')
+  const [reason, setReason] = useState('')
+  const [channel, setChannel] = useState<TemplateChannelType | ''>('')
+  const [templateId, setTemplateId] = useState('')
+  const [tags, setTags] = useState('')
+  const [error, setError] = useState('')
+
+  const { data: usersData } = useUsers({ page: 0, size: 100 })
+  const { data: templates = [], isLoading: templatesLoading } = useTemplateDropdown(
+    channel,
+    actionType === 'COMMUNICATE'
+  )
+  const agents = (usersData?.content ?? []).filter((user) => user.status === 'ACTIVE')
+
+  // Start from a clean form each time an action is opened; export has no options to fill in
+  useEffect(() => {
+    setInput(actionType === 'EXPORT' ? { type: 'EXPORT' } : null)
+    setAgentId('')
+    setReason('')
+    setChannel('')
+    setTemplateId('')
+    setTags('')
+    setError('')
+  }, [actionType])
+
+  const preview = useMemo(() => (input ? previewBulkAction(input, cases) : null), [input, cases])
+
+  if (!actionType) return null
+  const action = BULK_ACTIONS.find((item) => item.type === actionType)
+
+  const buildInput = (): BulkActionInput | string => {
+    switch (actionType) {
+      case 'ASSIGN': {
+        const agent = agents.find((user) => String(user.id) === agentId)
+        if (!agent) return 'Select an agent'
+        return {
+          type: 'ASSIGN',
+          agentId: agent.id,
+          agentName: `${agent.firstName} ${agent.lastName}`.trim() || agent.username,
+          reason: reason.trim(),
+        }
+      }
+      case 'DEALLOCATE':
+        if (!reason.trim()) return 'Enter a reason for deallocating'
+        return { type: 'DEALLOCATE', reason: reason.trim() }
+      case 'COMMUNICATE': {
+        const template = templates.find((item) => String(item.id) === templateId)
+        if (!channel || !template) return 'Select a channel and template'
+        return { type: 'COMMUNICATE', channel, templateId: template.id, templateName: template.templateName }
+      }
+      case 'TAG': {
+        const tagList = Array.from(new Set(tags.split(',').map((tag) => tag.trim()).filter(Boolean)))
+        if (tagList.length === 0) return 'Enter at least one tag'
+        return { type: 'TAG', tags: tagList }
+      }
+      default:
+        return { type: 'EXPORT' }
+    }
+  }
+
+  const handleContinue = () => {
+    const next = buildInput()
+    if (typeof next === 'string') {
+      setError(next)
+      return
+    }
+    setError('')
+    setInput(next)
+  }
+
+  const handleConfirm = () => {
+    if (input && preview) onConfirm(input, preview)
+  }
+
+  const renderForm = () => {
+    switch (actionType) {
+      case 'ASSIGN':
+        return (
+          <>
+            <div className="form-group">
+              <label className="form-label">Agent</label>
+              <select className="form-input" value={agentId} onChange={(e) => setAgentId(e.target.value)}>
+                <option value="">Select agent...</option>
+                {agents.map((user) => (
+                  <option key={user.id} value={user.id}>
+                    {user.firstName} {user.lastName} ({user.username})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">Reason (optional)</label>
+              <input className="form-input" value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+          </>
+        )
+      case 'DEALLOCATE':
+        return (
+          <div className="form-group">
+            <label className="form-label">Reason</label>
+            <textarea
+              className="form-input"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Why are these cases being deallocated?"
+            />
+          </div>
+        )
+      case 'COMMUNICATE':
+        return (
+          <>
+            <div className="form-group">
+              <label className="form-label">Channel</label>
+              <select
+                className="form-input"
+                value={channel}
+                onChange={(e) => {
+                  setChannel(e.target.value as TemplateChannelType | '')
+                  setTemplateId('')
+                }}
+              >
+                <option value="">Select channel...</option>
+                {CHANNEL_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label className="form-label">Template</label>
+              <select
+                className="form-input"
+                value={templateId}
+                onChange={(e) => setTemplateId(e.target.value)}
+                disabled={!channel || templatesLoading}
+              >
+                <option value="">{templatesLoading ? 'Loading...' : 'Select template...'}</option>
+                {templates.map((template) => (
+                  <option key={template.id} value={template.id}>
+                    {template.templateName} ({template.languageShortCode})
+                  </option>
+                ))}
+              </select>
+            </div>
+          </>
+        )
+      case 'TAG':
+        return (
+          <div className="form-group">
+            <label className="form-label">Tags</label>
+            <input
+              className="form-input"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="e.g. legal-review, high-priority"
+            />
+            <p className="bulk-action-dialog__hint">Separate tags with commas. Existing tags are kept.</p>
+          </div>
+        )
+      default:
+        return null
+    }
+  }
+
+  const renderConfirmation = (summary: BulkActionPreview) => (
+    <div className="bulk-action-dialog__summary">
+      <p className="bulk-action-dialog__headline">
+        <strong>{summary.toRun.length}</strong> of {cases.length} selected case{cases.length === 1 ? '' : 's'} will
+        be processed.
+      </p>
+      {summary.notes.length > 0 && (
+        <ul className="bulk-action-dialog__notes">
+          {summary.notes.map((note) => (
+            <li key={note}>{note}</li>
+          ))}
+        </ul>
+      )}
+      {summary.skipped.length > 0 && (
+        <div className="bulk-action-dialog__skipped">
+          <p>{summary.skipped.length} will be skipped:</p>
+          <ul>
+            {summary.skipped.slice(0, SKIPPED_PREVIEW_LIMIT).map(({ item, reason: skipReason }) => (
+              <li key={item.caseId}>
+                {item.caseNumber}: {skipReason}
+              </li>
+            ))}
+            {summary.skipped.length > SKIPPED_PREVIEW_LIMIT && (
+              <li>and {summary.skipped.length - SKIPPED_PREVIEW_LIMIT} more</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+
+  const isConfirming = !!preview
+  const footer = isConfirming ? (
+    <>
+      {actionType !== 'EXPORT' && (
+        <Button variant="secondary" onClick={() => setInput(null)}>
+          Back
+        </Button>
+      )}
+      <Button
+        variant={actionType === 'DEALLOCATE' ? 'danger' : 'primary'}
+        onClick={handleConfirm}
+        disabled={preview.toRun.length === 0}
+      >
+        {action?.label} {preview.toRun.length} case{preview.toRun.length === 1 ? '' : 's'}
+      </Button>
+    </>
+  ) : (
+    <>
+      <Button variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button onClick={handleContinue}>Continue</Button>
+    </>
+  )
+
+  return (
+    <Modal isOpen onClose={onClose} title={`${action?.label}: ${cases.length} selected`} size="md" footer={footer}>
+      <div className="bulk-action-dialog">
+        {error && <p className="bulk-action-dialog__error">{error}</p>}
+        {isConfirming ? renderConfirmation(preview) : renderForm()}
+      </div>
+    </Modal>
+  )
+}
+
+export default BulkActionDialog
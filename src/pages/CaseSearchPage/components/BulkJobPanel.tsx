@@ -0,0 +1,103 @@
+/**
+ * Bulk Job Panel
+ * Progress and per-case outcome of the latest bulk action
+ */
+
+import { Button } from '@components/common/Button'
+import { cn, formatRelativeTime } from '@utils'
+import { exportJobResults, getJobCounts, type BulkItemStatus, type BulkJob } from '../bulkActions'
+import './BulkJobPanel.css'
+
+interface BulkJobPanelProps {
+  job: BulkJob
+  isRunning: boolean
+  onCancel: () => void
+  onRetryFailed: () => void
+  onDismiss: () => void
+}
+
+const STATUS_LABELS: Record<BulkItemStatus, string> = {
+  PENDING: 'Pending',
+  RUNNING: 'Running',
+  SUCCESS: 'Done',
+  FAILED: 'Failed',
+  SKIPPED: 'Skipped',
+}
+
+export function BulkJobPanel({ job, isRunning, onCancel, onRetryFailed, onDismiss }: BulkJobPanelProps) {
+  const counts = getJobCounts(job)
+  const processed = counts.total - counts.remaining
+  const progress = counts.total > 0 ? Math.round((processed / counts.total) * 100) : 100
+
+  return (
+    <div className="bulk-job">
+      <div className="bulk-job__header">
+        <div>
+          <h3 className="bulk-job__title">{job.label}</h3>
+          <p className="bulk-job__meta">
+            {isRunning
+              ? `Processing ${processed} of ${counts.total}`
+              : `Finished ${formatRelativeTime(job.finishedAt ?? job.startedAt)}`}
+            {' · '}
+            {counts.succeeded} succeeded, {counts.failed} failed, {counts.skipped} skipped
+          </p>
+        </div>
+        <div className="bulk-job__actions">
+          {isRunning ? (
+            <Button variant="outline" size="sm" onClick={onCancel}>
+              Cancel
+            </Button>
+          ) : (
+            <>
+              {counts.failed > 0 && (
+                <Button variant="outline" size="sm" onClick={onRetryFailed}>
+                  Retry {counts.failed} failed
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={() => exportJobResults(job)}>
+                Download Results
+              </Button>
+              <Button variant="secondary" size="sm" onClick={onDismiss}>
+                Dismiss
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div className="bulk-job__progress">
+        <div
+          className={cn('bulk-job__progress-bar', counts.failed > 0 && 'bulk-job__progress-bar--warning')}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+
+      <div className="bulk-job__items">
+        <table className="bulk-job__table">
+          <thead>
+            <tr>
+              <th>Case</th>
+              <th>Result</th>
+              <th>Details</th>
+            </tr>
+          </thead>
+          <tbody>
+            {job.items.map((item) => (
+              <tr key={item.caseId}>
+                <td>{item.caseNumber}</td>
+                <td>
+                  <span className={`bulk-job__status bulk-job__status--${item.status.toLowerCase()}`}>
+                    {STATUS_LABELS[item.status]}
+                  </span>
+                </td>
+                <td className="bulk-job__message">{item.message || '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+export default BulkJobPanel
@@ -0,0 +1,322 @@
+/**
+ * Query Builder
+ * Build nested AND/OR case queries visually or as text; both edit the same expression
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@components/common/Button'
+import {
+  CASE_QUERY_FIELDS,
+  QUERY_OPERATORS_BY_TYPE,
+  QUERY_OPERATOR_SYMBOLS,
+  RELATIVE_DATE_SUGGESTIONS,
+  cn,
+  compileCaseQuery,
+  createEmptyQuery,
+  createQueryCondition,
+  createQueryGroup,
+  getCaseQueryField,
+  isListOperator,
+  parseCaseQuery,
+  validateCaseQuery,
+} from '@utils'
+import type { CaseQuery, FilterCondition, FilterGroup, LegacyFilterOperator } from '@types'
+import { QueryTextEditor } from './QueryTextEditor'
+import './QueryBuilder.css'
+
+interface QueryBuilderProps {
+  value: string
+  onChange: (expression: string) => void
+}
+
+type BuilderMode = 'visual' | 'text'
+
+const toVisualQuery = (expression: string): CaseQuery | null => {
+  if (!expression.trim()) return createEmptyQuery()
+  try {
+    const query = parseCaseQuery(expression)
+    return query.groups.length > 0 ? query : createEmptyQuery()
+  } catch {
+    return null
+  }
+}
+
+// Keep what was entered when switching between a single value and a list
+const convertValue = (value: FilterCondition['value'], toList: boolean): FilterCondition['value'] => {
+  if (toList) return Array.isArray(value) ? value : String(value) ? [String(value)] : []
+  return Array.isArray(value) ? (value[0] ?? '') : value
+}
+
+export function QueryBuilder({ value, onChange }: QueryBuilderProps) {
+  const [query, setQuery] = useState<CaseQuery>(() => toVisualQuery(value) ?? createEmptyQuery())
+  // Start in text mode when the expression could not be shown visually
+  const [mode, setMode] = useState<BuilderMode>(() => (toVisualQuery(value) ? 'visual' : 'text'))
+  const [modeError, setModeError] = useState('')
+  // Last expression the visual builder produced or loaded, to tell outside changes apart from our own
+  const syncedValue = useRef(value)
+
+  // Reset, back/forward or opening a saved search replaces the expression from outside
+  useEffect(() => {
+    if (mode !== 'visual' || value === syncedValue.current) return
+    syncedValue.current = value
+    const next = toVisualQuery(value)
+    if (next) {
+      setQuery(next)
+    } else {
+      setMode('text')
+    }
+  }, [value, mode])
+
+  const updateQuery = (next: CaseQuery) => {
+    const expression = compileCaseQuery(next)
+    syncedValue.current = expression
+    setQuery(next)
+    onChange(expression)
+  }
+
+  const updateGroup = (groupId: string, changes: Partial<FilterGroup>) => {
+    updateQuery({
+      ...query,
+      groups: query.groups.map((group) => (group.id === groupId ? { ...group, ...changes } : group)),
+    })
+  }
+
+  const updateCondition = (group: FilterGroup, conditionId: string, changes: Partial<FilterCondition>) => {
+    updateGroup(group.id, {
+      conditions: group.conditions.map((condition) =>
+        condition.id === conditionId ? { ...condition, ...changes } : condition
+      ),
+    })
+  }
+
+  const handleFieldChange = (group: FilterGroup, condition: FilterCondition, fieldId: string) => {
+    const field = getCaseQueryField(fieldId)
+    if (!field) return
+    const operators = QUERY_OPERATORS_BY_TYPE[field.type]
+    const operator = operators.includes(condition.operator) ? condition.operator : operators[0]
+    updateCondition(group, condition.id, { field: field.id, operator, value: isListOperator(operator) ? [] : '' })
+  }
+
+  const handleOperatorChange = (group: FilterGroup, condition: FilterCondition, operator: LegacyFilterOperator) => {
+    updateCondition(group, condition.id, { operator, value: convertValue(condition.value, isListOperator(operator)) })
+  }
+
+  const removeCondition = (group: FilterGroup, conditionId: string) => {
+    const conditions = group.conditions.filter((condition) => condition.id !== conditionId)
+    if (conditions.length > 0) {
+      updateGroup(group.id, { conditions })
+    } else {
+      removeGroup(group.id)
+    }
+  }
+
+  const removeGroup = (groupId: string) => {
+    const groups = query.groups.filter((group) => group.id !== groupId)
+    updateQuery({ ...query, groups: groups.length > 0 ? groups : [createQueryGroup()] })
+  }
+
+  const switchMode = (next: BuilderMode) => {
+    if (next === mode) return
+    if (next === 'visual') {
+      const parsed = toVisualQuery(value)
+      if (!parsed) {
+        setModeError(`Fix the query before switching to the visual builder: ${validateCaseQuery(value)?.message}`)
+        return
+      }
+      syncedValue.current = value
+      setQuery(parsed)
+    }
+    setModeError('')
+    setMode(next)
+  }
+
+  const renderValueInput = (group: FilterGroup, condition: FilterCondition) => {
+    const field = getCaseQueryField(condition.field)
+    const setValue = (value: FilterCondition['value']) => updateCondition(group, condition.id, { value })
+
+    if (Array.isArray(condition.value)) {
+      return (
+        <input
+          type="text"
+          className="form-input query-builder__value"
+          value={condition.value.join(', ')}
+          onChange={(e) => setValue(e.target.value.split(',').map((item) => item.trimStart()))}
+          placeholder={field?.options ? field.options.join(', ') : 'Comma separated values'}
+        />
+      )
+    }
+    if (field?.type === 'select') {
+      return (
+        <select
+          className="form-input query-builder__value"
+          value={String(condition.value)}
+          onChange={(e) => setValue(e.target.value)}
+        >
+          <option value="">Select...</option>
+          {field.options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      )
+    }
+    if (field?.type === 'number') {
+      return (
+        <input
+          type="number"
+          className="form-input query-builder__value"
+          value={condition.value}
+          onChange={(e) => setValue(e.target.value === '' ? '' : Number(e.target.value))}
+        />
+      )
+    }
+    return (
+      <input
+        type="text"
+        className="form-input query-builder__value"
+        value={condition.value}
+        onChange={(e) => setValue(e.target.value)}
+        list={field?.type === 'date' ? 'query-builder-relative-dates' : undefined}
+        placeholder={field?.type === 'date' ? 'yyyy-mm-dd, today or -7d' : 'Value'}
+      />
+    )
+  }
+
+  return (
+    <div className="query-builder">
+      <div className="query-builder__toolbar">
+        <div className="query-builder__modes">
+          {(['visual', 'text'] as BuilderMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={cn('query-builder__mode', mode === option && 'query-builder__mode--active')}
+              onClick={() => switchMode(option)}
+            >
+              {option === 'visual' ? 'Builder' : 'Text'}
+            </button>
+          ))}
+        </div>
+        {mode === 'visual' && query.groups.length > 1 && (
+          <label className="query-builder__logic">
+            Match
+            <select
+              className="form-input"
+              value={query.logic}
+              onChange={(e) => updateQuery({ ...query, logic: e.target.value as CaseQuery['logic'] })}
+            >
+              <option value="OR">any group (OR)</option>
+              <option value="AND">every group (AND)</option>
+            </select>
+          </label>
+        )}
+      </div>
+
+      {modeError && <p className="query-builder__error">{modeError}</p>}
+
+      {mode === 'text' ? (
+        <QueryTextEditor value={value} onChange={onChange} />
+      ) : (
+        <>
+          {query.groups.map((group, groupIndex) => (
+            <div key={group.id}>
+              {groupIndex > 0 && <div className="query-builder__connector">{query.logic}</div>}
+              <div className="query-builder__group">
+                <div className="query-builder__group-header">
+                  <span className="query-builder__group-title">Group {groupIndex + 1}</span>
+                  {group.conditions.length > 1 && (
+                    <select
+                      className="form-input query-builder__group-logic"
+                      value={group.logic}
+                      onChange={(e) => updateGroup(group.id, { logic: e.target.value as FilterGroup['logic'] })}
+                    >
+                      <option value="AND">All conditions (AND)</option>
+                      <option value="OR">Any condition (OR)</option>
+                    </select>
+                  )}
+                  {query.groups.length > 1 && (
+                    <button type="button" className="query-builder__remove" onClick={() => removeGroup(group.id)}>
+                      Remove group
+                    </button>
+                  )}
+                </div>
+
+                {group.conditions.map((condition, conditionIndex) => {
+                  const field = getCaseQueryField(condition.field)
+                  return (
+                    <div key={condition.id} className="query-builder__condition">
+                      <span className="query-builder__condition-logic">
+                        {conditionIndex === 0 ? 'Where' : group.logic}
+                      </span>
+                      <select
+                        className="form-input"
+                        value={condition.field}
+                        onChange={(e) => handleFieldChange(group, condition, e.target.value)}
+                      >
+                        {CASE_QUERY_FIELDS.map((option) => (
+                          <option key={option.id} value={option.id}>
+                            {option.name}
+                          </option>
+                        ))}
+                      </select>
+                      <select
+                        className="form-input query-builder__operator"
+                        value={condition.operator}
+                        onChange={(e) =>
+                          handleOperatorChange(group, condition, e.target.value as LegacyFilterOperator)
+                        }
+                      >
+                        {QUERY_OPERATORS_BY_TYPE[field?.type ?? 'text'].map((operator) => (
+                          <option key={operator} value={operator}>
+                            {QUERY_OPERATOR_SYMBOLS[operator]}
+                          </option>
+                        ))}
+                      </select>
+                      {renderValueInput(group, condition)}
+                      <button
+                        type="button"
+                        className="query-builder__remove"
+                        onClick={() => removeCondition(group, condition.id)}
+                        title="Remove condition"
+                      >
+                        &times;
+                      </button>
+                    </div>
+                  )
+                })}
+
+                <button
+                  type="button"
+                  className="query-builder__add"
+                  onClick={() => updateGroup(group.id, { conditions: [...group.conditions, createQueryCondition()] })}
+                >
+                  + Condition
+                </button>
+              </div>
+            </div>
+          ))}
+
+          <div className="query-builder__footer">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateQuery({ ...query, groups: [...query.groups, createQueryGroup()] })}
+            >
+              + Group
+            </Button>
+            {value && <code className="query-builder__preview">{value}</code>}
+          </div>
+
+          <datalist id="query-builder-relative-dates">
+            {RELATIVE_DATE_SUGGESTIONS.map((option) => (
+              <option key={option} value={option} />
+            ))}
+          </datalist>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default QueryBuilder
@@ -0,0 +1,126 @@
+/**
+ * Query Text Editor
+ * Type an advanced query by hand, with field, operator and value suggestions as you go
+ */
+
+import { useRef, useState } from 'react'
+import { cn, getCaseQuerySuggestions, validateCaseQuery } from '@utils'
+import type { CaseQuerySuggestion, CaseQuerySuggestions } from '@utils'
+import './QueryTextEditor.css'
+
+interface QueryTextEditorProps {
+  value: string
+  onChange: (value: string) => void
+}
+
+const NO_SUGGESTIONS: CaseQuerySuggestions = { from: 0, to: 0, items: [] }
+
+export function QueryTextEditor({ value, onChange }: QueryTextEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [suggestions, setSuggestions] = useState<CaseQuerySuggestions>(NO_SUGGESTIONS)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const error = value.trim() ? validateCaseQuery(value) : null
+
+  const updateSuggestions = (text: string, cursor: number) => {
+    setSuggestions(getCaseQuerySuggestions(text, cursor))
+    setHighlighted(0)
+  }
+
+  const closeSuggestions = () => setSuggestions(NO_SUGGESTIONS)
+
+  const applySuggestion = (suggestion: CaseQuerySuggestion) => {
+    const next = value.slice(0, suggestions.from) + suggestion.insertText + value.slice(suggestions.to)
+    const cursor = suggestions.from + suggestion.insertText.length
+    onChange(next)
+    updateSuggestions(next, cursor)
+    window.requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(cursor, cursor)
+    })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault()
+      updateSuggestions(value, e.currentTarget.selectionStart)
+      return
+    }
+    if (suggestions.items.length === 0) return
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault()
+        setHighlighted((prev) => (prev + 1) % suggestions.items.length)
+        break
+      case 'ArrowUp':
+        e.preventDefault()
+        setHighlighted((prev) => (prev - 1 + suggestions.items.length) % suggestions.items.length)
+        break
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault()
+        applySuggestion(suggestions.items[highlighted])
+        break
+      case 'Escape':
+        e.preventDefault()
+        closeSuggestions()
+        break
+    }
+  }
+
+  return (
+    <div className="query-text-editor">
+      <textarea
+        ref={textareaRef}
+        className={cn('form-input query-text-editor__input', error && 'query-text-editor__input--error')}
+        value={value}
+        rows={3}
+        spellCheck={false}
+        placeholder='(dpd >= 30 AND dpd <= 60 AND lastContactedAt < -7d) OR lastDisposition = "RTP"'
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateSuggestions(e.target.value, e.target.selectionStart)
+        }}
+        onClick={(e) => updateSuggestions(value, e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        onBlur={closeSuggestions}
+      />
+
+      {suggestions.items.length > 0 && (
+        <ul className="query-text-editor__suggestions">
+          {suggestions.items.map((item, index) => (
+            <li
+              key={item.label}
+              className={cn(
+                'query-text-editor__suggestion',
+                index === highlighted && 'query-text-editor__suggestion--active'
+              )}
+              // Keep focus in the textarea so the blur handler does not close the list first
+              onMouseDown={(e) => {
+                e.preventDefault()
+                applySuggestion(item)
+              }}
+              onMouseEnter={() => setHighlighted(index)}
+            >
+              <span className="query-text-editor__suggestion-label">{item.label}</span>
+              {item.detail && <span className="query-text-editor__suggestion-detail">{item.detail}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error ? (
+        <p className="query-text-editor__error">
+          {error.message} (at character {error.position + 1})
+        </p>
+      ) : (
+        <p className="query-text-editor__hint">
+          Combine conditions with AND / OR and group them with parentheses. Press Ctrl+Space for suggestions.
+        </p>
+      )}
+    </div>
+  )
+}
+
+export default QueryTextEditor
@@ -0,0 +1,195 @@
+/**
+ * Saved Searches Panel
+ * Save the current search, then open, rename, pin or schedule saved ones
+ */
+
+import { useState } from 'react'
+import { Button } from '@components/common/Button'
+import { useSavedSearches } from '@hooks'
+import { SAVED_SEARCH_SCHEDULES, cn, describeCaseSearch, formatRelativeTime } from '@utils'
+import type { CaseSearchParams, SavedCaseSearch, SavedSearchSchedule } from '@types'
+import './SavedSearchesPanel.css'
+
+interface SavedSearchesPanelProps {
+  // Filters of the search currently shown, or null before any search has run
+  currentSearch: CaseSearchParams | null
+  activeSearchId: string | null
+  onOpen: (search: SavedCaseSearch) => void
+}
+
+export function SavedSearchesPanel({ currentSearch, activeSearchId, onOpen }: SavedSearchesPanelProps) {
+  const { savedSearches, saveSearch, updateSearch, deleteSearch } = useSavedSearches()
+  const [isSaving, setIsSaving] = useState(false)
+  const [name, setName] = useState('')
+  const [pinned, setPinned] = useState(true)
+  const [schedule, setSchedule] = useState<SavedSearchSchedule>('OFF')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+
+  const activeSearch = savedSearches.find((search) => search.id === activeSearchId)
+
+  const startSaving = () => {
+    if (!currentSearch) return
+    setName(describeCaseSearch(currentSearch))
+    setPinned(true)
+    setSchedule('OFF')
+    setIsSaving(true)
+  }
+
+  const handleSave = () => {
+    if (!currentSearch) return
+    const saved = saveSearch(name, currentSearch, { pinned, schedule })
+    setIsSaving(false)
+    onOpen(saved)
+  }
+
+  const startRenaming = (search: SavedCaseSearch) => {
+    setRenamingId(search.id)
+    setRenameValue(search.name)
+  }
+
+  const handleRename = () => {
+    if (renamingId && renameValue.trim()) {
+      updateSearch(renamingId, { name: renameValue.trim() })
+    }
+    setRenamingId(null)
+  }
+
+  const handleDelete = (search: SavedCaseSearch) => {
+    if (window.confirm(`Delete the saved search "${search.name}"?`)) {
+      deleteSearch(search.id)
+    }
+  }
+
+  return (
+    <div className="saved-searches">
+      <div className="saved-searches__header">
+        <h2 className="saved-searches__title">Saved Searches</h2>
+        <div className="saved-searches__header-actions">
+          {activeSearch && currentSearch && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateSearch(activeSearch.id, { params: currentSearch })}
+              title="Replace the saved filters with the ones shown now"
+            >
+              Update "{activeSearch.name}"
+            </Button>
+          )}
+          <Button size="sm" onClick={startSaving} disabled={!currentSearch || isSaving}>
+            Save Current Search
+          </Button>
+        </div>
+      </div>
+
+      {isSaving && (
+        <div className="saved-searches__form">
+          <input
+            type="text"
+            className="form-input saved-searches__name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Search name"
+            autoFocus
+          />
+          <select
+            className="form-input"
+            value={schedule}
+            onChange={(e) => setSchedule(e.target.value as SavedSearchSchedule)}
+          >
+            {SAVED_SEARCH_SCHEDULES.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <label className="saved-searches__checkbox">
+            <input type="checkbox" checked={pinned} onChange={(e) => setPinned(e.target.checked)} />
+            Pin to sidebar
+          </label>
+          <Button variant="secondary" size="sm" onClick={() => setIsSaving(false)}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      )}
+
+      {savedSearches.length === 0 ? (
+        <p className="saved-searches__empty">
+          Run a search and save it to come back to it later, pin it to the sidebar or have it re-run on a schedule.
+        </p>
+      ) : (
+        <ul className="saved-searches__list">
+          {savedSearches.map((search) => (
+            <li
+              key={search.id}
+              className={cn('saved-searches__item', search.id === activeSearchId && 'saved-searches__item--active')}
+            >
+              <div className="saved-searches__info">
+                {renamingId === search.id ? (
+                  <input
+                    type="text"
+                    className="form-input saved-searches__name"
+                    value={renameValue}
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={handleRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleRename()
+                      if (e.key === 'Escape') setRenamingId(null)
+                    }}
+                    autoFocus
+                  />
+                ) : (
+                  <button className="saved-searches__open" onClick={() => onOpen(search)}>
+                    {search.name}
+                    {search.newMatchCount > 0 && (
+                      <span className="saved-searches__badge">{search.newMatchCount} new</span>
+                    )}
+                  </button>
+                )}
+                <span className="saved-searches__meta">
+                  {describeCaseSearch(search.params)}
+                  {search.lastRunAt &&
+                    ` · ${search.lastResultCount ?? 0} matches, checked ${formatRelativeTime(search.lastRunAt)}`}
+                </span>
+              </div>
+              <div className="saved-searches__actions">
+                <select
+                  className="form-input saved-searches__schedule"
+                  value={search.schedule}
+                  onChange={(e) => updateSearch(search.id, { schedule: e.target.value as SavedSearchSchedule })}
+                  title="Re-run schedule"
+                >
+                  {SAVED_SEARCH_SCHEDULES.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  className={cn('saved-searches__action', search.pinned && 'saved-searches__action--on')}
+                  onClick={() => updateSearch(search.id, { pinned: !search.pinned })}
+                >
+                  {search.pinned ? 'Unpin' : 'Pin'}
+                </button>
+                <button className="saved-searches__action" onClick={() => startRenaming(search)}>
+                  Rename
+                </button>
+                <button
+                  className="saved-searches__action saved-searches__action--danger"
+                  onClick={() => handleDelete(search)}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default SavedSearchesPanel
@@ -0,0 +1,6 @@
+export { SavedSearchesPanel } from './SavedSearchesPanel'
+export { QueryBuilder } from './QueryBuilder'
+export { QueryTextEditor } from './QueryTextEditor'
+export { BulkActionBar } from './BulkActionBar'
+export { BulkActionDialog } from './BulkActionDialog'
+export { BulkJobPanel } from './BulkJobPanel'
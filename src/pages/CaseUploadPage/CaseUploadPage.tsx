@@ -1,6 +1,6 @@
 /**
  * Case Upload Page
- * Upload CSV files for case data with validation and view uploaded batches
+ * Upload CSV/XLSX files for case data with validation, column mapping, row preview and view uploaded batches
  */
 
 import { useState, useRef, useEffect, useCallback } from 'react'
@@ -8,12 +8,24 @@ import { useNavigate } from 'react-router-dom'
 import { caseSourcingService } from '@services/api'
 import { Button } from '@components/common/Button'
 import { Table, Pagination, Column } from '@components/common/Table'
+import { UploadPreview } from '@components/common/UploadPreview'
+import { createUploadFile, isSpreadsheetFile, readUploadSheet } from '@utils'
+import type { UploadSchema, UploadSheet } from '@utils'
 import type { HeaderValidationResult, BatchUploadResponse, BatchInfo, BatchStatus, BatchesListParams } from '@types'
+import { ColumnMappingStep } from './components'
+import { readUploadFile } from './columnMapping'
+import type { ParsedUploadFile } from './columnMapping'
 import './CaseUploadPage.css'
 
-type UploadStep = 'select' | 'validate' | 'uploading' | 'success' | 'error'
+type UploadStep = 'select' | 'validate' | 'mapping' | 'preview' | 'uploading' | 'success' | 'error'
 type StatusFilter = 'ALL' | 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'PARTIAL'
 
+// Row checks run in the browser before upload (normalised header names)
+const CASE_UPLOAD_SCHEMA: UploadSchema = {
+  requiredFields: ['externalcaseid', 'loanaccountnumber', 'customername', 'mobile', 'mobilenumber'],
+  uniqueFields: ['externalcaseid', 'loanaccountnumber'],
+}
+
 export function CaseUploadPage() {
   const navigate = useNavigate()
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -22,6 +34,8 @@ export function CaseUploadPage() {
   const [currentStep, setCurrentStep] = useState<UploadStep>('select')
   const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [validationResult, setValidationResult] = useState<HeaderValidationResult | null>(null)
+  const [parsedFile, setParsedFile] = useState<ParsedUploadFile | null>(null)
+  const [previewSheet, setPreviewSheet] = useState<UploadSheet | null>(null)
   const [uploadResult, setUploadResult] = useState<BatchUploadResponse | null>(null)
   const [uploadError, setUploadError] = useState('')
   const [isDragging, setIsDragging] = useState(false)
@@ -67,12 +81,23 @@ export function CaseUploadPage() {
   }, [fetchBatches])
 
   // Upload handlers
-  const handleFileSelect = (file: File) => {
-    if (!file.name.endsWith('.csv')) {
-      setUploadError('Please select a CSV file')
+  const handleFileSelect = async (file: File) => {
+    if (!isSpreadsheetFile(file)) {
+      setUploadError('Please select a CSV or XLSX file')
       return
     }
-    setSelectedFile(file)
+
+    // Workbooks are converted to CSV up front so header validation and upload see the same file
+    let csvFile = file
+    if (/\.xlsx$/i.test(file.name)) {
+      try {
+        csvFile = createUploadFile(file.name, await readUploadSheet(file))
+      } catch (err) {
+        setUploadError(err instanceof Error ? err.message : 'Failed to read workbook')
+        return
+      }
+    }
+    setSelectedFile(csvFile)
     setUploadError('')
     setCurrentStep('select')
   }
@@ -117,13 +142,42 @@ export function CaseUploadPage() {
     }
   }
 
-  const handleUpload = async () => {
+  const handleOpenMapping = async () => {
     if (!selectedFile) return
 
+    try {
+      setUploadError('')
+      const parsed = await readUploadFile(selectedFile)
+      if (parsed.headers.length === 0) {
+        setUploadError('The file has no header row')
+        return
+      }
+      setParsedFile(parsed)
+      setCurrentStep('mapping')
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to read file')
+    }
+  }
+
+  const openPreview = async (file: File | null = selectedFile) => {
+    if (!file) return
+
+    try {
+      setUploadError('')
+      setPreviewSheet(await readUploadSheet(file))
+      setCurrentStep('preview')
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to read file')
+    }
+  }
+
+  const handleUpload = async (fileToUpload: File | null = selectedFile) => {
+    if (!fileToUpload) return
+
     try {
       setCurrentStep('uploading')
       setUploadError('')
-      const result = await caseSourcingService.uploadCases(selectedFile)
+      const result = await caseSourcingService.uploadCases(fileToUpload)
       setUploadResult(result)
       setCurrentStep('success')
       // Refresh batches list after successful upload
@@ -153,6 +207,8 @@ export function CaseUploadPage() {
   const resetUpload = () => {
     setSelectedFile(null)
     setValidationResult(null)
+    setParsedFile(null)
+    setPreviewSheet(null)
     setUploadResult(null)
     setUploadError('')
     setCurrentStep('select')
@@ -367,7 +423,7 @@ export function CaseUploadPage() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".csv"
+                  accept=".csv,.xlsx"
                   onChange={handleInputChange}
                   className="drop-zone__input"
                 />
@@ -407,7 +463,7 @@ export function CaseUploadPage() {
                     <div className="drop-zone__text">
                       <span className="drop-zone__text-primary">Click to upload</span> or drag and drop
                     </div>
-                    <div className="drop-zone__text-secondary">CSV files only</div>
+                    <div className="drop-zone__text-secondary">CSV or XLSX files</div>
                   </div>
                 )}
               </div>
@@ -418,8 +474,8 @@ export function CaseUploadPage() {
                   <Button variant="secondary" onClick={handleValidateHeaders}>
                     Validate Headers
                   </Button>
-                  <Button onClick={handleUpload}>
-                    Upload File
+                  <Button onClick={() => openPreview()}>
+                    Preview & Upload
                   </Button>
                 </div>
               )}
@@ -508,15 +564,37 @@ export function CaseUploadPage() {
                 <Button variant="secondary" onClick={resetUpload}>
                   Select Different File
                 </Button>
+                <Button variant={validationResult.isValid ? 'secondary' : 'primary'} onClick={handleOpenMapping}>
+                  Map Columns
+                </Button>
                 {validationResult.isValid && (
-                  <Button onClick={handleUpload}>
-                    Proceed with Upload
+                  <Button onClick={() => openPreview()}>
+                    Preview & Upload
                   </Button>
                 )}
               </div>
             </div>
           )}
 
+          {currentStep === 'mapping' && selectedFile && parsedFile && validationResult && (
+            <ColumnMappingStep
+              fileName={selectedFile.name}
+              parsedFile={parsedFile}
+              validationResult={validationResult}
+              onBack={() => setCurrentStep('validate')}
+              onApply={(mappedFile) => openPreview(mappedFile)}
+            />
+          )}
+
+          {currentStep === 'preview' && selectedFile && previewSheet && (
+            <UploadPreview
+              sheet={previewSheet}
+              schema={CASE_UPLOAD_SCHEMA}
+              onCancel={() => setCurrentStep(validationResult ? 'validate' : 'select')}
+              onUpload={(sheet) => handleUpload(createUploadFile(selectedFile.name, sheet))}
+            />
+          )}
+
           {currentStep === 'uploading' && (
             <div className="upload-progress">
               <div className="upload-progress__spinner">
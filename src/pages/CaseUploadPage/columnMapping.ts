@@ -0,0 +1,124 @@
+/**
+ * Column Mapping
+ * Maps a lender's CSV columns onto the case upload schema and rewrites the file before upload
+ */
+
+import { parseCsv, toCsv } from '@utils'
+import type { HeaderSuggestion } from '@types'
+
+// Target (schema) header -> source (file) header; empty string means not mapped
+export type ColumnMapping = Record<string, string>
+
+export interface MappingProfile {
+  name: string
+  mapping: ColumnMapping
+  updatedAt: string
+}
+
+export interface ParsedUploadFile {
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * Normalise a header for comparison: case, spacing and punctuation are ignored
+ */
+export const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Read a CSV file into its header row and data rows
+ */
+export const readUploadFile = async (file: File): Promise<ParsedUploadFile> => {
+  const [headers = [], ...rows] = parseCsv(await file.text())
+  return { headers: headers.map((header) => header.trim()), rows }
+}
+
+/**
+ * Pick the saved profile that fits the file best
+ * A profile fits when every source column it uses exists in the file; the one mapping the most columns wins.
+ */
+export const findMatchingProfile = (
+  profiles: MappingProfile[],
+  sourceHeaders: string[]
+): MappingProfile | undefined => {
+  const available = new Set(sourceHeaders)
+  return profiles
+    .map((profile) => {
+      const sources = Object.values(profile.mapping).filter(Boolean)
+      return { profile, sources, fits: sources.length > 0 && sources.every((source) => available.has(source)) }
+    })
+    .filter((candidate) => candidate.fits)
+    .sort((a, b) => b.sources.length - a.sources.length)[0]?.profile
+}
+
+/**
+ * Build the starting mapping
+ * Precedence: saved profile, then an exact (normalised) header match, then the server's suggestions.
+ */
+export const buildInitialMapping = (
+  sourceHeaders: string[],
+  targetHeaders: string[],
+  suggestions: HeaderSuggestion[],
+  profile?: MappingProfile
+): ColumnMapping => {
+  const available = new Set(sourceHeaders)
+  const used = new Set<string>()
+  const mapping: ColumnMapping = {}
+
+  const assign = (target: string, source: string | undefined) => {
+    if (mapping[target] || !source || !available.has(source) || used.has(source)) return
+    mapping[target] = source
+    used.add(source)
+  }
+
+  if (profile) {
+    targetHeaders.forEach((target) => assign(target, profile.mapping[target]))
+  }
+
+  const byNormalized = new Map(sourceHeaders.map((source) => [normalizeHeader(source), source]))
+  targetHeaders.forEach((target) => assign(target, byNormalized.get(normalizeHeader(target))))
+
+  ;[...suggestions]
+    .sort((a, b) => b.similarityScore - a.similarityScore)
+    .forEach((suggestion) => assign(suggestion.suggestedHeader, suggestion.providedHeader))
+
+  targetHeaders.forEach((target) => {
+    if (!mapping[target]) mapping[target] = ''
+  })
+  return mapping
+}
+
+/**
+ * Source columns picked for more than one target
+ */
+export const getDuplicateSources = (mapping: ColumnMapping): string[] => {
+  const counts = Object.values(mapping)
+    .filter(Boolean)
+    .reduce<Record<string, number>>((acc, source) => ({ ...acc, [source]: (acc[source] || 0) + 1 }), {})
+  return Object.keys(counts).filter((source) => counts[source] > 1)
+}
+
+/**
+ * Rewrite the parsed file with schema headers, in schema order; unmapped columns are left empty
+ */
+export const applyMapping = (
+  parsed: ParsedUploadFile,
+  targetHeaders: string[],
+  mapping: ColumnMapping
+): string[][] => {
+  const indexes = targetHeaders.map((target) =>
+    mapping[target] ? parsed.headers.indexOf(mapping[target]) : -1
+  )
+  return [
+    targetHeaders,
+    ...parsed.rows.map((row) => indexes.map((index) => (index >= 0 ? (row[index] ?? '').trim() : ''))),
+  ]
+}
+
+/**
+ * Build the CSV file that is sent to the server in place of the original
+ */
+export const createMappedFile = (originalName: string, rows: string[][]): File => {
+  const baseName = originalName.replace(/\.csv$/i, '')
+  return new File([toCsv(rows)], `${baseName}_mapped.csv`, { type: 'text/csv' })
+}
@@ -0,0 +1,203 @@
+/**
+ * Column Mapping Step
+ * Map the lender's columns to the case schema, save the mapping as a lender profile and rewrite the file
+ */
+
+import { useState, useMemo } from 'react'
+import { Button } from '@components/common/Button'
+import { useLocalStorage } from '@hooks'
+import config from '@config'
+import type { HeaderValidationResult } from '@types'
+import {
+  applyMapping,
+  buildInitialMapping,
+  createMappedFile,
+  findMatchingProfile,
+  getDuplicateSources,
+} from '../columnMapping'
+import type { ColumnMapping, MappingProfile, ParsedUploadFile } from '../columnMapping'
+import './ColumnMappingStep.css'
+
+interface ColumnMappingStepProps {
+  fileName: string
+  parsedFile: ParsedUploadFile
+  validationResult: HeaderValidationResult
+  onBack: () => void
+  onApply: (file: File) => void
+}
+
+const SAMPLE_ROW_COUNT = 3
+
+export function ColumnMappingStep({
+  fileName,
+  parsedFile,
+  validationResult,
+  onBack,
+  onApply,
+}: ColumnMappingStepProps) {
+  const [profiles, setProfiles] = useLocalStorage<MappingProfile[]>(config.storage.caseMappingProfilesKey, [])
+  const targetHeaders = validationResult.expectedHeaders
+  const requiredHeaders = useMemo(() => new Set(validationResult.missingHeaders), [validationResult])
+
+  // Start from the saved profile that fits this file, if any
+  const [initialProfile] = useState(() => findMatchingProfile(profiles, parsedFile.headers))
+  const [mapping, setMapping] = useState<ColumnMapping>(() =>
+    buildInitialMapping(parsedFile.headers, targetHeaders, validationResult.suggestions, initialProfile)
+  )
+  const [activeProfile, setActiveProfile] = useState(initialProfile?.name || '')
+  const [profileName, setProfileName] = useState(initialProfile?.name || '')
+  const [error, setError] = useState('')
+
+  const duplicateSources = getDuplicateSources(mapping)
+  const unmappedRequired = targetHeaders.filter((target) => requiredHeaders.has(target) && !mapping[target])
+  const mappedSources = new Set(Object.values(mapping).filter(Boolean))
+  const ignoredSources = parsedFile.headers.filter((header) => header && !mappedSources.has(header))
+
+  const getSamples = (source: string): string[] => {
+    const index = parsedFile.headers.indexOf(source)
+    if (index < 0) return []
+    return parsedFile.rows
+      .slice(0, SAMPLE_ROW_COUNT)
+      .map((row) => (row[index] ?? '').trim())
+      .filter(Boolean)
+  }
+
+  const handleProfileChange = (name: string) => {
+    setActiveProfile(name)
+    setProfileName(name)
+    const profile = profiles.find((p) => p.name === name)
+    setMapping(buildInitialMapping(parsedFile.headers, targetHeaders, validationResult.suggestions, profile))
+  }
+
+  const handleSaveProfile = () => {
+    const name = profileName.trim()
+    if (!name) {
+      setError('Enter a lender profile name')
+      return
+    }
+    const profile: MappingProfile = { name, mapping, updatedAt: new Date().toISOString() }
+    setProfiles((prev) => [...prev.filter((p) => p.name !== name), profile])
+    setActiveProfile(name)
+    setError('')
+  }
+
+  const handleDeleteProfile = () => {
+    setProfiles((prev) => prev.filter((p) => p.name !== activeProfile))
+    setActiveProfile('')
+    setProfileName('')
+  }
+
+  const handleApply = () => {
+    if (unmappedRequired.length > 0) {
+      setError(`Map the required columns first: ${unmappedRequired.join(', ')}`)
+      return
+    }
+    if (duplicateSources.length > 0) {
+      setError(`Each source column can only be used once: ${duplicateSources.join(', ')}`)
+      return
+    }
+    setError('')
+    onApply(createMappedFile(fileName, applyMapping(parsedFile, targetHeaders, mapping)))
+  }
+
+  return (
+    <div className="column-mapping">
+      <div className="column-mapping__header">
+        <h3 className="column-mapping__title">Map Columns</h3>
+        <p className="column-mapping__subtitle">
+          {parsedFile.rows.length} rows in {fileName}. Pick the file column that holds each field.
+        </p>
+      </div>
+
+      <div className="column-mapping__profiles">
+        <select
+          className="column-mapping__select"
+          value={activeProfile}
+          onChange={(e) => handleProfileChange(e.target.value)}
+        >
+          <option value="">No lender profile</option>
+          {profiles.map((profile) => (
+            <option key={profile.name} value={profile.name}>
+              {profile.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="text"
+          className="column-mapping__input"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Lender profile name"
+        />
+        <Button variant="secondary" size="sm" onClick={handleSaveProfile}>
+          {profiles.some((p) => p.name === profileName.trim()) ? 'Update Profile' : 'Save Profile'}
+        </Button>
+        {activeProfile && (
+          <Button variant="outline" size="sm" onClick={handleDeleteProfile}>
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {error && <div className="column-mapping__error">{error}</div>}
+
+      <div className="column-mapping__table-wrapper">
+        <table className="column-mapping__table">
+          <thead>
+            <tr>
+              <th>Schema Field</th>
+              <th>File Column</th>
+              <th>Sample Values</th>
+            </tr>
+          </thead>
+          <tbody>
+            {targetHeaders.map((target) => {
+              const source = mapping[target] || ''
+              const isMissing = requiredHeaders.has(target) && !source
+              return (
+                <tr key={target} className={isMissing ? 'column-mapping__row--missing' : ''}>
+                  <td>
+                    <span className="column-mapping__field">{target}</span>
+                    {requiredHeaders.has(target) && <span className="column-mapping__required">Required</span>}
+                  </td>
+                  <td>
+                    <select
+                      className={`column-mapping__select ${duplicateSources.includes(source) ? 'column-mapping__select--duplicate' : ''}`}
+                      value={source}
+                      onChange={(e) => setMapping((prev) => ({ ...prev, [target]: e.target.value }))}
+                    >
+                      <option value="">Not mapped</option>
+                      {parsedFile.headers.map((header) => (
+                        <option key={header} value={header}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="column-mapping__samples">
+                    {source ? getSamples(source).join(', ') || 'No values' : '-'}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {ignoredSources.length > 0 && (
+        <p className="column-mapping__ignored">
+          Not uploaded: {ignoredSources.join(', ')}
+        </p>
+      )}
+
+      <div className="upload-actions">
+        <Button variant="secondary" onClick={onBack}>
+          Back
+        </Button>
+        <Button onClick={handleApply}>Apply Mapping & Preview</Button>
+      </div>
+    </div>
+  )
+}
+
+export default ColumnMappingStep
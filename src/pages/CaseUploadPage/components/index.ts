@@ -0,0 +1,5 @@
+/**
+ * Case Upload Page Components
+ */
+
+export { ColumnMappingStep } from './ColumnMappingStep'
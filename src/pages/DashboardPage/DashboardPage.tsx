@@ -1,141 +1,146 @@
 /**
  * Dashboard Page
- * Main dashboard view for authenticated users with stats and overview
+ * Live, role-aware operations dashboard: agents see their own numbers, managers the portfolio.
+ * Each user arranges their own widgets; admins can push a layout as a role default.
  */
 
-import { useAuth } from '@hooks'
+import { useMemo, useState } from 'react'
+import { useIsFetching, useQueryClient } from '@tanstack/react-query'
+import { useAuth, useLocalStorage, usePermission } from '@hooks'
+import { useRoleDashboardLayouts, useSaveRoleDashboardLayout } from '@services/queries'
+import config from '@config'
+import { PERMISSIONS } from '@config/constants'
+import { cn, getUserStorageKey } from '@utils'
+import { DATE_RANGE_PRESETS, getPresetRange } from './dashboardRange'
+import type { DashboardDateRange, DateRangePreset } from './dashboardRange'
+import { DASHBOARD_REFRESH_MS, DASHBOARD_WIDGETS, getDashboardScope } from './dashboardWidgets'
+import {
+  createLayoutPreset,
+  getStartingLayout,
+  moveLayoutItem,
+  parseLayoutPreset,
+  sanitizeLayout,
+} from './dashboardLayout'
+import type { DashboardLayoutItem, WidgetSize } from './dashboardLayout'
+import { LayoutEditorPanel, WidgetSlot } from './components'
 import './DashboardPage.css'
 
 export function DashboardPage() {
   const { user } = useAuth()
+  const { hasPermission } = usePermission()
+  const queryClient = useQueryClient()
+  const isFetching = useIsFetching() > 0
 
-  const stats = [
-    {
-      title: 'Total Collections',
-      value: '$124,500',
-      change: '+12.5%',
-      trend: 'up',
-      icon: (
-        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-          <path
-            d="M12 2V6M12 18V22M4.93 4.93L7.76 7.76M16.24 16.24L19.07 19.07M2 12H6M18 12H22M4.93 19.07L7.76 16.24M16.24 7.76L19.07 4.93"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          />
-        </svg>
-      ),
-      color: 'blue',
-    },
-    {
-      title: 'Active Customers',
-      value: '1,234',
-      change: '+8.2%',
-      trend: 'up',
-      icon: (
-        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-          <path
-            d="M17 21V19C17 17.9391 16.5786 16.9217 15.8284 16.1716C15.0783 15.4214 14.0609 15 13 15H5C3.93913 15 2.92172 15.4214 2.17157 16.1716C1.42143 16.9217 1 17.9391 1 19V21"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          />
-          <circle cx="9" cy="7" r="4" stroke="currentColor" strokeWidth="2" />
-          <path
-            d="M23 21V19C22.9993 18.1137 22.7044 17.2528 22.1614 16.5523C21.6184 15.8519 20.8581 15.3516 20 15.13"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          />
-          <path
-            d="M16 3.13C16.8604 3.35031 17.623 3.85071 18.1676 4.55232C18.7122 5.25392 19.0078 6.11683 19.0078 7.005C19.0078 7.89318 18.7122 8.75608 18.1676 9.45769C17.623 10.1593 16.8604 10.6597 16 10.88"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          />
-        </svg>
-      ),
-      color: 'green',
-    },
-    {
-      title: 'Pending Cases',
-      value: '87',
-      change: '-3.1%',
-      trend: 'down',
-      icon: (
-        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-          <path
-            d="M14 2H6C5.46957 2 4.96086 2.21071 4.58579 2.58579C4.21071 2.96086 4 3.46957 4 4V20C4 20.5304 4.21071 21.0391 4.58579 21.4142C4.96086 21.7893 5.46957 22 6 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V8L14 2Z"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          />
-          <path d="M14 2V8H20" stroke="currentColor" strokeWidth="2" />
-          <path d="M16 13H8" stroke="currentColor" strokeWidth="2" />
-          <path d="M16 17H8" stroke="currentColor" strokeWidth="2" />
-        </svg>
-      ),
-      color: 'orange',
-    },
-    {
-      title: 'Success Rate',
-      value: '94.5%',
-      change: '+2.3%',
-      trend: 'up',
-      icon: (
-        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-          <polyline
-            points="22 12 18 12 15 21 9 3 6 12 2 12"
-            stroke="currentColor"
-            strokeWidth="2"
-            strokeLinecap="round"
-            strokeLinejoin="round"
-          />
-        </svg>
-      ),
-      color: 'purple',
-    },
-  ]
+  const [range, setRange] = useState<DashboardDateRange>(() => getPresetRange('THIS_MONTH'))
+  const [autoRefresh, setAutoRefresh] = useState(true)
+  const [isEditing, setIsEditing] = useState(false)
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [dropIndex, setDropIndex] = useState<number | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
 
-  const recentActivity = [
-    {
-      id: 1,
-      type: 'payment',
-      customer: 'John Doe',
-      amount: '$2,500',
-      status: 'completed',
-      time: '2 hours ago',
-    },
-    {
-      id: 2,
-      type: 'new_case',
-      customer: 'Jane Smith',
-      amount: '$5,000',
-      status: 'pending',
-      time: '4 hours ago',
-    },
-    {
-      id: 3,
-      type: 'payment',
-      customer: 'Bob Johnson',
-      amount: '$1,200',
-      status: 'completed',
-      time: '6 hours ago',
-    },
-    {
-      id: 4,
-      type: 'overdue',
-      customer: 'Alice Williams',
-      amount: '$3,800',
-      status: 'overdue',
-      time: '1 day ago',
-    },
-  ]
+  // null until the user changes something; until then they get their role default or the built-in layout
+  const [savedLayout, setSavedLayout] = useLocalStorage<DashboardLayoutItem[] | null>(
+    getUserStorageKey(config.storage.dashboardLayoutKey, user?.id),
+    null
+  )
+  // Role defaults live on the server so a layout an admin pushes reaches everyone in the role
+  const { data: roleDefaults = {} } = useRoleDashboardLayouts()
+  const saveRoleDefault = useSaveRoleDashboardLayout()
+
+  const scope = getDashboardScope(hasPermission)
+  const availableWidgets = useMemo(
+    () => DASHBOARD_WIDGETS.filter((widget) => !widget.permission || hasPermission(widget.permission)),
+    [hasPermission]
+  )
+  const layout = savedLayout
+    ? sanitizeLayout(savedLayout, availableWidgets)
+    : getStartingLayout(user, scope, availableWidgets, roleDefaults)
+  const hiddenWidgets = availableWidgets.filter((widget) => !layout.some((item) => item.id === widget.id))
+  const refetchInterval = autoRefresh ? DASHBOARD_REFRESH_MS : false
+
+  const handlePresetChange = (preset: DateRangePreset) => {
+    setRange((prev) => getPresetRange(preset, prev))
+  }
+
+  const handleDateChange = (field: 'startDate' | 'endDate', value: string) => {
+    if (!value) return
+    setRange((prev) => ({ ...prev, preset: 'CUSTOM', [field]: value }))
+  }
+
+  const handleRefresh = () => {
+    queryClient.refetchQueries({ type: 'active' })
+  }
+
+  // ============ Layout ============
+
+  const updateLayout = (next: DashboardLayoutItem[]) => {
+    setSavedLayout(next)
+  }
+
+  const handleAddWidget = (id: string) => {
+    const widget = availableWidgets.find((w) => w.id === id)
+    if (widget) updateLayout([...layout, { id, size: widget.defaultSize }])
+  }
+
+  const handleResizeWidget = (index: number, size: WidgetSize) => {
+    updateLayout(layout.map((item, i) => (i === index ? { ...item, size } : item)))
+  }
+
+  const handleDrop = (toIndex: number) => {
+    if (dragIndex !== null) updateLayout(moveLayoutItem(layout, dragIndex, toIndex))
+    setDragIndex(null)
+    setDropIndex(null)
+  }
+
+  const handleExport = () => {
+    const preset = createLayoutPreset(layout, `${user?.username || 'dashboard'} layout`)
+    const blob = new Blob([JSON.stringify(preset, null, 2)], { type: 'application/json' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = 'dashboard-layout.json'
+    document.body.appendChild(a)
+    a.click()
+    window.URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+  }
+
+  const handleImport = async (file: File) => {
+    try {
+      const preset = parseLayoutPreset(await file.text())
+      const imported = sanitizeLayout(preset.widgets, availableWidgets)
+      updateLayout(imported)
+      const skipped = preset.widgets.length - imported.length
+      setMessage({
+        type: 'success',
+        text: `Imported ${imported.length} widgets${skipped > 0 ? ` (${skipped} not available to you were skipped)` : ''}`,
+      })
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to import preset' })
+    }
+  }
+
+  const handleReset = () => {
+    setSavedLayout(null)
+    setMessage({ type: 'success', text: 'Dashboard reset to the default layout' })
+  }
+
+  const handleSetRoleDefault = async (roleCode: string, roleName: string) => {
+    try {
+      await saveRoleDefault.mutateAsync({ roleCode, preset: createLayoutPreset(layout, `${roleName} default`) })
+      setMessage({ type: 'success', text: `Current layout is now the default for ${roleName}` })
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save role default' })
+    }
+  }
+
+  const handleClearRoleDefault = async (roleCode: string) => {
+    try {
+      await saveRoleDefault.mutateAsync({ roleCode, preset: null })
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to remove role default' })
+    }
+  }
 
   return (
     <div className="dashboard-page">
@@ -144,118 +149,132 @@ export function DashboardPage() {
         <div>
           <h1 className="dashboard-title">Dashboard</h1>
           <p className="dashboard-subtitle">
-            Welcome back, {user?.firstName || 'Admin'}! Here's what's happening today.
+            Welcome back, {user?.firstName || 'Admin'}!{' '}
+            {scope === 'agent' ? "Here's how your cases are going." : "Here's how the portfolio is doing."}
           </p>
         </div>
-        <button className="dashboard-btn">
-          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-            <path
-              d="M21 15V19C21 19.5304 20.7893 21.0391 20.4142 21.4142C20.0391 21.7893 19.5304 22 19 22H5C4.46957 22 3.96086 21.7893 3.58579 21.4142C3.21071 21.0391 3 19.5304 3 19V15"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            />
-            <polyline
-              points="7 10 12 15 17 10"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            />
-            <line
-              x1="12"
-              y1="15"
-              x2="12"
-              y2="3"
-              stroke="currentColor"
-              strokeWidth="2"
-              strokeLinecap="round"
-              strokeLinejoin="round"
-            />
-          </svg>
-          <span>Download Report</span>
-        </button>
+        <div className="dashboard-controls">
+          <select
+            className="dashboard-select"
+            value={range.preset}
+            onChange={(e) => handlePresetChange(e.target.value as DateRangePreset)}
+          >
+            {DATE_RANGE_PRESETS.map((preset) => (
+              <option key={preset.value} value={preset.value}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+          {range.preset === 'CUSTOM' && (
+            <>
+              <input
+                type="date"
+                className="dashboard-date"
+                value={range.startDate}
+                max={range.endDate}
+                onChange={(e) => handleDateChange('startDate', e.target.value)}
+              />
+              <input
+                type="date"
+                className="dashboard-date"
+                value={range.endDate}
+                min={range.startDate}
+                onChange={(e) => handleDateChange('endDate', e.target.value)}
+              />
+            </>
+          )}
+          <label className="dashboard-toggle">
+            <input type="checkbox" checked={autoRefresh} onChange={(e) => setAutoRefresh(e.target.checked)} />
+            Auto-refresh
+          </label>
+          <button className="dashboard-btn" onClick={handleRefresh} disabled={isFetching}>
+            <svg
+              className={cn(isFetching && 'dashboard-btn__icon--spinning')}
+              viewBox="0 0 24 24"
+              fill="none"
+              xmlns="http://www.w3.org/2000/svg"
+            >
+              <path
+                d="M23 4V10H17M1 20V14H7M3.51 9C4.01717 7.56678 4.87913 6.2854 6.01547 5.27542C7.1518 4.26543 8.52547 3.55976 10.0083 3.22426C11.4911 2.88875 13.0348 2.93434 14.4952 3.35677C15.9556 3.77921 17.2853 4.56471 18.36 5.64L23 10M1 14L5.64 18.36C6.71475 19.4353 8.04437 20.2208 9.50481 20.6432C10.9652 21.0657 12.5089 21.1112 13.9917 20.7757C15.4745 20.4402 16.8482 19.7346 17.9845 18.7246C19.1209 17.7146 19.9828 16.4332 20.49 15"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+            <span>Refresh</span>
+          </button>
+          {!isEditing && (
+            <button className="dashboard-btn dashboard-btn--secondary" onClick={() => setIsEditing(true)}>
+              Customize
+            </button>
+          )}
+        </div>
       </div>
 
-      {/* Stats Grid */}
-      <div className="stats-grid">
-        {stats.map((stat) => (
-          <div key={stat.title} className={`stat-card stat-card--${stat.color}`}>
-            <div className="stat-card__header">
-              <div className="stat-card__icon">{stat.icon}</div>
-              <div className={`stat-card__trend stat-card__trend--${stat.trend}`}>
-                {stat.change}
-              </div>
-            </div>
-            <div className="stat-card__body">
-              <div className="stat-card__value">{stat.value}</div>
-              <div className="stat-card__title">{stat.title}</div>
-            </div>
-          </div>
-        ))}
-      </div>
+      {message && (
+        <div className={`dashboard-alert dashboard-alert--${message.type}`}>
+          <span>{message.text}</span>
+          <button onClick={() => setMessage(null)}>Dismiss</button>
+        </div>
+      )}
+
+      {isEditing && (
+        <LayoutEditorPanel
+          hiddenWidgets={hiddenWidgets}
+          canManageRoleDefaults={hasPermission(PERMISSIONS.USER_UPDATE)}
+          roleDefaults={roleDefaults}
+          isSavingRoleDefault={saveRoleDefault.isPending}
+          onAdd={handleAddWidget}
+          onExport={handleExport}
+          onImport={handleImport}
+          onReset={handleReset}
+          onSetRoleDefault={handleSetRoleDefault}
+          onClearRoleDefault={handleClearRoleDefault}
+          onDone={() => setIsEditing(false)}
+        />
+      )}
 
-      {/* Recent Activity */}
-      <div className="dashboard-card dashboard-card--full">
-        <div className="dashboard-card__header">
-          <h2 className="dashboard-card__title">Recent Activity</h2>
-          <a href="/activity" className="dashboard-card__link">
-            View all
-          </a>
+      {/* Widgets */}
+      {layout.length === 0 ? (
+        <div className="dashboard-card dashboard-empty">
+          {availableWidgets.length === 0
+            ? "You don't have access to any dashboard widgets yet. Ask an administrator for permissions."
+            : 'Your dashboard is empty. Use Customize to add widgets.'}
         </div>
-        <div className="dashboard-card__content">
-          <div className="activity-list">
-            {recentActivity.map((activity) => (
-              <div key={activity.id} className="activity-item">
-                <div className={`activity-icon activity-icon--${activity.type}`}>
-                  {activity.type === 'payment' && (
-                    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path
-                        d="M20 6L9 17L4 12"
-                        stroke="currentColor"
-                        strokeWidth="2"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      />
-                    </svg>
-                  )}
-                  {activity.type === 'new_case' && (
-                    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <path
-                        d="M12 5V19M5 12H19"
-                        stroke="currentColor"
-                        strokeWidth="2"
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      />
-                    </svg>
-                  )}
-                  {activity.type === 'overdue' && (
-                    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                      <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2" />
-                      <path
-                        d="M12 8V12M12 16H12.01"
-                        stroke="currentColor"
-                        strokeWidth="2"
-                        strokeLinecap="round"
-                      />
-                    </svg>
-                  )}
-                </div>
-                <div className="activity-details">
-                  <div className="activity-customer">{activity.customer}</div>
-                  <div className="activity-time">{activity.time}</div>
-                </div>
-                <div className="activity-amount">{activity.amount}</div>
-                <div className={`activity-status activity-status--${activity.status}`}>
-                  {activity.status}
-                </div>
-              </div>
-            ))}
-          </div>
+      ) : (
+        <div className="dashboard-widgets">
+          {layout.map((item, index) => {
+            const widget = availableWidgets.find((w) => w.id === item.id)
+            if (!widget) return null
+            const Widget = widget.component
+            return (
+              <WidgetSlot
+                key={item.id}
+                title={widget.title}
+                size={item.size}
+                index={index}
+                total={layout.length}
+                isEditing={isEditing}
+                isDragging={dragIndex === index}
+                isDropTarget={dropIndex === index && dragIndex !== index}
+                onResize={(size) => handleResizeWidget(index, size)}
+                onMove={(toIndex) => updateLayout(moveLayoutItem(layout, index, toIndex))}
+                onRemove={() => updateLayout(layout.filter((_, i) => i !== index))}
+                onDragStart={() => setDragIndex(index)}
+                onDragEnter={() => setDropIndex(index)}
+                onDragEnd={() => {
+                  setDragIndex(null)
+                  setDropIndex(null)
+                }}
+                onDrop={() => handleDrop(index)}
+              >
+                <Widget range={range} scope={scope} userId={user?.id} refetchInterval={refetchInterval} />
+              </WidgetSlot>
+            )
+          })}
         </div>
-      </div>
+      )}
     </div>
   )
 }
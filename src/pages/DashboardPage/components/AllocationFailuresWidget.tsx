@@ -0,0 +1,55 @@
+/**
+ * Allocation Failures Widget
+ * Failure rate in the selected range and the most common reasons
+ */
+
+import { useFailureSummary, useTopFailureReasons } from '@services/queries'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatCount, formatPercent, formatRangeLabel } from '../dashboardMetrics'
+import { DashboardWidget, WidgetStat } from './DashboardWidget'
+import { MiniBarChart } from './MiniBarChart'
+
+const TOP_REASON_COUNT = 5
+const FAILURE_ANALYSIS_PATH = '/allocation/failure-analysis'
+
+export function AllocationFailuresWidget({ range, refetchInterval }: DashboardWidgetProps) {
+  const summary = useFailureSummary(range.startDate, range.endDate, refetchInterval)
+  const reasons = useTopFailureReasons(TOP_REASON_COUNT, refetchInterval)
+
+  const bars = (reasons.data || []).map((reason) => ({
+    label: reason.reason,
+    value: reason.count,
+    display: formatCount(reason.count),
+    tone: 'danger' as const,
+  }))
+
+  return (
+    <DashboardWidget
+      title="Allocation Failures"
+      subtitle={formatRangeLabel(range.startDate, range.endDate)}
+      to={FAILURE_ANALYSIS_PATH}
+      linkLabel="Analyze"
+      isLoading={summary.isLoading || reasons.isLoading}
+      error={summary.error || reasons.error}
+    >
+      <div className="dashboard-widget__stats">
+        <WidgetStat
+          label="Failure rate"
+          value={formatPercent(summary.data?.overallFailureRate)}
+          tone={(summary.data?.overallFailureRate || 0) > 5 ? 'danger' : 'success'}
+        />
+        <WidgetStat
+          label={`Failed of ${formatCount(summary.data?.totalRecords)}`}
+          value={formatCount(summary.data?.totalFailures)}
+          tone="danger"
+          to={FAILURE_ANALYSIS_PATH}
+        />
+      </div>
+      <div className="dashboard-widget__section">
+        <MiniBarChart bars={bars} emptyText="No failures recorded" />
+      </div>
+    </DashboardWidget>
+  )
+}
+
+export default AllocationFailuresWidget
@@ -0,0 +1,34 @@
+/**
+ * Allocation Widget
+ * Allocation outcomes across the portfolio
+ */
+
+import { useAllocationSummary } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatCount } from '../dashboardMetrics'
+import { DashboardWidget, WidgetStat } from './DashboardWidget'
+
+export function AllocationWidget({ refetchInterval }: DashboardWidgetProps) {
+  const { data, isLoading, error } = useAllocationSummary(refetchInterval)
+
+  return (
+    <DashboardWidget title="Allocation" to={ROUTES.ALLOCATION} isLoading={isLoading} error={error}>
+      {data && (
+        <div className="dashboard-widget__stats">
+          <WidgetStat label="Total allocations" value={formatCount(data.totalAllocations)} to={ROUTES.ALLOCATED_CASES} />
+          <WidgetStat label="Successful" value={formatCount(data.successfulAllocations)} tone="success" />
+          <WidgetStat label="Pending" value={formatCount(data.pendingAllocations)} tone="warning" to={ROUTES.ALLOCATION_BATCHES} />
+          <WidgetStat
+            label="Failed"
+            value={formatCount(data.failedAllocations)}
+            tone="danger"
+            to="/allocation/failure-analysis"
+          />
+        </div>
+      )}
+    </DashboardWidget>
+  )
+}
+
+export default AllocationWidget
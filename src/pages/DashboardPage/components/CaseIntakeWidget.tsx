@@ -0,0 +1,44 @@
+/**
+ * Case Intake Widget
+ * Cases received and validated in the selected range, plus the current unallocated backlog
+ */
+
+import { useCaseSourcingSummary, useIntakeReport } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatCount, formatPercent, formatRangeLabel } from '../dashboardMetrics'
+import { DashboardWidget, WidgetStat } from './DashboardWidget'
+
+export function CaseIntakeWidget({ range, refetchInterval }: DashboardWidgetProps) {
+  const report = useIntakeReport({ startDate: range.startDate, endDate: range.endDate }, refetchInterval)
+  const summary = useCaseSourcingSummary(refetchInterval)
+
+  return (
+    <DashboardWidget
+      title="Case Intake"
+      subtitle={formatRangeLabel(range.startDate, range.endDate)}
+      to={ROUTES.CASE_SOURCING_REPORTS}
+      linkLabel="Reports"
+      isLoading={report.isLoading || summary.isLoading}
+      error={report.error || summary.error}
+    >
+      <div className="dashboard-widget__stats">
+        <WidgetStat label="Received" value={formatCount(report.data?.totalReceived)} to={ROUTES.CASE_SOURCING_BATCHES} />
+        <WidgetStat
+          label={`Validated (${formatPercent(report.data?.successRate)})`}
+          value={formatCount(report.data?.totalValidated)}
+          tone="success"
+        />
+        <WidgetStat label="Failed validation" value={formatCount(report.data?.totalFailed)} tone="danger" />
+        <WidgetStat
+          label="Unallocated now"
+          value={formatCount(summary.data?.unallocated)}
+          tone="warning"
+          to={ROUTES.CASE_SOURCING_UNALLOCATED}
+        />
+      </div>
+    </DashboardWidget>
+  )
+}
+
+export default CaseIntakeWidget
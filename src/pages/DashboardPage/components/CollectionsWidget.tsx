@@ -0,0 +1,62 @@
+/**
+ * Collections Widget
+ * Repayments captured in the selected range; agents only see what they collected
+ */
+
+import { useRepaymentSummary } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import type { RepaymentStatus } from '@types'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatAmount, formatCount, formatRangeLabel } from '../dashboardMetrics'
+import { DashboardWidget, WidgetStat } from './DashboardWidget'
+
+export function CollectionsWidget({ range, scope, userId, refetchInterval }: DashboardWidgetProps) {
+  const { data, isLoading, error } = useRepaymentSummary(
+    {
+      fromDate: range.startDate,
+      toDate: range.endDate,
+      collectedBy: scope === 'agent' ? userId : undefined,
+    },
+    refetchInterval
+  )
+
+  const listUrl = (status?: RepaymentStatus) => {
+    const params = new URLSearchParams({ fromDate: range.startDate, toDate: range.endDate })
+    if (status) params.set('status', status)
+    return `${ROUTES.REPAYMENT_LIST}?${params.toString()}`
+  }
+
+  return (
+    <DashboardWidget
+      title={scope === 'agent' ? 'My Collections' : 'Collections'}
+      subtitle={formatRangeLabel(range.startDate, range.endDate)}
+      to={listUrl()}
+      isLoading={isLoading}
+      error={error}
+    >
+      <div className="dashboard-widget__stats">
+        <WidgetStat
+          label="Collected (approved)"
+          value={formatAmount(data?.approvedAmount)}
+          tone="success"
+          to={listUrl('APPROVED')}
+        />
+        <WidgetStat label="Repayments" value={formatCount(data?.totalCount)} to={listUrl()} />
+        <WidgetStat
+          label="Pending approval"
+          value={formatCount(data?.pendingCount)}
+          tone="warning"
+          to={listUrl('PENDING')}
+        />
+        <WidgetStat
+          label="Rejected"
+          value={formatCount(data?.rejectedCount)}
+          tone="danger"
+          to={listUrl('REJECTED')}
+        />
+      </div>
+    </DashboardWidget>
+  )
+}
+
+export default CollectionsWidget
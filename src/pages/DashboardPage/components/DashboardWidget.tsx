@@ -0,0 +1,85 @@
+/**
+ * Dashboard Widget
+ * Card shell shared by the dashboard widgets: title, drill-down link, loading and error states
+ */
+
+import type { ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { cn } from '@utils'
+import './DashboardWidget.css'
+
+interface DashboardWidgetProps {
+  title: string
+  subtitle?: string
+  to?: string
+  linkLabel?: string
+  isLoading?: boolean
+  error?: Error | null
+  children: ReactNode
+}
+
+export function DashboardWidget({
+  title,
+  subtitle,
+  to,
+  linkLabel = 'View all',
+  isLoading = false,
+  error,
+  children,
+}: DashboardWidgetProps) {
+  return (
+    <div className="dashboard-card dashboard-widget">
+      <div className="dashboard-card__header">
+        <div>
+          <h2 className="dashboard-card__title">{title}</h2>
+          {subtitle && <p className="dashboard-widget__subtitle">{subtitle}</p>}
+        </div>
+        {to && (
+          <Link to={to} className="dashboard-card__link">
+            {linkLabel}
+          </Link>
+        )}
+      </div>
+      <div className="dashboard-widget__body">
+        {isLoading ? (
+          <div className="dashboard-widget__state">
+            <div className="dashboard-widget__spinner"></div>
+          </div>
+        ) : error ? (
+          <div className="dashboard-widget__state dashboard-widget__state--error">{error.message}</div>
+        ) : (
+          children
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface WidgetStatProps {
+  label: string
+  value: string
+  tone?: 'default' | 'success' | 'warning' | 'danger'
+  to?: string
+}
+
+/**
+ * One figure in a widget; linked figures drill down into the owning page
+ */
+export function WidgetStat({ label, value, tone = 'default', to }: WidgetStatProps) {
+  const content = (
+    <>
+      <span className={cn('widget-stat__value', `widget-stat__value--${tone}`)}>{value}</span>
+      <span className="widget-stat__label">{label}</span>
+    </>
+  )
+
+  return to ? (
+    <Link to={to} className="widget-stat widget-stat--link">
+      {content}
+    </Link>
+  ) : (
+    <div className="widget-stat">{content}</div>
+  )
+}
+
+export default DashboardWidget
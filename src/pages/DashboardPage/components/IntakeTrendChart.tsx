@@ -0,0 +1,37 @@
+/**
+ * Intake Trend Chart
+ * Cases received per day in the selected range
+ */
+
+import { format, parseISO } from 'date-fns'
+import { useIntakeReport } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatCount, formatRangeLabel } from '../dashboardMetrics'
+import { DashboardWidget } from './DashboardWidget'
+import { MiniBarChart } from './MiniBarChart'
+
+export function IntakeTrendChart({ range, refetchInterval }: DashboardWidgetProps) {
+  const { data, isLoading, error } = useIntakeReport({ startDate: range.startDate, endDate: range.endDate }, refetchInterval)
+
+  const bars = (data?.dailyBreakdown || []).map((day) => ({
+    label: format(parseISO(day.date), 'dd MMM'),
+    value: day.totalReceived,
+    display: `${formatCount(day.totalReceived)} received, ${formatCount(day.failed)} failed`,
+  }))
+
+  return (
+    <DashboardWidget
+      title="Intake Trend"
+      subtitle={formatRangeLabel(range.startDate, range.endDate)}
+      to={ROUTES.CASE_SOURCING_REPORTS}
+      linkLabel="Reports"
+      isLoading={isLoading}
+      error={error}
+    >
+      <MiniBarChart bars={bars} variant="columns" />
+    </DashboardWidget>
+  )
+}
+
+export default IntakeTrendChart
@@ -0,0 +1,180 @@
+/**
+ * Layout Editor Panel
+ * Add hidden widgets, export/import layout presets and, for admins, push the layout as a role default
+ */
+
+import { useRef, useState } from 'react'
+import { useRoles } from '@services/queries'
+import type { DashboardWidgetDefinition } from '../dashboardWidgets'
+import type { RoleLayoutDefaults } from '../dashboardLayout'
+import './LayoutEditorPanel.css'
+
+interface LayoutEditorPanelProps {
+  hiddenWidgets: DashboardWidgetDefinition[]
+  canManageRoleDefaults: boolean
+  roleDefaults: RoleLayoutDefaults
+  isSavingRoleDefault: boolean
+  onAdd: (id: string) => void
+  onExport: () => void
+  onImport: (file: File) => void
+  onReset: () => void
+  onSetRoleDefault: (roleCode: string, roleName: string) => void
+  onClearRoleDefault: (roleCode: string) => void
+  onDone: () => void
+}
+
+export function LayoutEditorPanel({
+  hiddenWidgets,
+  canManageRoleDefaults,
+  roleDefaults,
+  isSavingRoleDefault,
+  onAdd,
+  onExport,
+  onImport,
+  onReset,
+  onSetRoleDefault,
+  onClearRoleDefault,
+  onDone,
+}: LayoutEditorPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (file) onImport(file)
+    e.target.value = ''
+  }
+
+  return (
+    <div className="layout-editor">
+      <div className="layout-editor__header">
+        <div>
+          <h2 className="layout-editor__title">Customize Dashboard</h2>
+          <p className="layout-editor__hint">Drag widgets to reorder them, or use the controls on each widget.</p>
+        </div>
+        <div className="layout-editor__actions">
+          <button className="layout-editor__btn" onClick={onExport}>
+            Export Preset
+          </button>
+          <button className="layout-editor__btn" onClick={() => fileInputRef.current?.click()}>
+            Import Preset
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="layout-editor__file-input"
+            onChange={handleFileChange}
+          />
+          <button className="layout-editor__btn" onClick={onReset}>
+            Reset to Default
+          </button>
+          <button className="layout-editor__btn layout-editor__btn--primary" onClick={onDone}>
+            Done
+          </button>
+        </div>
+      </div>
+
+      <div className="layout-editor__section">
+        <h3 className="layout-editor__section-title">Add Widgets</h3>
+        {hiddenWidgets.length === 0 ? (
+          <p className="layout-editor__empty">Every available widget is already on your dashboard.</p>
+        ) : (
+          <div className="layout-editor__widgets">
+            {hiddenWidgets.map((widget) => (
+              <button key={widget.id} className="layout-editor__widget" onClick={() => onAdd(widget.id)}>
+                <span className="layout-editor__widget-title">
+                  + {widget.title}
+                  {widget.kind === 'chart' && <span className="layout-editor__badge">Chart</span>}
+                </span>
+                <span className="layout-editor__widget-desc">{widget.description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {canManageRoleDefaults && (
+        <RoleDefaultsSection
+          roleDefaults={roleDefaults}
+          isSaving={isSavingRoleDefault}
+          onSetRoleDefault={onSetRoleDefault}
+          onClearRoleDefault={onClearRoleDefault}
+        />
+      )}
+    </div>
+  )
+}
+
+interface RoleDefaultsSectionProps {
+  roleDefaults: RoleLayoutDefaults
+  isSaving: boolean
+  onSetRoleDefault: (roleCode: string, roleName: string) => void
+  onClearRoleDefault: (roleCode: string) => void
+}
+
+/**
+ * Admin-only: make the current layout the starting layout for everyone in a role
+ */
+function RoleDefaultsSection({
+  roleDefaults,
+  isSaving,
+  onSetRoleDefault,
+  onClearRoleDefault,
+}: RoleDefaultsSectionProps) {
+  const { data: roles = [], isLoading } = useRoles()
+  const [roleCode, setRoleCode] = useState('')
+
+  const selectedRole = roles.find((role) => (role.code || role.name) === roleCode)
+  const pushedRoles = Object.keys(roleDefaults)
+
+  return (
+    <div className="layout-editor__section">
+      <h3 className="layout-editor__section-title">Role Defaults</h3>
+      <p className="layout-editor__hint">
+        Users in the role start from this layout until they customize their own.
+      </p>
+      <div className="layout-editor__role-row">
+        <select
+          className="layout-editor__select"
+          value={roleCode}
+          onChange={(e) => setRoleCode(e.target.value)}
+          disabled={isLoading}
+        >
+          <option value="">{isLoading ? 'Loading roles...' : 'Select a role'}</option>
+          {roles.map((role) => (
+            <option key={role.id} value={role.code || role.name}>
+              {role.displayName || role.name}
+            </option>
+          ))}
+        </select>
+        <button
+          className="layout-editor__btn layout-editor__btn--primary"
+          disabled={!selectedRole || isSaving}
+          onClick={() => selectedRole && onSetRoleDefault(roleCode, selectedRole.displayName || selectedRole.name)}
+        >
+          Set Current Layout as Default
+        </button>
+      </div>
+      {pushedRoles.length > 0 && (
+        <ul className="layout-editor__role-list">
+          {pushedRoles.map((code) => (
+            <li key={code}>
+              <span>
+                {code}: {roleDefaults[code].widgets.length} widgets
+              </span>
+              <button
+                className="layout-editor__link"
+                onClick={() => onClearRoleDefault(code)}
+                disabled={isSaving}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default LayoutEditorPanel
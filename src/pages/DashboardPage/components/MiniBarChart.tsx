@@ -0,0 +1,62 @@
+/**
+ * Mini Bar Chart
+ * Dependency-free bar chart for dashboard widgets: horizontal bars or vertical columns
+ */
+
+import { cn } from '@utils'
+import './MiniBarChart.css'
+
+export interface ChartBar {
+  label: string
+  value: number
+  display?: string
+  tone?: 'default' | 'danger'
+}
+
+interface MiniBarChartProps {
+  bars: ChartBar[]
+  variant?: 'bars' | 'columns'
+  emptyText?: string
+}
+
+export function MiniBarChart({ bars, variant = 'bars', emptyText = 'No data for this range' }: MiniBarChartProps) {
+  if (bars.length === 0) {
+    return <div className="mini-chart__empty">{emptyText}</div>
+  }
+
+  const max = Math.max(...bars.map((bar) => bar.value), 1)
+
+  if (variant === 'columns') {
+    return (
+      <div className="mini-chart mini-chart--columns">
+        {bars.map((bar) => (
+          <div key={bar.label} className="mini-chart__column" title={`${bar.label}: ${bar.display ?? bar.value}`}>
+            <div
+              className={cn('mini-chart__fill', bar.tone === 'danger' && 'mini-chart__fill--danger')}
+              style={{ height: `${(bar.value / max) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <div className="mini-chart mini-chart--bars">
+      {bars.map((bar) => (
+        <div key={bar.label} className="mini-chart__row">
+          <span className="mini-chart__label">{bar.label}</span>
+          <div className="mini-chart__track">
+            <div
+              className={cn('mini-chart__fill', bar.tone === 'danger' && 'mini-chart__fill--danger')}
+              style={{ width: `${(bar.value / max) * 100}%` }}
+            />
+          </div>
+          <span className="mini-chart__value">{bar.display ?? bar.value}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default MiniBarChart
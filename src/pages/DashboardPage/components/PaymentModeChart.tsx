@@ -0,0 +1,27 @@
+/**
+ * Payment Mode Chart
+ * This month's collections split by payment mode
+ */
+
+import { useRepaymentDashboard } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatAmount } from '../dashboardMetrics'
+import { DashboardWidget } from './DashboardWidget'
+import { MiniBarChart } from './MiniBarChart'
+
+export function PaymentModeChart({ refetchInterval }: DashboardWidgetProps) {
+  const { data, isLoading, error } = useRepaymentDashboard(refetchInterval)
+
+  const bars = Object.entries(data?.paymentModeAmount || {})
+    .sort(([, a], [, b]) => b - a)
+    .map(([mode, amount]) => ({ label: mode.replace(/_/g, ' '), value: amount, display: formatAmount(amount) }))
+
+  return (
+    <DashboardWidget title="Payment Modes" subtitle="This month" to={ROUTES.REPAYMENT_LIST} isLoading={isLoading} error={error}>
+      <MiniBarChart bars={bars} emptyText="No collections this month" />
+    </DashboardWidget>
+  )
+}
+
+export default PaymentModeChart
@@ -0,0 +1,62 @@
+/**
+ * Repayment Today Widget
+ * Today's and this month's collections against target, with approval and reconciliation backlogs
+ */
+
+import { useRepaymentDashboard } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatAmount, formatCount, formatPercent } from '../dashboardMetrics'
+import { DashboardWidget, WidgetStat } from './DashboardWidget'
+
+export function RepaymentTodayWidget({ refetchInterval }: DashboardWidgetProps) {
+  const { data, isLoading, error } = useRepaymentDashboard(refetchInterval)
+  const achievement = data?.monthAchievementPercentage || 0
+
+  return (
+    <DashboardWidget
+      title="Repayments"
+      subtitle="Today and this month"
+      to={ROUTES.REPAYMENT}
+      isLoading={isLoading}
+      error={error}
+    >
+      {data && (
+        <>
+          <div className="dashboard-widget__stats">
+            <WidgetStat
+              label={`Today (${formatCount(data.todayTotalCount)})`}
+              value={formatAmount(data.todayTotalAmount)}
+              tone="success"
+            />
+            <WidgetStat label={`This month (${formatCount(data.monthTotalCount)})`} value={formatAmount(data.monthTotalAmount)} />
+            <WidgetStat
+              label="Pending approval"
+              value={formatCount(data.pendingApprovalCount)}
+              tone="warning"
+              to={ROUTES.REPAYMENT_APPROVALS}
+            />
+            <WidgetStat
+              label="Pending reconciliation"
+              value={formatCount(data.pendingReconciliationCount)}
+              to={ROUTES.REPAYMENT_RECONCILIATION}
+            />
+          </div>
+          {!!data.monthTargetAmount && (
+            <div className="dashboard-widget__progress">
+              <div className="dashboard-widget__progress-label">
+                <span>Target {formatAmount(data.monthTargetAmount)}</span>
+                <span>{formatPercent(achievement)}</span>
+              </div>
+              <div className="dashboard-widget__progress-bar">
+                <div className="dashboard-widget__progress-fill" style={{ width: `${Math.min(achievement, 100)}%` }} />
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </DashboardWidget>
+  )
+}
+
+export default RepaymentTodayWidget
@@ -0,0 +1,40 @@
+/**
+ * SLA Widget
+ * Deposit SLA compliance for repayments still awaiting approval
+ */
+
+import { useSlaDashboard } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatCount, formatPercent } from '../dashboardMetrics'
+import { DashboardWidget, WidgetStat } from './DashboardWidget'
+
+export function SlaWidget({ refetchInterval }: DashboardWidgetProps) {
+  const { data, isLoading, error } = useSlaDashboard(refetchInterval)
+
+  return (
+    <DashboardWidget title="Deposit SLA" to={ROUTES.REPAYMENT_APPROVALS} isLoading={isLoading} error={error}>
+      {data && (
+        <>
+          <div className="dashboard-widget__stats">
+            <WidgetStat
+              label="Compliance"
+              value={formatPercent(data.slaCompliancePercentage)}
+              tone={data.slaCompliancePercentage >= 90 ? 'success' : 'warning'}
+            />
+            <WidgetStat label="Within SLA" value={formatCount(data.withinSla)} />
+            <WidgetStat label="Breached" value={formatCount(data.breached)} tone="warning" to={ROUTES.REPAYMENT_APPROVALS} />
+            <WidgetStat label="Critical" value={formatCount(data.criticalBreaches)} tone="danger" to={ROUTES.REPAYMENT_APPROVALS} />
+          </div>
+          {data.averageProcessingTime !== undefined && (
+            <p className="dashboard-widget__note">
+              Average processing time {data.averageProcessingTime.toFixed(1)} hours across {formatCount(data.totalPending)} pending
+            </p>
+          )}
+        </>
+      )}
+    </DashboardWidget>
+  )
+}
+
+export default SlaWidget
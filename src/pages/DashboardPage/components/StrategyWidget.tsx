@@ -0,0 +1,44 @@
+/**
+ * Strategy Widget
+ * Strategy engine activity and the next scheduled run
+ */
+
+import { useStrategyDashboard } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import { formatRelativeTime } from '@utils'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatCount, formatPercent } from '../dashboardMetrics'
+import { DashboardWidget, WidgetStat } from './DashboardWidget'
+
+export function StrategyWidget({ refetchInterval }: DashboardWidgetProps) {
+  const { data, isLoading, error } = useStrategyDashboard(refetchInterval)
+
+  const nextRun = data?.strategies
+    .filter((s) => s.status === 'ACTIVE' && s.nextRun)
+    .map((s) => s.nextRun as string)
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime())[0]
+
+  return (
+    <DashboardWidget title="Strategy Engine" to={ROUTES.STRATEGY_ENGINE} isLoading={isLoading} error={error}>
+      {data && (
+        <>
+          <div className="dashboard-widget__stats">
+            <WidgetStat label="Active strategies" value={formatCount(data.summary.activeStrategies)} to={ROUTES.STRATEGY_ENGINE} />
+            <WidgetStat label="Executions" value={formatCount(data.summary.totalExecutions)} to={ROUTES.STRATEGY_ENGINE_LOGS} />
+            <WidgetStat
+              label="Success rate"
+              value={formatPercent(data.summary.overallSuccessRate)}
+              tone={data.summary.overallSuccessRate >= 90 ? 'success' : 'warning'}
+            />
+            <WidgetStat label="Schedulers on" value={formatCount(data.summary.enabledSchedulers)} />
+          </div>
+          <p className="dashboard-widget__note">
+            {nextRun ? `Next scheduled run ${formatRelativeTime(nextRun)}` : 'No scheduled runs'}
+          </p>
+        </>
+      )}
+    </DashboardWidget>
+  )
+}
+
+export default StrategyWidget
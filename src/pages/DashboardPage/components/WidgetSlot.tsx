@@ -0,0 +1,102 @@
+/**
+ * Widget Slot
+ * Grid cell holding one dashboard widget; in edit mode it can be dragged, resized, moved and removed
+ */
+
+import type { DragEvent, ReactNode } from 'react'
+import { cn } from '@utils'
+import { WIDGET_SIZES, type WidgetSize } from '../dashboardLayout'
+import './WidgetSlot.css'
+
+interface WidgetSlotProps {
+  title: string
+  size: WidgetSize
+  index: number
+  total: number
+  isEditing: boolean
+  isDragging: boolean
+  isDropTarget: boolean
+  onResize: (size: WidgetSize) => void
+  onMove: (toIndex: number) => void
+  onRemove: () => void
+  onDragStart: () => void
+  onDragEnter: () => void
+  onDragEnd: () => void
+  onDrop: () => void
+  children: ReactNode
+}
+
+export function WidgetSlot({
+  title,
+  size,
+  index,
+  total,
+  isEditing,
+  isDragging,
+  isDropTarget,
+  onResize,
+  onMove,
+  onRemove,
+  onDragStart,
+  onDragEnter,
+  onDragEnd,
+  onDrop,
+  children,
+}: WidgetSlotProps) {
+  const handleDragOver = (e: DragEvent) => {
+    if (!isEditing) return
+    e.preventDefault()
+  }
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault()
+    onDrop()
+  }
+
+  return (
+    <div
+      className={cn(
+        'widget-slot',
+        `widget-slot--${size}`,
+        isEditing && 'widget-slot--editing',
+        isDragging && 'widget-slot--dragging',
+        isDropTarget && 'widget-slot--drop-target'
+      )}
+      draggable={isEditing}
+      onDragStart={onDragStart}
+      onDragEnter={onDragEnter}
+      onDragOver={handleDragOver}
+      onDragEnd={onDragEnd}
+      onDrop={handleDrop}
+    >
+      {isEditing && (
+        <div className="widget-slot__toolbar">
+          <span className="widget-slot__handle" title="Drag to reorder">
+            ⠿ {title}
+          </span>
+          <div className="widget-slot__controls">
+            <button onClick={() => onMove(index - 1)} disabled={index === 0} title="Move earlier">
+              ←
+            </button>
+            <button onClick={() => onMove(index + 1)} disabled={index === total - 1} title="Move later">
+              →
+            </button>
+            <select value={size} onChange={(e) => onResize(e.target.value as WidgetSize)} title="Widget size">
+              {WIDGET_SIZES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button className="widget-slot__remove" onClick={onRemove} title="Remove widget">
+              ×
+            </button>
+          </div>
+        </div>
+      )}
+      <div className="widget-slot__content">{children}</div>
+    </div>
+  )
+}
+
+export default WidgetSlot
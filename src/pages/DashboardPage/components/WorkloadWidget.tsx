@@ -0,0 +1,52 @@
+/**
+ * Workload Widget
+ * The signed-in agent's active cases against their capacity
+ */
+
+import { useAgentWorkload } from '@services/queries'
+import { ROUTES } from '@config/constants'
+import { cn } from '@utils'
+import type { DashboardWidgetProps } from '../dashboardWidgets'
+import { formatCount, formatPercent } from '../dashboardMetrics'
+import { DashboardWidget, WidgetStat } from './DashboardWidget'
+
+export function WorkloadWidget({ userId, refetchInterval }: DashboardWidgetProps) {
+  const { data, isLoading, error } = useAgentWorkload(userId ? [userId] : [], refetchInterval)
+  const workload = data?.find((w) => w.agentId === userId) || data?.[0]
+  const utilization = workload?.utilizationPercentage || 0
+
+  return (
+    <DashboardWidget title="My Workload" to={ROUTES.WORKFLOW} linkLabel="Open work queue" isLoading={isLoading} error={error}>
+      {workload ? (
+        <>
+          <div className="dashboard-widget__stats">
+            <WidgetStat label="Active cases" value={formatCount(workload.activeAllocations)} to={ROUTES.WORKFLOW} />
+            <WidgetStat label="Total allocated" value={formatCount(workload.totalAllocated)} />
+            <WidgetStat label="Capacity" value={formatCount(workload.capacity)} />
+            <WidgetStat
+              label="Available"
+              value={formatCount(workload.availableCapacity)}
+              tone={workload.availableCapacity > 0 ? 'success' : 'danger'}
+            />
+          </div>
+          <div className="dashboard-widget__progress">
+            <div className="dashboard-widget__progress-label">
+              <span>Utilization</span>
+              <span>{formatPercent(utilization)}</span>
+            </div>
+            <div className="dashboard-widget__progress-bar">
+              <div
+                className={cn('dashboard-widget__progress-fill', utilization > 100 && 'dashboard-widget__progress-fill--danger')}
+                style={{ width: `${Math.min(utilization, 100)}%` }}
+              />
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="dashboard-widget__state">No cases allocated to you</div>
+      )}
+    </DashboardWidget>
+  )
+}
+
+export default WorkloadWidget
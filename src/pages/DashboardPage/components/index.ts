@@ -0,0 +1,18 @@
+/**
+ * Dashboard Page Components
+ */
+
+export { DashboardWidget, WidgetStat } from './DashboardWidget'
+export { CollectionsWidget } from './CollectionsWidget'
+export { WorkloadWidget } from './WorkloadWidget'
+export { RepaymentTodayWidget } from './RepaymentTodayWidget'
+export { SlaWidget } from './SlaWidget'
+export { AllocationWidget } from './AllocationWidget'
+export { CaseIntakeWidget } from './CaseIntakeWidget'
+export { StrategyWidget } from './StrategyWidget'
+export { AllocationFailuresWidget } from './AllocationFailuresWidget'
+export { PaymentModeChart } from './PaymentModeChart'
+export { IntakeTrendChart } from './IntakeTrendChart'
+export { MiniBarChart } from './MiniBarChart'
+export { WidgetSlot } from './WidgetSlot'
+export { LayoutEditorPanel } from './LayoutEditorPanel'
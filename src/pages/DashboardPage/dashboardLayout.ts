@@ -0,0 +1,116 @@
+/**
+ * Dashboard Layout
+ * Per-user widget layouts, JSON presets and role defaults pushed by admins
+ */
+
+import type { DashboardLayoutItem, DashboardLayoutPreset, RoleLayoutDefaults, User, WidgetSize } from '@types'
+import type { DashboardScope, DashboardWidgetDefinition } from './dashboardWidgets'
+
+export type { DashboardLayoutItem, DashboardLayoutPreset, RoleLayoutDefaults, WidgetSize }
+
+export const WIDGET_SIZES: { value: WidgetSize; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+]
+
+export const DASHBOARD_LAYOUT_VERSION = 1
+
+/**
+ * Built-in layout for a scope, limited to the widgets the user may see
+ */
+export const getDefaultLayout = (
+  scope: DashboardScope,
+  available: DashboardWidgetDefinition[]
+): DashboardLayoutItem[] => {
+  return available
+    .filter((widget) => widget.defaultScopes.includes(scope))
+    .map((widget) => ({ id: widget.id, size: widget.defaultSize }))
+}
+
+/**
+ * Drop unknown or forbidden widgets, duplicates and invalid sizes
+ */
+export const sanitizeLayout = (
+  items: DashboardLayoutItem[],
+  available: DashboardWidgetDefinition[]
+): DashboardLayoutItem[] => {
+  const seen = new Set<string>()
+  const layout: DashboardLayoutItem[] = []
+  items.forEach((item) => {
+    const widget = available.find((w) => w.id === item.id)
+    if (!widget || seen.has(item.id)) return
+    seen.add(item.id)
+    const isValidSize = WIDGET_SIZES.some((option) => option.value === item.size)
+    layout.push({ id: item.id, size: isValidSize ? item.size : widget.defaultSize })
+  })
+  return layout
+}
+
+/**
+ * Move a widget from one position to another
+ */
+export const moveLayoutItem = (
+  items: DashboardLayoutItem[],
+  fromIndex: number,
+  toIndex: number
+): DashboardLayoutItem[] => {
+  if (fromIndex === toIndex || toIndex < 0 || toIndex >= items.length) return items
+  const next = [...items]
+  const [moved] = next.splice(fromIndex, 1)
+  next.splice(toIndex, 0, moved)
+  return next
+}
+
+/**
+ * Build a preset ready to download or push as a role default
+ */
+export const createLayoutPreset = (widgets: DashboardLayoutItem[], name?: string): DashboardLayoutPreset => ({
+  version: DASHBOARD_LAYOUT_VERSION,
+  name,
+  exportedAt: new Date().toISOString(),
+  widgets,
+})
+
+/**
+ * Parse an imported preset; throws when the file is not a dashboard preset
+ */
+export const parseLayoutPreset = (text: string): DashboardLayoutPreset => {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('The preset file is not valid JSON')
+  }
+
+  const preset = parsed as Partial<DashboardLayoutPreset>
+  const isValid =
+    !!preset &&
+    typeof preset === 'object' &&
+    Array.isArray(preset.widgets) &&
+    preset.widgets.every((item) => !!item && typeof item.id === 'string' && typeof item.size === 'string')
+  if (!isValid) {
+    throw new Error('The file is not a dashboard layout preset')
+  }
+  if ((preset.version ?? DASHBOARD_LAYOUT_VERSION) > DASHBOARD_LAYOUT_VERSION) {
+    throw new Error('The preset was created by a newer version of the app')
+  }
+  return preset as DashboardLayoutPreset
+}
+
+/**
+ * Layout a user starts from when they have not saved their own:
+ * the first of their roles with a pushed default, otherwise the built-in layout for their scope
+ */
+export const getStartingLayout = (
+  user: User | null,
+  scope: DashboardScope,
+  available: DashboardWidgetDefinition[],
+  defaults: RoleLayoutDefaults
+): DashboardLayoutItem[] => {
+  const roleCodes = [...(user?.roles?.map((role) => role.code) ?? []), user?.role].filter(
+    (code): code is string => !!code
+  )
+  const rolePreset = roleCodes.map((code) => defaults[code]).find(Boolean)
+  return rolePreset ? sanitizeLayout(rolePreset.widgets, available) : getDefaultLayout(scope, available)
+}
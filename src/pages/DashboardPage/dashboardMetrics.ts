@@ -0,0 +1,31 @@
+/**
+ * Dashboard Metrics
+ * Formatting helpers shared by the dashboard widgets
+ */
+
+import { format, parseISO } from 'date-fns'
+
+export const formatAmount = (amount: number | undefined): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 0,
+  }).format(amount || 0)
+}
+
+export const formatCount = (count: number | undefined): string => {
+  return new Intl.NumberFormat('en-IN').format(count || 0)
+}
+
+export const formatPercent = (value: number | undefined): string => {
+  return `${(value || 0).toFixed(1)}%`
+}
+
+/**
+ * Human readable label for a yyyy-MM-dd range
+ */
+export const formatRangeLabel = (startDate: string, endDate: string): string => {
+  const start = format(parseISO(startDate), 'dd MMM yyyy')
+  const end = format(parseISO(endDate), 'dd MMM yyyy')
+  return start === end ? start : `${start} – ${end}`
+}
@@ -0,0 +1,47 @@
+/**
+ * Dashboard Range
+ * Date range presets for the dashboard widgets; dates are yyyy-MM-dd as the APIs expect
+ */
+
+import { format, startOfMonth, subDays } from 'date-fns'
+
+export type DateRangePreset = 'TODAY' | 'LAST_7_DAYS' | 'LAST_30_DAYS' | 'THIS_MONTH' | 'CUSTOM'
+
+export interface DashboardDateRange {
+  preset: DateRangePreset
+  startDate: string
+  endDate: string
+}
+
+export const DATE_RANGE_PRESETS: { value: DateRangePreset; label: string }[] = [
+  { value: 'TODAY', label: 'Today' },
+  { value: 'LAST_7_DAYS', label: 'Last 7 days' },
+  { value: 'LAST_30_DAYS', label: 'Last 30 days' },
+  { value: 'THIS_MONTH', label: 'This month' },
+  { value: 'CUSTOM', label: 'Custom' },
+]
+
+const toDateString = (date: Date): string => format(date, 'yyyy-MM-dd')
+
+/**
+ * Resolve a preset to concrete dates; CUSTOM keeps the dates already chosen
+ */
+export const getPresetRange = (
+  preset: DateRangePreset,
+  current?: DashboardDateRange,
+  today: Date = new Date()
+): DashboardDateRange => {
+  const endDate = toDateString(today)
+  switch (preset) {
+    case 'TODAY':
+      return { preset, startDate: endDate, endDate }
+    case 'LAST_7_DAYS':
+      return { preset, startDate: toDateString(subDays(today, 6)), endDate }
+    case 'LAST_30_DAYS':
+      return { preset, startDate: toDateString(subDays(today, 29)), endDate }
+    case 'THIS_MONTH':
+      return { preset, startDate: toDateString(startOfMonth(today)), endDate }
+    default:
+      return { preset, startDate: current?.startDate || endDate, endDate: current?.endDate || endDate }
+  }
+}
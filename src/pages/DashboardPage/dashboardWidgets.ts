@@ -0,0 +1,157 @@
+/**
+ * Dashboard Widgets
+ * Registry of available widgets, who may see them and the props every widget receives
+ */
+
+import type { ComponentType } from 'react'
+import { PERMISSIONS, type PermissionCode } from '@config/constants'
+import type { DashboardDateRange } from './dashboardRange'
+import type { WidgetSize } from './dashboardLayout'
+import {
+  AllocationFailuresWidget,
+  AllocationWidget,
+  CaseIntakeWidget,
+  CollectionsWidget,
+  IntakeTrendChart,
+  PaymentModeChart,
+  RepaymentTodayWidget,
+  SlaWidget,
+  StrategyWidget,
+  WorkloadWidget,
+} from './components'
+
+// Agents see their own numbers, managers the whole portfolio
+export type DashboardScope = 'agent' | 'portfolio'
+
+export interface DashboardWidgetProps {
+  range: DashboardDateRange
+  scope: DashboardScope
+  userId?: number
+  refetchInterval: number | false
+}
+
+export interface DashboardWidgetDefinition {
+  id: string
+  title: string
+  description: string
+  kind: 'card' | 'chart'
+  // Scopes whose built-in layout includes the widget; any permitted user can still add it
+  defaultScopes: DashboardScope[]
+  defaultSize: WidgetSize
+  permission?: PermissionCode
+  component: ComponentType<DashboardWidgetProps>
+}
+
+export const DASHBOARD_REFRESH_MS = 60 * 1000
+
+export const DASHBOARD_WIDGETS: DashboardWidgetDefinition[] = [
+  {
+    id: 'collections',
+    title: 'Collections',
+    description: 'Repayments captured in the selected range',
+    kind: 'card',
+    defaultScopes: ['agent', 'portfolio'],
+    defaultSize: 'small',
+    permission: PERMISSIONS.REPAYMENT_READ,
+    component: CollectionsWidget,
+  },
+  {
+    id: 'workload',
+    title: 'My Workload',
+    description: 'Your active cases against capacity',
+    kind: 'card',
+    defaultScopes: ['agent'],
+    defaultSize: 'small',
+    permission: PERMISSIONS.ALLOCATION_READ,
+    component: WorkloadWidget,
+  },
+  {
+    id: 'repayment-today',
+    title: 'Repayments',
+    description: "Today's and this month's collections against target",
+    kind: 'card',
+    defaultScopes: ['portfolio'],
+    defaultSize: 'small',
+    permission: PERMISSIONS.REPAYMENT_READ,
+    component: RepaymentTodayWidget,
+  },
+  {
+    id: 'sla',
+    title: 'Deposit SLA',
+    description: 'SLA compliance and breaches for pending repayments',
+    kind: 'card',
+    defaultScopes: ['portfolio'],
+    defaultSize: 'small',
+    permission: PERMISSIONS.REPAYMENT_APPROVE,
+    component: SlaWidget,
+  },
+  {
+    id: 'allocation',
+    title: 'Allocation',
+    description: 'Allocation outcomes across the portfolio',
+    kind: 'card',
+    defaultScopes: ['portfolio'],
+    defaultSize: 'small',
+    permission: PERMISSIONS.ALLOCATION_READ,
+    component: AllocationWidget,
+  },
+  {
+    id: 'allocation-failures',
+    title: 'Allocation Failures',
+    description: 'Failure rate and top failure reasons',
+    kind: 'chart',
+    defaultScopes: [],
+    defaultSize: 'medium',
+    permission: PERMISSIONS.ALLOCATION_READ,
+    component: AllocationFailuresWidget,
+  },
+  {
+    id: 'case-intake',
+    title: 'Case Intake',
+    description: 'Cases received and validated, unallocated backlog',
+    kind: 'card',
+    defaultScopes: ['portfolio'],
+    defaultSize: 'small',
+    permission: PERMISSIONS.CASE_READ,
+    component: CaseIntakeWidget,
+  },
+  {
+    id: 'intake-trend',
+    title: 'Intake Trend',
+    description: 'Cases received per day',
+    kind: 'chart',
+    defaultScopes: [],
+    defaultSize: 'medium',
+    permission: PERMISSIONS.CASE_READ,
+    component: IntakeTrendChart,
+  },
+  {
+    id: 'payment-modes',
+    title: 'Payment Modes',
+    description: "This month's collections by payment mode",
+    kind: 'chart',
+    defaultScopes: [],
+    defaultSize: 'small',
+    permission: PERMISSIONS.REPAYMENT_READ,
+    component: PaymentModeChart,
+  },
+  {
+    id: 'strategy',
+    title: 'Strategy Engine',
+    description: 'Strategy execution health and next run',
+    kind: 'card',
+    defaultScopes: ['portfolio'],
+    defaultSize: 'small',
+    permission: PERMISSIONS.STRATEGY_READ,
+    component: StrategyWidget,
+  },
+]
+
+/**
+ * Users who approve repayments or manage allocation get the portfolio view
+ */
+export const getDashboardScope = (hasPermission: (permission: string) => boolean): DashboardScope => {
+  return hasPermission(PERMISSIONS.REPAYMENT_APPROVE) || hasPermission(PERMISSIONS.ALLOCATION_UPDATE)
+    ? 'portfolio'
+    : 'agent'
+}
@@ -8,6 +8,13 @@ import { useNavigate, useSearchParams } from 'react-router-dom'
 import { digitalPaymentService, repaymentService } from '@services/api'
 import type { PaymentServiceType, PaymentResponse, InstrumentType, Repayment } from '@types'
 import { PAYMENT_SERVICE_TYPE_LABELS, DIGITAL_PAYMENT_STATUS_LABELS } from '@types'
+import {
+  formatCurrency,
+  formatIndianMobile,
+  isValidIndianMobile,
+  isValidPAN,
+  isValidVPA,
+} from '@utils'
 import './DigitalPaymentPage.css'
 
 export function DigitalPaymentPage() {
@@ -25,6 +32,7 @@ export function DigitalPaymentPage() {
   const [loanAccountNumber, setLoanAccountNumber] = useState('')
   const [customerName, setCustomerName] = useState('')
   const [customerEmail, setCustomerEmail] = useState('')
+  const [customerPan, setCustomerPan] = useState('')
 
   // Pre-fill form from URL query parameters (when coming from Workflow)
   useEffect(() => {
@@ -63,11 +71,32 @@ export function DigitalPaymentPage() {
       return
     }
 
+    if (serviceType === 'PAYMENT_LINK' && !isValidIndianMobile(mobileNumber)) {
+      setError('Enter a valid 10-digit mobile number starting with 6-9')
+      return
+    }
+
     if (serviceType === 'COLLECT_CALL' && (!instrumentType || !instrumentReference)) {
       setError('Instrument type and reference are required for Collect Request')
       return
     }
 
+    if (serviceType === 'COLLECT_CALL') {
+      if (instrumentType === 'VPA' && !isValidVPA(instrumentReference)) {
+        setError('Enter a valid UPI ID (e.g. name@okhdfcbank)')
+        return
+      }
+      if (instrumentType === 'MOBILE' && !isValidIndianMobile(instrumentReference)) {
+        setError('Enter a valid 10-digit mobile number starting with 6-9')
+        return
+      }
+    }
+
+    if (customerPan.trim() && !isValidPAN(customerPan)) {
+      setError('Enter a valid 10-character PAN (e.g. ABCPE1234F)')
+      return
+    }
+
     try {
       setIsLoading(true)
 
@@ -82,6 +111,7 @@ export function DigitalPaymentPage() {
         loanAccountNumber: loanAccountNumber || undefined,
         customerName: customerName || undefined,
         customerEmail: customerEmail || undefined,
+        customerPan: customerPan.trim().toUpperCase() || undefined,
       }
 
       const response = await digitalPaymentService.initiate(request)
@@ -223,14 +253,6 @@ export function DigitalPaymentPage() {
     }
   }
 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0,
-    }).format(amount)
-  }
-
   return (
     <div className="digital-payment-page">
       {/* Header */}
@@ -383,7 +405,7 @@ export function DigitalPaymentPage() {
                         className="form-input"
                         value={instrumentReference}
                         onChange={(e) => setInstrumentReference(e.target.value)}
-                        placeholder={instrumentType === 'VPA' ? 'user@upi' : '10-digit mobile'}
+                        placeholder={instrumentType === 'VPA' ? 'name@okhdfcbank' : '10-digit mobile'}
                         required
                       />
                     </div>
@@ -438,6 +460,19 @@ export function DigitalPaymentPage() {
                     />
                   </div>
                 </div>
+                <div className="form-row">
+                  <div className="form-field">
+                    <label className="form-label">Customer PAN</label>
+                    <input
+                      type="text"
+                      className="form-input"
+                      maxLength={10}
+                      value={customerPan}
+                      onChange={(e) => setCustomerPan(e.target.value.toUpperCase())}
+                      placeholder="e.g. ABCPE1234F"
+                    />
+                  </div>
+                </div>
               </div>
 
               {/* Message */}
@@ -544,7 +579,7 @@ export function DigitalPaymentPage() {
                 <div className="transaction-detail">
                   <span className="transaction-detail__label">Amount</span>
                   <span className="transaction-detail__value transaction-detail__value--amount">
-                    {formatCurrency(paymentResponse.amount)}
+                    {formatCurrency(paymentResponse.amount, 'INR', 0)}
                   </span>
                 </div>
                 <div className="transaction-detail">
@@ -553,6 +588,14 @@ export function DigitalPaymentPage() {
                     {PAYMENT_SERVICE_TYPE_LABELS[paymentResponse.serviceType]}
                   </span>
                 </div>
+                {paymentResponse.serviceType === 'PAYMENT_LINK' && mobileNumber && (
+                  <div className="transaction-detail">
+                    <span className="transaction-detail__label">Sent To</span>
+                    <span className="transaction-detail__value">
+                      {formatIndianMobile(mobileNumber)}
+                    </span>
+                  </div>
+                )}
                 {paymentResponse.expiresAt && (
                   <div className="transaction-detail">
                     <span className="transaction-detail__label">Expires At</span>
@@ -616,7 +659,7 @@ export function DigitalPaymentPage() {
                           <div className="receipt-detail-item">
                             <span className="receipt-detail-item__label">Amount Paid</span>
                             <span className="receipt-detail-item__value receipt-detail-item__value--amount">
-                              {formatCurrency(receiptDetails.amount)}
+                              {formatCurrency(receiptDetails.amount, 'INR', 0)}
                             </span>
                           </div>
                         )}
@@ -717,7 +760,7 @@ export function DigitalPaymentPage() {
               <h3 className="receipt-modal__status">Payment Successful</h3>
 
               <div className="receipt-modal__amount">
-                {formatCurrency(receiptDetails.amount)}
+                {formatCurrency(receiptDetails.amount, 'INR', 0)}
               </div>
 
               <div className="receipt-modal__details">
@@ -0,0 +1,33 @@
+/**
+ * 403 Forbidden Page
+ * Shown when the user lacks the permission required for a route or API call
+ */
+
+import { useNavigate } from 'react-router-dom'
+import { Button } from '@components/common'
+import { ROUTES } from '@config/constants'
+import './ForbiddenPage.css'
+
+export function ForbiddenPage() {
+  const navigate = useNavigate()
+
+  return (
+    <div className="forbidden-page">
+      <div className="forbidden-page__content">
+        <h1 className="forbidden-page__title">403</h1>
+        <p className="forbidden-page__message">Access denied</p>
+        <p className="forbidden-page__hint">
+          You do not have permission to view this page. Contact your administrator if you need access.
+        </p>
+        <div className="forbidden-page__actions">
+          <Button variant="secondary" onClick={() => navigate(-1)}>
+            Go Back
+          </Button>
+          <Button onClick={() => navigate(ROUTES.DASHBOARD)}>Go to Dashboard</Button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default ForbiddenPage
@@ -0,0 +1,6 @@
+/**
+ * ForbiddenPage component barrel export
+ */
+
+export { ForbiddenPage } from './ForbiddenPage'
+export { ForbiddenPage as default } from './ForbiddenPage'
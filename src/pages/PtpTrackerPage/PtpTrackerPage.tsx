@@ -0,0 +1,450 @@
+/**
+ * PTP Tracker Page
+ * Tracks promises due today, tomorrow and overdue, and resolves them against repayments
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { workflowService } from '@services/api/workflow.service';
+import { Modal } from '@components/common/Modal';
+import { usePermission } from '@hooks';
+import type {
+  PtpTrackerItem,
+  PtpTrackerScope,
+  PtpLifecycleStatus,
+  WorkflowRepayment,
+} from '@types';
+import { PtpStatusLabels } from '@types';
+import { ROUTES, PERMISSIONS } from '@config/constants';
+import { shiftDateKey, todayKey } from '@utils';
+import {
+  getPtpDueDate,
+  getPtpDueBucket,
+  evaluateCasePtps,
+} from './ptpMatching';
+import type { PtpDueBucket, PtpEvaluation } from './ptpMatching';
+import './PtpTrackerPage.css';
+
+type TrackerTab = Exclude<PtpDueBucket, 'UPCOMING'>;
+
+const TAB_LABELS: Record<TrackerTab, string> = {
+  OVERDUE: 'Overdue',
+  TODAY: 'Due Today',
+  TOMORROW: 'Due Tomorrow',
+};
+
+export function PtpTrackerPage() {
+  const navigate = useNavigate();
+  const { hasPermission } = usePermission();
+  const canViewTeam = hasPermission(PERMISSIONS.PTP_TEAM_READ);
+
+  const [scope, setScope] = useState<PtpTrackerScope>('MINE');
+  const [activeTab, setActiveTab] = useState<TrackerTab>('OVERDUE');
+  const [ptps, setPtps] = useState<PtpTrackerItem[]>([]);
+  const [repaymentsByCase, setRepaymentsByCase] = useState<Record<number, WorkflowRepayment[]>>({});
+  const [agentFilter, setAgentFilter] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  // Resolve modal state
+  const [selectedPtp, setSelectedPtp] = useState<PtpTrackerItem | null>(null);
+  const [resolveStatus, setResolveStatus] = useState<PtpLifecycleStatus>('KEPT');
+  const [receivedAmount, setReceivedAmount] = useState('');
+  const [brokenReason, setBrokenReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const today = todayKey();
+
+  const fetchPtps = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await workflowService.getTrackedPtps({
+        scope,
+        status: 'PENDING',
+        toDate: shiftDateKey(today, 1),
+      });
+      setPtps(data);
+
+      // Only promises that are due can be matched against repayments
+      const dueCaseIds = Array.from(
+        new Set(
+          data
+            .filter((ptp) => getPtpDueBucket(ptp, today) !== 'TOMORROW')
+            .map((ptp) => ptp.caseId)
+        )
+      );
+      const repayments = await Promise.all(
+        dueCaseIds.map((caseId) => workflowService.getCaseRepayments(caseId).catch(() => []))
+      );
+      const byCase: Record<number, WorkflowRepayment[]> = {};
+      dueCaseIds.forEach((caseId, index) => {
+        byCase[caseId] = repayments[index];
+      });
+      setRepaymentsByCase(byCase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch PTPs');
+      setPtps([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [scope, today]);
+
+  useEffect(() => {
+    fetchPtps();
+  }, [fetchPtps]);
+
+  const evaluations = useMemo(() => {
+    const ptpsByCase: Record<number, PtpTrackerItem[]> = {};
+    ptps.forEach((ptp) => {
+      ptpsByCase[ptp.caseId] = [...(ptpsByCase[ptp.caseId] || []), ptp];
+    });
+    const result: Record<number, PtpEvaluation> = {};
+    Object.entries(ptpsByCase).forEach(([caseId, casePtps]) => {
+      const caseRepayments = repaymentsByCase[Number(caseId)] || [];
+      Object.assign(result, evaluateCasePtps(casePtps, caseRepayments, today));
+    });
+    return result;
+  }, [ptps, repaymentsByCase, today]);
+
+  const filteredPtps = useMemo(() => {
+    const term = agentFilter.trim().toLowerCase();
+    return ptps.filter((ptp) => !term || ptp.agentName?.toLowerCase().includes(term));
+  }, [ptps, agentFilter]);
+
+  const ptpsByTab = useMemo(() => {
+    const grouped: Record<TrackerTab, PtpTrackerItem[]> = { OVERDUE: [], TODAY: [], TOMORROW: [] };
+    filteredPtps.forEach((ptp) => {
+      const bucket = getPtpDueBucket(ptp, today);
+      if (bucket !== 'UPCOMING') grouped[bucket].push(ptp);
+    });
+    Object.values(grouped).forEach((list) =>
+      list.sort((a, b) => (getPtpDueDate(a) || '').localeCompare(getPtpDueDate(b) || ''))
+    );
+    return grouped;
+  }, [filteredPtps, today]);
+
+  const formatCurrency = (amount: number | undefined): string => {
+    if (amount === undefined || amount === null) return '-';
+    return new Intl.NumberFormat('en-IN', {
+      style: 'currency',
+      currency: 'INR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (dateString: string | undefined): string => {
+    if (!dateString) return '-';
+    return new Date(dateString).toLocaleDateString('en-IN', {
+      day: '2-digit',
+      month: 'short',
+      year: 'numeric',
+    });
+  };
+
+  const getStatusBadgeClass = (status: PtpLifecycleStatus): string => {
+    switch (status) {
+      case 'KEPT':
+        return 'badge--success';
+      case 'PARTIALLY_KEPT':
+        return 'badge--orange';
+      case 'BROKEN':
+        return 'badge--danger';
+      default:
+        return 'badge--warning';
+    }
+  };
+
+  const openResolveModal = (ptp: PtpTrackerItem) => {
+    const evaluation = evaluations[ptp.id];
+    setSelectedPtp(ptp);
+    setResolveStatus(evaluation && evaluation.suggestedStatus !== 'PENDING' ? evaluation.suggestedStatus : 'KEPT');
+    setReceivedAmount(evaluation ? String(evaluation.receivedAmount) : '');
+    setBrokenReason('');
+  };
+
+  const closeResolveModal = () => {
+    setSelectedPtp(null);
+    setBrokenReason('');
+  };
+
+  const handleResolve = async () => {
+    if (!selectedPtp) return;
+    if (resolveStatus === 'BROKEN' && !brokenReason.trim()) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      const evaluation = evaluations[selectedPtp.id];
+      await workflowService.updatePtpStatus(selectedPtp.id, {
+        ptpStatus: resolveStatus,
+        paymentReceivedAmount: receivedAmount ? Number(receivedAmount) : undefined,
+        paymentReceivedDate: evaluation?.lastPaymentDate,
+        brokenReason: resolveStatus === 'BROKEN' ? brokenReason.trim() : undefined,
+      });
+      setSuccessMessage(`PTP for ${selectedPtp.customerName} marked as ${PtpStatusLabels[resolveStatus]}`);
+      closeResolveModal();
+      fetchPtps();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update PTP');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleViewCase = (caseId: number) => {
+    navigate(ROUTES.CASE_DETAIL.replace(':caseId', String(caseId)));
+  };
+
+  const currentPtps = ptpsByTab[activeTab];
+  const overdueAmount = ptpsByTab.OVERDUE.reduce((sum, ptp) => sum + (ptp.ptpAmount || 0), 0);
+  const todayAmount = ptpsByTab.TODAY.reduce((sum, ptp) => sum + (ptp.ptpAmount || 0), 0);
+
+  return (
+    <div className="ptp-tracker-page">
+      {/* Header */}
+      <div className="ptp-tracker-header">
+        <div className="ptp-tracker-header__content">
+          <h1 className="ptp-tracker-title">PTP Tracker</h1>
+          <p className="ptp-tracker-subtitle">
+            {scope === 'TEAM' ? 'Promises to pay across your team' : 'Your promises to pay that need follow-up'}
+          </p>
+        </div>
+        <div className="ptp-tracker-header__stats">
+          <div className="ptp-stat-card ptp-stat-card--danger">
+            <span className="ptp-stat-card__value">{ptpsByTab.OVERDUE.length}</span>
+            <span className="ptp-stat-card__label">Overdue • {formatCurrency(overdueAmount)}</span>
+          </div>
+          <div className="ptp-stat-card">
+            <span className="ptp-stat-card__value">{ptpsByTab.TODAY.length}</span>
+            <span className="ptp-stat-card__label">Due Today • {formatCurrency(todayAmount)}</span>
+          </div>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="ptp-tracker-filters">
+        <div className="ptp-tabs">
+          {(Object.keys(TAB_LABELS) as TrackerTab[]).map((tab) => (
+            <button
+              key={tab}
+              className={`ptp-tab ${activeTab === tab ? 'ptp-tab--active' : ''}`}
+              onClick={() => setActiveTab(tab)}
+            >
+              {TAB_LABELS[tab]}
+              <span className="ptp-tab__count">{ptpsByTab[tab].length}</span>
+            </button>
+          ))}
+        </div>
+        <div className="ptp-tracker-filters__actions">
+          {canViewTeam && (
+            <>
+              <select
+                className="form-select"
+                value={scope}
+                onChange={(e) => {
+                  setScope(e.target.value as PtpTrackerScope);
+                  // The agent filter only applies to team PTPs
+                  setAgentFilter('');
+                }}
+              >
+                <option value="MINE">My PTPs</option>
+                <option value="TEAM">Team PTPs</option>
+              </select>
+              {scope === 'TEAM' && (
+                <input
+                  type="text"
+                  className="form-input"
+                  placeholder="Filter by agent..."
+                  value={agentFilter}
+                  onChange={(e) => setAgentFilter(e.target.value)}
+                />
+              )}
+            </>
+          )}
+          <button className="btn-secondary" onClick={fetchPtps}>
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {/* Alerts */}
+      {error && (
+        <div className="alert alert--error">
+          <span>{error}</span>
+          <button onClick={() => setError(null)}>Dismiss</button>
+        </div>
+      )}
+      {successMessage && (
+        <div className="alert alert--success">
+          <span>{successMessage}</span>
+          <button onClick={() => setSuccessMessage(null)}>Dismiss</button>
+        </div>
+      )}
+
+      {/* PTP Table */}
+      <div className="table-card">
+        {loading ? (
+          <div className="loading-container">
+            <div className="spinner"></div>
+            <p>Loading promises...</p>
+          </div>
+        ) : currentPtps.length === 0 ? (
+          <div className="empty-state">
+            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path d="M9 12L11 14L15 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+              <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2" />
+            </svg>
+            <p>No promises {TAB_LABELS[activeTab].toLowerCase()}</p>
+            <span>Nothing to follow up in this list</span>
+          </div>
+        ) : (
+          <div className="table-container">
+            <table className="ptp-table">
+              <thead>
+                <tr>
+                  <th>Case</th>
+                  <th>Customer</th>
+                  {scope === 'TEAM' && <th>Agent</th>}
+                  <th>PTP Date</th>
+                  <th>Promised</th>
+                  <th>Received</th>
+                  <th>Match</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {currentPtps.map((ptp) => {
+                  const evaluation = evaluations[ptp.id];
+                  const isDue = activeTab !== 'TOMORROW';
+                  return (
+                    <tr key={ptp.id}>
+                      <td>
+                        <span className="cell-link" onClick={() => handleViewCase(ptp.caseId)}>
+                          {ptp.caseNumber}
+                        </span>
+                        <div className="cell-sub cell-mono">{ptp.loanAccountNumber}</div>
+                      </td>
+                      <td>
+                        <div className="customer-cell">
+                          <span className="customer-name">{ptp.customerName}</span>
+                          {ptp.mobileNumber && <span className="customer-phone">{ptp.mobileNumber}</span>}
+                        </div>
+                      </td>
+                      {scope === 'TEAM' && <td>{ptp.agentName || '-'}</td>}
+                      <td>{formatDate(getPtpDueDate(ptp))}</td>
+                      <td className="cell-amount">{formatCurrency(ptp.ptpAmount)}</td>
+                      <td className="cell-amount">{isDue ? formatCurrency(evaluation?.receivedAmount) : '-'}</td>
+                      <td>
+                        {isDue && evaluation ? (
+                          <span className={`badge ${getStatusBadgeClass(evaluation.suggestedStatus)}`}>
+                            {PtpStatusLabels[evaluation.suggestedStatus]}
+                          </span>
+                        ) : (
+                          <span className="badge badge--default">Not due</span>
+                        )}
+                      </td>
+                      <td>
+                        <div className="table-actions">
+                          {isDue && (
+                            <button className="btn-resolve" onClick={() => openResolveModal(ptp)}>
+                              Resolve
+                            </button>
+                          )}
+                          <button
+                            className="btn-icon btn-icon--primary"
+                            title="View Case"
+                            onClick={() => handleViewCase(ptp.caseId)}
+                          >
+                            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                              <path d="M1 12S5 4 12 4s11 8 11 8-4 8-11 8S1 12 1 12z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                              <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" />
+                            </svg>
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {/* Resolve Modal */}
+      <Modal isOpen={!!selectedPtp} onClose={closeResolveModal} title="Resolve Promise to Pay" size="md">
+        {selectedPtp && (
+          <div className="ptp-resolve">
+            <p className="ptp-resolve__summary">
+              <strong>{selectedPtp.customerName}</strong> promised{' '}
+              <strong>{formatCurrency(selectedPtp.ptpAmount)}</strong> by{' '}
+              <strong>{formatDate(getPtpDueDate(selectedPtp))}</strong>.
+            </p>
+            {evaluations[selectedPtp.id] && (
+              <p className="ptp-resolve__match">
+                {evaluations[selectedPtp.id].matchedRepayments.length} matching repayment(s) totalling{' '}
+                {formatCurrency(evaluations[selectedPtp.id].receivedAmount)} found.
+              </p>
+            )}
+
+            <div className="form-field">
+              <label className="form-label">Outcome</label>
+              <select
+                className="form-select"
+                value={resolveStatus}
+                onChange={(e) => setResolveStatus(e.target.value as PtpLifecycleStatus)}
+              >
+                <option value="KEPT">{PtpStatusLabels.KEPT}</option>
+                <option value="PARTIALLY_KEPT">{PtpStatusLabels.PARTIALLY_KEPT}</option>
+                <option value="BROKEN">{PtpStatusLabels.BROKEN}</option>
+              </select>
+            </div>
+
+            {resolveStatus !== 'BROKEN' && (
+              <div className="form-field">
+                <label className="form-label">Amount Received</label>
+                <input
+                  type="number"
+                  min="0"
+                  className="form-input"
+                  value={receivedAmount}
+                  onChange={(e) => setReceivedAmount(e.target.value)}
+                />
+              </div>
+            )}
+
+            {resolveStatus === 'BROKEN' && (
+              <div className="form-field">
+                <label className="form-label">Broken Reason (required)</label>
+                <textarea
+                  className="form-input form-textarea"
+                  rows={3}
+                  value={brokenReason}
+                  onChange={(e) => setBrokenReason(e.target.value)}
+                  placeholder="Why was the promise not kept?"
+                />
+              </div>
+            )}
+
+            <div className="ptp-resolve__actions">
+              <button className="btn-secondary" onClick={closeResolveModal} disabled={isSaving}>
+                Cancel
+              </button>
+              <button
+                className="btn-resolve"
+                onClick={handleResolve}
+                disabled={isSaving || (resolveStatus === 'BROKEN' && !brokenReason.trim())}
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+}
+
+export default PtpTrackerPage;
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import type { WorkflowPTP, WorkflowRepayment } from '@types';
+import { evaluateCasePtps, getPtpDueBucket } from './ptpMatching';
+
+const ptp = (id: number, ptpDate: string, ptpAmount: number, createdAt = '2026-03-01'): WorkflowPTP => ({
+  id,
+  ptpDate,
+  ptpAmount,
+  createdAt: `${createdAt}T09:00:00Z`,
+});
+
+const repayment = (id: number, paymentDate: string, amount: number, status = 'APPROVED'): WorkflowRepayment => ({
+  id,
+  repaymentNumber: `RP-${id}`,
+  caseId: 1,
+  amount,
+  paymentMode: 'UPI',
+  paymentDate,
+  status,
+  createdAt: `${paymentDate}T12:00:00Z`,
+});
+
+describe('getPtpDueBucket', () => {
+  it('buckets by due date relative to today', () => {
+    expect(getPtpDueBucket(ptp(1, '2026-03-09', 100), '2026-03-10')).toBe('OVERDUE');
+    expect(getPtpDueBucket(ptp(1, '2026-03-10', 100), '2026-03-10')).toBe('TODAY');
+    expect(getPtpDueBucket(ptp(1, '2026-03-11', 100), '2026-03-10')).toBe('TOMORROW');
+    expect(getPtpDueBucket(ptp(1, '2026-03-12', 100), '2026-03-10')).toBe('UPCOMING');
+  });
+
+  it('finds tomorrow across a month end', () => {
+    expect(getPtpDueBucket(ptp(1, '2026-04-01', 100), '2026-03-31')).toBe('TOMORROW');
+  });
+});
+
+describe('evaluateCasePtps matching window', () => {
+  it('ignores repayments made before the promise', () => {
+    const result = evaluateCasePtps(
+      [ptp(1, '2026-03-10', 500, '2026-03-05')],
+      [repayment(1, '2026-03-04', 500)],
+      '2026-03-20'
+    );
+    expect(result[1].suggestedStatus).toBe('BROKEN');
+    expect(result[1].receivedAmount).toBe(0);
+  });
+
+  it('counts a payment on the day the promise is made and on the due date', () => {
+    const result = evaluateCasePtps(
+      [ptp(1, '2026-03-10', 500, '2026-03-05')],
+      [repayment(1, '2026-03-05', 200), repayment(2, '2026-03-10', 300)],
+      '2026-03-20'
+    );
+    expect(result[1].suggestedStatus).toBe('KEPT');
+    expect(result[1].lastPaymentDate).toBe('2026-03-10');
+  });
+
+  it('counts late payments only within the grace days', () => {
+    const repayments = [repayment(1, '2026-03-12', 500)];
+    expect(evaluateCasePtps([ptp(1, '2026-03-10', 500)], repayments, '2026-03-20')[1].suggestedStatus).toBe(
+      'BROKEN'
+    );
+    expect(evaluateCasePtps([ptp(1, '2026-03-10', 500)], repayments, '2026-03-20', 2)[1].suggestedStatus).toBe(
+      'KEPT'
+    );
+  });
+
+  it('keeps a promise pending until the grace days have passed', () => {
+    const result = evaluateCasePtps([ptp(1, '2026-03-10', 500)], [], '2026-03-12', 2);
+    expect(result[1].suggestedStatus).toBe('PENDING');
+    expect(evaluateCasePtps([ptp(1, '2026-03-10', 500)], [], '2026-03-13', 2)[1].suggestedStatus).toBe('BROKEN');
+  });
+
+  it('marks a short payment after the due date as partially kept', () => {
+    const result = evaluateCasePtps([ptp(1, '2026-03-10', 500)], [repayment(1, '2026-03-08', 200)], '2026-03-11');
+    expect(result[1].suggestedStatus).toBe('PARTIALLY_KEPT');
+    expect(result[1].receivedAmount).toBe(200);
+  });
+
+  it('skips rejected and reversed repayments', () => {
+    const result = evaluateCasePtps(
+      [ptp(1, '2026-03-10', 500)],
+      [repayment(1, '2026-03-08', 500, 'REJECTED'), repayment(2, '2026-03-09', 500, 'REVERSED')],
+      '2026-03-11'
+    );
+    expect(result[1].suggestedStatus).toBe('BROKEN');
+  });
+
+  it('credits each repayment to one promise, earliest due first', () => {
+    const result = evaluateCasePtps(
+      [ptp(2, '2026-03-20', 500), ptp(1, '2026-03-10', 500)],
+      [repayment(1, '2026-03-08', 500), repayment(2, '2026-03-15', 300)],
+      '2026-03-25'
+    );
+    expect(result[1].matchedRepayments.map((r) => r.id)).toEqual([1]);
+    expect(result[1].suggestedStatus).toBe('KEPT');
+    expect(result[2].matchedRepayments.map((r) => r.id)).toEqual([2]);
+    expect(result[2].suggestedStatus).toBe('PARTIALLY_KEPT');
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * PTP Matching
+ * Classifies promises by due date and matches them against case repayments
+ */
+
+import type { WorkflowPTP, WorkflowRepayment, PtpLifecycleStatus } from '@types';
+import { shiftDateKey } from '@utils';
+
+export type PtpDueBucket = 'OVERDUE' | 'TODAY' | 'TOMORROW' | 'UPCOMING';
+
+export interface PtpEvaluation {
+  suggestedStatus: PtpLifecycleStatus;
+  receivedAmount: number;
+  lastPaymentDate?: string;
+  matchedRepayments: WorkflowRepayment[];
+}
+
+// Repayment statuses that never count towards a promise
+const EXCLUDED_REPAYMENT_STATUSES = ['REJECTED', 'REVERSED', 'CANCELLED', 'FAILED'];
+
+/**
+ * Get the promised date of a PTP (ptpDate, falling back to commitmentDate)
+ */
+export const getPtpDueDate = (ptp: WorkflowPTP): string | undefined => {
+  const date = ptp.ptpDate || ptp.commitmentDate;
+  return date ? date.substring(0, 10) : undefined;
+};
+
+/**
+ * Bucket a PTP relative to today
+ */
+export const getPtpDueBucket = (ptp: WorkflowPTP, today: string): PtpDueBucket => {
+  const dueDate = getPtpDueDate(ptp);
+  if (!dueDate || dueDate < today) return 'OVERDUE';
+  if (dueDate === today) return 'TODAY';
+  if (dueDate === shiftDateKey(today, 1)) return 'TOMORROW';
+  return 'UPCOMING';
+};
+
+const isWithinPtpWindow = (
+  ptp: WorkflowPTP,
+  repayment: WorkflowRepayment,
+  graceDays: number
+): boolean => {
+  const dueDate = getPtpDueDate(ptp);
+  const windowStart = (ptp.createdAt || ptp.commitmentDate || '').substring(0, 10);
+  const windowEnd = dueDate ? shiftDateKey(dueDate, graceDays) : undefined;
+  const paidOn = repayment.paymentDate?.substring(0, 10);
+  if (!paidOn) return false;
+  if (windowStart && paidOn < windowStart) return false;
+  if (windowEnd && paidOn > windowEnd) return false;
+  return true;
+};
+
+const buildEvaluation = (
+  ptp: WorkflowPTP,
+  matchedRepayments: WorkflowRepayment[],
+  today: string,
+  graceDays: number
+): PtpEvaluation => {
+  const dueDate = getPtpDueDate(ptp);
+  const windowEnd = dueDate ? shiftDateKey(dueDate, graceDays) : undefined;
+
+  const receivedAmount = matchedRepayments.reduce((sum, r) => sum + (r.amount || 0), 0);
+  const lastPaymentDate = matchedRepayments
+    .map((r) => r.paymentDate)
+    .sort()
+    .pop();
+  const promisedAmount = ptp.ptpAmount || 0;
+  const isPastDue = !windowEnd || windowEnd < today;
+
+  let suggestedStatus: PtpLifecycleStatus = 'PENDING';
+  if (promisedAmount > 0 && receivedAmount >= promisedAmount) {
+    suggestedStatus = 'KEPT';
+  } else if (isPastDue) {
+    suggestedStatus = receivedAmount > 0 ? 'PARTIALLY_KEPT' : 'BROKEN';
+  }
+
+  return { suggestedStatus, receivedAmount, lastPaymentDate, matchedRepayments };
+};
+
+/**
+ * Match the PTPs of one case against its repayments
+ * Repayments count when they fall between the promise being made and the due date plus grace days.
+ * Each repayment is credited to one promise only: the earliest-due promise whose window covers it
+ * takes payments, oldest first, until its amount is met.
+ * Fully paid promises are kept, short payments after the due date are partially kept,
+ * and nothing received after the due date is broken.
+ */
+export const evaluateCasePtps = (
+  ptps: WorkflowPTP[],
+  repayments: WorkflowRepayment[],
+  today: string,
+  graceDays: number = 0
+): Record<number, PtpEvaluation> => {
+  let unallocated = repayments
+    .filter((repayment) => !EXCLUDED_REPAYMENT_STATUSES.includes(repayment.status))
+    .sort((a, b) => (a.paymentDate || '').localeCompare(b.paymentDate || ''));
+  const ordered = [...ptps].sort((a, b) =>
+    (getPtpDueDate(a) || '').localeCompare(getPtpDueDate(b) || '')
+  );
+
+  const result: Record<number, PtpEvaluation> = {};
+  ordered.forEach((ptp) => {
+    const promisedAmount = ptp.ptpAmount || 0;
+    const matched: WorkflowRepayment[] = [];
+    let received = 0;
+    unallocated.forEach((repayment) => {
+      if (promisedAmount > 0 && received >= promisedAmount) return;
+      if (!isWithinPtpWindow(ptp, repayment, graceDays)) return;
+      matched.push(repayment);
+      received += repayment.amount || 0;
+    });
+    unallocated = unallocated.filter((repayment) => !matched.includes(repayment));
+    result[ptp.id] = buildEvaluation(ptp, matched, today, graceDays);
+  });
+  return result;
+};
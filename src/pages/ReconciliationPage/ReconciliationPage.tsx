@@ -1,15 +1,32 @@
 /**
  * Reconciliation Page
- * Manage pending reconciliation with bulk actions
+ * Manage pending reconciliation with bulk actions and bank statement auto-matching
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { repaymentService } from '@services/api'
 import type { ReconciliationDTO, PageResponse } from '@types'
 import { PAYMENT_MODE_LABELS } from '@types'
+import { StatementMatchPanel } from './components'
+import type { StatementConfirmation } from './components'
+import { parseStatement } from './statementParser'
+import type { StatementFormat } from './statementParser'
+import { matchStatement } from './statementMatching'
+import type { StatementMatch } from './statementMatching'
 import './ReconciliationPage.css'
 
+interface ImportedStatement {
+  fileName: string
+  format: StatementFormat
+  matches: StatementMatch[]
+  skippedDebits: number
+  errors: string[]
+}
+
+// Pending entries considered when matching a statement, beyond the page on screen
+const MATCH_POOL_SIZE = 500
+
 export function ReconciliationPage() {
   const navigate = useNavigate()
 
@@ -33,6 +50,11 @@ export function ReconciliationPage() {
   const [discrepancyNotes, setDiscrepancyNotes] = useState('')
   const [isProcessing, setIsProcessing] = useState(false)
 
+  // Statement import
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [statement, setStatement] = useState<ImportedStatement | null>(null)
+  const [isImporting, setIsImporting] = useState(false)
+
   const fetchPendingReconciliation = useCallback(async () => {
     try {
       setIsLoading(true)
@@ -134,6 +156,80 @@ export function ReconciliationPage() {
     }
   }
 
+  const handleStatementFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    try {
+      setIsImporting(true)
+      setError('')
+      setSuccessMessage('')
+
+      const parsed = parseStatement(await file.text())
+      const credits = parsed.lines.filter((line) => line.direction === 'CREDIT')
+      if (parsed.lines.length === 0) {
+        setError(parsed.errors[0] || 'No transactions found in the statement')
+        return
+      }
+
+      const pool = await repaymentService.getPendingReconciliation(0, MATCH_POOL_SIZE)
+      setStatement({
+        fileName: file.name,
+        format: parsed.format,
+        matches: matchStatement(credits, pool.content.filter((item) => !item.isReconciled)),
+        skippedDebits: parsed.lines.length - credits.length,
+        errors: parsed.errors,
+      })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import statement')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleConfirmMatches = async (confirmations: StatementConfirmation[]) => {
+    if (!statement) return
+
+    setIsProcessing(true)
+    setError('')
+
+    const results = await Promise.allSettled(
+      confirmations.map(({ match, discrepancyAmount }) =>
+        repaymentService.updateReconciliation({
+          repaymentId: match.item!.repaymentId,
+          isReconciled: true,
+          bankReferenceNumber: match.line.reference || undefined,
+          discrepancyAmount: discrepancyAmount !== 0 ? discrepancyAmount : undefined,
+          discrepancyNotes:
+            discrepancyAmount !== 0
+              ? `Statement credit ${formatCurrency(match.line.amount)} vs recorded ${formatCurrency(
+                  match.item!.amount
+                )} (${statement.fileName}, line ${match.line.lineNumber})`
+              : undefined,
+        })
+      )
+    )
+
+    const confirmedLines = new Set(
+      confirmations.filter((_, i) => results[i].status === 'fulfilled').map(({ match }) => match.line.lineNumber)
+    )
+    const failed = confirmations.length - confirmedLines.size
+
+    setStatement({
+      ...statement,
+      matches: statement.matches.filter((match) => !confirmedLines.has(match.line.lineNumber)),
+    })
+    if (confirmedLines.size > 0) {
+      setSuccessMessage(`${confirmedLines.size} statement matches reconciled`)
+    }
+    if (failed > 0) {
+      setError(`${failed} matches could not be reconciled`)
+    }
+    setIsProcessing(false)
+    fetchPendingReconciliation()
+  }
+
   const getTotalSelectedAmount = () => {
     return items.filter((i) => selectedIds.has(i.repaymentId)).reduce((sum, i) => sum + i.amount, 0)
   }
@@ -158,6 +254,29 @@ export function ReconciliationPage() {
           <h1 className="reconciliation-title">Reconciliation</h1>
           <p className="reconciliation-subtitle">{totalElements} items pending reconciliation</p>
         </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,.sta,.mt940"
+          className="statement-file-input"
+          onChange={handleStatementFile}
+        />
+        <button
+          className="btn-primary"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isImporting}
+        >
+          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+            <path
+              d="M4 16V18C4 19.1046 4.89543 20 6 20H18C19.1046 20 20 19.1046 20 18V16M16 8L12 4M12 4L8 8M12 4V16"
+              stroke="currentColor"
+              strokeWidth="2"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </svg>
+          {isImporting ? 'Matching...' : 'Import Statement'}
+        </button>
       </div>
 
       {/* Alerts */}
@@ -174,6 +293,20 @@ export function ReconciliationPage() {
         </div>
       )}
 
+      {/* Statement Matches */}
+      {statement && (
+        <StatementMatchPanel
+          fileName={statement.fileName}
+          format={statement.format}
+          matches={statement.matches}
+          skippedDebits={statement.skippedDebits}
+          parseErrors={statement.errors}
+          isProcessing={isProcessing}
+          onConfirm={handleConfirmMatches}
+          onClear={() => setStatement(null)}
+        />
+      )}
+
       {/* Bulk Actions Bar */}
       {selectedIds.size > 0 && (
         <div className="bulk-actions-bar">
@@ -0,0 +1,264 @@
+/**
+ * Statement Match Panel
+ * Review auto-matched statement credits, adjust discrepancies and confirm them in bulk
+ */
+
+import { useState, useEffect, useMemo } from 'react'
+import type { StatementMatch, MatchConfidence } from '../statementMatching'
+import type { StatementFormat } from '../statementParser'
+import './StatementMatchPanel.css'
+
+export interface StatementConfirmation {
+  match: StatementMatch
+  discrepancyAmount: number
+}
+
+interface StatementMatchPanelProps {
+  fileName: string
+  format: StatementFormat
+  matches: StatementMatch[]
+  skippedDebits: number
+  parseErrors: string[]
+  isProcessing: boolean
+  onConfirm: (confirmations: StatementConfirmation[]) => void
+  onClear: () => void
+}
+
+const CONFIDENCE_BADGES: Record<MatchConfidence, { label: string; className: string }> = {
+  HIGH: { label: 'High', className: 'badge--success' },
+  MEDIUM: { label: 'Medium', className: 'badge--info' },
+  LOW: { label: 'Low', className: 'badge--warning' },
+  NONE: { label: 'Unmatched', className: 'badge--default' },
+}
+
+const matchKey = (match: StatementMatch) => match.line.lineNumber
+
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: 'INR',
+    maximumFractionDigits: 2,
+  }).format(amount)
+}
+
+const formatDate = (dateStr?: string): string => {
+  if (!dateStr) return '-'
+  return new Date(dateStr).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  })
+}
+
+export function StatementMatchPanel({
+  fileName,
+  format,
+  matches,
+  skippedDebits,
+  parseErrors,
+  isProcessing,
+  onConfirm,
+  onClear,
+}: StatementMatchPanelProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set())
+  const [discrepancies, setDiscrepancies] = useState<Record<number, string>>({})
+  const [showErrors, setShowErrors] = useState(false)
+
+  // Pre-select confident exact matches; near-misses need a look first
+  useEffect(() => {
+    setSelected(
+      new Set(
+        matches
+          .filter((match) => match.item && match.confidence === 'HIGH' && match.discrepancyAmount === 0)
+          .map(matchKey)
+      )
+    )
+    setDiscrepancies(
+      Object.fromEntries(
+        matches
+          .filter((match) => match.item && match.discrepancyAmount !== 0)
+          .map((match) => [matchKey(match), String(match.discrepancyAmount)])
+      )
+    )
+  }, [matches])
+
+  const matchable = matches.filter((match) => match.item)
+  const counts = useMemo(() => {
+    return matches.reduce(
+      (acc, match) => ({ ...acc, [match.confidence]: acc[match.confidence] + 1 }),
+      { HIGH: 0, MEDIUM: 0, LOW: 0, NONE: 0 } as Record<MatchConfidence, number>
+    )
+  }, [matches])
+
+  const toggle = (key: number) => {
+    const next = new Set(selected)
+    if (next.has(key)) {
+      next.delete(key)
+    } else {
+      next.add(key)
+    }
+    setSelected(next)
+  }
+
+  const toggleAll = () => {
+    setSelected(selected.size === matchable.length ? new Set() : new Set(matchable.map(matchKey)))
+  }
+
+  const handleConfirm = () => {
+    onConfirm(
+      matchable
+        .filter((match) => selected.has(matchKey(match)))
+        .map((match) => ({
+          match,
+          discrepancyAmount: parseFloat(discrepancies[matchKey(match)] || '0') || 0,
+        }))
+    )
+  }
+
+  return (
+    <div className="statement-panel">
+      <div className="statement-panel__header">
+        <div>
+          <h3 className="statement-panel__title">Statement Matches</h3>
+          <p className="statement-panel__subtitle">
+            {fileName} · {format} · {matches.length} credits
+            {skippedDebits > 0 && ` · ${skippedDebits} debits ignored`}
+          </p>
+        </div>
+        <div className="statement-panel__actions">
+          <button className="btn-secondary" onClick={onClear} disabled={isProcessing}>
+            Clear
+          </button>
+          <button
+            className="btn-primary"
+            onClick={handleConfirm}
+            disabled={isProcessing || selected.size === 0}
+          >
+            {isProcessing ? 'Processing...' : `Confirm ${selected.size} Match${selected.size === 1 ? '' : 'es'}`}
+          </button>
+        </div>
+      </div>
+
+      <div className="statement-panel__summary">
+        {(Object.keys(CONFIDENCE_BADGES) as MatchConfidence[]).map((confidence) => (
+          <span key={confidence} className={`badge ${CONFIDENCE_BADGES[confidence].className}`}>
+            {CONFIDENCE_BADGES[confidence].label}: {counts[confidence]}
+          </span>
+        ))}
+        {parseErrors.length > 0 && (
+          <button className="statement-panel__errors-toggle" onClick={() => setShowErrors((v) => !v)}>
+            {parseErrors.length} line(s) could not be read
+          </button>
+        )}
+      </div>
+
+      {showErrors && (
+        <ul className="statement-panel__errors">
+          {parseErrors.map((message) => (
+            <li key={message}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {matches.length === 0 ? (
+        <div className="empty-state">
+          <p>No credits found</p>
+          <span>The statement did not contain any credit lines</span>
+        </div>
+      ) : (
+        <div className="table-container">
+          <table className="reconciliation-table">
+            <thead>
+              <tr>
+                <th className="th-checkbox">
+                  <input
+                    type="checkbox"
+                    checked={selected.size === matchable.length && matchable.length > 0}
+                    onChange={toggleAll}
+                  />
+                </th>
+                <th>Statement Date</th>
+                <th>Credit</th>
+                <th>Reference</th>
+                <th>Matched Repayment</th>
+                <th>Recorded</th>
+                <th>Confidence</th>
+                <th>Discrepancy</th>
+              </tr>
+            </thead>
+            <tbody>
+              {matches.map((match) => {
+                const key = matchKey(match)
+                const badge = CONFIDENCE_BADGES[match.confidence]
+                return (
+                  <tr key={key} className={selected.has(key) ? 'row--selected' : ''}>
+                    <td className="td-checkbox">
+                      <input
+                        type="checkbox"
+                        checked={selected.has(key)}
+                        disabled={!match.item}
+                        onChange={() => toggle(key)}
+                      />
+                    </td>
+                    <td>{formatDate(match.line.date)}</td>
+                    <td className="cell-amount">{formatCurrency(match.line.amount)}</td>
+                    <td>
+                      <div className="statement-ref">
+                        <span className="cell-mono">{match.line.reference || '-'}</span>
+                        {match.line.narration && (
+                          <span className="statement-ref__narration" title={match.line.narration}>
+                            {match.line.narration}
+                          </span>
+                        )}
+                      </div>
+                    </td>
+                    <td>
+                      {match.item ? (
+                        <div className="statement-ref">
+                          <span className="cell-mono">{match.item.repaymentNumber}</span>
+                          <span className="statement-ref__narration">{match.item.customerName}</span>
+                        </div>
+                      ) : (
+                        <span className="text-muted">No candidate</span>
+                      )}
+                    </td>
+                    <td>
+                      {match.item ? (
+                        <div className="statement-ref">
+                          <span>{formatCurrency(match.item.amount)}</span>
+                          <span className="statement-ref__narration">{formatDate(match.item.paymentDate)}</span>
+                        </div>
+                      ) : (
+                        '-'
+                      )}
+                    </td>
+                    <td>
+                      <span className={`badge ${badge.className}`} title={match.reasons.join(', ')}>
+                        {badge.label}
+                        {match.item && ` · ${match.score}%`}
+                      </span>
+                    </td>
+                    <td>
+                      {match.item && match.discrepancyAmount !== 0 ? (
+                        <input
+                          type="number"
+                          className="form-input statement-discrepancy"
+                          value={discrepancies[key] ?? ''}
+                          onChange={(e) => setDiscrepancies((prev) => ({ ...prev, [key]: e.target.value }))}
+                        />
+                      ) : (
+                        '-'
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default StatementMatchPanel
@@ -0,0 +1,6 @@
+/**
+ * Reconciliation Page Components
+ */
+
+export { StatementMatchPanel } from './StatementMatchPanel'
+export type { StatementConfirmation } from './StatementMatchPanel'
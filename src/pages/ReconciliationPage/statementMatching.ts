@@ -0,0 +1,144 @@
+/**
+ * Statement Matching
+ * Scores bank statement credits against pending reconciliation entries and pairs them one-to-one
+ */
+
+import type { ReconciliationDTO } from '@types'
+import type { StatementLine } from './statementParser'
+
+export type MatchConfidence = 'HIGH' | 'MEDIUM' | 'LOW' | 'NONE'
+
+export interface StatementMatch {
+  line: StatementLine
+  item?: ReconciliationDTO
+  score: number
+  confidence: MatchConfidence
+  reasons: string[]
+  // Bank credit minus recorded repayment amount; zero for exact matches
+  discrepancyAmount: number
+}
+
+// Payments can settle a few days after the recorded payment date
+export const DATE_WINDOW_DAYS = 3
+
+// Credits within this share of the repayment amount are treated as near-misses
+export const AMOUNT_TOLERANCE_PERCENT = 5
+
+const REFERENCE_POINTS = 50
+const EXACT_AMOUNT_POINTS = 35
+const NEAR_AMOUNT_POINTS = 20
+const DATE_POINTS = 15
+const MIN_MATCH_SCORE = 35
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Map a 0..100 score to a confidence band
+ */
+export const getMatchConfidence = (score: number): MatchConfidence => {
+  if (score >= 80) return 'HIGH'
+  if (score >= 55) return 'MEDIUM'
+  if (score >= MIN_MATCH_SCORE) return 'LOW'
+  return 'NONE'
+}
+
+const normalizeReference = (value: string | undefined): string =>
+  (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '')
+
+const daysBetween = (a: string, b: string): number | null => {
+  const first = new Date(a.slice(0, 10)).getTime()
+  const second = new Date(b.slice(0, 10)).getTime()
+  if (isNaN(first) || isNaN(second)) return null
+  return Math.round(Math.abs(first - second) / MS_PER_DAY)
+}
+
+const roundAmount = (amount: number): number => Math.round(amount * 100) / 100
+
+/**
+ * Score one statement credit against one pending entry
+ * References found in the statement reference or narration weigh most, then amount, then date proximity.
+ */
+export const scoreCandidate = (
+  line: StatementLine,
+  item: ReconciliationDTO
+): { score: number; reasons: string[] } => {
+  const reasons: string[] = []
+  let score = 0
+
+  const haystack = normalizeReference(`${line.reference || ''} ${line.narration || ''}`)
+  const references = [item.transactionReference, item.bankReferenceNumber, item.repaymentNumber]
+    .map(normalizeReference)
+    .filter((reference) => reference.length >= 4)
+  if (references.some((reference) => haystack.includes(reference))) {
+    score += REFERENCE_POINTS
+    reasons.push('Reference matches')
+  }
+
+  const difference = Math.abs(line.amount - item.amount)
+  let amountInRange = false
+  if (difference < 0.01) {
+    score += EXACT_AMOUNT_POINTS
+    amountInRange = true
+    reasons.push('Exact amount')
+  } else if (item.amount > 0 && (difference / item.amount) * 100 <= AMOUNT_TOLERANCE_PERCENT) {
+    const closeness = 1 - (difference / item.amount) * 100 / AMOUNT_TOLERANCE_PERCENT
+    score += Math.round(NEAR_AMOUNT_POINTS * closeness)
+    amountInRange = true
+    reasons.push(`Amount differs by ${roundAmount(difference)}`)
+  }
+
+  const days = line.date ? daysBetween(line.date, item.paymentDate) : null
+  if (days !== null && days <= DATE_WINDOW_DAYS) {
+    score += Math.round(DATE_POINTS * (1 - days / (DATE_WINDOW_DAYS + 1)))
+    reasons.push(days === 0 ? 'Same date' : `${days} day(s) apart`)
+  }
+
+  // Without a reference, a credit far off the recorded amount is never a match
+  if (!amountInRange && !reasons.includes('Reference matches')) {
+    return { score: 0, reasons: [] }
+  }
+
+  return { score: Math.min(100, score), reasons }
+}
+
+/**
+ * Match statement credits to pending entries
+ * Candidate pairs are taken greedily from the highest score down so each entry is used at most once.
+ */
+export const matchStatement = (lines: StatementLine[], items: ReconciliationDTO[]): StatementMatch[] => {
+  const credits = lines.filter((line) => line.direction === 'CREDIT')
+  const pairs: { lineIndex: number; item: ReconciliationDTO; score: number; reasons: string[] }[] = []
+
+  credits.forEach((line, lineIndex) => {
+    items.forEach((item) => {
+      const { score, reasons } = scoreCandidate(line, item)
+      if (score >= MIN_MATCH_SCORE) pairs.push({ lineIndex, item, score, reasons })
+    })
+  })
+  pairs.sort((a, b) => b.score - a.score)
+
+  const matches: StatementMatch[] = credits.map((line) => ({
+    line,
+    score: 0,
+    confidence: 'NONE',
+    reasons: [],
+    discrepancyAmount: 0,
+  }))
+  const usedItems = new Set<number>()
+
+  pairs.forEach((pair) => {
+    const match = matches[pair.lineIndex]
+    if (match.item || usedItems.has(pair.item.repaymentId)) return
+    usedItems.add(pair.item.repaymentId)
+    matches[pair.lineIndex] = {
+      ...match,
+      item: pair.item,
+      score: pair.score,
+      confidence: getMatchConfidence(pair.score),
+      reasons: pair.reasons,
+      discrepancyAmount: roundAmount(match.line.amount - pair.item.amount),
+    }
+  })
+
+  return matches
+}
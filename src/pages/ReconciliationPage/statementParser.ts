@@ -0,0 +1,252 @@
+/**
+ * Statement Parser
+ * Parses bank statements (CSV exports or MT940 text) into credit/debit lines
+ */
+
+export type StatementFormat = 'CSV' | 'MT940'
+
+export type StatementDirection = 'CREDIT' | 'DEBIT'
+
+export interface StatementLine {
+  lineNumber: number
+  date?: string
+  amount: number
+  direction: StatementDirection
+  reference?: string
+  narration?: string
+}
+
+export interface ParsedStatement {
+  format: StatementFormat
+  lines: StatementLine[]
+  errors: string[]
+}
+
+const MONTHS: Record<string, number> = {
+  JAN: 1, FEB: 2, MAR: 3, APR: 4, MAY: 5, JUN: 6, JUL: 7, AUG: 8, SEP: 9, OCT: 10, NOV: 11, DEC: 12,
+}
+
+// Header names used by common Indian bank CSV exports, matched case-insensitively
+const CSV_COLUMNS = {
+  date: ['txn date', 'transaction date', 'value date', 'date', 'posting date'],
+  narration: ['narration', 'description', 'particulars', 'remarks', 'details'],
+  reference: ['utr', 'reference', 'ref no', 'ref no.', 'reference no', 'chq/ref no', 'cheque no', 'transaction id'],
+  credit: ['credit', 'credit amount', 'deposit', 'deposit amount', 'cr amount'],
+  debit: ['debit', 'debit amount', 'withdrawal', 'withdrawal amount', 'dr amount'],
+  amount: ['amount', 'txn amount', 'transaction amount'],
+  type: ['type', 'cr/dr', 'dr/cr', 'txn type'],
+}
+
+const pad = (value: number): string => String(value).padStart(2, '0')
+
+const toIsoDate = (year: number, month: number, day: number): string | undefined => {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined
+  const fullYear = year < 100 ? 2000 + year : year
+  return `${fullYear}-${pad(month)}-${pad(day)}`
+}
+
+/**
+ * Parse statement dates (yyyy-MM-dd, dd/MM/yyyy, dd-MM-yy, dd-MMM-yyyy) to yyyy-MM-dd
+ */
+export const parseStatementDate = (value: string): string | undefined => {
+  const text = value.trim()
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/)
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]))
+
+  match = text.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[A-Za-z]*[\s/-](\d{2}|\d{4})$/)
+  if (match) {
+    const month = MONTHS[match[2].toUpperCase()]
+    return month ? toIsoDate(Number(match[3]), month, Number(match[1])) : undefined
+  }
+  return undefined
+}
+
+/**
+ * Parse amounts such as "1,25,000.00", "₹ 500" or "500.00 Cr"
+ */
+export const parseStatementAmount = (value: string | undefined): number => {
+  if (!value) return 0
+  const cleaned = value.replace(/[^\d.-]/g, '')
+  const amount = parseFloat(cleaned)
+  return isNaN(amount) ? 0 : Math.abs(amount)
+}
+
+/**
+ * Split one CSV row, honouring double-quoted fields
+ */
+const splitCsvRow = (row: string, delimiter: string): string[] => {
+  const cells: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < row.length; i++) {
+    const char = row[i]
+    if (char === '"') {
+      if (inQuotes && row[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (char === delimiter && !inQuotes) {
+      cells.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  cells.push(current.trim())
+  return cells
+}
+
+const findColumn = (headers: string[], names: string[]): number =>
+  headers.findIndex((header) => names.includes(header))
+
+// A header row names a date column, an amount column and at least one other known column
+const MIN_HEADER_COLUMNS = 3
+
+const getDelimiter = (row: string): string =>
+  row.split('\t').length > row.split(',').length ? '\t' : ','
+
+const toHeaders = (row: string): string[] =>
+  splitCsvRow(row, getDelimiter(row)).map((header) => header.toLowerCase())
+
+const isHeaderRow = (row: string): boolean => {
+  const headers = toHeaders(row)
+  const matched = Object.values(CSV_COLUMNS).filter((names) => findColumn(headers, names) >= 0)
+  const hasAmount = [CSV_COLUMNS.credit, CSV_COLUMNS.debit, CSV_COLUMNS.amount].some(
+    (names) => findColumn(headers, names) >= 0
+  )
+  const hasDate = findColumn(headers, CSV_COLUMNS.date) >= 0
+  return hasDate && hasAmount && matched.length >= MIN_HEADER_COLUMNS
+}
+
+const parseCsv = (text: string): ParsedStatement => {
+  const rows = text.split(/\r?\n/)
+  const errors: string[] = []
+  const lines: StatementLine[] = []
+
+  // Bank exports often carry account details (e.g. "Statement Date,...") above the header,
+  // so the header is the first row whose cells name several known columns
+  const headerIndex = rows.findIndex(isHeaderRow)
+  if (headerIndex === -1) {
+    return {
+      format: 'CSV',
+      lines,
+      errors: ['Could not find a header row with date and amount columns'],
+    }
+  }
+
+  const headerRow = rows[headerIndex]
+  const delimiter = getDelimiter(headerRow)
+  const headers = toHeaders(headerRow)
+  const columns = {
+    date: findColumn(headers, CSV_COLUMNS.date),
+    narration: findColumn(headers, CSV_COLUMNS.narration),
+    reference: findColumn(headers, CSV_COLUMNS.reference),
+    credit: findColumn(headers, CSV_COLUMNS.credit),
+    debit: findColumn(headers, CSV_COLUMNS.debit),
+    amount: findColumn(headers, CSV_COLUMNS.amount),
+    type: findColumn(headers, CSV_COLUMNS.type),
+  }
+
+  if (columns.credit === -1 && columns.amount === -1) {
+    return { format: 'CSV', lines, errors: ['Could not find a credit or amount column'] }
+  }
+
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    if (!row.trim()) return
+    const lineNumber = headerIndex + index + 2
+    const cells = splitCsvRow(row, delimiter)
+    const cell = (column: number) => (column >= 0 ? cells[column] : undefined)
+
+    const date = parseStatementDate(cell(columns.date) || '')
+    if (!date) {
+      errors.push(`Line ${lineNumber}: unreadable date "${cell(columns.date) || ''}"`)
+      return
+    }
+
+    let amount = 0
+    let direction: StatementDirection = 'CREDIT'
+    if (columns.credit >= 0 && parseStatementAmount(cell(columns.credit)) > 0) {
+      amount = parseStatementAmount(cell(columns.credit))
+    } else if (columns.debit >= 0 && parseStatementAmount(cell(columns.debit)) > 0) {
+      amount = parseStatementAmount(cell(columns.debit))
+      direction = 'DEBIT'
+    } else if (columns.amount >= 0) {
+      const rawAmount = cell(columns.amount) || ''
+      const type = (cell(columns.type) || rawAmount).toUpperCase()
+      amount = parseStatementAmount(rawAmount)
+      direction = /\bDR?\b|DEBIT|^-/.test(type.trim()) ? 'DEBIT' : 'CREDIT'
+    }
+
+    if (amount <= 0) {
+      errors.push(`Line ${lineNumber}: no amount`)
+      return
+    }
+
+    lines.push({
+      lineNumber,
+      date,
+      amount,
+      direction,
+      reference: cell(columns.reference) || undefined,
+      narration: cell(columns.narration) || undefined,
+    })
+  })
+
+  return { format: 'CSV', lines, errors }
+}
+
+// :61:YYMMDD[MMDD]<C|D|RC|RD>[funds code]<amount>N<type><customer ref>[//bank ref]
+const MT940_STATEMENT_LINE = /^:61:(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+(?:,\d*)?)[A-Z]([A-Z0-9]{3})([^/\r\n]*)(?:\/\/(.*))?/
+
+const parseMt940 = (text: string): ParsedStatement => {
+  const rows = text.split(/\r?\n/)
+  const errors: string[] = []
+  const lines: StatementLine[] = []
+  let current: StatementLine | null = null
+  let inNarration = false
+
+  rows.forEach((row, index) => {
+    if (row.startsWith(':61:')) {
+      inNarration = false
+      const match = row.match(MT940_STATEMENT_LINE)
+      if (!match) {
+        errors.push(`Line ${index + 1}: unreadable :61: statement line`)
+        current = null
+        return
+      }
+      const customerReference = match[9].trim()
+      const bankReference = match[10]?.trim()
+      current = {
+        lineNumber: index + 1,
+        date: toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])),
+        amount: parseFloat(match[7].replace(',', '.')),
+        // Reversals of a debit are credits and vice versa
+        direction: match[5] === 'C' || match[5] === 'RD' ? 'CREDIT' : 'DEBIT',
+        reference: customerReference && customerReference !== 'NONREF' ? customerReference : bankReference,
+      }
+      lines.push(current)
+    } else if (row.startsWith(':86:')) {
+      inNarration = true
+      if (current) current.narration = row.slice(4).trim()
+    } else if (row.startsWith(':')) {
+      inNarration = false
+    } else if (inNarration && current && row.trim()) {
+      current.narration = `${current.narration || ''} ${row.trim()}`.trim()
+    }
+  })
+
+  return { format: 'MT940', lines, errors }
+}
+
+/**
+ * Detect the statement format and parse it
+ */
+export const parseStatement = (text: string): ParsedStatement => {
+  return /^:61:/m.test(text) ? parseMt940(text) : parseCsv(text)
+}
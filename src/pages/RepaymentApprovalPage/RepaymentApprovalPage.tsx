@@ -3,28 +3,68 @@
  * Manage pending repayment approvals with bulk actions
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { repaymentService } from '@services/api'
-import type { Repayment, PageResponse } from '@types'
-import { PAYMENT_MODE_LABELS } from '@types'
+import { useAuth, usePermission } from '@hooks'
+import {
+  usePendingApprovals,
+  useApproveRepayment,
+  useRejectRepayment,
+  useApprovalChainRules,
+  useApprovalHistories,
+} from '@services/queries'
+import { Can } from '@components/common'
+import { PERMISSIONS } from '@config/constants'
+import type { Repayment } from '@types'
+import {
+  PAYMENT_MODE_LABELS,
+  getRequiredApprovalLevels,
+  getCurrentApprovalLevel,
+  getApprovalBlockReason,
+} from '@types'
+import { ApprovalChainsModal } from './components'
 import './RepaymentApprovalPage.css'
 
+// The pending list does not carry approval history; anything past level 1 needs it for maker-checker
+const needsApprovalHistory = (repayment: Repayment): boolean =>
+  !repayment.approvalHistory && (repayment.currentApprovalLevel ?? 2) > 1
+
 export function RepaymentApprovalPage() {
   const navigate = useNavigate()
+  const { user } = useAuth()
+  const { hasPermission } = usePermission()
 
-  const [repayments, setRepayments] = useState<Repayment[]>([])
   const [selectedIds, setSelectedIds] = useState<Set<number>>(new Set())
-  const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
   const [successMessage, setSuccessMessage] = useState('')
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(0)
-  const [totalPages, setTotalPages] = useState(0)
-  const [totalElements, setTotalElements] = useState(0)
   const pageSize = 20
 
+  const {
+    data,
+    isLoading,
+    error: fetchError,
+    refetch,
+  } = usePendingApprovals(currentPage, pageSize)
+  const pendingRepayments = data?.content ?? []
+  const historyIds = pendingRepayments.filter(needsApprovalHistory).map((repayment) => repayment.id)
+  const { histories, failedIds } = useApprovalHistories(historyIds)
+  const repayments = pendingRepayments.map((repayment) =>
+    histories[repayment.id] ? { ...repayment, approvalHistory: histories[repayment.id] } : repayment
+  )
+  const totalPages = data?.totalPages ?? 0
+  const totalElements = data?.totalElements ?? 0
+
+  const approveRepayment = useApproveRepayment()
+  const rejectRepayment = useRejectRepayment()
+  // Approvers need the chain rules too, to know how many levels a repayment requires
+  const { data: chainRules = [] } = useApprovalChainRules(
+    hasPermission(PERMISSIONS.REPAYMENT_APPROVE) ||
+      hasPermission(PERMISSIONS.REPAYMENT_APPROVAL_CONFIG)
+  )
+
   // Modal states
   const [showApproveModal, setShowApproveModal] = useState(false)
   const [showRejectModal, setShowRejectModal] = useState(false)
@@ -32,29 +72,7 @@ export function RepaymentApprovalPage() {
   const [approvalComments, setApprovalComments] = useState('')
   const [rejectionReason, setRejectionReason] = useState('')
   const [isProcessing, setIsProcessing] = useState(false)
-
-  const fetchPendingApprovals = useCallback(async () => {
-    try {
-      setIsLoading(true)
-      setError('')
-
-      const response: PageResponse<Repayment> = await repaymentService.getPendingApprovals(
-        currentPage,
-        pageSize
-      )
-      setRepayments(response.content)
-      setTotalPages(response.totalPages)
-      setTotalElements(response.totalElements)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch pending approvals')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [currentPage])
-
-  useEffect(() => {
-    fetchPendingApprovals()
-  }, [fetchPendingApprovals])
+  const [showChainsModal, setShowChainsModal] = useState(false)
 
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-IN', {
@@ -73,6 +91,18 @@ export function RepaymentApprovalPage() {
     })
   }
 
+  /**
+   * Maker-checker block for a listed repayment; approval waits until its history has loaded
+   */
+  const getBlockReason = (repayment: Repayment): string | null => {
+    if (historyIds.includes(repayment.id) && !repayment.approvalHistory) {
+      return failedIds.has(repayment.id)
+        ? 'Approval history could not be loaded; open the repayment to approve it'
+        : 'Loading approval history...'
+    }
+    return getApprovalBlockReason(repayment, user?.id)
+  }
+
   const handleSelectAll = () => {
     if (selectedIds.size === repayments.length) {
       setSelectedIds(new Set())
@@ -110,21 +140,39 @@ export function RepaymentApprovalPage() {
 
       if (selectedRepayment) {
         // Single approval
-        await repaymentService.approve(selectedRepayment.id, approvalComments || undefined)
-        setSuccessMessage('Repayment approved successfully')
+        const level = getCurrentApprovalLevel(selectedRepayment)
+        const requiredLevels = getRequiredApprovalLevels(selectedRepayment, chainRules)
+        await approveRepayment.mutateAsync({
+          id: selectedRepayment.id,
+          comments: approvalComments || undefined,
+          approvalLevel: level,
+        })
+        setSuccessMessage(
+          level < requiredLevels
+            ? `Level ${level} approved - awaiting level ${level + 1} of ${requiredLevels}`
+            : 'Repayment approved successfully'
+        )
       } else {
-        // Bulk approval
-        const ids = Array.from(selectedIds)
-        for (const id of ids) {
-          await repaymentService.approve(id, approvalComments || undefined)
+        // Bulk approval - maker-checker blocked repayments are skipped
+        const selected = repayments.filter((r) => selectedIds.has(r.id))
+        const approvable = selected.filter((r) => !getBlockReason(r))
+        for (const repayment of approvable) {
+          await approveRepayment.mutateAsync({
+            id: repayment.id,
+            comments: approvalComments || undefined,
+            approvalLevel: getCurrentApprovalLevel(repayment),
+          })
         }
-        setSuccessMessage(`${ids.length} repayments approved successfully`)
+        const skipped = selected.length - approvable.length
+        setSuccessMessage(
+          `${approvable.length} repayments approved successfully` +
+            (skipped > 0 ? ` (${skipped} skipped - you cannot approve your own captures or sign two levels)` : '')
+        )
         setSelectedIds(new Set())
       }
 
       setShowApproveModal(false)
       setApprovalComments('')
-      fetchPendingApprovals()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to approve repayment(s)')
     } finally {
@@ -141,13 +189,13 @@ export function RepaymentApprovalPage() {
 
       if (selectedRepayment) {
         // Single rejection
-        await repaymentService.reject(selectedRepayment.id, rejectionReason)
+        await rejectRepayment.mutateAsync({ id: selectedRepayment.id, reason: rejectionReason })
         setSuccessMessage('Repayment rejected successfully')
       } else {
         // Bulk rejection
         const ids = Array.from(selectedIds)
         for (const id of ids) {
-          await repaymentService.reject(id, rejectionReason)
+          await rejectRepayment.mutateAsync({ id, reason: rejectionReason })
         }
         setSuccessMessage(`${ids.length} repayments rejected successfully`)
         setSelectedIds(new Set())
@@ -155,7 +203,6 @@ export function RepaymentApprovalPage() {
 
       setShowRejectModal(false)
       setRejectionReason('')
-      fetchPendingApprovals()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to reject repayment(s)')
     } finally {
@@ -189,15 +236,25 @@ export function RepaymentApprovalPage() {
           <h1 className="approval-title">Pending Approvals</h1>
           <p className="approval-subtitle">{totalElements} repayments awaiting approval</p>
         </div>
+        <Can permission={PERMISSIONS.REPAYMENT_APPROVAL_CONFIG}>
+          <button className="btn-secondary" onClick={() => setShowChainsModal(true)}>
+            Approval Chains
+          </button>
+        </Can>
       </div>
 
       {/* Alerts */}
-      {error && (
+      {error ? (
         <div className="alert alert--error">
           <span>{error}</span>
           <button onClick={() => setError('')}>Dismiss</button>
         </div>
-      )}
+      ) : fetchError ? (
+        <div className="alert alert--error">
+          <span>{fetchError.message || 'Failed to fetch pending approvals'}</span>
+          <button onClick={() => refetch()}>Retry</button>
+        </div>
+      ) : null}
       {successMessage && (
         <div className="alert alert--success">
           <span>{successMessage}</span>
@@ -279,77 +336,89 @@ export function RepaymentApprovalPage() {
                     <th>Payment Mode</th>
                     <th>Date</th>
                     <th>Collector</th>
+                    <th>Level</th>
                     <th>Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {repayments.map((repayment) => (
-                    <tr
-                      key={repayment.id}
-                      className={selectedIds.has(repayment.id) ? 'row--selected' : ''}
-                    >
-                      <td className="td-checkbox">
-                        <input
-                          type="checkbox"
-                          checked={selectedIds.has(repayment.id)}
-                          onChange={() => handleSelectOne(repayment.id)}
-                        />
-                      </td>
-                      <td
-                        className="cell-link"
-                        onClick={() => navigate(`/repayment/${repayment.id}`)}
+                  {repayments.map((repayment) => {
+                    const blockReason = getBlockReason(repayment)
+                    return (
+                      <tr
+                        key={repayment.id}
+                        className={selectedIds.has(repayment.id) ? 'row--selected' : ''}
                       >
-                        {repayment.repaymentNumber || `#${repayment.id}`}
-                      </td>
-                      <td>{repayment.customerName}</td>
-                      <td className="cell-mono">{repayment.loanAccountNumber || '-'}</td>
-                      <td className="cell-amount">{formatCurrency(repayment.amount)}</td>
-                      <td>
-                        {PAYMENT_MODE_LABELS[repayment.paymentMode as keyof typeof PAYMENT_MODE_LABELS] ||
-                          repayment.paymentMode}
-                      </td>
-                      <td>{formatDateTime(repayment.paymentDate)}</td>
-                      <td>{repayment.collectorName || '-'}</td>
-                      <td>
-                        <div className="table-actions">
-                          <button
-                            className="btn-icon btn-icon--success"
-                            title="Approve"
-                            onClick={() => openApproveModal(repayment)}
-                          >
-                            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                              <path d="M5 13L9 17L19 7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                            </svg>
-                          </button>
-                          <button
-                            className="btn-icon btn-icon--danger"
-                            title="Reject"
-                            onClick={() => openRejectModal(repayment)}
-                          >
-                            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                              <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                            </svg>
-                          </button>
-                          <button
-                            className="btn-icon"
-                            title="View Details"
-                            onClick={() => navigate(`/repayment/${repayment.id}`)}
-                          >
-                            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                              <path
-                                d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"
-                                stroke="currentColor"
-                                strokeWidth="2"
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                              />
-                              <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" />
-                            </svg>
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
+                        <td className="td-checkbox">
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.has(repayment.id)}
+                            onChange={() => handleSelectOne(repayment.id)}
+                          />
+                        </td>
+                        <td
+                          className="cell-link"
+                          onClick={() => navigate(`/repayment/${repayment.id}`)}
+                        >
+                          {repayment.repaymentNumber || `#${repayment.id}`}
+                        </td>
+                        <td>{repayment.customerName}</td>
+                        <td className="cell-mono">{repayment.loanAccountNumber || '-'}</td>
+                        <td className="cell-amount">{formatCurrency(repayment.amount)}</td>
+                        <td>
+                          {PAYMENT_MODE_LABELS[repayment.paymentMode as keyof typeof PAYMENT_MODE_LABELS] ||
+                            repayment.paymentMode}
+                        </td>
+                        <td>{formatDateTime(repayment.paymentDate)}</td>
+                        <td>{repayment.collectorName || '-'}</td>
+                        <td>
+                          <span className="level-badge">
+                            L{getCurrentApprovalLevel(repayment)} / {getRequiredApprovalLevels(repayment, chainRules)}
+                          </span>
+                          {repayment.isOtsPayment && <span className="ots-tag">OTS</span>}
+                          {repayment.capturedBy === user?.id && <span className="maker-tag">Your capture</span>}
+                        </td>
+                        <td>
+                          <div className="table-actions">
+                            <button
+                              className="btn-icon btn-icon--success"
+                              title={blockReason || 'Approve'}
+                              disabled={!!blockReason}
+                              onClick={() => openApproveModal(repayment)}
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M5 13L9 17L19 7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                              </svg>
+                            </button>
+                            <button
+                              className="btn-icon btn-icon--danger"
+                              title="Reject"
+                              onClick={() => openRejectModal(repayment)}
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                              </svg>
+                            </button>
+                            <button
+                              className="btn-icon"
+                              title="View Details"
+                              onClick={() => navigate(`/repayment/${repayment.id}`)}
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path
+                                  d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"
+                                  stroke="currentColor"
+                                  strokeWidth="2"
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                />
+                                <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" />
+                              </svg>
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
                 </tbody>
               </table>
             </div>
@@ -484,6 +553,15 @@ export function RepaymentApprovalPage() {
           </div>
         </div>
       )}
+
+      <ApprovalChainsModal
+        isOpen={showChainsModal}
+        onClose={() => setShowChainsModal(false)}
+        onSaved={() => {
+          setShowChainsModal(false)
+          setSuccessMessage('Approval chains updated')
+        }}
+      />
     </div>
   )
 }
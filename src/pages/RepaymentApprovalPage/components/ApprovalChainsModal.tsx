@@ -0,0 +1,203 @@
+/**
+ * Approval Chains Modal
+ * Configure how many approval levels a repayment needs by amount and OTS status
+ */
+
+import { useState, useEffect } from 'react'
+import { Modal } from '@components/common/Modal'
+import { useApprovalChainRules, useSaveApprovalChainRules } from '@services/queries'
+import type { ApprovalChainRule } from '@types'
+import './ApprovalChainsModal.css'
+
+interface ApprovalChainsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onSaved: () => void
+}
+
+const MAX_APPROVAL_LEVELS = 5
+
+const createEmptyRule = (): ApprovalChainRule => ({
+  name: '',
+  minAmount: undefined,
+  otsOnly: false,
+  requiredLevels: 2,
+  isActive: true,
+})
+
+export function ApprovalChainsModal({ isOpen, onClose, onSaved }: ApprovalChainsModalProps) {
+  const { data: savedRules, isLoading } = useApprovalChainRules()
+  const saveRules = useSaveApprovalChainRules()
+  const [rules, setRules] = useState<ApprovalChainRule[]>([])
+  const [error, setError] = useState('')
+
+  // Start each edit session from the saved rules
+  useEffect(() => {
+    if (isOpen) {
+      setRules(savedRules ? savedRules.map((rule) => ({ ...rule })) : [])
+      setError('')
+    }
+  }, [isOpen, savedRules])
+
+  const updateRule = (index: number, changes: Partial<ApprovalChainRule>) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
+  }
+
+  const removeRule = (index: number) => {
+    setRules((prev) => prev.filter((_, i) => i !== index))
+  }
+
+  const validate = (): string => {
+    for (const rule of rules) {
+      if (!rule.name.trim()) return 'Every rule needs a name'
+      if (rule.minAmount !== undefined && rule.minAmount < 0) return `${rule.name}: amount cannot be negative`
+      if (rule.requiredLevels < 1 || rule.requiredLevels > MAX_APPROVAL_LEVELS) {
+        return `${rule.name}: levels must be between 1 and ${MAX_APPROVAL_LEVELS}`
+      }
+    }
+    return ''
+  }
+
+  const handleSave = async () => {
+    const validationError = validate()
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    try {
+      setError('')
+      await saveRules.mutateAsync(rules.map((rule) => ({ ...rule, name: rule.name.trim() })))
+      onSaved()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save approval chains')
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Approval Chains"
+      size="lg"
+      footer={
+        <>
+          <button className="btn-secondary" onClick={onClose} disabled={saveRules.isPending}>
+            Cancel
+          </button>
+          <button className="btn-success" onClick={handleSave} disabled={saveRules.isPending || isLoading}>
+            {saveRules.isPending ? 'Saving...' : 'Save Chains'}
+          </button>
+        </>
+      }
+    >
+      <div className="approval-chains">
+        <p className="approval-chains__hint">
+          Every repayment needs one approval. A matching rule raises that to its level count; when several rules
+          match, the strictest applies. The capturer can never approve their own repayment, and an approver can
+          only sign one level.
+        </p>
+
+        {error && <div className="alert alert--error">{error}</div>}
+
+        {isLoading ? (
+          <div className="loading-container">
+            <div className="spinner"></div>
+            <span>Loading approval chains...</span>
+          </div>
+        ) : (
+          <>
+            {rules.length === 0 ? (
+              <p className="approval-chains__empty">No rules configured - all repayments need a single approval.</p>
+            ) : (
+              <table className="approval-chains__table">
+                <thead>
+                  <tr>
+                    <th>Rule Name</th>
+                    <th>Amount At Least (₹)</th>
+                    <th>OTS Only</th>
+                    <th>Levels</th>
+                    <th>Active</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rules.map((rule, index) => (
+                    <tr key={rule.id ?? `new-${index}`}>
+                      <td>
+                        <input
+                          type="text"
+                          className="form-input"
+                          value={rule.name}
+                          onChange={(e) => updateRule(index, { name: e.target.value })}
+                          placeholder="e.g. High value"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          className="form-input"
+                          min={0}
+                          value={rule.minAmount ?? ''}
+                          onChange={(e) =>
+                            updateRule(index, {
+                              minAmount: e.target.value === '' ? undefined : Number(e.target.value),
+                            })
+                          }
+                          placeholder="Any amount"
+                        />
+                      </td>
+                      <td className="approval-chains__center">
+                        <input
+                          type="checkbox"
+                          checked={!!rule.otsOnly}
+                          onChange={(e) => updateRule(index, { otsOnly: e.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        <select
+                          className="form-input"
+                          value={rule.requiredLevels}
+                          onChange={(e) => updateRule(index, { requiredLevels: Number(e.target.value) })}
+                        >
+                          {Array.from({ length: MAX_APPROVAL_LEVELS }, (_, i) => i + 1).map((level) => (
+                            <option key={level} value={level}>
+                              {level}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="approval-chains__center">
+                        <input
+                          type="checkbox"
+                          checked={rule.isActive}
+                          onChange={(e) => updateRule(index, { isActive: e.target.checked })}
+                        />
+                      </td>
+                      <td>
+                        <button
+                          className="btn-icon btn-icon--danger"
+                          title="Remove rule"
+                          onClick={() => removeRule(index)}
+                        >
+                          <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                            <path d="M18 6L6 18M6 6L18 18" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                          </svg>
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <button className="btn-secondary" onClick={() => setRules((prev) => [...prev, createEmptyRule()])}>
+              + Add Rule
+            </button>
+          </>
+        )}
+      </div>
+    </Modal>
+  )
+}
+
+export default ApprovalChainsModal
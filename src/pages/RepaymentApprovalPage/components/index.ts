@@ -0,0 +1,5 @@
+/**
+ * Repayment Approval Page Components
+ */
+
+export { ApprovalChainsModal } from './ApprovalChainsModal'
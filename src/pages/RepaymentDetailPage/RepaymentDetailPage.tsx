@@ -3,19 +3,46 @@
  * View repayment details with approval/rejection actions
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { useNavigate, useParams } from 'react-router-dom'
 import { repaymentService } from '@services/api'
-import type { Repayment } from '@types'
-import { REPAYMENT_STATUS_LABELS, PAYMENT_MODE_LABELS } from '@types'
+import { useAuth, usePermission } from '@hooks'
+import {
+  useRepayment,
+  useApproveRepayment,
+  useRejectRepayment,
+  useApprovalHistory,
+  useApprovalChainRules,
+} from '@services/queries'
+import {
+  REPAYMENT_STATUS_LABELS,
+  PAYMENT_MODE_LABELS,
+  APPROVAL_DECISION_LABELS,
+  getRequiredApprovalLevels,
+  getCurrentApprovalLevel,
+  getApprovalBlockReason,
+} from '@types'
+import { Can } from '@components/common'
+import { PERMISSIONS } from '@config/constants'
 import './RepaymentDetailPage.css'
 
 export function RepaymentDetailPage() {
   const navigate = useNavigate()
   const { repaymentId } = useParams<{ repaymentId: string }>()
 
-  const [repayment, setRepayment] = useState<Repayment | null>(null)
-  const [isLoading, setIsLoading] = useState(true)
+  const { user } = useAuth()
+  const { hasPermission } = usePermission()
+  const { data: repayment, isLoading } = useRepayment(
+    repaymentId ? parseInt(repaymentId) : undefined
+  )
+  const { data: approvalHistory } = useApprovalHistory(repayment?.id)
+  // Approvers need the chain rules too, to know how many levels a repayment requires
+  const { data: chainRules = [] } = useApprovalChainRules(
+    hasPermission(PERMISSIONS.REPAYMENT_APPROVE) ||
+      hasPermission(PERMISSIONS.REPAYMENT_APPROVAL_CONFIG)
+  )
+  const approveRepayment = useApproveRepayment()
+  const rejectRepayment = useRejectRepayment()
   const [error, setError] = useState('')
   const [isProcessing, setIsProcessing] = useState(false)
 
@@ -25,25 +52,6 @@ export function RepaymentDetailPage() {
   const [approvalComments, setApprovalComments] = useState('')
   const [rejectionReason, setRejectionReason] = useState('')
 
-  const fetchRepayment = useCallback(async () => {
-    if (!repaymentId) return
-
-    try {
-      setIsLoading(true)
-      setError('')
-      const data = await repaymentService.getById(parseInt(repaymentId))
-      setRepayment(data)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch repayment')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [repaymentId])
-
-  useEffect(() => {
-    fetchRepayment()
-  }, [fetchRepayment])
-
   const formatCurrency = (amount: number): string => {
     return new Intl.NumberFormat('en-IN', {
       style: 'currency',
@@ -83,10 +91,13 @@ export function RepaymentDetailPage() {
 
     try {
       setIsProcessing(true)
-      await repaymentService.approve(repayment.id, approvalComments || undefined)
+      await approveRepayment.mutateAsync({
+        id: repayment.id,
+        comments: approvalComments || undefined,
+        approvalLevel: getCurrentApprovalLevel(repayment),
+      })
       setShowApproveModal(false)
       setApprovalComments('')
-      fetchRepayment()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to approve repayment')
     } finally {
@@ -99,10 +110,9 @@ export function RepaymentDetailPage() {
 
     try {
       setIsProcessing(true)
-      await repaymentService.reject(repayment.id, rejectionReason)
+      await rejectRepayment.mutateAsync({ id: repayment.id, reason: rejectionReason })
       setShowRejectModal(false)
       setRejectionReason('')
-      fetchRepayment()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to reject repayment')
     } finally {
@@ -152,6 +162,17 @@ export function RepaymentDetailPage() {
     )
   }
 
+  // Prefer the dedicated history endpoint; fall back to history embedded in the repayment
+  const historyRepayment = { ...repayment, approvalHistory: approvalHistory ?? repayment.approvalHistory }
+  const steps = historyRepayment.approvalHistory || []
+  const requiredLevels = getRequiredApprovalLevels(historyRepayment, chainRules)
+  const currentLevel = getCurrentApprovalLevel(historyRepayment)
+  const approvalBlockReason = getApprovalBlockReason(historyRepayment, user?.id)
+  const approvalLevels = Array.from(
+    { length: Math.max(requiredLevels, ...steps.map((step) => step.level)) },
+    (_, i) => i + 1
+  )
+
   return (
     <div className="repayment-detail-page">
       {/* Header */}
@@ -183,7 +204,7 @@ export function RepaymentDetailPage() {
         </div>
         <div className="detail-header__actions">
           {repayment.status === 'PENDING' && (
-            <>
+            <Can permission={PERMISSIONS.REPAYMENT_APPROVE}>
               <button className="btn-danger" onClick={() => setShowRejectModal(true)}>
                 <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                   <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2" />
@@ -191,7 +212,12 @@ export function RepaymentDetailPage() {
                 </svg>
                 Reject
               </button>
-              <button className="btn-success" onClick={() => setShowApproveModal(true)}>
+              <button
+                className="btn-success"
+                onClick={() => setShowApproveModal(true)}
+                disabled={!!approvalBlockReason}
+                title={approvalBlockReason || undefined}
+              >
                 <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                   <path
                     d="M9 12L11 14L15 10M21 12C21 16.9706 16.9706 21 12 21C7.02944 21 3 16.9706 3 12C3 7.02944 7.02944 3 12 3C16.9706 3 21 7.02944 21 12Z"
@@ -201,9 +227,9 @@ export function RepaymentDetailPage() {
                     strokeLinejoin="round"
                   />
                 </svg>
-                Approve
+                {requiredLevels > 1 ? `Approve Level ${currentLevel}` : 'Approve'}
               </button>
-            </>
+            </Can>
           )}
           {repayment.status === 'APPROVED' && (
             <button className="btn-secondary" onClick={handleDownloadReceipt}>
@@ -231,6 +257,12 @@ export function RepaymentDetailPage() {
       </div>
 
       {/* Error Alert */}
+      {repayment.status === 'PENDING' && user && approvalBlockReason && (
+        <div className="alert alert--warning">
+          <span>{approvalBlockReason}. Another approver must sign this level.</span>
+        </div>
+      )}
+
       {error && (
         <div className="alert alert--error">
           <span>{error}</span>
@@ -274,6 +306,24 @@ export function RepaymentDetailPage() {
                   {repayment.collectionLocation || '-'}
                 </span>
               </div>
+              {repayment.payerVpa && (
+                <div className="detail-field">
+                  <span className="detail-field__label">Payer UPI ID</span>
+                  <span className="detail-field__value">{repayment.payerVpa}</span>
+                </div>
+              )}
+              {repayment.payerPan && (
+                <div className="detail-field">
+                  <span className="detail-field__label">Payer PAN</span>
+                  <span className="detail-field__value">{repayment.payerPan}</span>
+                </div>
+              )}
+              {repayment.repaymentIfscCode && (
+                <div className="detail-field">
+                  <span className="detail-field__label">Bank IFSC</span>
+                  <span className="detail-field__value">{repayment.repaymentIfscCode}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -346,6 +396,62 @@ export function RepaymentDetailPage() {
           </div>
         </div>
 
+        {/* Approval History */}
+        <div className="detail-card detail-card--full">
+          <div className="detail-card__header detail-card__header--split">
+            <h2 className="detail-card__title">Approval History</h2>
+            <span className="approval-chain__summary">
+              {requiredLevels} level{requiredLevels > 1 ? 's' : ''} required
+            </span>
+          </div>
+          <div className="detail-card__body">
+            <ol className="approval-chain">
+              <li className="approval-chain__step approval-chain__step--maker">
+                <span className="approval-chain__level">Maker</span>
+                <div className="approval-chain__content">
+                  <span className="approval-chain__status">Captured</span>
+                  <span className="approval-chain__meta">
+                    {repayment.collectorName || (repayment.capturedBy ? `User #${repayment.capturedBy}` : '-')}
+                    {' · '}
+                    {formatDateTime(repayment.capturedAt || repayment.createdAt)}
+                  </span>
+                </div>
+              </li>
+              {approvalLevels.map((level) => {
+                const step = steps.find((entry) => entry.level === level)
+                const isAwaiting = !step && repayment.status === 'PENDING' && level === currentLevel
+                const stateClass = step
+                  ? step.decision === 'APPROVED'
+                    ? 'approval-chain__step--approved'
+                    : 'approval-chain__step--rejected'
+                  : isAwaiting
+                    ? 'approval-chain__step--awaiting'
+                    : ''
+                return (
+                  <li key={level} className={`approval-chain__step ${stateClass}`}>
+                    <span className="approval-chain__level">Level {level}</span>
+                    <div className="approval-chain__content">
+                      <span className="approval-chain__status">
+                        {step
+                          ? APPROVAL_DECISION_LABELS[step.decision]
+                          : isAwaiting
+                            ? 'Awaiting approval'
+                            : 'Not started'}
+                      </span>
+                      {step && (
+                        <span className="approval-chain__meta">
+                          {step.approverName || `User #${step.approverId}`} · {formatDateTime(step.decidedAt)}
+                        </span>
+                      )}
+                      {step?.comments && <span className="approval-chain__comments">{step.comments}</span>}
+                    </div>
+                  </li>
+                )
+              })}
+            </ol>
+          </div>
+        </div>
+
         {/* SLA & Reconciliation */}
         <div className="detail-card">
           <div className="detail-card__header">
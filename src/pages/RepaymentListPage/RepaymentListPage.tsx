@@ -3,10 +3,11 @@
  * Search and list repayments with filters
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { repaymentService } from '@services/api'
-import type { Repayment, RepaymentStatus, PageResponse } from '@types'
+import { useRepaymentSearch } from '@services/queries'
+import type { RepaymentStatus } from '@types'
 import { REPAYMENT_STATUS_LABELS, PAYMENT_MODE_LABELS } from '@types'
 import './RepaymentListPage.css'
 
@@ -14,14 +15,10 @@ export function RepaymentListPage() {
   const navigate = useNavigate()
   const [searchParams, setSearchParams] = useSearchParams()
 
-  const [repayments, setRepayments] = useState<Repayment[]>([])
-  const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(0)
-  const [totalPages, setTotalPages] = useState(0)
-  const [totalElements, setTotalElements] = useState(0)
   const pageSize = 20
 
   // Filters
@@ -32,34 +29,22 @@ export function RepaymentListPage() {
   const [fromDate, setFromDate] = useState(searchParams.get('fromDate') || '')
   const [toDate, setToDate] = useState(searchParams.get('toDate') || '')
 
-  const fetchRepayments = useCallback(async () => {
-    try {
-      setIsLoading(true)
-      setError('')
-
-      const params = {
-        searchTerm: searchTerm || undefined,
-        status: statusFilter || undefined,
-        fromDate: fromDate || undefined,
-        toDate: toDate || undefined,
-        page: currentPage,
-        size: pageSize,
-      }
-
-      const response: PageResponse<Repayment> = await repaymentService.search(params)
-      setRepayments(response.content)
-      setTotalPages(response.totalPages)
-      setTotalElements(response.totalElements)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch repayments')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [searchTerm, statusFilter, fromDate, toDate, currentPage])
-
-  useEffect(() => {
-    fetchRepayments()
-  }, [fetchRepayments])
+  const {
+    data,
+    isLoading,
+    error: fetchError,
+    refetch,
+  } = useRepaymentSearch({
+    searchTerm: searchTerm || undefined,
+    status: statusFilter || undefined,
+    fromDate: fromDate || undefined,
+    toDate: toDate || undefined,
+    page: currentPage,
+    size: pageSize,
+  })
+  const repayments = data?.content ?? []
+  const totalPages = data?.totalPages ?? 0
+  const totalElements = data?.totalElements ?? 0
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault()
@@ -73,7 +58,7 @@ export function RepaymentListPage() {
     if (toDate) params.set('toDate', toDate)
     setSearchParams(params)
 
-    fetchRepayments()
+    refetch()
   }
 
   const handleClearFilters = () => {
@@ -160,12 +145,17 @@ export function RepaymentListPage() {
       </div>
 
       {/* Error Alert */}
-      {error && (
+      {error ? (
         <div className="alert alert--error">
           <span>{error}</span>
           <button onClick={() => setError('')}>Dismiss</button>
         </div>
-      )}
+      ) : fetchError ? (
+        <div className="alert alert--error">
+          <span>{fetchError.message || 'Failed to fetch repayments'}</span>
+          <button onClick={() => refetch()}>Retry</button>
+        </div>
+      ) : null}
 
       {/* Search & Filters */}
       <div className="search-card">
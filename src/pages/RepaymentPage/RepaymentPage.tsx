@@ -7,6 +7,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { repaymentService } from '@services/api'
 import type { RepaymentDashboard, SlaDashboard, Repayment } from '@types'
+import { CaptureRepaymentModal } from './components'
 import './RepaymentPage.css'
 
 type TabType = 'overview' | 'pending' | 'sla'
@@ -20,6 +21,8 @@ export function RepaymentPage() {
   const [slaBreached, setSlaBreached] = useState<Repayment[]>([])
   const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
+  const [successMessage, setSuccessMessage] = useState('')
+  const [showCaptureModal, setShowCaptureModal] = useState(false)
 
   const fetchDashboardData = useCallback(async () => {
     try {
@@ -65,6 +68,12 @@ export function RepaymentPage() {
     })
   }
 
+  const handleCaptured = (message: string) => {
+    setShowCaptureModal(false)
+    setSuccessMessage(message)
+    fetchDashboardData()
+  }
+
   const getStatusBadgeClass = (status: string) => {
     switch (status) {
       case 'APPROVED':
@@ -120,6 +129,18 @@ export function RepaymentPage() {
             </svg>
             Search Repayments
           </button>
+          <button className="btn-secondary" onClick={() => setShowCaptureModal(true)}>
+            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+              <path
+                d="M12 5V19M5 12H19"
+                stroke="currentColor"
+                strokeWidth="2"
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            </svg>
+            Record Collection
+          </button>
           <button className="btn-primary" onClick={() => navigate('/repayment/digital-payment')}>
             <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
               <path
@@ -142,6 +163,12 @@ export function RepaymentPage() {
           <button onClick={() => setError('')}>Dismiss</button>
         </div>
       )}
+      {successMessage && (
+        <div className="alert alert--success">
+          <span>{successMessage}</span>
+          <button onClick={() => setSuccessMessage('')}>Dismiss</button>
+        </div>
+      )}
 
       {/* Stats Grid */}
       {dashboard && (
@@ -568,6 +595,12 @@ export function RepaymentPage() {
           </button>
         </div>
       </div>
+
+      <CaptureRepaymentModal
+        isOpen={showCaptureModal}
+        onClose={() => setShowCaptureModal(false)}
+        onCaptured={handleCaptured}
+      />
     </div>
   )
 }
@@ -0,0 +1,277 @@
+/**
+ * Capture Repayment Modal
+ * Record a field collection; captures made without a connection are queued for sync
+ */
+
+import { useState, useEffect } from 'react'
+import { Modal } from '@components/common/Modal'
+import { useAuth, useOfflineQueue } from '@hooks'
+import { PAYMENT_MODE_LABELS } from '@types'
+import { formatCompactCurrency, isValidIFSC, isValidPAN, isValidVPA } from '@utils'
+import type { PaymentMode } from '@types'
+import './CaptureRepaymentModal.css'
+
+interface CaptureRepaymentModalProps {
+  isOpen: boolean
+  onClose: () => void
+  onCaptured: (message: string) => void
+}
+
+interface CaptureForm {
+  caseId: string
+  paymentAmount: string
+  paymentMode: PaymentMode
+  paymentDate: string
+  collectionLocation: string
+  notes: string
+  payerVpa: string
+  payerPan: string
+  ifscCode: string
+}
+
+// Modes an agent can collect in person
+const FIELD_PAYMENT_MODES: PaymentMode[] = ['CASH', 'CHEQUE', 'DD', 'UPI', 'OTHER']
+
+const isInstrumentMode = (mode: PaymentMode): boolean => mode === 'CHEQUE' || mode === 'DD'
+
+const getTodayIso = (): string => new Date().toISOString().split('T')[0]
+
+const createEmptyForm = (): CaptureForm => ({
+  caseId: '',
+  paymentAmount: '',
+  paymentMode: 'CASH',
+  paymentDate: getTodayIso(),
+  collectionLocation: '',
+  notes: '',
+  payerVpa: '',
+  payerPan: '',
+  ifscCode: '',
+})
+
+export function CaptureRepaymentModal({ isOpen, onClose, onCaptured }: CaptureRepaymentModalProps) {
+  const { user } = useAuth()
+  const { captureRepayment, isOnline } = useOfflineQueue()
+  const [form, setForm] = useState<CaptureForm>(createEmptyForm)
+  const [error, setError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setForm(createEmptyForm())
+      setError('')
+    }
+  }, [isOpen])
+
+  const updateForm = (changes: Partial<CaptureForm>) => {
+    setForm((prev) => ({ ...prev, ...changes }))
+  }
+
+  const validate = (): string => {
+    const caseId = Number(form.caseId)
+    if (!Number.isInteger(caseId) || caseId <= 0) return 'Enter a valid case ID'
+    if (!(Number(form.paymentAmount) > 0)) return 'Amount must be greater than zero'
+    if (!form.paymentDate) return 'Payment date is required'
+    if (form.paymentDate > getTodayIso()) return 'Payment date cannot be in the future'
+    if (form.paymentMode === 'UPI' && form.payerVpa.trim() && !isValidVPA(form.payerVpa)) {
+      return 'Enter a valid UPI ID (e.g. name@okhdfcbank)'
+    }
+    if (form.paymentMode === 'CASH' && form.payerPan.trim() && !isValidPAN(form.payerPan)) {
+      return 'Enter a valid 10-character PAN (e.g. ABCPE1234F)'
+    }
+    if (isInstrumentMode(form.paymentMode) && form.ifscCode.trim() && !isValidIFSC(form.ifscCode)) {
+      return 'Enter a valid 11-character IFSC (e.g. HDFC0001234)'
+    }
+    return ''
+  }
+
+  const handleSubmit = async () => {
+    const validationError = validate()
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    try {
+      setIsSubmitting(true)
+      setError('')
+      const result = await captureRepayment(
+        {
+          caseId: Number(form.caseId),
+          paymentAmount: Number(form.paymentAmount),
+          paymentMode: form.paymentMode,
+          paymentDate: form.paymentDate,
+          collectedBy: user?.id,
+          collectionLocation: form.collectionLocation.trim() || undefined,
+          notes: form.notes.trim() || undefined,
+          payerVpa: form.paymentMode === 'UPI' ? form.payerVpa.trim() || undefined : undefined,
+          payerPan: form.paymentMode === 'CASH'
+            ? form.payerPan.trim().toUpperCase() || undefined
+            : undefined,
+          repaymentIfscCode: isInstrumentMode(form.paymentMode)
+            ? form.ifscCode.trim().toUpperCase() || undefined
+            : undefined,
+        },
+        `Case #${form.caseId}`
+      )
+      onCaptured(
+        result.queued
+          ? 'No connection - collection saved on this device and will sync automatically'
+          : `Repayment ${result.repayment.repaymentNumber} recorded`
+      )
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record repayment')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Record Collection"
+      size="md"
+      footer={
+        <>
+          <button className="btn-secondary" onClick={onClose} disabled={isSubmitting}>
+            Cancel
+          </button>
+          <button className="btn-primary" onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Saving...' : isOnline ? 'Record Collection' : 'Save Offline'}
+          </button>
+        </>
+      }
+    >
+      <div className="capture-form">
+        {!isOnline && (
+          <p className="capture-form__offline">
+            You are offline. This collection will be kept on this device and submitted when the connection returns.
+          </p>
+        )}
+
+        {error && <div className="alert alert--error">{error}</div>}
+
+        <div className="capture-form__row">
+          <div className="form-field">
+            <label className="form-label">Case ID *</label>
+            <input
+              type="number"
+              className="form-input"
+              value={form.caseId}
+              onChange={(e) => updateForm({ caseId: e.target.value })}
+              placeholder="e.g. 10234"
+            />
+          </div>
+          <div className="form-field">
+            <label className="form-label">Amount (₹) *</label>
+            <input
+              type="number"
+              className="form-input"
+              min={0}
+              value={form.paymentAmount}
+              onChange={(e) => updateForm({ paymentAmount: e.target.value })}
+              placeholder="0"
+            />
+            {Number(form.paymentAmount) > 0 && (
+              <span className="capture-form__hint">
+                {formatCompactCurrency(Number(form.paymentAmount))}
+              </span>
+            )}
+          </div>
+        </div>
+
+        <div className="capture-form__row">
+          <div className="form-field">
+            <label className="form-label">Payment Mode *</label>
+            <select
+              className="form-input"
+              value={form.paymentMode}
+              onChange={(e) => updateForm({ paymentMode: e.target.value as PaymentMode })}
+            >
+              {FIELD_PAYMENT_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {PAYMENT_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="form-field">
+            <label className="form-label">Payment Date *</label>
+            <input
+              type="date"
+              className="form-input"
+              max={getTodayIso()}
+              value={form.paymentDate}
+              onChange={(e) => updateForm({ paymentDate: e.target.value })}
+            />
+          </div>
+        </div>
+
+        {form.paymentMode === 'UPI' && (
+          <div className="form-field">
+            <label className="form-label">Payer UPI ID</label>
+            <input
+              type="text"
+              className="form-input"
+              value={form.payerVpa}
+              onChange={(e) => updateForm({ payerVpa: e.target.value })}
+              placeholder="e.g. name@okhdfcbank"
+            />
+          </div>
+        )}
+
+        {form.paymentMode === 'CASH' && (
+          <div className="form-field">
+            <label className="form-label">Payer PAN</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={10}
+              value={form.payerPan}
+              onChange={(e) => updateForm({ payerPan: e.target.value.toUpperCase() })}
+              placeholder="e.g. ABCPE1234F"
+            />
+          </div>
+        )}
+
+        {isInstrumentMode(form.paymentMode) && (
+          <div className="form-field">
+            <label className="form-label">Bank IFSC</label>
+            <input
+              type="text"
+              className="form-input"
+              maxLength={11}
+              value={form.ifscCode}
+              onChange={(e) => updateForm({ ifscCode: e.target.value.toUpperCase() })}
+              placeholder="e.g. HDFC0001234"
+            />
+          </div>
+        )}
+
+        <div className="form-field">
+          <label className="form-label">Collection Location</label>
+          <input
+            type="text"
+            className="form-input"
+            value={form.collectionLocation}
+            onChange={(e) => updateForm({ collectionLocation: e.target.value })}
+            placeholder="Customer residence, branch, etc."
+          />
+        </div>
+
+        <div className="form-field">
+          <label className="form-label">Notes</label>
+          <textarea
+            className="form-input"
+            rows={3}
+            value={form.notes}
+            onChange={(e) => updateForm({ notes: e.target.value })}
+            placeholder={isInstrumentMode(form.paymentMode) ? 'Instrument number, bank' : ''}
+          />
+        </div>
+      </div>
+    </Modal>
+  )
+}
+
+export default CaptureRepaymentModal
@@ -0,0 +1,5 @@
+/**
+ * Repayment Page Components
+ */
+
+export { CaptureRepaymentModal } from './CaptureRepaymentModal'
@@ -177,6 +177,7 @@ export function StrategyEnginePage() {
           status: selectedRule.status,
           templateId: data.templateId,
           templateName: data.templateName, // Pass template name for API
+          templateGroupId: data.templateGroupId,
           ownership: data.ownership,
           priority: data.priority,
           dpdTrigger: data.dpdTrigger,
@@ -193,6 +194,7 @@ export function StrategyEnginePage() {
           status: 'active',
           templateId: data.templateId,
           templateName: data.templateName, // Pass template name for API
+          templateGroupId: data.templateGroupId,
           ownership: data.ownership,
           priority: data.priority,
           dpdTrigger: data.dpdTrigger,
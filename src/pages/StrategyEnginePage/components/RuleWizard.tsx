@@ -15,9 +15,23 @@ import type {
   LegacyDayOfWeek,
   MasterData,
 } from '@types'
-import type { TemplateDropdownItem, TemplateChannelType, TemplateDetail } from '../../../types/template.types'
+import { getGroupVariant, getMissingLanguages } from '@utils'
+import {
+  FALLBACK_TEMPLATE_LANGUAGE,
+  LANGUAGE_CODES,
+  TEMPLATE_LANGUAGES,
+} from '../../../types/template.types'
+import type {
+  TemplateGroup,
+  TemplateChannelType,
+  TemplateDetail,
+  TemplateDropdownItem,
+} from '../../../types/template.types'
 import './RuleWizard.css'
 
+// A group resolves the customer's language; a single template is sent as-is to everyone
+type TemplateSelectionMode = 'GROUP' | 'SINGLE'
+
 interface RuleWizardProps {
   isOpen: boolean
   onClose: () => void
@@ -80,6 +94,7 @@ const initialWizardData: RuleWizardData = {
     },
   ],
   templateId: '',
+  templateGroupId: '',
   ownership: 'internal',
   priority: 1,
   dpdTrigger: 30,
@@ -124,7 +139,9 @@ export function RuleWizard({
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [channels, setChannels] = useState<MasterData[]>([])
   const [isLoadingChannels, setIsLoadingChannels] = useState(false)
+  const [templateGroups, setTemplateGroups] = useState<TemplateGroup[]>([])
   const [templates, setTemplates] = useState<TemplateDropdownItem[]>([])
+  const [templateMode, setTemplateMode] = useState<TemplateSelectionMode>('GROUP')
   const [isLoadingTemplates, setIsLoadingTemplates] = useState(false)
 
   // Master data for filters
@@ -186,22 +203,29 @@ export function RuleWizard({
     return channelMap[channel.toUpperCase()] || null
   }
 
-  // Fetch templates when channel changes
+  // Fetch template groups and single templates when channel changes; each group carries one template per language
   useEffect(() => {
     const templateChannel = mapChannelToTemplateChannel(formData.channel)
 
     if (templateChannel && isOpen) {
       setIsLoadingTemplates(true)
-      templateService.getTemplatesDropdown(templateChannel)
-        .then((data) => {
-          setTemplates(data)
-        })
-        .catch((err) => {
+      Promise.all([
+        templateService.getTemplateGroups(templateChannel).catch((err) => {
+          console.error('Failed to fetch template groups:', err)
+          return [] as TemplateGroup[]
+        }),
+        templateService.getTemplatesDropdown(templateChannel).catch((err) => {
           console.error('Failed to fetch templates:', err)
-          setTemplates([])
+          return [] as TemplateDropdownItem[]
+        }),
+      ])
+        .then(([groups, dropdown]) => {
+          setTemplateGroups(groups)
+          setTemplates(dropdown)
         })
         .finally(() => setIsLoadingTemplates(false))
     } else {
+      setTemplateGroups([])
       setTemplates([])
     }
   }, [formData.channel, isOpen])
@@ -332,12 +356,15 @@ export function RuleWizard({
         channel: mappedChannel as any,
         filters: editRule.filters.length > 0 ? editRule.filters : initialWizardData.filters,
         templateId: editRule.templateId || '',
+        templateGroupId: editRule.templateGroupId || '',
         ownership: editRule.ownership,
         priority: editRule.priority || 1,
         dpdTrigger: editRule.dpdTrigger || 30,
         frequency: editRule.frequency,
         selectedDays: editRule.frequency.days || [],
       })
+      // Strategies saved before template groups keep their single template
+      setTemplateMode(editRule.templateId && !editRule.templateGroupId ? 'SINGLE' : 'GROUP')
 
       // Reset filter state initially - will be populated once master data loads
       setFilterState({
@@ -347,6 +374,7 @@ export function RuleWizard({
       })
     } else {
       setFormData(initialWizardData)
+      setTemplateMode('GROUP')
       setFilterState({
         textFilters: initialTextFilters,
         numericFilters: [{ ...initialNumericFilter }],
@@ -406,6 +434,12 @@ export function RuleWizard({
     }
   }, [editRule, isLoadingFilters, languages, products, states, pinCodes, cities])
 
+  const selectedGroup = templateGroups.find(group => String(group.id) === formData.templateGroupId)
+  // The English variant is also kept as the strategy's template for anything that reads a single template
+  const fallbackVariant = selectedGroup ? getGroupVariant(selectedGroup, FALLBACK_TEMPLATE_LANGUAGE) : undefined
+  const fallbackVariantId = fallbackVariant ? String(fallbackVariant.templateId) : ''
+  const selectedTemplate = templates.find(template => String(template.id) === formData.templateId)
+
   // Fetch template details
   const handleViewTemplateDetails = async (templateId: string) => {
     if (!templateId) return
@@ -446,8 +480,14 @@ export function RuleWizard({
         // Filters are optional
         break
       case 4:
-        if (!formData.templateId.trim()) {
-          newErrors.templateId = 'Please select a template'
+        if (templateMode === 'SINGLE') {
+          if (!formData.templateId) {
+            newErrors.templateId = 'Please select a template'
+          }
+        } else if (!formData.templateGroupId) {
+          newErrors.templateId = 'Please select a template group'
+        } else if (selectedGroup && !fallbackVariant) {
+          newErrors.templateId = 'This group has no English template to fall back on. Add one in Template Management.'
         }
         break
       case 5:
@@ -631,9 +671,6 @@ export function RuleWizard({
       // Build the API filters from the filter state
       const apiFilters = buildApiFilters()
 
-      // Get selected template info for templateName
-      const selectedTemplate = templates.find(t => t.id.toString() === formData.templateId)
-
       // Build frequency with days array for weekly schedule
       const frequency = {
         ...formData.frequency,
@@ -645,7 +682,15 @@ export function RuleWizard({
         ...formData,
         frequency,
         apiFilters, // Pass the API-formatted filters
-        templateName: selectedTemplate?.templateName || '', // Pass template name for API
+        ...(templateMode === 'SINGLE'
+          ? {
+              templateGroupId: undefined,
+              templateName: selectedTemplate?.templateName || '', // Pass template name for API
+            }
+          : {
+              templateId: fallbackVariantId || formData.templateId,
+              templateName: selectedGroup?.groupName || '', // Pass template name for API
+            }),
       }
 
       await onSubmit(submissionData as RuleWizardData)
@@ -813,6 +858,38 @@ export function RuleWizard({
 
   if (!isOpen) return null
 
+  // Languages the group covers, and who gets the English template instead
+  const renderGroupCoverage = (group: TemplateGroup) => {
+    const missing = getMissingLanguages(group)
+    return (
+      <div className="template-group-coverage">
+        <div className="template-group-coverage__languages">
+          {TEMPLATE_LANGUAGES.map((language) => {
+            const variant = getGroupVariant(group, language)
+            return (
+              <span
+                key={language}
+                className={`template-group-coverage__language ${
+                  variant ? 'template-group-coverage__language--covered' : ''
+                }`}
+                title={variant ? `${language}: ${variant.templateName}` : `${language}: not covered`}
+              >
+                {LANGUAGE_CODES[language]}
+              </span>
+            )
+          })}
+        </div>
+        {missing.length > 0 && (
+          <p className="template-group-coverage__note">
+            {fallbackVariant
+              ? `Customers who prefer ${missing.join(', ')} receive the English template.`
+              : `Missing: ${missing.join(', ')}.`}
+          </p>
+        )}
+      </div>
+    )
+  }
+
   const renderStepContent = () => {
     switch (currentStep) {
       case 1:
@@ -1437,10 +1514,31 @@ export function RuleWizard({
           <>
             <h3 className="wizard-step-title">Template Selection</h3>
             <p className="wizard-step-description">
-              Select a message template for this rule.
+              Select a template group so each customer receives the template in their preferred language, or
+              the English one when their language is not covered. A single template is sent as-is to everyone.
             </p>
             <div className="wizard-form-group">
-              <label className="wizard-label wizard-label--required">Template</label>
+              <label className="wizard-label">Send</label>
+              <div className="frequency-options">
+                {([
+                  { value: 'GROUP', label: 'Template Group' },
+                  { value: 'SINGLE', label: 'Single Template' },
+                ] as { value: TemplateSelectionMode; label: string }[]).map((mode) => (
+                  <button
+                    key={mode.value}
+                    type="button"
+                    className={`frequency-option ${templateMode === mode.value ? 'frequency-option--selected' : ''}`}
+                    onClick={() => setTemplateMode(mode.value)}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="wizard-form-group">
+              <label className="wizard-label wizard-label--required">
+                {templateMode === 'GROUP' ? 'Template Group' : 'Template'}
+              </label>
               {!formData.channel ? (
                 <div className="wizard-info-box">
                   <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
@@ -1451,44 +1549,88 @@ export function RuleWizard({
                 </div>
               ) : isLoadingTemplates ? (
                 <div className="channel-loading">Loading templates...</div>
-              ) : templates.length === 0 ? (
+              ) : templateMode === 'SINGLE' ? (
+                templates.length === 0 ? (
+                  <div className="wizard-info-box wizard-info-box--warning">
+                    <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                      <path d="M10.29 3.86L1.82 18C1.64537 18.3024 1.55296 18.6453 1.55199 18.9945C1.55101 19.3437 1.64151 19.6871 1.81445 19.9905C1.98738 20.2939 2.23675 20.5467 2.53773 20.7239C2.83871 20.9011 3.18082 20.9962 3.53 21H20.47C20.8192 20.9962 21.1613 20.9011 21.4623 20.7239C21.7633 20.5467 22.0126 20.2939 22.1856 19.9905C22.3585 19.6871 22.449 19.3437 22.448 18.9945C22.447 18.6453 22.3546 18.3024 22.18 18L13.71 3.86C13.5317 3.56611 13.2807 3.32312 12.9812 3.15448C12.6817 2.98585 12.3437 2.89725 12 2.89725C11.6563 2.89725 11.3183 2.98585 11.0188 3.15448C10.7193 3.32312 10.4683 3.56611 10.29 3.86Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M12 9V13" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                      <path d="M12 17H12.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                    </svg>
+                    <span>No templates found for the selected channel. Please create a template first.</span>
+                  </div>
+                ) : (
+                  <div className="template-select-row">
+                    <select
+                      className="wizard-input wizard-select"
+                      value={formData.templateId}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, templateId: e.target.value }))}
+                    >
+                      <option value="">Select a template</option>
+                      {templates.map((template) => (
+                        <option key={template.id} value={template.id.toString()}>
+                          {template.templateName} ({template.language})
+                        </option>
+                      ))}
+                    </select>
+                    {formData.templateId && (
+                      <button
+                        type="button"
+                        className="template-view-btn"
+                        onClick={() => handleViewTemplateDetails(formData.templateId)}
+                        title="View template details"
+                      >
+                        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                          <path d="M1 12S5 4 12 4s11 8 11 8-4 8-11 8-11-8-11-8z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                          <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                        </svg>
+                        View Details
+                      </button>
+                    )}
+                  </div>
+                )
+              ) : templateGroups.length === 0 ? (
                 <div className="wizard-info-box wizard-info-box--warning">
                   <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
                     <path d="M10.29 3.86L1.82 18C1.64537 18.3024 1.55296 18.6453 1.55199 18.9945C1.55101 19.3437 1.64151 19.6871 1.81445 19.9905C1.98738 20.2939 2.23675 20.5467 2.53773 20.7239C2.83871 20.9011 3.18082 20.9962 3.53 21H20.47C20.8192 20.9962 21.1613 20.9011 21.4623 20.7239C21.7633 20.5467 22.0126 20.2939 22.1856 19.9905C22.3585 19.6871 22.449 19.3437 22.448 18.9945C22.447 18.6453 22.3546 18.3024 22.18 18L13.71 3.86C13.5317 3.56611 13.2807 3.32312 12.9812 3.15448C12.6817 2.98585 12.3437 2.89725 12 2.89725C11.6563 2.89725 11.3183 2.98585 11.0188 3.15448C10.7193 3.32312 10.4683 3.56611 10.29 3.86Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
                     <path d="M12 9V13" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
                     <path d="M12 17H12.01" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
                   </svg>
-                  <span>No templates found for the selected channel. Please create a template first.</span>
+                  <span>No template groups found for the selected channel. Create one in Template Management, or send a single template.</span>
                 </div>
               ) : (
-                <div className="template-select-row">
-                  <select
-                    className="wizard-input wizard-select"
-                    value={formData.templateId}
-                    onChange={(e) => setFormData((prev) => ({ ...prev, templateId: e.target.value }))}
-                  >
-                    <option value="">Select a template</option>
-                    {templates.map((template) => (
-                      <option key={template.id} value={template.id.toString()}>
-                        {template.templateName} ({template.language})
-                      </option>
-                    ))}
-                  </select>
-                  {formData.templateId && (
-                    <button
-                      type="button"
-                      className="template-view-btn"
-                      onClick={() => handleViewTemplateDetails(formData.templateId)}
-                      title="View template details"
+                <>
+                  <div className="template-select-row">
+                    <select
+                      className="wizard-input wizard-select"
+                      value={formData.templateGroupId}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, templateGroupId: e.target.value }))}
                     >
-                      <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                        <path d="M1 12S5 4 12 4s11 8 11 8-4 8-11 8-11-8-11-8z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                        <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
-                      </svg>
-                      View Details
-                    </button>
-                  )}
-                </div>
+                      <option value="">Select a template group</option>
+                      {templateGroups.map((group) => (
+                        <option key={group.id} value={group.id.toString()}>
+                          {group.groupName} ({TEMPLATE_LANGUAGES.length - getMissingLanguages(group).length}/
+                          {TEMPLATE_LANGUAGES.length} languages)
+                        </option>
+                      ))}
+                    </select>
+                    {fallbackVariantId && (
+                      <button
+                        type="button"
+                        className="template-view-btn"
+                        onClick={() => handleViewTemplateDetails(fallbackVariantId)}
+                        title="View template details"
+                      >
+                        <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                          <path d="M1 12S5 4 12 4s11 8 11 8-4 8-11 8-11-8-11-8z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                          <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                        </svg>
+                        View Details
+                      </button>
+                    )}
+                  </div>
+                  {selectedGroup && renderGroupCoverage(selectedGroup)}
+                </>
               )}
               {errors.templateId && <div className="wizard-error">{errors.templateId}</div>}
             </div>
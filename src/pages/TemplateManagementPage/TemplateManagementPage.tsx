@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import TemplateList from './components/TemplateList';
 import TemplateForm from './components/TemplateForm';
+import TemplateGroupList from './components/TemplateGroupList';
+import TemplateVersionHistory from './components/TemplateVersionHistory';
 import templateService from '../../services/api/template.service';
 import type {
   TemplateListItem,
@@ -10,7 +12,7 @@ import type {
 } from '../../types/template.types';
 import './TemplateManagementPage.css';
 
-type ViewMode = 'list' | 'create' | 'edit' | 'view';
+type ViewMode = 'list' | 'groups' | 'create' | 'edit' | 'view';
 
 const TemplateManagementPage: React.FC = () => {
   const [viewMode, setViewMode] = useState<ViewMode>('list');
@@ -96,27 +98,30 @@ const TemplateManagementPage: React.FC = () => {
     }
   };
 
-  const handleSubmit = async (data: CreateTemplateRequest, document?: File) => {
+  const handleSubmit = async (data: CreateTemplateRequest, document?: File, changeNote?: string) => {
     try {
       setLoading(true);
 
+      // New templates and edits both start as drafts; open the template so the author can send it for review
+      let saved: TemplateDetail | null = null;
       if (viewMode === 'create') {
         if (document) {
-          await templateService.createTemplateWithDocument(data, document);
+          saved = await templateService.createTemplateWithDocument(data, document);
         } else {
-          await templateService.createTemplate(data);
+          saved = await templateService.createTemplate(data);
         }
       } else if (viewMode === 'edit' && selectedTemplate) {
-        if (document) {
-          await templateService.updateTemplateWithDocument(selectedTemplate.id, data, document);
-        } else {
-          await templateService.updateTemplate(selectedTemplate.id, data);
-        }
+        await templateService.createTemplateVersion(
+          selectedTemplate.id,
+          { ...data, changeNote: changeNote || '' },
+          document
+        );
+        saved = selectedTemplate;
       }
 
       await fetchTemplates();
-      setViewMode('list');
-      setSelectedTemplate(null);
+      setSelectedTemplate(saved);
+      setViewMode(saved ? 'view' : 'list');
       setError(null);
     } catch (err: any) {
       setError(err.message || 'Failed to save template');
@@ -126,6 +131,19 @@ const TemplateManagementPage: React.FC = () => {
     }
   };
 
+  const handleVersionActivated = async () => {
+    if (!selectedTemplate) return;
+    try {
+      const [fullTemplate] = await Promise.all([
+        templateService.getTemplateById(selectedTemplate.id),
+        fetchTemplates(),
+      ]);
+      setSelectedTemplate(fullTemplate);
+    } catch (err) {
+      console.error('Error reloading template:', err);
+    }
+  };
+
   const handleCancel = () => {
     setViewMode('list');
     setSelectedTemplate(null);
@@ -143,6 +161,9 @@ const TemplateManagementPage: React.FC = () => {
         </div>
         {viewMode === 'list' && (
           <div className="page-header__actions">
+            <button onClick={() => setViewMode('groups')} className="btn btn-secondary">
+              Language Groups
+            </button>
             <button onClick={handleCreate} className="btn btn-primary">
               <span>+</span>
               Create Template
@@ -170,6 +191,16 @@ const TemplateManagementPage: React.FC = () => {
           onDelete={handleDelete}
           loading={loading}
         />
+      ) : viewMode === 'groups' ? (
+        <div className="template-form">
+          <div className="template-form__header">
+            <button onClick={handleCancel} className="template-form__back-btn">
+              <span>←</span> Back to Templates
+            </button>
+            <h2 className="template-form__title">Language Groups</h2>
+          </div>
+          <TemplateGroupList templates={templates} />
+        </div>
       ) : viewMode === 'view' && selectedTemplate ? (
         <div className="template-details-container">
           <div className="template-details-header">
@@ -218,6 +249,12 @@ const TemplateManagementPage: React.FC = () => {
                   <span className="template-info-label">Language</span>
                   <span className="template-info-value">{selectedTemplate.language}</span>
                 </div>
+                <div className="template-info-item">
+                  <span className="template-info-label">Live Version</span>
+                  <span className="template-info-value">
+                    {selectedTemplate.activeVersionNumber ? `v${selectedTemplate.activeVersionNumber}` : 'None approved yet'}
+                  </span>
+                </div>
                 <div className="template-info-item">
                   <span className="template-info-label">Status</span>
                   <span className={`template-info-value status-badge ${selectedTemplate.isActive ? 'status-badge--active' : 'status-badge--inactive'}`}>
@@ -304,6 +341,18 @@ const TemplateManagementPage: React.FC = () => {
               </div>
             )}
 
+            {/* Versions Card */}
+            <div className="template-info-card">
+              <h3 className="template-info-card__title">
+                <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" width="20" height="20">
+                  <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2"/>
+                  <path d="M12 6V12L16 14" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"/>
+                </svg>
+                Version History
+              </h3>
+              <TemplateVersionHistory template={selectedTemplate} onActivated={handleVersionActivated} />
+            </div>
+
             {/* Meta Info */}
             <div className="template-meta-info">
               <span>Created: {new Date(selectedTemplate.createdAt).toLocaleString()}</span>
@@ -0,0 +1,185 @@
+import React, { useMemo, useRef, useState } from 'react';
+import type { TemplateChannelType, VariableDefinition } from '../../../types/template.types';
+import {
+  cn,
+  getSmsStats,
+  getVariableCompletion,
+  splitTemplateContent,
+  suggestTemplateVariables,
+  type TemplateIssue,
+  type TemplateVariableCompletion,
+} from '@utils';
+
+interface TemplateContentEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  channel: TemplateChannelType;
+  variables: VariableDefinition[];
+  issues: TemplateIssue[];
+  textareaRef: React.RefObject<HTMLTextAreaElement>;
+  error?: string;
+}
+
+/**
+ * Template content textarea with {{ variable autocomplete, highlighting of
+ * placeholders that will not resolve, and SMS segment counting
+ */
+const TemplateContentEditor: React.FC<TemplateContentEditorProps> = ({
+  value,
+  onChange,
+  channel,
+  variables,
+  issues,
+  textareaRef,
+  error,
+}) => {
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const [completion, setCompletion] = useState<TemplateVariableCompletion | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+    () => (completion ? suggestTemplateVariables(variables, completion.query) : []),
+    [completion, variables]
+  );
+  const segments = useMemo(() => splitTemplateContent(value, issues), [value, issues]);
+  const smsStats = channel === 'SMS' ? getSmsStats(value) : null;
+
+  const updateCompletion = (text: string, cursor: number) => {
+    setCompletion(getVariableCompletion(text, cursor));
+    setHighlighted(0);
+  };
+
+  const applySuggestion = (variable: VariableDefinition) => {
+    if (!completion) return;
+    const insertText = `{{${variable.variableKey}}}`;
+    const next = value.slice(0, completion.from) + insertText + value.slice(completion.to);
+    const cursor = completion.from + insertText.length;
+    onChange(next);
+    setCompletion(null);
+    window.requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        setHighlighted((prev) => (prev + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setHighlighted((prev) => (prev - 1 + suggestions.length) % suggestions.length);
+        break;
+      case 'Enter':
+      case 'Tab':
+        e.preventDefault();
+        applySuggestion(suggestions[highlighted]);
+        break;
+      case 'Escape':
+        e.preventDefault();
+        setCompletion(null);
+        break;
+    }
+  };
+
+  // The backdrop draws the highlights, so it has to scroll with the text
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (backdropRef.current) {
+      backdropRef.current.scrollTop = e.currentTarget.scrollTop;
+    }
+  };
+
+  return (
+    <div className="content-editor">
+      <div className="content-editor__field">
+        <div ref={backdropRef} className="content-editor__backdrop form-textarea" aria-hidden="true">
+          {segments.map((segment, index) =>
+            segment.placeholder ? (
+              <mark
+                key={index}
+                className={`content-editor__mark content-editor__mark--${segment.placeholder.toLowerCase()}`}
+              >
+                {segment.text}
+              </mark>
+            ) : (
+              <span key={index}>{segment.text}</span>
+            )
+          )}
+          {/* Keeps a trailing newline from collapsing so the backdrop matches the textarea height */}
+          {'\n'}
+        </div>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            updateCompletion(e.target.value, e.target.selectionStart);
+          }}
+          onClick={(e) => updateCompletion(value, e.currentTarget.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onScroll={handleScroll}
+          onBlur={() => setCompletion(null)}
+          className={cn('form-textarea content-editor__input', error && 'form-textarea--error')}
+          rows={12}
+          spellCheck={false}
+          placeholder="Enter template content. Type {{ to insert a variable"
+        />
+
+        {suggestions.length > 0 && (
+          <ul className="content-editor__suggestions">
+            {suggestions.map((variable, index) => (
+              <li
+                key={variable.variableKey}
+                className={cn(
+                  'content-editor__suggestion',
+                  index === highlighted && 'content-editor__suggestion--active'
+                )}
+                // Keep focus in the textarea so the blur handler does not close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  applySuggestion(variable);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+              >
+                <span className="content-editor__suggestion-key">{variable.variableKey}</span>
+                <span className="content-editor__suggestion-detail">
+                  {variable.displayName || variable.description || variable.category}
+                  {variable.exampleValue && ` · ${variable.exampleValue}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {smsStats ? (
+        <p className={cn('char-counter', smsStats.segments > 1 && 'char-counter--warning')}>
+          {smsStats.length} characters · {smsStats.segments} SMS segment{smsStats.segments === 1 ? '' : 's'} ·{' '}
+          {smsStats.remaining} left in segment · {smsStats.encoding === 'UNICODE' ? 'Unicode' : 'GSM-7'}
+          {smsStats.encoding === 'UNICODE' && ' (70 characters per SMS, 67 when split)'}
+        </p>
+      ) : (
+        <p className="char-counter">{value.length} characters</p>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="content-editor__issues">
+          {issues.map((issue) => (
+            <li
+              key={`${issue.kind}-${issue.start}`}
+              className={`content-editor__issue content-editor__issue--${issue.kind.toLowerCase()}`}
+            >
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TemplateContentEditor;
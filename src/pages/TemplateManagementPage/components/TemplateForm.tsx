@@ -1,4 +1,8 @@
-import React, { useState, useRef } from 'react';
+import React, { useMemo, useState, useRef } from 'react';
+import { useTemplateVariables } from '@services/queries';
+import { validateTemplateContent } from '@utils';
+import TemplateContentEditor from './TemplateContentEditor';
+import TemplatePreview from './TemplatePreview';
 import type {
   TemplateChannelType,
   TemplateLanguage,
@@ -10,7 +14,8 @@ import type {
 interface TemplateFormProps {
   template?: TemplateDetail | null;
   availableVariables: AvailableVariable[];
-  onSubmit: (data: CreateTemplateRequest, document?: File) => Promise<void>;
+  // changeNote is set when editing, where every save becomes a new draft version
+  onSubmit: (data: CreateTemplateRequest, document?: File, changeNote?: string) => Promise<void>;
   onCancel: () => void;
   loading?: boolean;
 }
@@ -29,9 +34,18 @@ const TemplateForm: React.FC<TemplateFormProps> = ({
     language: (template?.language as TemplateLanguage) || 'ENGLISH',
   });
   const [document, setDocument] = useState<File | undefined>();
+  const [changeNote, setChangeNote] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const contentRef = useRef<HTMLTextAreaElement>(null);
 
+  const variablesQuery = useTemplateVariables();
+  const variableDefinitions = useMemo(() => variablesQuery.data || [], [variablesQuery.data]);
+  // Without the definitions every placeholder would look unknown, so only check once they load
+  const contentIssues = useMemo(
+    () => (variablesQuery.data ? validateTemplateContent(formData.content, variablesQuery.data) : []),
+    [formData.content, variablesQuery.data]
+  );
+
   const channels: TemplateChannelType[] = ['SMS', 'WHATSAPP', 'EMAIL', 'IVR', 'NOTICE'];
   const languages: TemplateLanguage[] = [
     'ENGLISH', 'HINDI', 'TAMIL', 'TELUGU', 'KANNADA',
@@ -82,6 +96,13 @@ const TemplateForm: React.FC<TemplateFormProps> = ({
 
     if (!formData.content.trim()) {
       newErrors.content = 'Template content is required';
+    } else if (contentIssues.length > 0) {
+      const count = contentIssues.length;
+      newErrors.content = `Fix ${count} variable problem${count === 1 ? '' : 's'} before saving`;
+    }
+
+    if (template && !changeNote.trim()) {
+      newErrors.changeNote = 'Describe what changed for the reviewer';
     }
 
     setErrors(newErrors);
@@ -96,14 +117,12 @@ const TemplateForm: React.FC<TemplateFormProps> = ({
     }
 
     try {
-      await onSubmit(formData, document);
+      await onSubmit(formData, document, template ? changeNote.trim() : undefined);
     } catch (error) {
       console.error('Error submitting template:', error);
     }
   };
 
-  const charCount = formData.content.length;
-
   return (
     <form onSubmit={handleSubmit}>
       {/* Template Name */}
@@ -183,22 +202,27 @@ const TemplateForm: React.FC<TemplateFormProps> = ({
           <label className="form-label">
             Content <span className="form-label__required">*</span>
           </label>
-          <textarea
-            ref={contentRef}
+          <TemplateContentEditor
             value={formData.content}
-            onChange={(e) => handleInputChange('content', e.target.value)}
-            className={`form-textarea ${errors.content ? 'form-textarea--error' : ''}`}
-            rows={12}
-            placeholder="Enter template content using {{variable_name}} for placeholders"
+            onChange={(value) => handleInputChange('content', value)}
+            channel={formData.channel}
+            variables={variableDefinitions}
+            issues={contentIssues}
+            textareaRef={contentRef}
+            error={errors.content}
           />
-          <p className="char-counter">
-            {charCount} characters
-          </p>
           {errors.content && <span className="form-error">{errors.content}</span>}
         </div>
 
-        {/* Variable Palette */}
+        {/* Preview and Variable Palette */}
         <div>
+          <TemplatePreview
+            content={formData.content}
+            channel={formData.channel}
+            variables={variableDefinitions}
+            templateId={template?.id}
+            savedContent={template?.content.content}
+          />
           <label className="form-label">Available Variables</label>
           <div className="variable-palette">
             <p className="variable-palette__title">Available Variables</p>
@@ -224,6 +248,35 @@ const TemplateForm: React.FC<TemplateFormProps> = ({
         </div>
       </div>
 
+      {/* Change Note (edits are saved as a new version) */}
+      {template && (
+        <div className="form-group form-group--spaced">
+          <label className="form-label">
+            Change Note <span className="form-label__required">*</span>
+          </label>
+          <textarea
+            value={changeNote}
+            onChange={(e) => {
+              setChangeNote(e.target.value);
+              if (errors.changeNote) {
+                setErrors((prev) => {
+                  const newErrors = { ...prev };
+                  delete newErrors.changeNote;
+                  return newErrors;
+                });
+              }
+            }}
+            className={`form-textarea ${errors.changeNote ? 'form-textarea--error' : ''}`}
+            rows={2}
+            placeholder="What changed and why"
+          />
+          {errors.changeNote && <span className="form-error">{errors.changeNote}</span>}
+          <p className="char-counter">
+            Saved as a new draft version. The live template does not change until the version is approved.
+          </p>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="form-actions">
         <button
@@ -239,7 +292,7 @@ const TemplateForm: React.FC<TemplateFormProps> = ({
           className="btn btn-primary"
           disabled={loading}
         >
-          {loading ? 'Saving...' : template ? 'Update Template' : 'Create Template'}
+          {loading ? 'Saving...' : template ? 'Save New Version' : 'Create Template'}
         </button>
       </div>
     </form>
@@ -0,0 +1,214 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from '@components/common/Modal';
+import { useSaveTemplateGroup } from '@services/queries';
+import { normalizeTemplateLanguage } from '@utils';
+import {
+  FALLBACK_TEMPLATE_LANGUAGE,
+  LANGUAGE_CODES,
+  TEMPLATE_LANGUAGES,
+} from '../../../types/template.types';
+import type {
+  TemplateChannelType,
+  TemplateGroup,
+  TemplateLanguage,
+  TemplateListItem,
+} from '../../../types/template.types';
+
+interface TemplateGroupFormProps {
+  isOpen: boolean;
+  // Group being edited; a new group is created when null
+  group: TemplateGroup | null;
+  templates: TemplateListItem[];
+  onClose: () => void;
+}
+
+const CHANNELS: TemplateChannelType[] = ['SMS', 'WHATSAPP', 'EMAIL', 'IVR', 'NOTICE'];
+
+type VariantSelection = Partial<Record<TemplateLanguage, number>>;
+
+const selectionFromGroup = (group: TemplateGroup | null): VariantSelection => {
+  const selection: VariantSelection = {};
+  group?.variants.forEach((variant) => {
+    selection[variant.language] = variant.templateId;
+  });
+  return selection;
+};
+
+/**
+ * Create or edit a template group by picking one template per language
+ */
+const TemplateGroupForm: React.FC<TemplateGroupFormProps> = ({ isOpen, group, templates, onClose }) => {
+  const saveMutation = useSaveTemplateGroup();
+  const [groupName, setGroupName] = useState(group?.groupName || '');
+  const [channel, setChannel] = useState<TemplateChannelType>(group?.channel || 'SMS');
+  const [description, setDescription] = useState(group?.description || '');
+  const [selection, setSelection] = useState<VariantSelection>(() => selectionFromGroup(group));
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  // Templates on the chosen channel, bucketed by language
+  const templatesByLanguage = useMemo(() => {
+    const buckets: Partial<Record<TemplateLanguage, TemplateListItem[]>> = {};
+    templates
+      .filter((template) => template.channel === channel)
+      .forEach((template) => {
+        const language = normalizeTemplateLanguage(template.language);
+        if (!language) return;
+        buckets[language] = [...(buckets[language] || []), template];
+      });
+    return buckets;
+  }, [templates, channel]);
+
+  const selectedCount = TEMPLATE_LANGUAGES.filter((language) => selection[language]).length;
+
+  const handleChannelChange = (value: TemplateChannelType) => {
+    setChannel(value);
+    // Variants must share the group's channel
+    setSelection({});
+  };
+
+  const handleSelect = (language: TemplateLanguage, value: string) => {
+    setSelection((prev) => ({ ...prev, [language]: value ? Number(value) : undefined }));
+    if (errors.variants) {
+      setErrors((prev) => {
+        const newErrors = { ...prev };
+        delete newErrors.variants;
+        return newErrors;
+      });
+    }
+  };
+
+  const validate = (): boolean => {
+    const newErrors: Record<string, string> = {};
+    if (!groupName.trim()) {
+      newErrors.groupName = 'Group name is required';
+    }
+    if (!selection[FALLBACK_TEMPLATE_LANGUAGE]) {
+      newErrors.variants = 'Pick an English template; it is sent when a customer\'s language is missing';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSave = async () => {
+    if (!validate()) return;
+    try {
+      await saveMutation.mutateAsync({
+        groupId: group?.id,
+        group: {
+          groupName: groupName.trim(),
+          channel,
+          description: description.trim() || null,
+          templateIds: TEMPLATE_LANGUAGES.map((language) => selection[language]).filter(
+            (id): id is number => !!id
+          ),
+        },
+      });
+      onClose();
+    } catch (err) {
+      setErrors({ form: err instanceof Error ? err.message : 'Failed to save template group' });
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      size="lg"
+      title={group ? `Edit ${group.groupName}` : 'New Template Group'}
+      footer={
+        <>
+          <button type="button" className="btn btn-secondary" onClick={onClose} disabled={saveMutation.isPending}>
+            Cancel
+          </button>
+          <button type="button" className="btn btn-primary" onClick={handleSave} disabled={saveMutation.isPending}>
+            {saveMutation.isPending ? 'Saving...' : group ? 'Save Group' : 'Create Group'}
+          </button>
+        </>
+      }
+    >
+      {errors.form && <div className="error-message">{errors.form}</div>}
+
+      <div className="form-group">
+        <label className="form-label">
+          Group Name <span className="form-label__required">*</span>
+        </label>
+        <input
+          type="text"
+          value={groupName}
+          onChange={(e) => setGroupName(e.target.value)}
+          className={`form-input ${errors.groupName ? 'form-input--error' : ''}`}
+          placeholder="e.g. Payment Reminder"
+        />
+        {errors.groupName && <span className="form-error">{errors.groupName}</span>}
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">
+          Channel <span className="form-label__required">*</span>
+        </label>
+        <select
+          value={channel}
+          onChange={(e) => handleChannelChange(e.target.value as TemplateChannelType)}
+          className="form-select"
+        >
+          {CHANNELS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">Description</label>
+        <textarea
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className="form-textarea"
+          rows={2}
+          placeholder="What this communication is for"
+        />
+      </div>
+
+      <div className="form-group">
+        <label className="form-label">
+          Language Variants ({selectedCount} of {TEMPLATE_LANGUAGES.length})
+        </label>
+        <div className="template-group-form__variants">
+          {TEMPLATE_LANGUAGES.map((language) => {
+            const options = templatesByLanguage[language] || [];
+            return (
+              <div key={language} className="template-group-form__variant">
+                <span className="template-group-form__language">
+                  <span className="language-code">{LANGUAGE_CODES[language]}</span>
+                  {language}
+                  {language === FALLBACK_TEMPLATE_LANGUAGE && <span className="form-label__required"> *</span>}
+                </span>
+                <select
+                  value={selection[language] ?? ''}
+                  onChange={(e) => handleSelect(language, e.target.value)}
+                  className="form-select"
+                  disabled={options.length === 0}
+                >
+                  <option value="">{options.length === 0 ? `No ${channel} templates` : 'Not covered'}</option>
+                  {options.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.templateName} ({template.templateCode})
+                      {template.isActive ? '' : ' - inactive'}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            );
+          })}
+        </div>
+        {errors.variants && <span className="form-error">{errors.variants}</span>}
+        <p className="char-counter">
+          Customers whose preferred language is not covered receive the English variant.
+        </p>
+      </div>
+    </Modal>
+  );
+};
+
+export default TemplateGroupForm;
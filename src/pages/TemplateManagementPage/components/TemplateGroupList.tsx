@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { useDeleteTemplateGroup, useTemplateGroups } from '@services/queries';
+import { getGroupVariant, getMissingLanguages, resolveGroupVariant } from '@utils';
+import {
+  FALLBACK_TEMPLATE_LANGUAGE,
+  LANGUAGE_CODES,
+  TEMPLATE_LANGUAGES,
+} from '../../../types/template.types';
+import type { TemplateGroup, TemplateLanguage, TemplateListItem } from '../../../types/template.types';
+import TemplateGroupForm from './TemplateGroupForm';
+
+interface TemplateGroupListProps {
+  templates: TemplateListItem[];
+}
+
+interface FormState {
+  group: TemplateGroup | null;
+}
+
+/**
+ * Template groups with their language coverage
+ * Each group is one logical communication; the grid shows which languages still need a variant.
+ */
+const TemplateGroupList: React.FC<TemplateGroupListProps> = ({ templates }) => {
+  const groupsQuery = useTemplateGroups();
+  const deleteMutation = useDeleteTemplateGroup();
+  const [formState, setFormState] = useState<FormState | null>(null);
+  const [previewLanguage, setPreviewLanguage] = useState<TemplateLanguage | ''>('');
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const groups = groupsQuery.data || [];
+
+  const handleDelete = async (group: TemplateGroup) => {
+    if (!window.confirm(`Delete the group "${group.groupName}"? Its templates are kept.`)) return;
+    setActionError(null);
+    try {
+      await deleteMutation.mutateAsync(group.id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to delete template group');
+    }
+  };
+
+  const renderCoverage = (group: TemplateGroup) => (
+    <div className="language-coverage">
+      {TEMPLATE_LANGUAGES.map((language) => {
+        const variant = getGroupVariant(group, language);
+        return (
+          <span
+            key={language}
+            className={`language-coverage__cell ${
+              variant ? 'language-coverage__cell--covered' : 'language-coverage__cell--missing'
+            }`}
+            title={variant ? `${language}: ${variant.templateName}` : `${language}: missing`}
+          >
+            {LANGUAGE_CODES[language]}
+          </span>
+        );
+      })}
+    </div>
+  );
+
+  // What a customer with the chosen preference would receive from each group
+  const renderResolution = (group: TemplateGroup) => {
+    if (!previewLanguage) return null;
+    const { variant, isFallback } = resolveGroupVariant(group, previewLanguage);
+    if (!variant) {
+      return <span className="template-group__resolution template-group__resolution--none">Nothing sent</span>;
+    }
+    return (
+      <span className={`template-group__resolution ${isFallback ? 'template-group__resolution--fallback' : ''}`}>
+        {variant.templateName}
+        {isFallback && ` (${FALLBACK_TEMPLATE_LANGUAGE} fallback)`}
+      </span>
+    );
+  };
+
+  return (
+    <div>
+      <div className="filter-section template-group__toolbar">
+        <div className="template-group__preview-language">
+          <label className="form-label">Check customer language</label>
+          <select
+            value={previewLanguage}
+            onChange={(e) => setPreviewLanguage(e.target.value as TemplateLanguage | '')}
+            className="form-select"
+          >
+            <option value="">Select a language</option>
+            {TEMPLATE_LANGUAGES.map((language) => (
+              <option key={language} value={language}>
+                {language}
+              </option>
+            ))}
+          </select>
+        </div>
+        <button type="button" className="btn btn-primary" onClick={() => setFormState({ group: null })}>
+          <span>+</span>
+          New Group
+        </button>
+      </div>
+
+      {actionError && <div className="error-message">{actionError}</div>}
+
+      <div className="template-table-container">
+        {groupsQuery.isLoading ? (
+          <div className="loading-state">Loading template groups...</div>
+        ) : groupsQuery.error ? (
+          <div className="error-message">{groupsQuery.error.message || 'Failed to load template groups'}</div>
+        ) : groups.length === 0 ? (
+          <div className="empty-state">
+            No template groups yet. Group the language versions of a template so strategies can send each
+            customer their own language.
+          </div>
+        ) : (
+          <table className="template-table">
+            <thead>
+              <tr>
+                <th>Group</th>
+                <th>Channel</th>
+                <th>Languages</th>
+                <th>Missing</th>
+                {previewLanguage && <th>Sent for {previewLanguage}</th>}
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map((group) => {
+                const missing = getMissingLanguages(group);
+                const hasFallback = !!getGroupVariant(group, FALLBACK_TEMPLATE_LANGUAGE);
+                return (
+                  <tr key={group.id}>
+                    <td>
+                      <div>{group.groupName}</div>
+                      <code>{group.groupCode}</code>
+                    </td>
+                    <td>
+                      <span className={`channel-badge channel-badge--${group.channel.toLowerCase()}`}>
+                        {group.channel}
+                      </span>
+                    </td>
+                    <td>{renderCoverage(group)}</td>
+                    <td>
+                      {missing.length === 0 ? (
+                        <span className="status-badge status-badge--active">All covered</span>
+                      ) : (
+                        <span className="template-group__hint" title={missing.join(', ')}>
+                          {missing.length} missing: {missing.map((language) => LANGUAGE_CODES[language]).join(', ')}
+                        </span>
+                      )}
+                      {!hasFallback && (
+                        <div className="form-error">No English variant to fall back on</div>
+                      )}
+                    </td>
+                    {previewLanguage && <td>{renderResolution(group)}</td>}
+                    <td>
+                      <div className="template-group__actions">
+                        <button
+                          type="button"
+                          className="btn btn-secondary btn-sm"
+                          onClick={() => setFormState({ group })}
+                        >
+                          Edit
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn-danger btn-sm"
+                          onClick={() => handleDelete(group)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {formState && (
+        <TemplateGroupForm
+          key={formState.group?.id ?? 'new'}
+          isOpen
+          group={formState.group}
+          templates={templates}
+          onClose={() => setFormState(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default TemplateGroupList;
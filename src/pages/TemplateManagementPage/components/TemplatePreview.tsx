@@ -0,0 +1,117 @@
+import React, { useMemo, useState } from 'react';
+import type { TemplateChannelType, VariableDefinition } from '../../../types/template.types';
+import { useResolvedTemplate } from '@services/queries';
+import { extractVariableValues, fillTemplate, getSmsStats, getTemplateVariableKeys } from '@utils';
+
+interface TemplatePreviewProps {
+  content: string;
+  channel: TemplateChannelType;
+  variables: VariableDefinition[];
+  // Saved template, when editing; only saved templates can be resolved against a case
+  templateId?: number;
+  savedContent?: string;
+}
+
+/**
+ * Preview of the content being edited, filled in from a sample case
+ * resolveTemplate only works on the saved template, so the values it produced are lined up
+ * with the saved content and reused for the draft. Variables the saved version does not use
+ * fall back to their example values.
+ */
+const TemplatePreview: React.FC<TemplatePreviewProps> = ({
+  content,
+  channel,
+  variables,
+  templateId,
+  savedContent,
+}) => {
+  const [caseIdInput, setCaseIdInput] = useState('');
+  const [sampleCaseId, setSampleCaseId] = useState<number | undefined>();
+  const resolvedQuery = useResolvedTemplate(templateId, sampleCaseId);
+
+  const exampleValues = useMemo(() => {
+    const values: Record<string, string> = {};
+    variables.forEach((variable) => {
+      if (variable.exampleValue) values[variable.variableKey] = variable.exampleValue;
+    });
+    return values;
+  }, [variables]);
+
+  const caseValues = useMemo(() => {
+    if (!resolvedQuery.data || savedContent === undefined) return null;
+    return extractVariableValues(savedContent, resolvedQuery.data.resolvedContent);
+  }, [resolvedQuery.data, savedContent]);
+
+  const preview = fillTemplate(content, { ...exampleValues, ...(caseValues || {}) });
+  const exampleKeys = getTemplateVariableKeys(content).filter((key) => !caseValues || !(key in caseValues));
+  const smsStats = channel === 'SMS' ? getSmsStats(preview) : null;
+
+  const applyCaseId = () => {
+    const caseId = parseInt(caseIdInput, 10);
+    setSampleCaseId(caseId > 0 ? caseId : undefined);
+  };
+
+  return (
+    <div className="template-preview">
+      <div className="template-preview__header">
+        <span className="form-label">Preview</span>
+        {templateId ? (
+          <div className="template-preview__case">
+            <input
+              type="number"
+              min={1}
+              value={caseIdInput}
+              onChange={(e) => setCaseIdInput(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  applyCaseId();
+                }
+              }}
+              className="form-input template-preview__case-input"
+              placeholder="Sample case ID"
+            />
+            <button type="button" className="btn btn-secondary btn-sm" onClick={applyCaseId}>
+              Resolve
+            </button>
+          </div>
+        ) : null}
+      </div>
+
+      {!templateId && (
+        <p className="template-preview__note">
+          Save the template to preview it against a real case. Example values are shown until then.
+        </p>
+      )}
+      {resolvedQuery.isFetching && (
+        <p className="template-preview__note">Resolving against case #{sampleCaseId}...</p>
+      )}
+      {resolvedQuery.error && (
+        <p className="template-preview__note template-preview__note--error">
+          Could not resolve against case #{sampleCaseId}: {resolvedQuery.error.message}
+        </p>
+      )}
+      {resolvedQuery.data && !caseValues && (
+        <p className="template-preview__note template-preview__note--error">
+          The resolved text did not match the saved content, so example values are shown.
+        </p>
+      )}
+
+      <pre className="template-preview__body">{preview || 'Nothing to preview yet'}</pre>
+
+      {exampleKeys.length > 0 && (
+        <p className="template-preview__note">
+          Example values used for: {exampleKeys.map((key) => `{{${key}}}`).join(', ')}
+        </p>
+      )}
+      {smsStats && (
+        <p className="char-counter">
+          Sends as {smsStats.segments} SMS segment{smsStats.segments === 1 ? '' : 's'} ({smsStats.length}{' '}
+          {smsStats.encoding === 'UNICODE' ? 'Unicode' : 'GSM-7'} characters)
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default TemplatePreview;
@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import type { TemplateVersion } from '../../../types/template.types';
+import { diffLines, diffTemplateVariables } from '@utils';
+
+interface TemplateVersionDiffProps {
+  before: TemplateVersion;
+  after: TemplateVersion;
+}
+
+/**
+ * Side-by-side comparison of two template versions: settings, variables and content
+ */
+const TemplateVersionDiff: React.FC<TemplateVersionDiffProps> = ({ before, after }) => {
+  const rows = useMemo(
+    () => diffLines(before.content.content, after.content.content),
+    [before.content.content, after.content.content]
+  );
+  const variables = useMemo(
+    () => diffTemplateVariables(before.content.content, after.content.content),
+    [before.content.content, after.content.content]
+  );
+
+  const fieldChanges = [
+    { label: 'Name', before: before.templateName, after: after.templateName },
+    { label: 'Channel', before: before.channel, after: after.channel },
+    { label: 'Language', before: before.language, after: after.language },
+    { label: 'Subject', before: before.content.subject || '-', after: after.content.subject || '-' },
+  ].filter((field) => field.before !== field.after);
+
+  const unchanged = fieldChanges.length === 0 && rows.every((row) => row.type === 'same');
+
+  return (
+    <div className="version-diff">
+      <div className="version-diff__header">
+        <span>v{before.versionNumber}</span>
+        <span>v{after.versionNumber}</span>
+      </div>
+
+      {unchanged && <p className="version-diff__empty">These versions are identical.</p>}
+
+      {fieldChanges.length > 0 && (
+        <table className="version-diff__fields">
+          <tbody>
+            {fieldChanges.map((field) => (
+              <tr key={field.label}>
+                <th>{field.label}</th>
+                <td className="version-diff__cell--removed">{field.before}</td>
+                <td className="version-diff__cell--added">{field.after}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {(variables.added.length > 0 || variables.removed.length > 0) && (
+        <div className="version-diff__variables">
+          {variables.removed.map((key) => (
+            <code key={`removed-${key}`} className="version-diff__variable version-diff__variable--removed">
+              − {`{{${key}}}`}
+            </code>
+          ))}
+          {variables.added.map((key) => (
+            <code key={`added-${key}`} className="version-diff__variable version-diff__variable--added">
+              + {`{{${key}}}`}
+            </code>
+          ))}
+        </div>
+      )}
+
+      <table className="version-diff__content">
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className={`version-diff__row version-diff__row--${row.type}`}>
+              <td className="version-diff__number">{row.leftNumber}</td>
+              <td className={row.left !== undefined && row.type !== 'same' ? 'version-diff__cell--removed' : ''}>
+                {row.left}
+              </td>
+              <td className="version-diff__number">{row.rightNumber}</td>
+              <td className={row.right !== undefined && row.type !== 'same' ? 'version-diff__cell--added' : ''}>
+                {row.right}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TemplateVersionDiff;
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { Modal } from '@components/common/Modal';
+import { PERMISSIONS } from '@config/constants';
+import { useAuth, usePermission } from '@hooks';
+import {
+  useReviewTemplateVersion,
+  useRollbackTemplateVersion,
+  useSubmitTemplateVersion,
+  useTemplateVersions,
+} from '@services/queries';
+import { TEMPLATE_VERSION_STATUS_LABELS } from '../../../types/template.types';
+import type { TemplateDetail, TemplateVersion } from '../../../types/template.types';
+import TemplateVersionDiff from './TemplateVersionDiff';
+
+interface TemplateVersionHistoryProps {
+  template: TemplateDetail;
+  // Called after a version goes live, so the page can reload the template
+  onActivated: () => void;
+}
+
+interface PendingAction {
+  type: 'APPROVE' | 'REJECT' | 'ROLLBACK';
+  version: TemplateVersion;
+}
+
+const ACTION_TITLES: Record<PendingAction['type'], string> = {
+  APPROVE: 'Approve',
+  REJECT: 'Reject',
+  ROLLBACK: 'Roll back to',
+};
+
+const formatDateTime = (dateString: string | null | undefined): string => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleString();
+};
+
+/**
+ * Version history of a template with review, approval, rollback and comparison
+ * Reviewers cannot approve their own changes.
+ */
+const TemplateVersionHistory: React.FC<TemplateVersionHistoryProps> = ({ template, onActivated }) => {
+  const { user } = useAuth();
+  const { hasPermission } = usePermission();
+  const canApprove = hasPermission(PERMISSIONS.TEMPLATE_APPROVE);
+
+  const versionsQuery = useTemplateVersions(template.id);
+  const submitMutation = useSubmitTemplateVersion(template.id);
+  const reviewMutation = useReviewTemplateVersion(template.id);
+  const rollbackMutation = useRollbackTemplateVersion(template.id);
+
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [note, setNote] = useState('');
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const versions = useMemo(
+    () => [...(versionsQuery.data || [])].sort((a, b) => b.versionNumber - a.versionNumber),
+    [versionsQuery.data]
+  );
+
+  // Older version on the left
+  const compared = useMemo(() => {
+    if (compareIds.length !== 2) return null;
+    const selected = versions
+      .filter((version) => compareIds.includes(version.id))
+      .sort((a, b) => a.versionNumber - b.versionNumber);
+    return selected.length === 2 ? { before: selected[0], after: selected[1] } : null;
+  }, [compareIds, versions]);
+
+  const toggleCompare = (versionId: number) => {
+    setCompareIds((prev) => {
+      if (prev.includes(versionId)) return prev.filter((id) => id !== versionId);
+      // Keep the most recent pick and replace the older one
+      return [...prev, versionId].slice(-2);
+    });
+  };
+
+  const showChanges = (version: TemplateVersion) => {
+    const previous = versions.find((other) => other.versionNumber < version.versionNumber);
+    if (previous) setCompareIds([previous.id, version.id]);
+  };
+
+  const openAction = (action: PendingAction) => {
+    setPendingAction(action);
+    setNote(action.type === 'ROLLBACK' ? `Roll back to v${action.version.versionNumber}` : '');
+    setActionError(null);
+  };
+
+  const closeAction = () => {
+    setPendingAction(null);
+    setActionError(null);
+  };
+
+  const handleSubmitForReview = async (version: TemplateVersion) => {
+    setActionError(null);
+    try {
+      await submitMutation.mutateAsync(version.id);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Failed to submit for review');
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+    try {
+      if (pendingAction.type === 'ROLLBACK') {
+        await rollbackMutation.mutateAsync({ versionId: pendingAction.version.id, changeNote: note.trim() });
+      } else {
+        await reviewMutation.mutateAsync({
+          versionId: pendingAction.version.id,
+          review: { decision: pendingAction.type, comment: note.trim() || undefined },
+        });
+      }
+      if (pendingAction.type !== 'REJECT') onActivated();
+      setPendingAction(null);
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
+  const isOwnVersion = (version: TemplateVersion) => !!user && version.createdBy === user.id;
+  const canRollBackTo = (version: TemplateVersion) =>
+    canApprove && !version.isActive && (version.status === 'APPROVED' || version.status === 'SUPERSEDED');
+  const noteRequired = pendingAction?.type === 'REJECT' || pendingAction?.type === 'ROLLBACK';
+  const isSaving = reviewMutation.isPending || rollbackMutation.isPending;
+
+  const renderActions = (version: TemplateVersion) => (
+    <div className="version-history__actions">
+      {version.status === 'DRAFT' && (
+        <button
+          type="button"
+          className="btn btn-primary btn-sm"
+          onClick={() => handleSubmitForReview(version)}
+          disabled={submitMutation.isPending}
+        >
+          Submit for Review
+        </button>
+      )}
+      {version.status === 'IN_REVIEW' && canApprove && !isOwnVersion(version) && (
+        <>
+          <button
+            type="button"
+            className="btn btn-primary btn-sm"
+            onClick={() => openAction({ type: 'APPROVE', version })}
+          >
+            Approve
+          </button>
+          <button
+            type="button"
+            className="btn btn-danger btn-sm"
+            onClick={() => openAction({ type: 'REJECT', version })}
+          >
+            Reject
+          </button>
+        </>
+      )}
+      {version.status === 'IN_REVIEW' && canApprove && isOwnVersion(version) && (
+        <span className="version-history__hint">Another approver must review your change</span>
+      )}
+      {canRollBackTo(version) && (
+        <button
+          type="button"
+          className="btn btn-secondary btn-sm"
+          onClick={() => openAction({ type: 'ROLLBACK', version })}
+        >
+          Roll Back
+        </button>
+      )}
+    </div>
+  );
+
+  if (versionsQuery.isLoading) {
+    return <div className="loading-state">Loading versions...</div>;
+  }
+
+  if (versionsQuery.error) {
+    return <div className="error-message">{versionsQuery.error.message || 'Failed to load versions'}</div>;
+  }
+
+  return (
+    <div className="version-history">
+      {actionError && !pendingAction && <div className="error-message">{actionError}</div>}
+
+      {versions.length === 0 ? (
+        <div className="empty-state">No versions recorded yet</div>
+      ) : (
+        <table className="template-table version-history__table">
+          <thead>
+            <tr>
+              <th>Compare</th>
+              <th>Version</th>
+              <th>Status</th>
+              <th>Change Note</th>
+              <th>Author</th>
+              <th>Review</th>
+              <th>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {versions.map((version) => (
+              <tr key={version.id} className={version.isActive ? 'version-history__row--active' : undefined}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={compareIds.includes(version.id)}
+                    onChange={() => toggleCompare(version.id)}
+                    aria-label={`Compare version ${version.versionNumber}`}
+                  />
+                </td>
+                <td>
+                  <strong>v{version.versionNumber}</strong>
+                  {version.isActive && <span className="version-history__live">Live</span>}
+                </td>
+                <td>
+                  <span className={`version-status version-status--${version.status.toLowerCase()}`}>
+                    {TEMPLATE_VERSION_STATUS_LABELS[version.status]}
+                  </span>
+                </td>
+                <td>
+                  {version.changeNote || '-'}
+                  {version.rolledBackFromVersion && (
+                    <span className="version-history__hint"> (restores v{version.rolledBackFromVersion})</span>
+                  )}
+                  {version.versionNumber > 1 && (
+                    <button type="button" className="version-history__link" onClick={() => showChanges(version)}>
+                      View changes
+                    </button>
+                  )}
+                </td>
+                <td>
+                  <div>{version.createdByName || `User #${version.createdBy}`}</div>
+                  <div className="version-history__hint">{formatDateTime(version.createdAt)}</div>
+                </td>
+                <td>
+                  {version.reviewedAt ? (
+                    <>
+                      <div>{version.reviewedByName || `User #${version.reviewedBy}`}</div>
+                      <div className="version-history__hint">{formatDateTime(version.reviewedAt)}</div>
+                      {version.reviewComment && (
+                        <div className="version-history__hint">“{version.reviewComment}”</div>
+                      )}
+                    </>
+                  ) : version.submittedAt ? (
+                    <div className="version-history__hint">Submitted {formatDateTime(version.submittedAt)}</div>
+                  ) : (
+                    '-'
+                  )}
+                </td>
+                <td>{renderActions(version)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {compareIds.length === 1 && (
+        <p className="version-history__hint">Select one more version to compare.</p>
+      )}
+      {compared && <TemplateVersionDiff before={compared.before} after={compared.after} />}
+
+      <Modal
+        isOpen={!!pendingAction}
+        onClose={closeAction}
+        size="sm"
+        title={pendingAction ? `${ACTION_TITLES[pendingAction.type]} v${pendingAction.version.versionNumber}` : ''}
+        footer={
+          <>
+            <button type="button" className="btn btn-secondary" onClick={closeAction} disabled={isSaving}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className={pendingAction?.type === 'REJECT' ? 'btn btn-danger' : 'btn btn-primary'}
+              onClick={handleConfirm}
+              disabled={isSaving || (noteRequired && !note.trim())}
+            >
+              {isSaving ? 'Saving...' : 'Confirm'}
+            </button>
+          </>
+        }
+      >
+        {pendingAction?.type === 'APPROVE' && (
+          <p className="version-history__hint">
+            Approving makes v{pendingAction.version.versionNumber} the live version. Every strategy using this
+            template will send it from now on.
+          </p>
+        )}
+        {pendingAction?.type === 'ROLLBACK' && (
+          <p className="version-history__hint">
+            The content of v{pendingAction.version.versionNumber} is published again as a new version.
+          </p>
+        )}
+        <label className="form-label">
+          {pendingAction?.type === 'ROLLBACK' ? 'Change note' : 'Comment'}
+          {noteRequired && <span className="form-label__required"> *</span>}
+        </label>
+        <textarea
+          className="form-textarea version-history__note"
+          rows={3}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={
+            pendingAction?.type === 'REJECT'
+              ? 'What needs to change?'
+              : pendingAction?.type === 'ROLLBACK'
+                ? 'Why is this version being restored?'
+                : 'Optional'
+          }
+        />
+        {actionError && <span className="form-error">{actionError}</span>}
+      </Modal>
+    </div>
+  );
+};
+
+export default TemplateVersionHistory;
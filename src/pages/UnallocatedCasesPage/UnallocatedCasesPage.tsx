@@ -7,6 +7,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { caseSourcingService } from '@services/api'
 import { Table, Pagination, Column } from '@components/common/Table'
+import { ROUTES } from '@config/constants'
 import type { UnallocatedCaseSummary } from '@types'
 import './UnallocatedCasesPage.css'
 
@@ -43,7 +44,7 @@ export function UnallocatedCasesPage() {
   }, [fetchCases])
 
   const handleViewCase = (caseItem: UnallocatedCaseSummary) => {
-    navigate(`/case-sourcing/unallocated/${caseItem.id}`)
+    navigate(ROUTES.CASE_DETAIL.replace(':caseId', String(caseItem.id)))
   }
 
   const formatDate = (dateStr: string): string => {
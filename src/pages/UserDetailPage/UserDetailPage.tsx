@@ -9,6 +9,7 @@ import { userManagementService } from '@services/api'
 import { Button } from '@components/common/Button'
 import type { User } from '@types'
 import { ROUTES } from '@config/constants'
+import { formatIndianMobile, maskAadhaar } from '@utils'
 import './UserDetailPage.css'
 
 export function UserDetailPage() {
@@ -148,7 +149,23 @@ export function UserDetailPage() {
             </div>
             <div className="info-item">
               <span className="info-label">Mobile Number</span>
-              <span className="info-value">{user.mobileNumber || 'N/A'}</span>
+              <span className="info-value">
+                {user.mobileNumber ? formatIndianMobile(user.mobileNumber) : 'N/A'}
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">PAN</span>
+              <span className="info-value">{user.panNumber || 'N/A'}</span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Aadhaar Number</span>
+              <span className="info-value">
+                {user.aadhaarNumber ? maskAadhaar(user.aadhaarNumber) : 'N/A'}
+              </span>
+            </div>
+            <div className="info-item">
+              <span className="info-label">Pincode</span>
+              <span className="info-value">{user.pincode || 'N/A'}</span>
             </div>
             <div className="info-item">
               <span className="info-label">First Login</span>
@@ -3,46 +3,70 @@
  * List, create, edit, and delete users
  */
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { userManagementService, roleService, masterDataService } from '@services/api'
+import { userManagementService } from '@services/api'
+import {
+  useUsers,
+  useRoles,
+  useCreateUser,
+  useUpdateUser,
+  useDeleteUser,
+  useMasterDataByType,
+} from '@services/queries'
 import { Table, Pagination, Column } from '@components/common/Table'
 import { Modal } from '@components/common/Modal'
 import { Button } from '@components/common/Button'
+import {
+  isValidAadhaar,
+  isValidIndianMobile,
+  isValidPAN,
+  isValidPincode,
+  maskAadhaar,
+} from '@utils'
 import type {
   UserSummary,
   User,
-  Role,
   CreateUserRequest,
   UpdateUserRequest,
   AllocationBucket,
-  MasterData,
 } from '@types'
 import './UsersPage.css'
 
 export function UsersPage() {
   const navigate = useNavigate()
-  const [users, setUsers] = useState<UserSummary[]>([])
-  const [roles, setRoles] = useState<Role[]>([])
-  const [isLoading, setIsLoading] = useState(true)
   const [error, setError] = useState('')
 
   // Pagination
   const [currentPage, setCurrentPage] = useState(0)
-  const [totalPages, setTotalPages] = useState(0)
-  const [totalElements, setTotalElements] = useState(0)
   const pageSize = 20
 
+  const {
+    data: usersPage,
+    isLoading,
+    error: fetchError,
+    refetch: refetchUsers,
+  } = useUsers({ page: currentPage, size: pageSize })
+  const users = usersPage?.content ?? []
+  const totalPages = usersPage?.totalPages ?? 0
+  const totalElements = usersPage?.totalElements ?? 0
+  const { data: roles = [] } = useRoles()
+
+  const createUser = useCreateUser()
+  const updateUser = useUpdateUser()
+  const deleteUser = useDeleteUser()
+
   // Modal states
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
+  const [formError, setFormError] = useState('')
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false)
   const [selectedUser, setSelectedUser] = useState<User | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   // City and State options from Master Data
-  const [cityOptions, setCityOptions] = useState<MasterData[]>([])
-  const [stateOptions, setStateOptions] = useState<MasterData[]>([])
+  const { data: cityOptions = [] } = useMasterDataByType('CITY')
+  const { data: stateOptions = [] } = useMasterDataByType('STATE')
 
   // Allocation bucket options
   const allocationBucketOptions: AllocationBucket[] = ['DEFAULT', 'HIGH', 'MEDIUM', 'LOW']
@@ -55,10 +79,13 @@ export function UsersPage() {
     firstName: '',
     lastName: '',
     mobileNumber: '',
+    panNumber: '',
+    aadhaarNumber: '',
     status: 'ACTIVE',
     userGroupId: null,
     city: '',
     state: '',
+    pincode: '',
     maxCaseCapacity: 100,
     allocationPercentage: 100,
     allocationBucket: 'DEFAULT',
@@ -66,57 +93,6 @@ export function UsersPage() {
     roleIds: [],
   })
 
-  const fetchUsers = useCallback(async () => {
-    try {
-      setIsLoading(true)
-      const response = await userManagementService.getAll({
-        page: currentPage,
-        size: pageSize,
-      })
-      setUsers(response.content)
-      setTotalPages(response.totalPages)
-      setTotalElements(response.totalElements)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch users')
-    } finally {
-      setIsLoading(false)
-    }
-  }, [currentPage])
-
-  const fetchRoles = useCallback(async () => {
-    try {
-      const rolesData = await roleService.getAll()
-      setRoles(rolesData)
-    } catch (err) {
-      console.error('Failed to fetch roles:', err)
-    }
-  }, [])
-
-  const fetchCityOptions = useCallback(async () => {
-    try {
-      const cities = await masterDataService.getByType('CITY')
-      setCityOptions(cities)
-    } catch (err) {
-      console.error('Failed to fetch city options:', err)
-    }
-  }, [])
-
-  const fetchStateOptions = useCallback(async () => {
-    try {
-      const states = await masterDataService.getByType('STATE')
-      setStateOptions(states)
-    } catch (err) {
-      console.error('Failed to fetch state options:', err)
-    }
-  }, [])
-
-  useEffect(() => {
-    fetchUsers()
-    fetchRoles()
-    fetchCityOptions()
-    fetchStateOptions()
-  }, [fetchUsers, fetchRoles, fetchCityOptions, fetchStateOptions])
-
   const handleViewUser = (user: UserSummary) => {
     navigate(`/access-management/users/${user.id}`)
   }
@@ -140,16 +116,21 @@ export function UsersPage() {
         firstName: fullUser.firstName,
         lastName: fullUser.lastName,
         mobileNumber: fullUser.mobileNumber || '',
+        panNumber: fullUser.panNumber || '',
+        // Left blank so the stored Aadhaar is only replaced when a new one is typed
+        aadhaarNumber: '',
         status: fullUser.status || 'ACTIVE',
         userGroupId: fullUser.userGroupId || null,
         city: fullUser.city || '',
         state: fullUser.state || '',
+        pincode: fullUser.pincode || '',
         maxCaseCapacity: fullUser.maxCaseCapacity || 100,
         allocationPercentage: fullUser.allocationPercentage || 100,
         allocationBucket: fullUser.allocationBucket || 'DEFAULT',
         teamId: fullUser.teamId || null,
         roleIds: fullUser.roles?.map((r: { id: number }) => r.id) || [],
       })
+      setFormError('')
       setIsEditModalOpen(true)
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to fetch user details')
@@ -161,13 +142,39 @@ export function UsersPage() {
     setIsDeleteModalOpen(true)
   }
 
+  const validateForm = (): string => {
+    if (formData.mobileNumber?.trim() && !isValidIndianMobile(formData.mobileNumber)) {
+      return 'Enter a valid 10-digit mobile number starting with 6-9'
+    }
+    if (formData.panNumber?.trim() && !isValidPAN(formData.panNumber)) {
+      return 'Enter a valid 10-character PAN (e.g. ABCPE1234F)'
+    }
+    if (formData.aadhaarNumber?.trim() && !isValidAadhaar(formData.aadhaarNumber)) {
+      return 'Enter a valid 12-digit Aadhaar number'
+    }
+    if (formData.pincode?.trim() && !isValidPincode(formData.pincode)) {
+      return 'Enter a valid 6-digit pincode'
+    }
+    return ''
+  }
+
+  // Blank identity fields are sent as absent rather than as empty strings
+  const getIdentityFields = () => ({
+    panNumber: formData.panNumber?.trim().toUpperCase() || undefined,
+    aadhaarNumber: formData.aadhaarNumber?.replace(/\D/g, '') || undefined,
+    pincode: formData.pincode?.trim() || undefined,
+  })
+
   const handleCreateUser = async () => {
+    const validationError = validateForm()
+    setFormError(validationError)
+    if (validationError) return
+
     try {
       setIsSubmitting(true)
-      await userManagementService.create(formData)
+      await createUser.mutateAsync({ ...formData, ...getIdentityFields() })
       setIsCreateModalOpen(false)
       resetForm()
-      fetchUsers()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create user')
     } finally {
@@ -177,6 +184,9 @@ export function UsersPage() {
 
   const handleUpdateUser = async () => {
     if (!selectedUser) return
+    const validationError = validateForm()
+    setFormError(validationError)
+    if (validationError) return
 
     try {
       setIsSubmitting(true)
@@ -193,11 +203,11 @@ export function UsersPage() {
         allocationBucket: formData.allocationBucket,
         teamId: formData.teamId,
         roleIds: formData.roleIds,
+        ...getIdentityFields(),
       }
-      await userManagementService.update(selectedUser.id, updateData)
+      await updateUser.mutateAsync({ id: selectedUser.id, data: updateData })
       setIsEditModalOpen(false)
       resetForm()
-      fetchUsers()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update user')
     } finally {
@@ -210,10 +220,9 @@ export function UsersPage() {
 
     try {
       setIsSubmitting(true)
-      await userManagementService.delete(selectedUser.id)
+      await deleteUser.mutateAsync(selectedUser.id)
       setIsDeleteModalOpen(false)
       setSelectedUser(null)
-      fetchUsers()
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to delete user')
     } finally {
@@ -222,6 +231,7 @@ export function UsersPage() {
   }
 
   const resetForm = () => {
+    setFormError('')
     setFormData({
       username: '',
       email: '',
@@ -229,10 +239,13 @@ export function UsersPage() {
       firstName: '',
       lastName: '',
       mobileNumber: '',
+      panNumber: '',
+      aadhaarNumber: '',
       status: 'ACTIVE',
       userGroupId: null,
       city: '',
       state: '',
+      pincode: '',
       maxCaseCapacity: 100,
       allocationPercentage: 100,
       allocationBucket: 'DEFAULT',
@@ -384,12 +397,17 @@ export function UsersPage() {
         </Button>
       </div>
 
-      {error && (
+      {error ? (
         <div className="alert alert--error">
           <span>{error}</span>
           <button onClick={() => setError('')}>Dismiss</button>
         </div>
-      )}
+      ) : fetchError ? (
+        <div className="alert alert--error">
+          <span>{fetchError.message || 'Failed to fetch users'}</span>
+          <button onClick={() => refetchUsers()}>Retry</button>
+        </div>
+      ) : null}
 
       <Table columns={columns} data={users} keyExtractor={(user) => user.id} isLoading={isLoading} emptyMessage="No users found" />
 
@@ -421,6 +439,7 @@ export function UsersPage() {
         }
       >
         <form className="modal-form" onSubmit={(e) => e.preventDefault()}>
+          {formError && <div className="alert alert--error">{formError}</div>}
           <div className="form-row">
             <div className="form-group">
               <label className="form-label">First Name</label>
@@ -478,10 +497,40 @@ export function UsersPage() {
             <input
               type="tel"
               className="form-input"
+              placeholder="10-digit mobile number"
               value={formData.mobileNumber}
               onChange={(e) => setFormData({ ...formData, mobileNumber: e.target.value })}
             />
           </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label className="form-label">PAN</label>
+              <input
+                type="text"
+                className="form-input"
+                placeholder="e.g. ABCPE1234F"
+                maxLength={10}
+                value={formData.panNumber}
+                onChange={(e) => setFormData({ ...formData, panNumber: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="form-group">
+              <label className="form-label">Aadhaar Number</label>
+              <input
+                type="text"
+                className="form-input"
+                inputMode="numeric"
+                placeholder={
+                  selectedUser?.aadhaarNumber
+                    ? maskAadhaar(selectedUser.aadhaarNumber)
+                    : '12-digit Aadhaar number'
+                }
+                maxLength={14}
+                value={formData.aadhaarNumber}
+                onChange={(e) => setFormData({ ...formData, aadhaarNumber: e.target.value })}
+              />
+            </div>
+          </div>
           <div className="form-group">
             <label className="form-label">Status</label>
             <select
@@ -523,6 +572,18 @@ export function UsersPage() {
               </select>
             </div>
           </div>
+          <div className="form-group">
+            <label className="form-label">Pincode</label>
+            <input
+              type="text"
+              className="form-input"
+              inputMode="numeric"
+              placeholder="6-digit pincode"
+              maxLength={6}
+              value={formData.pincode}
+              onChange={(e) => setFormData({ ...formData, pincode: e.target.value })}
+            />
+          </div>
           <div className="form-row">
             <div className="form-group">
               <label className="form-label">Max Case Capacity</label>
@@ -604,6 +665,7 @@ export function UsersPage() {
         }
       >
         <form className="modal-form" onSubmit={(e) => e.preventDefault()}>
+          {formError && <div className="alert alert--error">{formError}</div>}
           <div className="form-row">
             <div className="form-group">
               <label className="form-label">First Name</label>
@@ -649,10 +711,40 @@ export function UsersPage() {
             <input
               type="tel"
               className="form-input"
+              placeholder="10-digit mobile number"
               value={formData.mobileNumber}
               onChange={(e) => setFormData({ ...formData, mobileNumber: e.target.value })}
             />
           </div>
+          <div className="form-row">
+            <div className="form-group">
+              <label className="form-label">PAN</label>
+              <input
+                type="text"
+                className="form-input"
+                placeholder="e.g. ABCPE1234F"
+                maxLength={10}
+                value={formData.panNumber}
+                onChange={(e) => setFormData({ ...formData, panNumber: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div className="form-group">
+              <label className="form-label">Aadhaar Number</label>
+              <input
+                type="text"
+                className="form-input"
+                inputMode="numeric"
+                placeholder={
+                  selectedUser?.aadhaarNumber
+                    ? maskAadhaar(selectedUser.aadhaarNumber)
+                    : '12-digit Aadhaar number'
+                }
+                maxLength={14}
+                value={formData.aadhaarNumber}
+                onChange={(e) => setFormData({ ...formData, aadhaarNumber: e.target.value })}
+              />
+            </div>
+          </div>
           <div className="form-group">
             <label className="form-label">Status</label>
             <select
@@ -694,6 +786,18 @@ export function UsersPage() {
               </select>
             </div>
           </div>
+          <div className="form-group">
+            <label className="form-label">Pincode</label>
+            <input
+              type="text"
+              className="form-input"
+              inputMode="numeric"
+              placeholder="6-digit pincode"
+              maxLength={6}
+              value={formData.pincode}
+              onChange={(e) => setFormData({ ...formData, pincode: e.target.value })}
+            />
+          </div>
           <div className="form-row">
             <div className="form-group">
               <label className="form-label">Max Case Capacity</label>
@@ -3,16 +3,32 @@
  * Case list page for collectors and agents
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { workflowService } from '@services/api/workflow.service';
+import { useAuth, useLocalStorage } from '@hooks';
+import { getUserStorageKey, setStorageItem, todayKey } from '@utils';
 import type { WorkflowCaseListItem } from '@types';
 import { WorkflowCaseStatusLabels, getDpdBadgeColor } from '@types';
-import { ROUTES } from '@config/constants';
+import { ROUTES, PAGINATION } from '@config/constants';
+import config from '@config';
+import {
+  DEFAULT_QUEUE_WEIGHTS,
+  QUEUE_FACTOR_LABELS,
+  rankCases,
+  getTopFactors,
+} from './queueScoring';
+import type { QueueFactorKey, QueueScoreWeights } from './queueScoring';
 import './WorkflowPage.css';
 
+type WorkflowViewMode = 'all' | 'queue';
+
+// Upper bound on case pages ranked for My Queue; beyond it the user is told the queue is partial
+const QUEUE_MAX_PAGES = 10;
+
 export function WorkflowPage() {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [cases, setCases] = useState<WorkflowCaseListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -23,10 +39,88 @@ export function WorkflowPage() {
   const [statusFilter, setStatusFilter] = useState('');
   const pageSize = 20;
 
+  // My Queue mode
+  const [viewMode, setViewMode] = useState<WorkflowViewMode>('all');
+  const [queueCases, setQueueCases] = useState<WorkflowCaseListItem[]>([]);
+  const [ptpsDueByCase, setPtpsDueByCase] = useState<Record<number, number>>({});
+  const [queueLoading, setQueueLoading] = useState(false);
+  // Total assigned cases when there are more than the queue ranks
+  const [queueTruncatedFrom, setQueueTruncatedFrom] = useState<number | null>(null);
+  const [showWeights, setShowWeights] = useState(false);
+  const [weights, setWeights] = useLocalStorage<QueueScoreWeights>(
+    getUserStorageKey(config.storage.queueWeightsKey, user?.id),
+    DEFAULT_QUEUE_WEIGHTS
+  );
+
   useEffect(() => {
     fetchCases();
   }, [page]);
 
+  const fetchQueue = useCallback(async () => {
+    try {
+      setQueueLoading(true);
+      setError(null);
+      const [firstPage, duePtps] = await Promise.all([
+        workflowService.getCasesForWorkflow(0, PAGINATION.MAX_SIZE),
+        workflowService.getTrackedPtps({ scope: 'MINE', status: 'PENDING', toDate: todayKey() }).catch(() => []),
+      ]);
+
+      // Rank every assigned case, not just the first page in backend order
+      const allCases = [...(firstPage.content || [])];
+      const pageCount = Math.min(firstPage.totalPages || 1, QUEUE_MAX_PAGES);
+      for (let nextPage = 1; nextPage < pageCount; nextPage++) {
+        const response = await workflowService.getCasesForWorkflow(nextPage, PAGINATION.MAX_SIZE);
+        allCases.push(...(response.content || []));
+      }
+
+      const dueCounts: Record<number, number> = {};
+      duePtps.forEach((ptp) => {
+        dueCounts[ptp.caseId] = (dueCounts[ptp.caseId] || 0) + 1;
+      });
+      setQueueCases(allCases.filter((c) => c.caseStatus !== 'CLOSED'));
+      setQueueTruncatedFrom((firstPage.totalPages || 1) > QUEUE_MAX_PAGES ? firstPage.totalElements : null);
+      setPtpsDueByCase(dueCounts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to build work queue');
+      setQueueCases([]);
+    } finally {
+      setQueueLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (viewMode === 'queue') {
+      fetchQueue();
+    }
+  }, [viewMode, fetchQueue]);
+
+  const rankedQueue = useMemo(
+    () => rankCases(queueCases, ptpsDueByCase, { ...DEFAULT_QUEUE_WEIGHTS, ...weights }),
+    [queueCases, ptpsDueByCase, weights]
+  );
+
+  // Keep the ranked order so the case detail page can offer "next case"
+  useEffect(() => {
+    if (viewMode === 'queue' && rankedQueue.length > 0) {
+      setStorageItem(
+        getUserStorageKey(config.storage.workQueueKey, user?.id),
+        rankedQueue.map((queued) => queued.caseItem.caseId)
+      );
+    }
+  }, [viewMode, rankedQueue, user?.id]);
+
+  const handleWeightChange = (key: QueueFactorKey, value: number) => {
+    setWeights((prev) => ({ ...DEFAULT_QUEUE_WEIGHTS, ...prev, [key]: value }));
+  };
+
+  const handleRefresh = () => {
+    if (viewMode === 'queue') {
+      fetchQueue();
+    } else {
+      fetchCases();
+    }
+  };
+
   const fetchCases = async () => {
     try {
       setLoading(true);
@@ -44,7 +138,7 @@ export function WorkflowPage() {
   };
 
   const handleViewCase = (caseId: number) => {
-    navigate(ROUTES.WORKFLOW_CASE_DETAIL.replace(':caseId', String(caseId)));
+    navigate(ROUTES.CASE_DETAIL.replace(':caseId', String(caseId)));
   };
 
   const formatCurrency = (amount: number | undefined): string => {
@@ -99,7 +193,7 @@ export function WorkflowPage() {
   };
 
   // Filter cases based on search and status
-  const filteredCases = cases.filter((caseItem) => {
+  const matchesFilters = (caseItem: WorkflowCaseListItem): boolean => {
     const matchesSearch =
       !searchTerm ||
       caseItem.caseNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -107,8 +201,11 @@ export function WorkflowPage() {
       caseItem.loanAccountNumber?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       caseItem.mobileNumber?.includes(searchTerm);
     const matchesStatus = !statusFilter || caseItem.caseStatus === statusFilter;
-    return matchesSearch && matchesStatus;
-  });
+    return !!matchesSearch && matchesStatus;
+  };
+
+  const filteredCases = cases.filter(matchesFilters);
+  const filteredQueue = rankedQueue.filter((queued) => matchesFilters(queued.caseItem));
 
   return (
     <div className="workflow-page">
@@ -121,9 +218,25 @@ export function WorkflowPage() {
           </p>
         </div>
         <div className="workflow-header__stats">
+          <div className="view-toggle">
+            <button
+              className={`view-toggle__btn ${viewMode === 'all' ? 'view-toggle__btn--active' : ''}`}
+              onClick={() => setViewMode('all')}
+            >
+              All Cases
+            </button>
+            <button
+              className={`view-toggle__btn ${viewMode === 'queue' ? 'view-toggle__btn--active' : ''}`}
+              onClick={() => setViewMode('queue')}
+            >
+              My Queue
+            </button>
+          </div>
           <div className="stat-card">
-            <span className="stat-card__value">{totalElements}</span>
-            <span className="stat-card__label">Total Cases</span>
+            <span className="stat-card__value">
+              {viewMode === 'queue' ? rankedQueue.length : totalElements}
+            </span>
+            <span className="stat-card__label">{viewMode === 'queue' ? 'Queued Cases' : 'Total Cases'}</span>
           </div>
         </div>
       </div>
@@ -158,7 +271,12 @@ export function WorkflowPage() {
             <option value="BROKEN_PTP">Broken PTP</option>
             <option value="CLOSED">Closed</option>
           </select>
-          <button className="btn-secondary" onClick={fetchCases}>
+          {viewMode === 'queue' && (
+            <button className="btn-secondary" onClick={() => setShowWeights((v) => !v)}>
+              {showWeights ? 'Hide Scoring' : 'Scoring Weights'}
+            </button>
+          )}
+          <button className="btn-secondary" onClick={handleRefresh}>
             <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
               <path d="M1 4V10H7" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
               <path d="M23 20V14H17" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
@@ -177,119 +295,263 @@ export function WorkflowPage() {
         </div>
       )}
 
-      {/* Cases Table */}
-      <div className="table-card">
-        {loading ? (
-          <div className="loading-container">
-            <div className="spinner"></div>
-            <p>Loading cases...</p>
+      {viewMode === 'queue' && queueTruncatedFrom !== null && (
+        <div className="alert alert--warning">
+          <span>
+            Ranking the first {QUEUE_MAX_PAGES * PAGINATION.MAX_SIZE} of your {queueTruncatedFrom} cases. Use
+            the filters or All Cases to reach the rest.
+          </span>
+        </div>
+      )}
+
+      {/* Queue scoring weights */}
+      {viewMode === 'queue' && showWeights && (
+        <div className="queue-weights">
+          <div className="queue-weights__header">
+            <span className="queue-weights__title">Priority Score Weights</span>
+            <button className="btn-link" onClick={() => setWeights(DEFAULT_QUEUE_WEIGHTS)}>
+              Reset to defaults
+            </button>
           </div>
-        ) : filteredCases.length === 0 ? (
-          <div className="empty-state">
-            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-              <path d="M14 2H6C5.46957 2 4.96086 2.21071 4.58579 2.58579C4.21071 2.96086 4 3.46957 4 4V20C4 20.5304 4.21071 21.0391 4.58579 21.4142C4.96086 21.7893 5.46957 22 6 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V8L14 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-              <path d="M14 2V8H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-            </svg>
-            <p>No cases found</p>
-            <span>Your workflow is empty or no cases match your filters</span>
+          <div className="queue-weights__grid">
+            {(Object.keys(QUEUE_FACTOR_LABELS) as QueueFactorKey[]).map((key) => (
+              <label key={key} className="queue-weight">
+                <span className="queue-weight__label">
+                  {QUEUE_FACTOR_LABELS[key]}
+                  <strong>{weights[key] ?? DEFAULT_QUEUE_WEIGHTS[key]}</strong>
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={50}
+                  step={5}
+                  value={weights[key] ?? DEFAULT_QUEUE_WEIGHTS[key]}
+                  onChange={(e) => handleWeightChange(key, Number(e.target.value))}
+                />
+              </label>
+            ))}
           </div>
-        ) : (
-          <>
+        </div>
+      )}
+
+      {/* My Queue Table */}
+      {viewMode === 'queue' && (
+        <div className="table-card">
+          {queueLoading ? (
+            <div className="loading-container">
+              <div className="spinner"></div>
+              <p>Building your queue...</p>
+            </div>
+          ) : filteredQueue.length === 0 ? (
+            <div className="empty-state">
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M9 12L11 14L15 10" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                <circle cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="2" />
+              </svg>
+              <p>Your queue is empty</p>
+              <span>No open cases match your filters</span>
+            </div>
+          ) : (
             <div className="table-container">
               <table className="workflow-table">
                 <thead>
                   <tr>
+                    <th>Rank</th>
+                    <th>Score</th>
                     <th>Case Number</th>
                     <th>Customer</th>
-                    <th>Loan Account</th>
-                    <th>Lender</th>
                     <th>DPD</th>
-                    <th>Outstanding</th>
                     <th>Overdue</th>
-                    <th>Status</th>
                     <th>Last Event</th>
+                    <th>Why</th>
                     <th>Actions</th>
                   </tr>
                 </thead>
                 <tbody>
-                  {filteredCases.map((caseItem) => (
-                    <tr key={caseItem.caseId}>
-                      <td>
-                        <span
-                          className="cell-link"
-                          onClick={() => handleViewCase(caseItem.caseId)}
-                        >
-                          {caseItem.caseNumber}
-                        </span>
-                      </td>
-                      <td>
-                        <div className="customer-cell">
-                          <span className="customer-name">{caseItem.customerName}</span>
-                          {caseItem.mobileNumber && (
-                            <span className="customer-phone">{caseItem.mobileNumber}</span>
-                          )}
-                        </div>
-                      </td>
-                      <td className="cell-mono">{caseItem.loanAccountNumber}</td>
-                      <td>{caseItem.lender}</td>
-                      <td>
-                        <span className={`badge ${getDpdBadgeClass(caseItem.dpd)}`}>
-                          {caseItem.dpd} days
-                        </span>
-                      </td>
-                      <td className="cell-amount">{formatCurrency(caseItem.totalOutstanding)}</td>
-                      <td className="cell-amount cell-amount--overdue">
-                        {formatCurrency(caseItem.overdueAmount)}
-                      </td>
-                      <td>
-                        <span className={`badge ${getStatusBadgeClass(caseItem.caseStatus)}`}>
-                          {WorkflowCaseStatusLabels[caseItem.caseStatus] || caseItem.caseStatus}
-                        </span>
-                      </td>
-                      <td>{formatDate(caseItem.lastEventDate)}</td>
-                      <td>
-                        <div className="table-actions">
-                          <button
-                            className="btn-icon btn-icon--primary"
-                            title="View Details"
-                            onClick={() => handleViewCase(caseItem.caseId)}
+                  {filteredQueue.map((queued, index) => {
+                    const caseItem = queued.caseItem;
+                    return (
+                      <tr key={caseItem.caseId}>
+                        <td className="queue-rank">#{index + 1}</td>
+                        <td>
+                          <span
+                            className="queue-score"
+                            title={queued.factors
+                              .map((f) => `${f.label}: +${f.points.toFixed(1)} (${f.detail})`)
+                              .join('\n')}
                           >
-                            <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                              <path d="M1 12S5 4 12 4s11 8 11 8-4 8-11 8S1 12 1 12z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                              <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" />
-                            </svg>
-                          </button>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
+                            {queued.score.toFixed(1)}
+                          </span>
+                        </td>
+                        <td>
+                          <span className="cell-link" onClick={() => handleViewCase(caseItem.caseId)}>
+                            {caseItem.caseNumber}
+                          </span>
+                        </td>
+                        <td>
+                          <div className="customer-cell">
+                            <span className="customer-name">{caseItem.customerName}</span>
+                            {caseItem.mobileNumber && (
+                              <span className="customer-phone">{caseItem.mobileNumber}</span>
+                            )}
+                          </div>
+                        </td>
+                        <td>
+                          <span className={`badge ${getDpdBadgeClass(caseItem.dpd)}`}>
+                            {caseItem.dpd} days
+                          </span>
+                        </td>
+                        <td className="cell-amount cell-amount--overdue">
+                          {formatCurrency(caseItem.overdueAmount)}
+                        </td>
+                        <td>{formatDate(caseItem.lastEventDate)}</td>
+                        <td>
+                          <div className="queue-reasons">
+                            {getTopFactors(queued).map((factor) => (
+                              <span key={factor.key} className="queue-reason">
+                                {factor.detail}
+                              </span>
+                            ))}
+                          </div>
+                        </td>
+                        <td>
+                          <div className="table-actions">
+                            <button
+                              className="btn-icon btn-icon--primary"
+                              title="Work Case"
+                              onClick={() => handleViewCase(caseItem.caseId)}
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M5 12H19M19 12L12 5M19 12L12 19" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                              </svg>
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
                 </tbody>
               </table>
             </div>
+          )}
+        </div>
+      )}
 
-            {/* Pagination */}
-            <div className="pagination">
-              <button
-                className="pagination-btn"
-                onClick={() => setPage((p) => Math.max(0, p - 1))}
-                disabled={page === 0}
-              >
-                Previous
-              </button>
-              <span className="pagination-info">
-                Page {page + 1} of {totalPages} ({totalElements} cases)
-              </span>
-              <button
-                className="pagination-btn"
-                onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
-                disabled={page >= totalPages - 1}
-              >
-                Next
-              </button>
+      {/* Cases Table */}
+      {viewMode === 'all' && (
+        <div className="table-card">
+          {loading ? (
+            <div className="loading-container">
+              <div className="spinner"></div>
+              <p>Loading cases...</p>
             </div>
-          </>
-        )}
-      </div>
+          ) : filteredCases.length === 0 ? (
+            <div className="empty-state">
+              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                <path d="M14 2H6C5.46957 2 4.96086 2.21071 4.58579 2.58579C4.21071 2.96086 4 3.46957 4 4V20C4 20.5304 4.21071 21.0391 4.58579 21.4142C4.96086 21.7893 5.46957 22 6 22H18C18.5304 22 19.0391 21.7893 19.4142 21.4142C19.7893 21.0391 20 20.5304 20 20V8L14 2Z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                <path d="M14 2V8H20" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+              </svg>
+              <p>No cases found</p>
+              <span>Your workflow is empty or no cases match your filters</span>
+            </div>
+          ) : (
+            <>
+              <div className="table-container">
+                <table className="workflow-table">
+                  <thead>
+                    <tr>
+                      <th>Case Number</th>
+                      <th>Customer</th>
+                      <th>Loan Account</th>
+                      <th>Lender</th>
+                      <th>DPD</th>
+                      <th>Outstanding</th>
+                      <th>Overdue</th>
+                      <th>Status</th>
+                      <th>Last Event</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredCases.map((caseItem) => (
+                      <tr key={caseItem.caseId}>
+                        <td>
+                          <span
+                            className="cell-link"
+                            onClick={() => handleViewCase(caseItem.caseId)}
+                          >
+                            {caseItem.caseNumber}
+                          </span>
+                        </td>
+                        <td>
+                          <div className="customer-cell">
+                            <span className="customer-name">{caseItem.customerName}</span>
+                            {caseItem.mobileNumber && (
+                              <span className="customer-phone">{caseItem.mobileNumber}</span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="cell-mono">{caseItem.loanAccountNumber}</td>
+                        <td>{caseItem.lender}</td>
+                        <td>
+                          <span className={`badge ${getDpdBadgeClass(caseItem.dpd)}`}>
+                            {caseItem.dpd} days
+                          </span>
+                        </td>
+                        <td className="cell-amount">{formatCurrency(caseItem.totalOutstanding)}</td>
+                        <td className="cell-amount cell-amount--overdue">
+                          {formatCurrency(caseItem.overdueAmount)}
+                        </td>
+                        <td>
+                          <span className={`badge ${getStatusBadgeClass(caseItem.caseStatus)}`}>
+                            {WorkflowCaseStatusLabels[caseItem.caseStatus] || caseItem.caseStatus}
+                          </span>
+                        </td>
+                        <td>{formatDate(caseItem.lastEventDate)}</td>
+                        <td>
+                          <div className="table-actions">
+                            <button
+                              className="btn-icon btn-icon--primary"
+                              title="View Details"
+                              onClick={() => handleViewCase(caseItem.caseId)}
+                            >
+                              <svg viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                                <path d="M1 12S5 4 12 4s11 8 11 8-4 8-11 8S1 12 1 12z" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+                                <circle cx="12" cy="12" r="3" stroke="currentColor" strokeWidth="2" />
+                              </svg>
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Pagination */}
+              <div className="pagination">
+                <button
+                  className="pagination-btn"
+                  onClick={() => setPage((p) => Math.max(0, p - 1))}
+                  disabled={page === 0}
+                >
+                  Previous
+                </button>
+                <span className="pagination-info">
+                  Page {page + 1} of {totalPages} ({totalElements} cases)
+                </span>
+                <button
+                  className="pagination-btn"
+                  onClick={() => setPage((p) => Math.min(totalPages - 1, p + 1))}
+                  disabled={page >= totalPages - 1}
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
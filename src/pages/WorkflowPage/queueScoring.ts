@@ -0,0 +1,149 @@
+/**
+ * Work Queue Scoring
+ * Ranks workflow cases by a weighted priority score and explains each ranking
+ */
+
+import type { WorkflowCaseListItem } from '@types';
+
+export type QueueFactorKey = 'dpd' | 'overdueAmount' | 'daysSinceContact' | 'ptpsDue' | 'bucket';
+
+export type QueueScoreWeights = Record<QueueFactorKey, number>;
+
+export interface QueueScoreFactor {
+  key: QueueFactorKey;
+  label: string;
+  detail: string;
+  points: number;
+}
+
+export interface QueuedCase {
+  caseItem: WorkflowCaseListItem;
+  score: number;
+  factors: QueueScoreFactor[];
+}
+
+export const QUEUE_FACTOR_LABELS: Record<QueueFactorKey, string> = {
+  dpd: 'DPD',
+  overdueAmount: 'Overdue Amount',
+  daysSinceContact: 'Days Since Last Event',
+  ptpsDue: 'PTPs Due',
+  bucket: 'Bucket',
+};
+
+export const DEFAULT_QUEUE_WEIGHTS: QueueScoreWeights = {
+  dpd: 30,
+  overdueAmount: 25,
+  daysSinceContact: 15,
+  ptpsDue: 20,
+  bucket: 10,
+};
+
+// Values at or above these caps earn the full weight for the factor
+const FACTOR_CAPS = {
+  dpd: 180,
+  overdueAmount: 500000,
+  daysSinceContact: 30,
+  ptpsDue: 1,
+  bucket: 6,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Extract a numeric bucket from labels like "B3", "Bucket 2" or "3"
+ */
+export const parseBucketNumber = (bucket: string | undefined): number => {
+  if (!bucket) return 0;
+  const match = bucket.match(/\d+/);
+  return match ? parseInt(match[0], 10) : 0;
+};
+
+/**
+ * Whole days elapsed since a date, or null when the date is unknown
+ */
+export const getDaysSince = (dateString: string | undefined, now: Date): number | null => {
+  if (!dateString) return null;
+  const time = new Date(dateString).getTime();
+  if (isNaN(time)) return null;
+  return Math.max(0, Math.floor((now.getTime() - time) / MS_PER_DAY));
+};
+
+const normalize = (value: number, cap: number): number => Math.min(Math.max(value, 0), cap) / cap;
+
+/**
+ * Score a single case
+ * Each factor is normalised to 0..1 against its cap and multiplied by its weight.
+ * Cases never contacted are treated as the longest gap.
+ */
+export const scoreCase = (
+  caseItem: WorkflowCaseListItem,
+  ptpsDue: number,
+  weights: QueueScoreWeights,
+  now: Date = new Date()
+): QueuedCase => {
+  const daysSince = getDaysSince(caseItem.lastEventDate, now);
+  const bucketNumber = parseBucketNumber(caseItem.bucket);
+  const overdue = caseItem.overdueAmount || 0;
+
+  const factors: QueueScoreFactor[] = [
+    {
+      key: 'dpd',
+      label: QUEUE_FACTOR_LABELS.dpd,
+      detail: `${caseItem.dpd || 0} days past due`,
+      points: normalize(caseItem.dpd || 0, FACTOR_CAPS.dpd) * weights.dpd,
+    },
+    {
+      key: 'overdueAmount',
+      label: QUEUE_FACTOR_LABELS.overdueAmount,
+      detail: `₹${overdue.toLocaleString('en-IN')} overdue`,
+      points: normalize(overdue, FACTOR_CAPS.overdueAmount) * weights.overdueAmount,
+    },
+    {
+      key: 'daysSinceContact',
+      label: QUEUE_FACTOR_LABELS.daysSinceContact,
+      detail: daysSince === null ? 'No activity recorded' : `${daysSince} days since last event`,
+      points:
+        normalize(daysSince === null ? FACTOR_CAPS.daysSinceContact : daysSince, FACTOR_CAPS.daysSinceContact) *
+        weights.daysSinceContact,
+    },
+    {
+      key: 'ptpsDue',
+      label: QUEUE_FACTOR_LABELS.ptpsDue,
+      detail: ptpsDue > 0 ? `${ptpsDue} PTP(s) due` : 'No PTP due',
+      points: normalize(ptpsDue, FACTOR_CAPS.ptpsDue) * weights.ptpsDue,
+    },
+    {
+      key: 'bucket',
+      label: QUEUE_FACTOR_LABELS.bucket,
+      detail: caseItem.bucket || 'No bucket',
+      points: normalize(bucketNumber, FACTOR_CAPS.bucket) * weights.bucket,
+    },
+  ];
+
+  const score = factors.reduce((sum, factor) => sum + factor.points, 0);
+  return { caseItem, score: Math.round(score * 10) / 10, factors };
+};
+
+/**
+ * Rank cases by score (highest first), breaking ties on DPD
+ */
+export const rankCases = (
+  cases: WorkflowCaseListItem[],
+  ptpsDueByCase: Record<number, number>,
+  weights: QueueScoreWeights,
+  now: Date = new Date()
+): QueuedCase[] => {
+  return cases
+    .map((caseItem) => scoreCase(caseItem, ptpsDueByCase[caseItem.caseId] || 0, weights, now))
+    .sort((a, b) => b.score - a.score || (b.caseItem.dpd || 0) - (a.caseItem.dpd || 0));
+};
+
+/**
+ * Top contributing factors, used to explain the ranking
+ */
+export const getTopFactors = (queued: QueuedCase, limit: number = 2): QueueScoreFactor[] => {
+  return [...queued.factors]
+    .filter((factor) => factor.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, limit);
+};
@@ -6,6 +6,7 @@ export { HomePage } from './HomePage/HomePage'
 export { LoginPage } from './LoginPage/LoginPage'
 export { DashboardPage } from './DashboardPage/DashboardPage'
 export { NotFoundPage } from './NotFoundPage/NotFoundPage'
+export { ForbiddenPage } from './ForbiddenPage/ForbiddenPage'
 export { ProfilePage } from './ProfilePage/ProfilePage'
 
 // Auth pages
@@ -27,7 +28,6 @@ export { MasterDataPage } from './MasterDataPage/MasterDataPage'
 export { CaseUploadPage } from './CaseUploadPage/CaseUploadPage'
 export { BatchDetailPage } from './BatchDetailPage/BatchDetailPage'
 export { UnallocatedCasesPage } from './UnallocatedCasesPage/UnallocatedCasesPage'
-export { UnallocatedCaseDetailPage } from './UnallocatedCaseDetailPage/UnallocatedCaseDetailPage'
 export { CaseSearchPage } from './CaseSearchPage/CaseSearchPage'
 export { CaseDetailPage } from './CaseDetailPage/CaseDetailPage'
 
@@ -59,4 +59,4 @@ export { DigitalPaymentPage } from './DigitalPaymentPage/DigitalPaymentPage'
 
 // Workflow pages
 export { WorkflowPage } from './WorkflowPage/WorkflowPage'
-export { WorkflowCaseDetailPage } from './WorkflowCaseDetailPage/WorkflowCaseDetailPage'
+export { PtpTrackerPage } from './PtpTrackerPage/PtpTrackerPage'
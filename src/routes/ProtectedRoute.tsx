@@ -1,23 +1,27 @@
 /**
  * Protected Route Component
- * Wrapper for routes that require authentication
+ * Wrapper for routes that require authentication and, optionally, a permission
  */
 
 import { ReactNode } from 'react'
 import { Navigate } from 'react-router-dom'
-import { useAuth } from '@hooks'
+import { useAuth, usePermission } from '@hooks'
+import { ForbiddenPage } from '@pages'
 import { ROUTES } from '@config/constants'
 
 interface ProtectedRouteProps {
   children: ReactNode
   redirectTo?: string
+  requiredPermission?: string
 }
 
 export function ProtectedRoute({
   children,
   redirectTo = ROUTES.LOGIN,
+  requiredPermission,
 }: ProtectedRouteProps) {
   const { isAuthenticated, isLoading } = useAuth()
+  const { hasPermission } = usePermission()
 
   if (isLoading) {
     return (
@@ -31,6 +35,10 @@ export function ProtectedRoute({
     return <Navigate to={redirectTo} replace />
   }
 
+  if (requiredPermission && !hasPermission(requiredPermission)) {
+    return <ForbiddenPage />
+  }
+
   return <>{children}</>
 }
 
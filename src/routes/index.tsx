@@ -3,13 +3,15 @@
  * Centralized routing configuration
  */
 
-import { Routes, Route } from 'react-router-dom'
+import { ReactNode } from 'react'
+import { Routes, Route, Navigate, useParams } from 'react-router-dom'
 import { MainLayout } from '@layouts'
 import {
   HomePage,
   LoginPage,
   DashboardPage,
   NotFoundPage,
+  ForbiddenPage,
   ProfilePage,
   ForgotPasswordPage,
   VerifyOtpPage,
@@ -23,7 +25,6 @@ import {
   CaseUploadPage,
   BatchDetailPage,
   UnallocatedCasesPage,
-  UnallocatedCaseDetailPage,
   CaseSearchPage,
   CaseDetailPage,
   StrategyEnginePage,
@@ -45,10 +46,27 @@ import {
   ReconciliationPage,
   DigitalPaymentPage,
   WorkflowPage,
-  WorkflowCaseDetailPage,
+  PtpTrackerPage,
 } from '@pages'
 import { ProtectedRoute } from './ProtectedRoute'
-import { ROUTES } from '@config/constants'
+import { ROUTES, ROUTE_PERMISSIONS } from '@config/constants'
+
+/**
+ * Wrap a page in the permission guard configured for its route
+ */
+const guard = (path: string, page: ReactNode) => {
+  const requiredPermission = ROUTE_PERMISSIONS[path]
+  if (!requiredPermission) return page
+  return <ProtectedRoute requiredPermission={requiredPermission}>{page}</ProtectedRoute>
+}
+
+/**
+ * Older per-module case links now open the unified case view
+ */
+function LegacyCaseRedirect() {
+  const { caseId = '' } = useParams<{ caseId: string }>()
+  return <Navigate to={ROUTES.CASE_DETAIL.replace(':caseId', caseId)} replace />
+}
 
 export function AppRoutes() {
   return (
@@ -74,53 +92,59 @@ export function AppRoutes() {
         <Route path={ROUTES.PROFILE} element={<ProfilePage />} />
 
         {/* Access Management routes */}
-        <Route path={ROUTES.USERS} element={<UsersPage />} />
-        <Route path={ROUTES.USER_DETAIL} element={<UserDetailPage />} />
-        <Route path={ROUTES.ROLES} element={<RolesPage />} />
-        <Route path={ROUTES.PERMISSIONS} element={<PermissionsPage />} />
-        <Route path={ROUTES.ACCOUNT_LOCKOUT} element={<AccountLockoutPage />} />
+        <Route path={ROUTES.USERS} element={guard(ROUTES.USERS, <UsersPage />)} />
+        <Route path={ROUTES.USER_DETAIL} element={guard(ROUTES.USER_DETAIL, <UserDetailPage />)} />
+        <Route path={ROUTES.ROLES} element={guard(ROUTES.ROLES, <RolesPage />)} />
+        <Route path={ROUTES.PERMISSIONS} element={guard(ROUTES.PERMISSIONS, <PermissionsPage />)} />
+        <Route path={ROUTES.ACCOUNT_LOCKOUT} element={guard(ROUTES.ACCOUNT_LOCKOUT, <AccountLockoutPage />)} />
 
         {/* Master Data routes */}
-        <Route path={ROUTES.MASTER_DATA} element={<MasterDataPage />} />
+        <Route path={ROUTES.MASTER_DATA} element={guard(ROUTES.MASTER_DATA, <MasterDataPage />)} />
+
+        {/* Case view */}
+        <Route path={ROUTES.CASE_DETAIL} element={guard(ROUTES.CASE_DETAIL, <CaseDetailPage />)} />
+        <Route path={ROUTES.CASE_SOURCING_CASE_DETAIL} element={<LegacyCaseRedirect />} />
+        <Route path={ROUTES.CASE_SOURCING_UNALLOCATED_DETAIL} element={<LegacyCaseRedirect />} />
+        <Route path={ROUTES.WORKFLOW_CASE_DETAIL} element={<LegacyCaseRedirect />} />
 
         {/* Case Sourcing routes */}
-        <Route path={ROUTES.CASE_SOURCING_UPLOAD} element={<CaseUploadPage />} />
-        <Route path={ROUTES.CASE_SOURCING_BATCH_DETAIL} element={<BatchDetailPage />} />
-        <Route path={ROUTES.CASE_SOURCING_UNALLOCATED} element={<UnallocatedCasesPage />} />
-        <Route path={ROUTES.CASE_SOURCING_UNALLOCATED_DETAIL} element={<UnallocatedCaseDetailPage />} />
-        <Route path={ROUTES.CASE_SOURCING_SEARCH} element={<CaseSearchPage />} />
-        <Route path={ROUTES.CASE_SOURCING_CASE_DETAIL} element={<CaseDetailPage />} />
+        <Route path={ROUTES.CASE_SOURCING_UPLOAD} element={guard(ROUTES.CASE_SOURCING_UPLOAD, <CaseUploadPage />)} />
+        <Route path={ROUTES.CASE_SOURCING_BATCH_DETAIL} element={guard(ROUTES.CASE_SOURCING_BATCH_DETAIL, <BatchDetailPage />)} />
+        <Route path={ROUTES.CASE_SOURCING_UNALLOCATED} element={guard(ROUTES.CASE_SOURCING_UNALLOCATED, <UnallocatedCasesPage />)} />
+        <Route path={ROUTES.CASE_SOURCING_SEARCH} element={guard(ROUTES.CASE_SOURCING_SEARCH, <CaseSearchPage />)} />
 
         {/* Strategy Engine routes */}
-        <Route path={ROUTES.STRATEGY_ENGINE} element={<StrategyEnginePage />} />
-        <Route path={ROUTES.STRATEGY_ENGINE_LOGS} element={<ExecutionLogsPage />} />
+        <Route path={ROUTES.STRATEGY_ENGINE} element={guard(ROUTES.STRATEGY_ENGINE, <StrategyEnginePage />)} />
+        <Route path={ROUTES.STRATEGY_ENGINE_LOGS} element={guard(ROUTES.STRATEGY_ENGINE_LOGS, <ExecutionLogsPage />)} />
 
         {/* Allocation routes */}
-        <Route path={ROUTES.ALLOCATION} element={<AllocationPage />} />
-        <Route path={ROUTES.ALLOCATION_UPLOAD} element={<AllocationUploadPage />} />
-        <Route path={ROUTES.ALLOCATION_RULES} element={<AllocationRulesPage />} />
-        <Route path={ROUTES.ALLOCATION_RULE_DETAIL} element={<RuleDetailsPage />} />
-        <Route path={ROUTES.ALLOCATION_WORKLOAD} element={<AgentWorkloadPage />} />
-        <Route path={ROUTES.ALLOCATION_REALLOCATION} element={<ReallocationPage />} />
-        <Route path={ROUTES.ALLOCATION_BATCHES} element={<AllocationBatchesPage />} />
-        <Route path={ROUTES.ALLOCATION_BATCH_DETAIL} element={<AllocationBatchDetailPage />} />
-        <Route path={ROUTES.REALLOCATION_BATCH_DETAIL} element={<AllocationBatchDetailPage />} />
-        <Route path={ROUTES.ALLOCATED_CASES} element={<AllocatedCasesPage />} />
+        <Route path={ROUTES.ALLOCATION} element={guard(ROUTES.ALLOCATION, <AllocationPage />)} />
+        <Route path={ROUTES.ALLOCATION_UPLOAD} element={guard(ROUTES.ALLOCATION_UPLOAD, <AllocationUploadPage />)} />
+        <Route path={ROUTES.ALLOCATION_RULES} element={guard(ROUTES.ALLOCATION_RULES, <AllocationRulesPage />)} />
+        <Route path={ROUTES.ALLOCATION_RULE_DETAIL} element={guard(ROUTES.ALLOCATION_RULE_DETAIL, <RuleDetailsPage />)} />
+        <Route path={ROUTES.ALLOCATION_WORKLOAD} element={guard(ROUTES.ALLOCATION_WORKLOAD, <AgentWorkloadPage />)} />
+        <Route path={ROUTES.ALLOCATION_REALLOCATION} element={guard(ROUTES.ALLOCATION_REALLOCATION, <ReallocationPage />)} />
+        <Route path={ROUTES.ALLOCATION_BATCHES} element={guard(ROUTES.ALLOCATION_BATCHES, <AllocationBatchesPage />)} />
+        <Route path={ROUTES.ALLOCATION_BATCH_DETAIL} element={guard(ROUTES.ALLOCATION_BATCH_DETAIL, <AllocationBatchDetailPage />)} />
+        <Route path={ROUTES.REALLOCATION_BATCH_DETAIL} element={guard(ROUTES.REALLOCATION_BATCH_DETAIL, <AllocationBatchDetailPage />)} />
+        <Route path={ROUTES.ALLOCATED_CASES} element={guard(ROUTES.ALLOCATED_CASES, <AllocatedCasesPage />)} />
 
         {/* Template Management routes */}
-        <Route path={ROUTES.TEMPLATE_MANAGEMENT} element={<TemplateManagementPage />} />
+        <Route path={ROUTES.TEMPLATE_MANAGEMENT} element={guard(ROUTES.TEMPLATE_MANAGEMENT, <TemplateManagementPage />)} />
 
         {/* Repayment routes */}
-        <Route path={ROUTES.REPAYMENT} element={<RepaymentPage />} />
-        <Route path={ROUTES.REPAYMENT_LIST} element={<RepaymentListPage />} />
-        <Route path={ROUTES.REPAYMENT_DETAIL} element={<RepaymentDetailPage />} />
-        <Route path={ROUTES.REPAYMENT_APPROVALS} element={<RepaymentApprovalPage />} />
-        <Route path={ROUTES.REPAYMENT_RECONCILIATION} element={<ReconciliationPage />} />
-        <Route path={ROUTES.REPAYMENT_DIGITAL_PAYMENT} element={<DigitalPaymentPage />} />
+        <Route path={ROUTES.REPAYMENT} element={guard(ROUTES.REPAYMENT, <RepaymentPage />)} />
+        <Route path={ROUTES.REPAYMENT_LIST} element={guard(ROUTES.REPAYMENT_LIST, <RepaymentListPage />)} />
+        <Route path={ROUTES.REPAYMENT_DETAIL} element={guard(ROUTES.REPAYMENT_DETAIL, <RepaymentDetailPage />)} />
+        <Route path={ROUTES.REPAYMENT_APPROVALS} element={guard(ROUTES.REPAYMENT_APPROVALS, <RepaymentApprovalPage />)} />
+        <Route path={ROUTES.REPAYMENT_RECONCILIATION} element={guard(ROUTES.REPAYMENT_RECONCILIATION, <ReconciliationPage />)} />
+        <Route path={ROUTES.REPAYMENT_DIGITAL_PAYMENT} element={guard(ROUTES.REPAYMENT_DIGITAL_PAYMENT, <DigitalPaymentPage />)} />
 
         {/* Workflow routes */}
         <Route path={ROUTES.WORKFLOW} element={<WorkflowPage />} />
-        <Route path={ROUTES.WORKFLOW_CASE_DETAIL} element={<WorkflowCaseDetailPage />} />
+        <Route path={ROUTES.WORKFLOW_PTP_TRACKER} element={<PtpTrackerPage />} />
+
+        <Route path={ROUTES.FORBIDDEN} element={<ForbiddenPage />} />
       </Route>
 
       {/* 404 Not Found */}
@@ -7,16 +7,20 @@ import { apiClient } from './axios.config'
 import type {
   AllocationRule,
   AllocationRuleCreate,
+  AllocationRulePriority,
   AllocationBatch,
   AllocationBatchUploadResponse,
   AllocationBatchStatusResponse,
   AllocationSummary,
   DateAllocationSummary,
   AgentWorkload,
+  AgentAvailability,
+  AgentAvailabilityRequest,
   CaseAllocation,
   CaseAllocationHistory,
   RuleSimulationResult,
   ApplyRuleResponse,
+  AssignCaseRequest,
   ReallocationByAgentRequest,
   ReallocationByFilterRequest,
   ReallocationResponse,
@@ -174,6 +178,18 @@ export const allocationService = {
     return response.data.payload
   },
 
+  /**
+   * Set the priorities of several rules in one request
+   * The backend applies the whole order or none of it.
+   */
+  reorderRules: async (priorities: AllocationRulePriority[]): Promise<AllocationRule[]> => {
+    const response = await apiClient.put<ApiResponse<AllocationRule[]>>(
+      `${BASE_URL}/allocation-rules/priorities`,
+      { priorities }
+    )
+    return response.data.payload
+  },
+
   /**
    * Delete allocation rule
    */
@@ -183,10 +199,12 @@ export const allocationService = {
 
   /**
    * Simulate allocation rule
+   * targetDate (YYYY-MM-DD) sizes agents by their effective capacity on that day
    */
-  simulateRule: async (ruleId: number): Promise<RuleSimulationResult> => {
+  simulateRule: async (ruleId: number, targetDate?: string): Promise<RuleSimulationResult> => {
     const response = await apiClient.post<ApiResponse<RuleSimulationResult>>(
-      `${BASE_URL}/allocation-rules/${ruleId}/simulate`
+      `${BASE_URL}/allocation-rules/${ruleId}/simulate`,
+      targetDate ? { targetDate } : undefined
     )
     return response.data.payload
   },
@@ -196,11 +214,14 @@ export const allocationService = {
    * Auto-detects agents from the rule - pass empty body {}
    * For GEOGRAPHY: Auto-detects agents matching geography
    * For CAPACITY_BASED: Auto-detects ALL active agents
+   * For PERCENTAGE_SPLIT: Sends each agency its share of the matched cases
+   * For LANGUAGE_SKILL: Auto-detects agents whose language skills match each customer
+   * With targetDate, agent capacity is reduced for leave, half-days and training on that day
    */
-  applyRule: async (ruleId: number): Promise<ApplyRuleResponse> => {
+  applyRule: async (ruleId: number, targetDate?: string): Promise<ApplyRuleResponse> => {
     const response = await apiClient.post<ApiResponse<ApplyRuleResponse>>(
       `${BASE_URL}/allocation-rules/${ruleId}/apply`,
-      {}
+      targetDate ? { targetDate } : {}
     )
     return response.data.payload
   },
@@ -227,6 +248,17 @@ export const allocationService = {
     return response.data.payload
   },
 
+  /**
+   * Assign a case to an agent, replacing any current allocation
+   */
+  assignCase: async (caseId: number, request: AssignCaseRequest): Promise<CaseAllocation> => {
+    const response = await apiClient.post<ApiResponse<CaseAllocation>>(
+      `${BASE_URL}/cases/${caseId}/assign`,
+      request
+    )
+    return response.data.payload
+  },
+
   /**
    * Deallocate a case
    */
@@ -270,6 +302,47 @@ export const allocationService = {
     return response.data.payload || []
   },
 
+  // ============ Agent Availability APIs ============
+
+  /**
+   * Get leave, half-days and training days overlapping a date range
+   */
+  getAgentAvailability: async (params: {
+    startDate: string
+    endDate: string
+    agentIds?: number[]
+  }): Promise<AgentAvailability[]> => {
+    const response = await apiClient.get<ApiResponse<AgentAvailability[]>>(
+      `${BASE_URL}/agents/availability`,
+      {
+        params: {
+          startDate: params.startDate,
+          endDate: params.endDate,
+          agentIds: params.agentIds?.join(','),
+        },
+      }
+    )
+    return response.data.payload || []
+  },
+
+  /**
+   * Record leave, a half-day or a training day for an agent
+   */
+  createAgentAvailability: async (request: AgentAvailabilityRequest): Promise<AgentAvailability> => {
+    const response = await apiClient.post<ApiResponse<AgentAvailability>>(
+      `${BASE_URL}/agents/availability`,
+      request
+    )
+    return response.data.payload
+  },
+
+  /**
+   * Remove an availability entry
+   */
+  deleteAgentAvailability: async (availabilityId: number): Promise<void> => {
+    await apiClient.delete(`${BASE_URL}/agents/availability/${availabilityId}`)
+  },
+
   // ============ Batch APIs ============
 
   /**
@@ -68,13 +68,21 @@ apiClient.interceptors.response.use(
       }
     }
 
+    // 403 is left to the caller: route guards show the access denied page, and a side panel
+    // the user may not load must not take them away from a page they can see
+    const fallbackMessage =
+      error.response?.status === 403
+        ? 'You do not have permission to perform this action'
+        : error.message || 'An error occurred'
+
     // Transform error to consistent format
     const apiError: ApiError = {
       status: 'failure',
-      message: error.response?.data?.message || error.message || 'An error occurred',
+      message: error.response?.data?.message || fallbackMessage,
       data: null,
       errors: error.response?.data?.errors,
       statusCode: error.response?.status || 500,
+      isNetworkError: !error.response,
     }
 
     return Promise.reject(apiError)
@@ -345,6 +345,21 @@ export const caseSourcingService = {
     throw new Error(response.data.message || 'Failed to fetch case timeline')
   },
 
+  /**
+   * Add tags to a case; returns the case's full tag list
+   */
+  async addCaseTags(caseId: number, tags: string[]): Promise<string[]> {
+    const response = await apiClient.post<ApiResponse<string[]>>(
+      API_ENDPOINTS.CASE_SOURCING.CASE_TAGS(caseId),
+      { tags }
+    )
+    const payload = getPayload(response.data)
+    if (isSuccess(response.data.status) && payload) {
+      return payload
+    }
+    throw new Error(response.data.message || 'Failed to tag case')
+  },
+
   // ===================
   // Reports
   // ===================
@@ -20,6 +20,8 @@ import type {
   CreateUserRequest,
   UpdateUserRequest,
   PermissionSummary,
+  DashboardLayoutPreset,
+  RoleLayoutDefaults,
 } from '@types'
 
 /**
@@ -184,6 +186,44 @@ export const roleService = {
       throw new Error(response.data.message || 'Failed to delete role')
     }
   },
+
+  /**
+   * Get the dashboard layouts pushed as role defaults
+   */
+  async getDashboardLayouts(): Promise<RoleLayoutDefaults> {
+    const response = await apiClient.get<ApiResponse<RoleLayoutDefaults>>(
+      API_ENDPOINTS.MANAGEMENT.ROLES.DASHBOARD_LAYOUTS
+    )
+    if (isSuccess(response.data.status)) {
+      return getPayload(response.data) || {}
+    }
+    throw new Error(response.data.message || 'Failed to fetch role dashboard layouts')
+  },
+
+  /**
+   * Set the default dashboard layout for a role
+   */
+  async setDashboardLayout(roleCode: string, preset: DashboardLayoutPreset): Promise<void> {
+    const response = await apiClient.put<ApiResponse<DashboardLayoutPreset>>(
+      API_ENDPOINTS.MANAGEMENT.ROLES.DASHBOARD_LAYOUT(roleCode),
+      preset
+    )
+    if (!isSuccess(response.data.status)) {
+      throw new Error(response.data.message || 'Failed to save role dashboard layout')
+    }
+  },
+
+  /**
+   * Remove a role's default dashboard layout
+   */
+  async clearDashboardLayout(roleCode: string): Promise<void> {
+    const response = await apiClient.delete<ApiResponse<null>>(
+      API_ENDPOINTS.MANAGEMENT.ROLES.DASHBOARD_LAYOUT(roleCode)
+    )
+    if (!isSuccess(response.data.status)) {
+      throw new Error(response.data.message || 'Failed to remove role dashboard layout')
+    }
+  },
 }
 
 // ===================
@@ -14,12 +14,16 @@ import type {
   RepaymentDashboard,
   SlaDashboard,
   RepaymentSearchParams,
+  RepaymentSummary,
+  RepaymentSummaryParams,
   PageResponse,
   PaymentResponse,
   PaymentInitRequest,
   PaymentStatusRequest,
   PaymentCancelRequest,
   PaymentRefundRequest,
+  RepaymentApprovalStep,
+  ApprovalChainRule,
 } from '@types'
 
 const BASE_URL = '/collections/repayments'
@@ -75,9 +79,12 @@ export const repaymentService = {
 
   /**
    * Create a new repayment
+   * The idempotency key lets a retried offline capture be recognised instead of recorded twice
    */
-  async create(request: CreateRepaymentRequest): Promise<Repayment> {
-    const response = await apiClient.post<ApiResponse<Repayment>>(BASE_URL, request)
+  async create(request: CreateRepaymentRequest, idempotencyKey?: string): Promise<Repayment> {
+    const response = await apiClient.post<ApiResponse<Repayment>>(BASE_URL, request, {
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+    })
     const payload = getPayloadFromResponse(response.data)
     if (isSuccessResponse(response.data) && payload) {
       return transformRepayment(payload)
@@ -166,13 +173,14 @@ export const repaymentService = {
   // ============ Approval APIs ============
 
   /**
-   * Approve a repayment
+   * Approve a repayment at its current approval level
+   * The backend advances to the next level until the chain is complete
    */
-  async approve(id: number, comments?: string): Promise<Repayment> {
+  async approve(id: number, comments?: string, approvalLevel?: number): Promise<Repayment> {
     const response = await apiClient.post<ApiResponse<Repayment>>(
       `${BASE_URL}/${id}/approve`,
       null,
-      { params: { comments } }
+      { params: { comments, approvalLevel } }
     )
     const payload = getPayloadFromResponse(response.data)
     if (isSuccessResponse(response.data) && payload) {
@@ -215,6 +223,49 @@ export const repaymentService = {
     throw new Error(response.data.message || 'Failed to fetch pending approvals')
   },
 
+  /**
+   * Get per-level approval history of a repayment
+   */
+  async getApprovalHistory(id: number): Promise<RepaymentApprovalStep[]> {
+    const response = await apiClient.get<ApiResponse<RepaymentApprovalStep[]>>(
+      `${BASE_URL}/${id}/approval-history`
+    )
+    const payload = getPayloadFromResponse(response.data)
+    if (isSuccessResponse(response.data) && payload) {
+      return payload
+    }
+    throw new Error(response.data.message || 'Failed to fetch approval history')
+  },
+
+  /**
+   * Get configured approval chain rules
+   */
+  async getApprovalChainRules(): Promise<ApprovalChainRule[]> {
+    const response = await apiClient.get<ApiResponse<ApprovalChainRule[]>>(
+      `${BASE_URL}/approval-chains`
+    )
+    const payload = getPayloadFromResponse(response.data)
+    if (isSuccessResponse(response.data) && payload) {
+      return payload
+    }
+    throw new Error(response.data.message || 'Failed to fetch approval chains')
+  },
+
+  /**
+   * Replace the approval chain rules
+   */
+  async saveApprovalChainRules(rules: ApprovalChainRule[]): Promise<ApprovalChainRule[]> {
+    const response = await apiClient.put<ApiResponse<ApprovalChainRule[]>>(
+      `${BASE_URL}/approval-chains`,
+      rules
+    )
+    const payload = getPayloadFromResponse(response.data)
+    if (isSuccessResponse(response.data) && payload) {
+      return payload
+    }
+    throw new Error(response.data.message || 'Failed to save approval chains')
+  },
+
   // ============ Dashboard APIs ============
 
   /**
@@ -231,6 +282,21 @@ export const repaymentService = {
     throw new Error(response.data.message || 'Failed to fetch dashboard')
   },
 
+  /**
+   * Get repayment counts and amounts by status for a date range
+   */
+  async getSummary(params: RepaymentSummaryParams): Promise<RepaymentSummary> {
+    const response = await apiClient.get<ApiResponse<RepaymentSummary>>(
+      `${BASE_URL}/summary`,
+      { params }
+    )
+    const payload = getPayloadFromResponse(response.data)
+    if (isSuccessResponse(response.data) && payload) {
+      return payload
+    }
+    throw new Error(response.data.message || 'Failed to fetch repayment summary')
+  },
+
   /**
    * Get SLA dashboard data
    */
@@ -280,6 +280,7 @@ export const strategyEngineService = {
       lastRunStatus: s.successCount > 0 ? 'success' as const : s.failureCount > 0 ? 'failed' as const : undefined,
       templateId: s.channel.templateId,
       templateName: s.channel.templateName,
+      templateGroupId: s.channel.templateGroupId,
       ownership: 'internal' as const,
       priority: s.priority,
       dpdTrigger: s.filters.dpdRange ? parseInt(s.filters.dpdRange.replace(/[^\d]/g, '')) : undefined,
@@ -436,6 +437,7 @@ export const strategyEngineService = {
     status: string
     templateId?: string
     templateName?: string
+    templateGroupId?: string
     ownership: string
     priority?: number
     dpdTrigger?: number
@@ -550,6 +552,7 @@ export const strategyEngineService = {
         type: channelMap[data.channel] || 'SMS',
         templateName: data.templateName || 'Default Template',
         templateId: data.templateId,
+        templateGroupId: data.templateGroupId,
       },
       filters,
       schedule: {
@@ -576,6 +579,7 @@ export const strategyEngineService = {
     status: string
     templateId?: string
     templateName?: string
+    templateGroupId?: string
     ownership: string
     priority?: number
     dpdTrigger?: number
@@ -687,6 +691,7 @@ export const strategyEngineService = {
         type: channelMap[data.channel] || 'SMS',
         templateName: data.templateName || 'Default Template',
         templateId: data.templateId,
+        templateGroupId: data.templateGroupId,
       },
       filters,
       schedule: {
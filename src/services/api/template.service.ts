@@ -19,6 +19,11 @@ import type {
   UpdateVariableRequest,
   TemplateChannelType,
   VariableCategory,
+  TemplateVersion,
+  CreateTemplateVersionRequest,
+  ReviewTemplateVersionRequest,
+  TemplateGroup,
+  TemplateGroupRequest,
 } from '../../types/template.types';
 
 /**
@@ -182,8 +187,157 @@ export const templateService = {
     throw new Error(response.data.message || `Failed to resolve template ${id}`);
   },
 
+  // ==================== Version APIs ====================
+
+  /**
+   * Get every version of a template, newest first
+   */
+  getTemplateVersions: async (id: number): Promise<TemplateVersion[]> => {
+    const response = await apiClient.get<ApiResponse<TemplateVersion[]>>(`/templates/${id}/versions`);
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || `Failed to fetch versions of template ${id}`);
+  },
+
+  /**
+   * Save changes as a new draft version; the live template is unchanged until it is approved
+   */
+  createTemplateVersion: async (
+    id: number,
+    versionData: CreateTemplateVersionRequest,
+    document?: File
+  ): Promise<TemplateVersion> => {
+    let body: CreateTemplateVersionRequest | FormData = versionData;
+    if (document) {
+      body = new FormData();
+      body.append('version', new Blob([JSON.stringify(versionData)], { type: 'application/json' }));
+      body.append('document', document);
+    }
+
+    const response = await apiClient.post<ApiResponse<TemplateVersion>>(
+      `/templates/${id}/versions`,
+      body,
+      document ? { headers: { 'Content-Type': 'multipart/form-data' } } : undefined
+    );
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || `Failed to save a new version of template ${id}`);
+  },
+
+  /**
+   * Send a draft version to compliance review
+   */
+  submitTemplateVersion: async (id: number, versionId: number): Promise<TemplateVersion> => {
+    const response = await apiClient.post<ApiResponse<TemplateVersion>>(
+      `/templates/${id}/versions/${versionId}/submit`
+    );
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || `Failed to submit version ${versionId} for review`);
+  },
+
+  /**
+   * Approve or reject a version in review; approving makes it the active version
+   */
+  reviewTemplateVersion: async (
+    id: number,
+    versionId: number,
+    reviewData: ReviewTemplateVersionRequest
+  ): Promise<TemplateVersion> => {
+    const response = await apiClient.post<ApiResponse<TemplateVersion>>(
+      `/templates/${id}/versions/${versionId}/review`,
+      reviewData
+    );
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || `Failed to review version ${versionId}`);
+  },
+
+  /**
+   * Make an earlier approved version live again; recorded as a new version
+   */
+  rollbackTemplateVersion: async (id: number, versionId: number, changeNote: string): Promise<TemplateVersion> => {
+    const response = await apiClient.post<ApiResponse<TemplateVersion>>(
+      `/templates/${id}/versions/${versionId}/rollback`,
+      { changeNote }
+    );
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || `Failed to roll back to version ${versionId}`);
+  },
+
   // ==================== Variable APIs ====================
 
+  /**
+   * Get template groups, optionally for one channel
+   */
+  getTemplateGroups: async (channel?: TemplateChannelType): Promise<TemplateGroup[]> => {
+    const response = await apiClient.get<ApiResponse<TemplateGroup[]>>('/templates/groups', {
+      params: channel ? { channel } : undefined,
+    });
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || 'Failed to fetch template groups');
+  },
+
+  /**
+   * Get template group by ID
+   */
+  getTemplateGroupById: async (groupId: number): Promise<TemplateGroup> => {
+    const response = await apiClient.get<ApiResponse<TemplateGroup>>(`/templates/groups/${groupId}`);
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || `Failed to fetch template group ${groupId}`);
+  },
+
+  /**
+   * Create template group
+   */
+  createTemplateGroup: async (groupData: TemplateGroupRequest): Promise<TemplateGroup> => {
+    const response = await apiClient.post<ApiResponse<TemplateGroup>>('/templates/groups', groupData);
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || 'Failed to create template group');
+  },
+
+  /**
+   * Update template group
+   */
+  updateTemplateGroup: async (groupId: number, groupData: TemplateGroupRequest): Promise<TemplateGroup> => {
+    const response = await apiClient.put<ApiResponse<TemplateGroup>>(`/templates/groups/${groupId}`, groupData);
+    const payload = getPayload(response.data);
+    if (isSuccess(response.data.status) && payload) {
+      return payload;
+    }
+    throw new Error(response.data.message || `Failed to update template group ${groupId}`);
+  },
+
+  /**
+   * Delete template group; its templates are kept
+   */
+  deleteTemplateGroup: async (groupId: number): Promise<void> => {
+    const response = await apiClient.delete<ApiResponse<void>>(`/templates/groups/${groupId}`);
+    if (!isSuccess(response.data.status)) {
+      throw new Error(response.data.message || `Failed to delete template group ${groupId}`);
+    }
+  },
+
   /**
    * Get available variables
    */
@@ -17,8 +17,19 @@ import type {
   WorkflowSmsHistory,
   WorkflowEmailHistory,
   WorkflowDocument,
+  UploadCaseDocumentRequest,
+  DocumentAccessAction,
+  DocumentAccessLink,
+  AuditLog,
   WorkflowCaseDetail,
   CaseTabsDataDTO,
+  CreateWorkflowPtpRequest,
+  CreateWorkflowCallLogRequest,
+  SendCaseCommunicationRequest,
+  CaseCommunicationResponse,
+  PtpTrackerItem,
+  PtpTrackerParams,
+  UpdatePtpStatusRequest,
 } from '@types'
 
 const BASE_URL = '/workflow'
@@ -207,6 +218,150 @@ export const workflowService = {
     }
     throw new Error(response.data.message || 'Failed to fetch documents');
   },
+
+  /**
+   * Upload a document to a case, reporting progress as a percentage
+   */
+  uploadCaseDocument: async (
+    caseId: number,
+    request: UploadCaseDocumentRequest,
+    onProgress?: (percent: number) => void
+  ): Promise<WorkflowDocument> => {
+    const formData = new FormData();
+    formData.append('file', request.file);
+    formData.append('documentType', request.documentType);
+    if (request.replacesDocumentId) {
+      formData.append('replacesDocumentId', String(request.replacesDocumentId));
+    }
+
+    const response = await apiClient.post<WorkflowApiResponse<WorkflowDocument>>(
+      `${BASE_URL}/cases/${caseId}/documents`,
+      formData,
+      {
+        headers: { 'Content-Type': 'multipart/form-data' },
+        onUploadProgress: (event) => {
+          if (onProgress && event.total) {
+            onProgress(Math.round((event.loaded / event.total) * 100));
+          }
+        },
+      }
+    );
+    if (isSuccess(response.data)) {
+      return getPayload(response.data);
+    }
+    throw new Error(response.data.message || 'Failed to upload document');
+  },
+
+  /**
+   * Get a signed link to view or download a document
+   * The backend records the access in the audit trail when it issues the link.
+   */
+  getDocumentAccessLink: async (
+    caseId: number,
+    documentId: number,
+    action: DocumentAccessAction
+  ): Promise<DocumentAccessLink> => {
+    const response = await apiClient.post<WorkflowApiResponse<DocumentAccessLink>>(
+      `${BASE_URL}/cases/${caseId}/documents/${documentId}/access`,
+      { action }
+    );
+    if (isSuccess(response.data)) {
+      return getPayload(response.data);
+    }
+    throw new Error(response.data.message || 'Failed to open document');
+  },
+
+  /**
+   * Get who uploaded, viewed and downloaded a document
+   */
+  getDocumentAuditTrail: async (caseId: number, documentId: number): Promise<AuditLog[]> => {
+    const response = await apiClient.get<WorkflowApiResponse<AuditLog[]>>(
+      `${BASE_URL}/cases/${caseId}/documents/${documentId}/audit`
+    );
+    if (isSuccess(response.data)) {
+      return getPayload(response.data);
+    }
+    throw new Error(response.data.message || 'Failed to fetch document audit trail');
+  },
+
+  /**
+   * Create a new PTP for a case
+   */
+  createCasePtp: async (caseId: number, request: CreateWorkflowPtpRequest): Promise<WorkflowPTP> => {
+    const response = await apiClient.post<WorkflowApiResponse<WorkflowPTP>>(
+      `${BASE_URL}/cases/${caseId}/ptps`,
+      request
+    );
+    if (isSuccess(response.data)) {
+      return getPayload(response.data);
+    }
+    throw new Error(response.data.message || 'Failed to create PTP');
+  },
+
+  /**
+   * Append a call log entry (with disposition) to a case
+   */
+  createCaseCallLog: async (
+    caseId: number,
+    request: CreateWorkflowCallLogRequest
+  ): Promise<WorkflowCallLog> => {
+    const response = await apiClient.post<WorkflowApiResponse<WorkflowCallLog>>(
+      `${BASE_URL}/cases/${caseId}/calls`,
+      request
+    );
+    if (isSuccess(response.data)) {
+      return getPayload(response.data);
+    }
+    throw new Error(response.data.message || 'Failed to log call');
+  },
+
+  /**
+   * Send a template communication (SMS, WhatsApp, email...) to a case's customer
+   */
+  sendCaseCommunication: async (
+    caseId: number,
+    request: SendCaseCommunicationRequest
+  ): Promise<CaseCommunicationResponse> => {
+    const response = await apiClient.post<WorkflowApiResponse<CaseCommunicationResponse>>(
+      `${BASE_URL}/cases/${caseId}/communications`,
+      request
+    );
+    if (isSuccess(response.data)) {
+      return getPayload(response.data);
+    }
+    throw new Error(response.data.message || 'Failed to send communication');
+  },
+
+  // ============ PTP Tracker APIs ============
+
+  /**
+   * Get PTPs for the tracker
+   * MINE returns the logged-in agent's promises, TEAM returns the supervisor's team
+   */
+  getTrackedPtps: async (params: PtpTrackerParams): Promise<PtpTrackerItem[]> => {
+    const response = await apiClient.get<WorkflowApiResponse<PtpTrackerItem[]>>(
+      `${BASE_URL}/ptps`,
+      { params }
+    );
+    if (isSuccess(response.data)) {
+      return getPayload(response.data);
+    }
+    throw new Error(response.data.message || 'Failed to fetch PTPs');
+  },
+
+  /**
+   * Update PTP lifecycle status (kept, partially kept or broken)
+   */
+  updatePtpStatus: async (ptpId: number, request: UpdatePtpStatusRequest): Promise<WorkflowPTP> => {
+    const response = await apiClient.put<WorkflowApiResponse<WorkflowPTP>>(
+      `${BASE_URL}/ptps/${ptpId}/status`,
+      request
+    );
+    if (isSuccess(response.data)) {
+      return getPayload(response.data);
+    }
+    throw new Error(response.data.message || 'Failed to update PTP status');
+  },
 };
 
 export default workflowService;
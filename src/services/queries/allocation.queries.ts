@@ -0,0 +1,186 @@
+/**
+ * Allocation Queries
+ * React Query hooks wrapping allocationService
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { allocationService, failureAnalysisService, reallocationService } from '@services/api'
+import type {
+  AgentAvailabilityRequest,
+  AllocationRulePriority,
+  ReallocationByAgentRequest,
+} from '@types'
+import { allocationKeys, type AllocationBatchFilters } from './queryKeys'
+
+/**
+ * Get allocation batch history
+ */
+export function useAllocationBatches(filters: AllocationBatchFilters) {
+  return useQuery({
+    queryKey: allocationKeys.batches(filters),
+    queryFn: () => allocationService.getBatches(filters),
+  })
+}
+
+/**
+ * Get allocation totals across the portfolio
+ */
+export function useAllocationSummary(refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: allocationKeys.summary(),
+    queryFn: () => allocationService.getSummary(),
+    refetchInterval,
+  })
+}
+
+/**
+ * Get workload and capacity for the given agents
+ */
+export function useAgentWorkload(agentIds: number[], refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: allocationKeys.workload(agentIds),
+    queryFn: () => allocationService.getAgentWorkload(agentIds),
+    enabled: agentIds.length > 0,
+    refetchInterval,
+  })
+}
+
+/**
+ * Get agent leave, half-days and training days overlapping a date range; all agents when none are given
+ */
+export function useAgentAvailability(startDate: string, endDate: string, agentIds: number[] = []) {
+  return useQuery({
+    queryKey: allocationKeys.availability(startDate, endDate, agentIds),
+    queryFn: () =>
+      allocationService.getAgentAvailability({
+        startDate,
+        endDate,
+        agentIds: agentIds.length > 0 ? agentIds : undefined,
+      }),
+    enabled: !!startDate && !!endDate,
+  })
+}
+
+/**
+ * Record agent availability and refresh every cached range
+ */
+export function useCreateAgentAvailability() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (request: AgentAvailabilityRequest) => allocationService.createAgentAvailability(request),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: allocationKeys.availabilityAll() }),
+  })
+}
+
+/**
+ * Remove an availability entry and refresh every cached range
+ */
+export function useDeleteAgentAvailability() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (availabilityId: number) => allocationService.deleteAgentAvailability(availabilityId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: allocationKeys.availabilityAll() }),
+  })
+}
+
+/**
+ * Reallocate every case of one agent to another, e.g. when the first goes on extended leave
+ */
+export function useReallocateByAgent() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (request: ReallocationByAgentRequest) => reallocationService.reallocateByAgent(request),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: allocationKeys.all }),
+  })
+}
+
+/**
+ * Get allocation failure totals for a date range
+ */
+export function useFailureSummary(startDate: string, endDate: string, refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: allocationKeys.failureSummary(startDate, endDate),
+    queryFn: () => failureAnalysisService.getSummary(startDate, endDate),
+    refetchInterval,
+  })
+}
+
+/**
+ * Get the most common allocation failure reasons
+ */
+export function useTopFailureReasons(limit = 5, refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: allocationKeys.topFailureReasons(limit),
+    queryFn: () => failureAnalysisService.getTopReasons(limit),
+    refetchInterval,
+  })
+}
+
+/**
+ * Get all allocation rules
+ */
+export function useAllocationRules() {
+  return useQuery({
+    queryKey: allocationKeys.rules(),
+    queryFn: () => allocationService.getRules(),
+  })
+}
+
+/**
+ * Get a single allocation rule
+ */
+export function useAllocationRule(ruleId: number | undefined) {
+  return useQuery({
+    queryKey: allocationKeys.rule(ruleId ?? 0),
+    queryFn: () => allocationService.getRuleById(ruleId as number),
+    enabled: !!ruleId,
+  })
+}
+
+/**
+ * Get who a case has been allocated to over time
+ */
+export function useCaseAllocationHistory(caseId: number) {
+  return useQuery({
+    queryKey: allocationKeys.caseHistory(caseId),
+    queryFn: () => allocationService.getCaseAllocationHistory(caseId),
+  })
+}
+
+/**
+ * Apply a rule. Allocating cases changes batches, summaries and rule status,
+ * so the whole allocation cache is invalidated.
+ */
+export function useApplyRule() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ ruleId, targetDate }: { ruleId: number; targetDate?: string }) =>
+      allocationService.applyRule(ruleId, targetDate),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: allocationKeys.all }),
+  })
+}
+
+/**
+ * Delete a rule, drop its cached detail and refresh the rule list
+ */
+export function useDeleteRule() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (ruleId: number) => allocationService.deleteRule(ruleId),
+    onSuccess: (_result, ruleId) => {
+      queryClient.removeQueries({ queryKey: allocationKeys.rule(ruleId) })
+      queryClient.invalidateQueries({ queryKey: allocationKeys.rules() })
+    },
+  })
+}
+
+/**
+ * Save a new rule order in one request, so a failure leaves the old order intact
+ */
+export function useReorderRules() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (priorities: AllocationRulePriority[]) => allocationService.reorderRules(priorities),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: allocationKeys.rules() }),
+  })
+}
@@ -0,0 +1,65 @@
+/**
+ * Case Sourcing Queries
+ * React Query hooks wrapping caseSourcingService
+ */
+
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { caseSourcingService } from '@services/api'
+import type { CaseSearchParams, ReportDateParams } from '@types'
+import { caseSourcingKeys } from './queryKeys'
+
+/**
+ * Get intake totals: received, validated, failed and unallocated cases
+ */
+export function useCaseSourcingSummary(refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: caseSourcingKeys.summary(),
+    queryFn: () => caseSourcingService.getDashboardSummary(),
+    refetchInterval,
+  })
+}
+
+/**
+ * Get the intake report for a date range
+ */
+export function useIntakeReport(params: ReportDateParams, refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: caseSourcingKeys.intakeReport(params),
+    queryFn: () => caseSourcingService.getIntakeReport(params),
+    refetchInterval,
+  })
+}
+
+/**
+ * Search cases; keeps the previous page visible while the next one loads
+ */
+export function useCaseSearch(params: CaseSearchParams, enabled = true) {
+  return useQuery({
+    queryKey: caseSourcingKeys.search(params),
+    queryFn: () => caseSourcingService.searchCases(params),
+    placeholderData: keepPreviousData,
+    enabled,
+  })
+}
+
+/**
+ * Get a case's activity timeline from case sourcing
+ */
+export function useCaseTimeline(caseId: number) {
+  return useQuery({
+    queryKey: caseSourcingKeys.timeline(caseId),
+    queryFn: () => caseSourcingService.getCaseTimeline(caseId),
+  })
+}
+
+/**
+ * Get an unallocated case from case sourcing, for cases the workflow API does not serve yet
+ */
+export function useUnallocatedCaseDetail(caseId: number, enabled = true) {
+  return useQuery({
+    queryKey: caseSourcingKeys.unallocatedDetail(caseId),
+    queryFn: () => caseSourcingService.getUnallocatedCaseDetail(caseId),
+    enabled: enabled && caseId > 0,
+    retry: false,
+  })
+}
@@ -0,0 +1,13 @@
+/**
+ * Central export for React Query hooks and query keys
+ */
+
+export * from './queryKeys'
+export * from './repayment.queries'
+export * from './allocation.queries'
+export * from './management.queries'
+export * from './masterData.queries'
+export * from './caseSourcing.queries'
+export * from './strategyEngine.queries'
+export * from './template.queries'
+export * from './workflow.queries'
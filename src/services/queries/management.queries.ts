@@ -0,0 +1,89 @@
+/**
+ * User Management Queries
+ * React Query hooks wrapping userManagementService and roleService
+ */
+
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { userManagementService, roleService } from '@services/api'
+import type { PaginationParams, CreateUserRequest, UpdateUserRequest, DashboardLayoutPreset } from '@types'
+import { userKeys, roleKeys } from './queryKeys'
+
+/**
+ * Get paginated users
+ */
+export function useUsers(params: PaginationParams) {
+  return useQuery({
+    queryKey: userKeys.list(params),
+    queryFn: () => userManagementService.getAll(params),
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Get all roles
+ */
+export function useRoles() {
+  return useQuery({
+    queryKey: roleKeys.all,
+    queryFn: () => roleService.getAll(),
+  })
+}
+
+/**
+ * Create a user and refresh user lists
+ */
+export function useCreateUser() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (data: CreateUserRequest) => userManagementService.create(data),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: userKeys.lists() }),
+  })
+}
+
+/**
+ * Update a user and refresh user lists and that user's detail
+ */
+export function useUpdateUser() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, data }: { id: number; data: UpdateUserRequest }) =>
+      userManagementService.update(id, data),
+    onSuccess: (_user, { id }) => {
+      queryClient.invalidateQueries({ queryKey: userKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: userKeys.detail(id) })
+    },
+  })
+}
+
+/**
+ * Delete a user and refresh user lists
+ */
+export function useDeleteUser() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (id: number) => userManagementService.delete(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: userKeys.lists() }),
+  })
+}
+
+/**
+ * Get the dashboard layouts admins pushed as role defaults
+ */
+export function useRoleDashboardLayouts() {
+  return useQuery({
+    queryKey: roleKeys.dashboardLayouts(),
+    queryFn: () => roleService.getDashboardLayouts(),
+  })
+}
+
+/**
+ * Set or remove (preset null) a role's default dashboard layout
+ */
+export function useSaveRoleDashboardLayout() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ roleCode, preset }: { roleCode: string; preset: DashboardLayoutPreset | null }) =>
+      preset ? roleService.setDashboardLayout(roleCode, preset) : roleService.clearDashboardLayout(roleCode),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: roleKeys.dashboardLayouts() }),
+  })
+}
@@ -0,0 +1,20 @@
+/**
+ * Master Data Queries
+ * React Query hooks wrapping masterDataService
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { masterDataService } from '@services/api'
+import { masterDataKeys } from './queryKeys'
+
+/**
+ * Get master data entries of a type (e.g. CITY, STATE)
+ * Master data rarely changes, so it stays fresh for the whole session.
+ */
+export function useMasterDataByType(type: string) {
+  return useQuery({
+    queryKey: masterDataKeys.byType(type),
+    queryFn: () => masterDataService.getByType(type),
+    staleTime: Infinity,
+  })
+}
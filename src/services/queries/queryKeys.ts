@@ -0,0 +1,100 @@
+/**
+ * Query Keys
+ * Shared React Query key factories so queries and mutations agree on cache entries
+ */
+
+import type {
+  RepaymentSearchParams,
+  RepaymentSummaryParams,
+  PaginationParams,
+  ReportDateParams,
+  CaseSearchParams,
+} from '@types'
+
+export interface AllocationBatchFilters {
+  status?: string
+  startDate?: string
+  endDate?: string
+  page?: number
+  size?: number
+}
+
+export const repaymentKeys = {
+  all: ['repayments'] as const,
+  lists: () => [...repaymentKeys.all, 'list'] as const,
+  list: (params: RepaymentSearchParams) => [...repaymentKeys.lists(), params] as const,
+  pendingApprovals: (page: number, size: number) =>
+    [...repaymentKeys.all, 'pending-approvals', { page, size }] as const,
+  detail: (id: number) => [...repaymentKeys.all, 'detail', id] as const,
+  approvalHistory: (id: number) => [...repaymentKeys.all, 'approval-history', id] as const,
+  approvalChains: () => [...repaymentKeys.all, 'approval-chains'] as const,
+  dashboard: () => [...repaymentKeys.all, 'dashboard'] as const,
+  summary: (params: RepaymentSummaryParams) => [...repaymentKeys.all, 'summary', params] as const,
+  slaDashboard: () => [...repaymentKeys.all, 'sla-dashboard'] as const,
+}
+
+export const allocationKeys = {
+  all: ['allocation'] as const,
+  batches: (filters: AllocationBatchFilters) => [...allocationKeys.all, 'batches', filters] as const,
+  rules: () => [...allocationKeys.all, 'rules'] as const,
+  rule: (ruleId: number) => [...allocationKeys.rules(), ruleId] as const,
+  summary: () => [...allocationKeys.all, 'summary'] as const,
+  allocatedCases: () => [...allocationKeys.all, 'allocated-cases'] as const,
+  workload: (agentIds: number[]) => [...allocationKeys.all, 'workload', agentIds] as const,
+  availabilityAll: () => [...allocationKeys.all, 'availability'] as const,
+  availability: (startDate: string, endDate: string, agentIds: number[]) =>
+    [...allocationKeys.availabilityAll(), { startDate, endDate, agentIds }] as const,
+  failureSummary: (startDate: string, endDate: string) =>
+    [...allocationKeys.all, 'failure-summary', { startDate, endDate }] as const,
+  topFailureReasons: (limit: number) => [...allocationKeys.all, 'top-failure-reasons', limit] as const,
+  caseHistory: (caseId: number) => [...allocationKeys.all, 'case-history', caseId] as const,
+}
+
+export const caseSourcingKeys = {
+  all: ['case-sourcing'] as const,
+  summary: () => [...caseSourcingKeys.all, 'summary'] as const,
+  intakeReport: (params: ReportDateParams) => [...caseSourcingKeys.all, 'intake-report', params] as const,
+  search: (params: CaseSearchParams) => [...caseSourcingKeys.all, 'search', params] as const,
+  timeline: (caseId: number) => [...caseSourcingKeys.all, 'timeline', caseId] as const,
+  unallocatedDetail: (caseId: number) => [...caseSourcingKeys.all, 'unallocated-detail', caseId] as const,
+}
+
+export const strategyEngineKeys = {
+  all: ['strategy-engine'] as const,
+  dashboard: () => [...strategyEngineKeys.all, 'dashboard'] as const,
+}
+
+export const workflowKeys = {
+  all: ['workflow'] as const,
+  caseSummary: (caseId: number) => [...workflowKeys.all, 'case-summary', caseId] as const,
+  caseDetail: (caseId: number) => [...workflowKeys.all, 'case-detail', caseId] as const,
+  documentAudit: (caseId: number, documentId: number) =>
+    [...workflowKeys.all, 'document-audit', caseId, documentId] as const,
+}
+
+export const templateKeys = {
+  all: ['templates'] as const,
+  dropdown: (channel: string) => [...templateKeys.all, 'dropdown', channel] as const,
+  variables: () => [...templateKeys.all, 'variables'] as const,
+  groups: () => [...templateKeys.all, 'groups'] as const,
+  groupsByChannel: (channel: string) => [...templateKeys.groups(), channel] as const,
+  versions: (templateId: number) => [...templateKeys.all, 'versions', templateId] as const,
+  resolved: (templateId: number, caseId: number) => [...templateKeys.all, 'resolved', templateId, caseId] as const,
+}
+
+export const userKeys = {
+  all: ['users'] as const,
+  lists: () => [...userKeys.all, 'list'] as const,
+  list: (params: PaginationParams) => [...userKeys.lists(), params] as const,
+  detail: (id: number) => [...userKeys.all, 'detail', id] as const,
+}
+
+export const roleKeys = {
+  all: ['roles'] as const,
+  dashboardLayouts: () => [...roleKeys.all, 'dashboard-layouts'] as const,
+}
+
+export const masterDataKeys = {
+  all: ['master-data'] as const,
+  byType: (type: string) => [...masterDataKeys.all, type] as const,
+}
@@ -0,0 +1,160 @@
+/**
+ * Repayment Queries
+ * React Query hooks wrapping repaymentService
+ */
+
+import { useQuery, useQueries, useMutation, useQueryClient, keepPreviousData } from '@tanstack/react-query'
+import { repaymentService } from '@services/api'
+import type {
+  RepaymentSearchParams,
+  RepaymentSummaryParams,
+  ApprovalChainRule,
+  RepaymentApprovalStep,
+} from '@types'
+import { repaymentKeys } from './queryKeys'
+
+/**
+ * Search repayments; keeps the previous page visible while the next one loads
+ */
+export function useRepaymentSearch(params: RepaymentSearchParams, refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: repaymentKeys.list(params),
+    queryFn: () => repaymentService.search(params),
+    placeholderData: keepPreviousData,
+    refetchInterval,
+  })
+}
+
+/**
+ * Get today's and this month's repayment totals
+ */
+export function useRepaymentDashboard(refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: repaymentKeys.dashboard(),
+    queryFn: () => repaymentService.getDashboard(),
+    refetchInterval,
+  })
+}
+
+/**
+ * Get repayment totals by status for a date range
+ */
+export function useRepaymentSummary(params: RepaymentSummaryParams, refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: repaymentKeys.summary(params),
+    queryFn: () => repaymentService.getSummary(params),
+    refetchInterval,
+  })
+}
+
+/**
+ * Get deposit SLA compliance for pending repayments
+ */
+export function useSlaDashboard(refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: repaymentKeys.slaDashboard(),
+    queryFn: () => repaymentService.getSlaDashboard(),
+    refetchInterval,
+  })
+}
+
+/**
+ * Get a single repayment
+ */
+export function useRepayment(id: number | undefined) {
+  return useQuery({
+    queryKey: repaymentKeys.detail(id ?? 0),
+    queryFn: () => repaymentService.getById(id as number),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Get repayments awaiting approval
+ */
+export function usePendingApprovals(page = 0, size = 20) {
+  return useQuery({
+    queryKey: repaymentKeys.pendingApprovals(page, size),
+    queryFn: () => repaymentService.getPendingApprovals(page, size),
+    placeholderData: keepPreviousData,
+  })
+}
+
+/**
+ * Get the per-level approval history of a repayment
+ */
+export function useApprovalHistory(id: number | undefined) {
+  return useQuery({
+    queryKey: repaymentKeys.approvalHistory(id ?? 0),
+    queryFn: () => repaymentService.getApprovalHistory(id as number),
+    enabled: !!id,
+  })
+}
+
+/**
+ * Get the approval history of several repayments, keyed by repayment ID
+ * Repayments whose history failed to load are listed in failedIds.
+ */
+export function useApprovalHistories(ids: number[]) {
+  return useQueries({
+    queries: ids.map((id) => ({
+      queryKey: repaymentKeys.approvalHistory(id),
+      queryFn: () => repaymentService.getApprovalHistory(id),
+    })),
+    combine: (results) => {
+      const histories: Record<number, RepaymentApprovalStep[]> = {}
+      const failedIds = new Set<number>()
+      results.forEach((result, index) => {
+        if (result.data) histories[ids[index]] = result.data
+        if (result.isError) failedIds.add(ids[index])
+      })
+      return { histories, failedIds }
+    },
+  })
+}
+
+/**
+ * Get the configured approval chain rules
+ * Pass enabled false for users who may not read the approval configuration.
+ */
+export function useApprovalChainRules(enabled = true) {
+  return useQuery({
+    queryKey: repaymentKeys.approvalChains(),
+    queryFn: () => repaymentService.getApprovalChainRules(),
+    enabled,
+  })
+}
+
+/**
+ * Save approval chain rules and refresh anything that depends on them
+ */
+export function useSaveApprovalChainRules() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (rules: ApprovalChainRule[]) => repaymentService.saveApprovalChainRules(rules),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: repaymentKeys.all }),
+  })
+}
+
+/**
+ * Approve a repayment and refresh every repayment list, detail and dashboard
+ */
+export function useApproveRepayment() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, comments, approvalLevel }: { id: number; comments?: string; approvalLevel?: number }) =>
+      repaymentService.approve(id, comments, approvalLevel),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: repaymentKeys.all }),
+  })
+}
+
+/**
+ * Reject a repayment and refresh every repayment list, detail and dashboard
+ */
+export function useRejectRepayment() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ id, reason }: { id: number; reason: string }) => repaymentService.reject(id, reason),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: repaymentKeys.all }),
+  })
+}
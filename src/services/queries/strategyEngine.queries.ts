@@ -0,0 +1,19 @@
+/**
+ * Strategy Engine Queries
+ * React Query hooks wrapping strategyEngineService
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { strategyEngineService } from '@services/api'
+import { strategyEngineKeys } from './queryKeys'
+
+/**
+ * Get strategy totals and per-strategy run status
+ */
+export function useStrategyDashboard(refetchInterval: number | false = false) {
+  return useQuery({
+    queryKey: strategyEngineKeys.dashboard(),
+    queryFn: () => strategyEngineService.getDashboard(),
+    refetchInterval,
+  })
+}
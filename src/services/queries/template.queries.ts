@@ -0,0 +1,127 @@
+/**
+ * Template Queries
+ * React Query hooks wrapping templateService
+ */
+
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { templateService } from '@services/api/template.service'
+import type {
+  ReviewTemplateVersionRequest,
+  TemplateChannelType,
+  TemplateGroupRequest,
+} from '../../types/template.types'
+import { templateKeys } from './queryKeys'
+
+/**
+ * Get active templates for a channel, for pickers
+ */
+export function useTemplateDropdown(channel: TemplateChannelType | '', enabled = true) {
+  return useQuery({
+    queryKey: templateKeys.dropdown(channel),
+    queryFn: () => templateService.getTemplatesDropdown(channel as TemplateChannelType),
+    enabled: enabled && !!channel,
+  })
+}
+
+/**
+ * Get every variable definition, active or not, so templates can be checked against them
+ */
+export function useTemplateVariables() {
+  return useQuery({
+    queryKey: templateKeys.variables(),
+    queryFn: () => templateService.getAllVariables(),
+  })
+}
+
+/**
+ * Resolve a saved template against a case, for previews
+ */
+export function useResolvedTemplate(templateId: number | undefined, caseId: number | undefined) {
+  return useQuery({
+    queryKey: templateKeys.resolved(templateId ?? 0, caseId ?? 0),
+    queryFn: () =>
+      templateService.resolveTemplate(templateId as number, { caseId: caseId as number, templateVariables: {} }),
+    enabled: !!templateId && !!caseId,
+    retry: false,
+  })
+}
+
+/**
+ * Get the version history of a template, newest first
+ */
+export function useTemplateVersions(templateId: number | undefined) {
+  return useQuery({
+    queryKey: templateKeys.versions(templateId ?? 0),
+    queryFn: () => templateService.getTemplateVersions(templateId as number),
+    enabled: !!templateId,
+  })
+}
+
+/**
+ * Send a draft version for review
+ */
+export function useSubmitTemplateVersion(templateId: number) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (versionId: number) => templateService.submitTemplateVersion(templateId, versionId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: templateKeys.versions(templateId) }),
+  })
+}
+
+/**
+ * Approve or reject a version; approval changes what every strategy sends, so all template data is refreshed
+ */
+export function useReviewTemplateVersion(templateId: number) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ versionId, review }: { versionId: number; review: ReviewTemplateVersionRequest }) =>
+      templateService.reviewTemplateVersion(templateId, versionId, review),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: templateKeys.all }),
+  })
+}
+
+/**
+ * Make an earlier approved version live again
+ */
+export function useRollbackTemplateVersion(templateId: number) {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ versionId, changeNote }: { versionId: number; changeNote: string }) =>
+      templateService.rollbackTemplateVersion(templateId, versionId, changeNote),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: templateKeys.all }),
+  })
+}
+
+/**
+ * Get template groups; an empty channel lists groups on every channel
+ */
+export function useTemplateGroups(channel: TemplateChannelType | '' = '', enabled = true) {
+  return useQuery({
+    queryKey: templateKeys.groupsByChannel(channel),
+    queryFn: () => templateService.getTemplateGroups(channel || undefined),
+    enabled,
+  })
+}
+
+/**
+ * Create a group, or update it when an ID is given
+ */
+export function useSaveTemplateGroup() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: ({ groupId, group }: { groupId?: number; group: TemplateGroupRequest }) =>
+      groupId ? templateService.updateTemplateGroup(groupId, group) : templateService.createTemplateGroup(group),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: templateKeys.groups() }),
+  })
+}
+
+/**
+ * Delete a group without touching its templates
+ */
+export function useDeleteTemplateGroup() {
+  const queryClient = useQueryClient()
+  return useMutation({
+    mutationFn: (groupId: number) => templateService.deleteTemplateGroup(groupId),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: templateKeys.groups() }),
+  })
+}
@@ -0,0 +1,39 @@
+/**
+ * Workflow Queries
+ * React Query hooks wrapping workflowService
+ */
+
+import { useQuery } from '@tanstack/react-query'
+import { workflowService } from '@services/api'
+import { workflowKeys } from './queryKeys'
+
+/**
+ * Get the header summary for a case
+ */
+export function useCaseSummary(caseId: number) {
+  return useQuery({
+    queryKey: workflowKeys.caseSummary(caseId),
+    queryFn: () => workflowService.getCaseSummary(caseId),
+  })
+}
+
+/**
+ * Get every tab of a case (loan, customer, repayments, PTPs, notices, communications, documents)
+ */
+export function useCaseDetail(caseId: number) {
+  return useQuery({
+    queryKey: workflowKeys.caseDetail(caseId),
+    queryFn: () => workflowService.getCaseDetails(caseId),
+  })
+}
+
+/**
+ * Get the upload, view and download history of a case document
+ */
+export function useDocumentAuditTrail(caseId: number, documentId: number | undefined) {
+  return useQuery({
+    queryKey: workflowKeys.documentAudit(caseId, documentId ?? 0),
+    queryFn: () => workflowService.getDocumentAuditTrail(caseId, documentId as number),
+    enabled: !!documentId,
+  })
+}
@@ -25,6 +25,26 @@ interface AuthProviderProps {
   children: ReactNode
 }
 
+/**
+ * Attach permissions from the user's own /me payload when the login response does not carry them
+ * Failing to load them leaves the user with role-based access only
+ */
+const withPermissions = async (baseUser: User): Promise<User> => {
+  if (baseUser.permissions?.length) return baseUser
+
+  try {
+    const currentUser = await authService.getCurrentUser()
+    return {
+      ...baseUser,
+      permissions: currentUser.permissions ?? baseUser.permissions,
+      roles: currentUser.roles ?? baseUser.roles,
+    }
+  } catch (error) {
+    console.warn('Failed to load user permissions:', error)
+    return baseUser
+  }
+}
+
 export function AuthProvider({ children }: AuthProviderProps) {
   const [user, setUser] = useState<User | null>(null)
   const [sessionId, setSessionId] = useState<string | null>(null)
@@ -46,7 +66,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
           // Optionally verify token is still valid by fetching current user
           // Only update if successful, don't logout on failure
           try {
-            const currentUser = await authService.getCurrentUser()
+            const fetchedUser = await authService.getCurrentUser()
+            const currentUser = { ...fetchedUser, permissions: fetchedUser.permissions ?? storedUser.permissions }
             setUser(currentUser)
             setStorageItem(config.storage.userKey, currentUser)
           } catch (verifyError) {
@@ -81,7 +102,7 @@ export function AuthProvider({ children }: AuthProviderProps) {
       localStorage.setItem(config.storage.sessionIdKey, loginResponse.sessionId)
 
       // Map LoginResponse to User object
-      const userData: User = {
+      const userData: User = await withPermissions({
         id: loginResponse.userId,
         username: loginResponse.username,
         email: loginResponse.email,
@@ -89,7 +110,8 @@ export function AuthProvider({ children }: AuthProviderProps) {
         lastName: loginResponse.lastName,
         status: 'ACTIVE',
         role: loginResponse.role,
-      }
+        permissions: loginResponse.permissions,
+      })
 
       setStorageItem(config.storage.userKey, userData)
       setUser(userData)
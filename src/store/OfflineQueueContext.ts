@@ -0,0 +1,25 @@
+/**
+ * Offline Queue Context
+ * Shared state for repayment captures waiting to reach the server
+ */
+
+import { createContext } from 'react'
+import type { CreateRepaymentRequest, Repayment, RepaymentDraft } from '@types'
+
+export type CaptureResult =
+  | { queued: false; repayment: Repayment }
+  | { queued: true; draft: RepaymentDraft }
+
+export interface OfflineQueueContextType {
+  drafts: RepaymentDraft[]
+  pendingCount: number
+  conflictCount: number
+  isOnline: boolean
+  isSyncing: boolean
+  captureRepayment: (request: CreateRepaymentRequest, label?: string) => Promise<CaptureResult>
+  syncNow: () => Promise<void>
+  retryDraft: (idempotencyKey: string) => void
+  discardDraft: (idempotencyKey: string) => void
+}
+
+export const OfflineQueueContext = createContext<OfflineQueueContextType | undefined>(undefined)
@@ -0,0 +1,243 @@
+/**
+ * Offline Queue Provider
+ * Persists repayment captures locally and syncs them once the connection returns
+ */
+
+import { useState, useEffect, useCallback, useRef, ReactNode } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { repaymentService } from '@services/api'
+import { repaymentKeys } from '@services/queries'
+import { useAuth } from '@hooks/useAuth'
+import { useLocalStorage } from '@hooks/useLocalStorage'
+import { generateId, getStorageItem, removeStorageItem, setStorageItem } from '@utils'
+import config from '@config'
+import type { ApiError, CreateRepaymentRequest, RepaymentDraft } from '@types'
+import { OfflineQueueContext } from './OfflineQueueContext'
+import type { CaptureResult, OfflineQueueContextType } from './OfflineQueueContext'
+
+interface OfflineQueueProviderProps {
+  children: ReactNode
+}
+
+// Retry interval for drafts that are still pending while online
+const SYNC_INTERVAL_MS = 60 * 1000
+
+// Rejections worth retrying later rather than flagging for the agent
+const RETRYABLE_STATUS_CODES = [401, 408, 429]
+
+const createIdempotencyKey = (): string => {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : generateId()
+}
+
+const isNetworkFailure = (err: unknown): boolean => {
+  return !navigator.onLine || Boolean((err as ApiError)?.isNetworkError)
+}
+
+/**
+ * A 4xx means the server looked at the capture and refused it (case closed, duplicate, invalid amount)
+ */
+const isConflict = (err: unknown): boolean => {
+  const statusCode = (err as ApiError)?.statusCode
+  return !!statusCode && statusCode >= 400 && statusCode < 500 && !RETRYABLE_STATUS_CODES.includes(statusCode)
+}
+
+const getErrorMessage = (err: unknown): string => {
+  return (err as ApiError)?.message || (err instanceof Error ? err.message : 'Rejected by server')
+}
+
+/**
+ * Storage key for one user's queue
+ */
+const getUserQueueKey = (userId: number | undefined): string =>
+  `${config.storage.repaymentQueueKey}_${userId ?? 'anonymous'}`
+
+/**
+ * Move drafts from the old shared queue into the queue of the agent who collected them
+ * Drafts with no collector cannot be attributed and are dropped rather than posted as someone else.
+ */
+const migrateSharedQueue = (): void => {
+  const shared = getStorageItem<Omit<RepaymentDraft, 'capturedBy'>[]>(config.storage.repaymentQueueKey)
+  if (!shared) return
+
+  shared.forEach((draft) => {
+    const collectedBy = draft.request.collectedBy
+    if (!collectedBy) return
+    const key = getUserQueueKey(collectedBy)
+    setStorageItem(key, [...(getStorageItem<RepaymentDraft[]>(key) || []), { ...draft, capturedBy: collectedBy }])
+  })
+  removeStorageItem(config.storage.repaymentQueueKey)
+}
+
+migrateSharedQueue()
+
+export function OfflineQueueProvider({ children }: OfflineQueueProviderProps) {
+  const { user, isAuthenticated } = useAuth()
+  const userId = user?.id
+  const queryClient = useQueryClient()
+  // Each user has their own queue, so another agent logging in on the device never sees or sends it
+  const [drafts, setDrafts] = useLocalStorage<RepaymentDraft[]>(getUserQueueKey(userId), [])
+  const [isOnline, setIsOnline] = useState(navigator.onLine)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const draftsRef = useRef(drafts)
+  const syncingRef = useRef(false)
+
+  useEffect(() => {
+    draftsRef.current = drafts
+  }, [drafts])
+
+  // A reload during sync leaves drafts marked SYNCING; they never reached a verdict, so retry them
+  useEffect(() => {
+    setDrafts((prev) =>
+      prev.map((draft) => (draft.status === 'SYNCING' ? { ...draft, status: 'PENDING' } : draft))
+    )
+  }, [userId, setDrafts])
+
+  const updateDraft = useCallback(
+    (idempotencyKey: string, changes: Partial<RepaymentDraft>) => {
+      setDrafts((prev) =>
+        prev.map((draft) => (draft.idempotencyKey === idempotencyKey ? { ...draft, ...changes } : draft))
+      )
+    },
+    [setDrafts]
+  )
+
+  const discardDraft = useCallback(
+    (idempotencyKey: string) => {
+      setDrafts((prev) => prev.filter((draft) => draft.idempotencyKey !== idempotencyKey))
+    },
+    [setDrafts]
+  )
+
+  const retryDraft = useCallback(
+    (idempotencyKey: string) => {
+      updateDraft(idempotencyKey, { status: 'PENDING', conflictReason: undefined })
+    },
+    [updateDraft]
+  )
+
+  /**
+   * Send pending drafts one at a time, stopping at the first network failure
+   */
+  const syncNow = useCallback(async () => {
+    if (syncingRef.current || !navigator.onLine || !isAuthenticated || !userId) return
+    const pending = draftsRef.current.filter(
+      (draft) => draft.status === 'PENDING' && draft.capturedBy === userId
+    )
+    if (pending.length === 0) return
+
+    syncingRef.current = true
+    setIsSyncing(true)
+    let synced = 0
+
+    try {
+      for (const draft of pending) {
+        updateDraft(draft.idempotencyKey, {
+          status: 'SYNCING',
+          attempts: draft.attempts + 1,
+          lastAttemptAt: new Date().toISOString(),
+        })
+
+        try {
+          await repaymentService.create(draft.request, draft.idempotencyKey)
+          discardDraft(draft.idempotencyKey)
+          synced++
+        } catch (err) {
+          if (isNetworkFailure(err)) {
+            updateDraft(draft.idempotencyKey, { status: 'PENDING' })
+            break
+          }
+          updateDraft(
+            draft.idempotencyKey,
+            isConflict(err) ? { status: 'CONFLICT', conflictReason: getErrorMessage(err) } : { status: 'PENDING' }
+          )
+        }
+      }
+    } finally {
+      syncingRef.current = false
+      setIsSyncing(false)
+      if (synced > 0) {
+        queryClient.invalidateQueries({ queryKey: repaymentKeys.all })
+      }
+    }
+  }, [isAuthenticated, userId, updateDraft, discardDraft, queryClient])
+
+  /**
+   * Submit a capture straight away when possible, otherwise keep it as a draft
+   * Server rejections while online are thrown so the form can show them immediately.
+   */
+  const captureRepayment = useCallback(
+    async (request: CreateRepaymentRequest, label?: string): Promise<CaptureResult> => {
+      if (!userId) {
+        throw new Error('Sign in to record a collection')
+      }
+      const draft: RepaymentDraft = {
+        idempotencyKey: createIdempotencyKey(),
+        request,
+        capturedBy: userId,
+        status: 'PENDING',
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+        label,
+      }
+
+      if (navigator.onLine) {
+        try {
+          const repayment = await repaymentService.create(request, draft.idempotencyKey)
+          queryClient.invalidateQueries({ queryKey: repaymentKeys.all })
+          return { queued: false, repayment }
+        } catch (err) {
+          if (!isNetworkFailure(err)) {
+            throw new Error(getErrorMessage(err))
+          }
+          draft.attempts = 1
+          draft.lastAttemptAt = new Date().toISOString()
+        }
+      }
+
+      setDrafts((prev) => [...prev, draft])
+      return { queued: true, draft }
+    },
+    [userId, setDrafts, queryClient]
+  )
+
+  // Track connectivity and sync as soon as it returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true)
+      syncNow()
+    }
+    const handleOffline = () => setIsOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [syncNow])
+
+  const pendingCount = drafts.filter((draft) => draft.status !== 'CONFLICT').length
+  const conflictCount = drafts.length - pendingCount
+
+  // Retry on login and periodically while drafts are waiting (covers flaky connections that never go offline)
+  useEffect(() => {
+    if (!isAuthenticated || !isOnline || pendingCount === 0) return
+    syncNow()
+    const interval = window.setInterval(syncNow, SYNC_INTERVAL_MS)
+    return () => window.clearInterval(interval)
+  }, [isAuthenticated, isOnline, pendingCount, syncNow])
+
+  const value: OfflineQueueContextType = {
+    drafts,
+    pendingCount,
+    conflictCount,
+    isOnline,
+    isSyncing,
+    captureRepayment,
+    syncNow,
+    retryDraft,
+    discardDraft,
+  }
+
+  return <OfflineQueueContext.Provider value={value}>{children}</OfflineQueueContext.Provider>
+}
@@ -0,0 +1,28 @@
+/**
+ * Saved Search Context
+ * Case searches a user has saved, pinned to the sidebar or scheduled to re-run
+ */
+
+import { createContext } from 'react'
+import type { CaseSearchParams, SavedCaseSearch, SavedSearchSchedule } from '@types'
+
+export interface SaveSearchOptions {
+  pinned?: boolean
+  schedule?: SavedSearchSchedule
+}
+
+export type SavedSearchChanges = Partial<Pick<SavedCaseSearch, 'name' | 'params' | 'pinned' | 'schedule'>>
+
+export interface SavedSearchContextType {
+  savedSearches: SavedCaseSearch[]
+  pinnedSearches: SavedCaseSearch[]
+  // New matches across all of the user's scheduled searches
+  newMatchTotal: number
+  saveSearch: (name: string, params: CaseSearchParams, options?: SaveSearchOptions) => SavedCaseSearch
+  updateSearch: (id: string, changes: SavedSearchChanges) => void
+  deleteSearch: (id: string) => void
+  runSearch: (id: string) => Promise<void>
+  markSeen: (id: string) => void
+}
+
+export const SavedSearchContext = createContext<SavedSearchContextType | undefined>(undefined)
@@ -0,0 +1,186 @@
+/**
+ * Saved Search Provider
+ * Persists saved case searches and re-runs scheduled ones in the background to count new matches
+ */
+
+import { useEffect, useCallback, useRef, ReactNode } from 'react'
+import { caseSourcingService } from '@services/api'
+import { useAuth } from '@hooks/useAuth'
+import { useLocalStorage } from '@hooks/useLocalStorage'
+import { cleanCaseSearchFilters, generateId } from '@utils'
+import config from '@config'
+import type { CaseSearchParams, SavedCaseSearch, SavedSearchSchedule } from '@types'
+import { SavedSearchContext } from './SavedSearchContext'
+import type { SaveSearchOptions, SavedSearchChanges, SavedSearchContextType } from './SavedSearchContext'
+
+interface SavedSearchProviderProps {
+  children: ReactNode
+}
+
+// How often to look for scheduled searches that are due
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000
+
+const HOUR_MS = 60 * 60 * 1000
+
+const SCHEDULE_INTERVALS_MS: Record<SavedSearchSchedule, number | null> = {
+  OFF: null,
+  HOURLY: HOUR_MS,
+  EVERY_4_HOURS: 4 * HOUR_MS,
+  DAILY: 24 * HOUR_MS,
+}
+
+// Newest cases fetched per scheduled run; matches beyond this are only reflected in the total count
+const SCHEDULED_RUN_SIZE = 200
+
+// Cap on remembered case IDs per search so storage stays small
+const KNOWN_CASE_IDS_LIMIT = 1000
+
+const isDue = (search: SavedCaseSearch, now: number): boolean => {
+  const interval = SCHEDULE_INTERVALS_MS[search.schedule]
+  if (!interval) return false
+  return !search.lastRunAt || now - new Date(search.lastRunAt).getTime() >= interval
+}
+
+export function SavedSearchProvider({ children }: SavedSearchProviderProps) {
+  const { user, isAuthenticated } = useAuth()
+  const [allSearches, setAllSearches] = useLocalStorage<SavedCaseSearch[]>(config.storage.savedCaseSearchesKey, [])
+  const searchesRef = useRef(allSearches)
+  const runningRef = useRef(new Set<string>())
+  const userId = user?.id
+
+  useEffect(() => {
+    searchesRef.current = allSearches
+  }, [allSearches])
+
+  const savedSearches = allSearches.filter((search) => search.ownerId === userId)
+  const pinnedSearches = savedSearches.filter((search) => search.pinned)
+  const newMatchTotal = savedSearches.reduce((sum, search) => sum + search.newMatchCount, 0)
+
+  const patchSearch = useCallback(
+    (id: string, changes: Partial<SavedCaseSearch>) => {
+      setAllSearches((prev) => prev.map((search) => (search.id === id ? { ...search, ...changes } : search)))
+    },
+    [setAllSearches]
+  )
+
+  // Changing the filters starts the new-match count over from a fresh baseline
+  const updateSearch = useCallback(
+    (id: string, changes: SavedSearchChanges) => {
+      patchSearch(
+        id,
+        changes.params
+          ? {
+              ...changes,
+              params: cleanCaseSearchFilters(changes.params),
+              lastRunAt: undefined,
+              lastResultCount: undefined,
+              knownCaseIds: [],
+              newMatchCount: 0,
+            }
+          : changes
+      )
+    },
+    [patchSearch]
+  )
+
+  const deleteSearch = useCallback(
+    (id: string) => {
+      setAllSearches((prev) => prev.filter((search) => search.id !== id))
+    },
+    [setAllSearches]
+  )
+
+  const markSeen = useCallback(
+    (id: string) => {
+      const search = searchesRef.current.find((s) => s.id === id)
+      if (search && search.newMatchCount > 0) patchSearch(id, { newMatchCount: 0 })
+    },
+    [patchSearch]
+  )
+
+  /**
+   * Run a saved search and count cases it has not returned before
+   * The first run only records a baseline, so saving a search never starts with a badge.
+   */
+  const runSearch = useCallback(
+    async (id: string) => {
+      const search = searchesRef.current.find((s) => s.id === id)
+      if (!search || runningRef.current.has(id)) return
+
+      runningRef.current.add(id)
+      try {
+        const result = await caseSourcingService.searchCases({ ...search.params, page: 0, size: SCHEDULED_RUN_SIZE })
+        const caseIds = result.content.map((item) => item.caseId)
+        setAllSearches((prev) =>
+          prev.map((current) => {
+            if (current.id !== id) return current
+            const known = new Set(current.knownCaseIds)
+            const newIds = current.lastRunAt ? caseIds.filter((caseId) => !known.has(caseId)) : []
+            const knownCaseIds = current.lastRunAt ? [...newIds, ...current.knownCaseIds] : caseIds
+            return {
+              ...current,
+              lastRunAt: new Date().toISOString(),
+              lastResultCount: result.totalElements,
+              knownCaseIds: knownCaseIds.slice(0, KNOWN_CASE_IDS_LIMIT),
+              newMatchCount: current.newMatchCount + newIds.length,
+            }
+          })
+        )
+      } catch {
+        // Try again at the next check; a failed background run should not interrupt the user
+      } finally {
+        runningRef.current.delete(id)
+      }
+    },
+    [setAllSearches]
+  )
+
+  const saveSearch = useCallback(
+    (name: string, params: CaseSearchParams, options: SaveSearchOptions = {}): SavedCaseSearch => {
+      const search: SavedCaseSearch = {
+        id: generateId(),
+        ownerId: userId,
+        name: name.trim() || 'Untitled search',
+        params: cleanCaseSearchFilters(params),
+        pinned: options.pinned ?? false,
+        schedule: options.schedule ?? 'OFF',
+        createdAt: new Date().toISOString(),
+        knownCaseIds: [],
+        newMatchCount: 0,
+      }
+      setAllSearches((prev) => [...prev, search])
+      return search
+    },
+    [userId, setAllSearches]
+  )
+
+  // Run whichever of the user's scheduled searches are due, one at a time
+  const runDueSearches = useCallback(async () => {
+    if (!navigator.onLine) return
+    const now = Date.now()
+    const due = searchesRef.current.filter((search) => search.ownerId === userId && isDue(search, now))
+    for (const search of due) {
+      await runSearch(search.id)
+    }
+  }, [userId, runSearch])
+
+  useEffect(() => {
+    if (!isAuthenticated) return
+    runDueSearches()
+    const interval = window.setInterval(runDueSearches, SCHEDULE_CHECK_INTERVAL_MS)
+    return () => window.clearInterval(interval)
+  }, [isAuthenticated, runDueSearches])
+
+  const value: SavedSearchContextType = {
+    savedSearches,
+    pinnedSearches,
+    newMatchTotal,
+    saveSearch,
+    updateSearch,
+    deleteSearch,
+    runSearch,
+    markSeen,
+  }
+
+  return <SavedSearchContext.Provider value={value}>{children}</SavedSearchContext.Provider>
+}
@@ -4,6 +4,10 @@
 
 export { AuthProvider, AuthContext } from './AuthContext'
 export { ThemeProvider, ThemeContext } from './ThemeContext'
+export { OfflineQueueProvider } from './OfflineQueueProvider'
+export { OfflineQueueContext } from './OfflineQueueContext'
+export { SavedSearchProvider } from './SavedSearchProvider'
+export { SavedSearchContext } from './SavedSearchContext'
 
 // If using Zustand for state management, export stores here
 // export { useUserStore } from './userStore'
@@ -3,12 +3,42 @@
  */
 
 // Enumerations
-export type RuleType = 'PERCENTAGE_SPLIT' | 'CAPACITY_BASED' | 'GEOGRAPHY'
+export type RuleType =
+  | 'PERCENTAGE_SPLIT'
+  | 'CAPACITY_BASED'
+  | 'GEOGRAPHY'
+  | 'BUCKET'
+  | 'DPD_BAND'
+  | 'PRODUCT'
+  | 'TICKET_SIZE'
+  | 'LANGUAGE_SKILL'
 export type AllocationBatchStatus = 'PROCESSING' | 'COMPLETED' | 'FAILED' | 'PARTIAL'
 export type AllocationAction = 'ALLOCATED' | 'REALLOCATED' | 'DEALLOCATED'
 export type ContactUpdateType = 'MOBILE_UPDATE' | 'EMAIL_UPDATE' | 'ADDRESS_UPDATE'
 export type AllocationErrorType = 'VALIDATION_ERROR' | 'NOT_FOUND' | 'BUSINESS_ERROR' | 'INTERNAL_ERROR'
 
+// Share of matched cases sent to one agency in a PERCENTAGE_SPLIT rule
+export interface AllocationSplit {
+  agencyCode: string
+  agencyName: string
+  percentage: number
+}
+
+// Inclusive DPD range; a null max means "and above"
+export interface DpdBand {
+  minDpd: number
+  maxDpd: number | null
+}
+
+// Inclusive outstanding amount range in INR; a null max means "and above"
+export interface TicketSizeBand {
+  minAmount: number
+  maxAmount: number | null
+}
+
+// What happens to a case when no agent speaks the customer's language
+export type LanguageFallback = 'ANY_AGENT' | 'LEAVE_UNALLOCATED'
+
 // Allocation Rule Status
 export type AllocationRuleStatus = 'DRAFT' | 'READY_FOR_APPLY' | 'ACTIVE' | 'INACTIVE'
 
@@ -21,6 +51,14 @@ export interface AllocationRule {
   // Geography fields (required for GEOGRAPHY rule type)
   states?: string[]
   cities?: string[]
+  // Criteria for the other rule types; only the ones matching ruleType are set
+  splits?: AllocationSplit[]
+  buckets?: string[]
+  dpdBands?: DpdBand[]
+  products?: string[]
+  ticketSizes?: TicketSizeBand[]
+  languages?: string[]
+  languageFallback?: LanguageFallback
   status: AllocationRuleStatus
   priority: number
   createdBy: number
@@ -38,6 +76,16 @@ export interface AllocationRule {
  * CAPACITY_BASED Rule:
  * - No geography fields required
  * - Distributes ALL unallocated cases to ALL active agents based on workload
+ *
+ * PERCENTAGE_SPLIT Rule:
+ * - splits across two or more agencies, adding up to 100
+ *
+ * BUCKET / DPD_BAND / PRODUCT / TICKET_SIZE Rules:
+ * - buckets, dpdBands, products or ticketSizes select the cases; matched cases go to agents by workload
+ *
+ * LANGUAGE_SKILL Rule:
+ * - Matches a case's customer languagePreference to agents with that language skill
+ * - languages limits the rule to some languages (all when empty); languageFallback covers unmatched cases
  */
 export interface AllocationRuleCreate {
   name: string
@@ -46,9 +94,22 @@ export interface AllocationRuleCreate {
   // Geography fields (required for GEOGRAPHY rule, not needed for CAPACITY_BASED)
   states?: string[]
   cities?: string[]
+  splits?: AllocationSplit[]
+  buckets?: string[]
+  dpdBands?: DpdBand[]
+  products?: string[]
+  ticketSizes?: TicketSizeBand[]
+  languages?: string[]
+  languageFallback?: LanguageFallback
   priority?: number
 }
 
+// New priority for one rule in a bulk reorder
+export interface AllocationRulePriority {
+  ruleId: number
+  priority: number
+}
+
 // Batch Types
 export interface AllocationBatch {
   batchId: string
@@ -107,6 +168,29 @@ export interface AgentWorkload {
   utilizationPercentage: number
 }
 
+// Agent Availability Types
+export type AvailabilityType = 'LEAVE' | 'HALF_DAY' | 'TRAINING'
+
+// A day or run of days an agent is away or part-time; dates are YYYY-MM-DD, both inclusive
+export interface AgentAvailability {
+  id: number
+  agentId: number
+  agentName?: string
+  type: AvailabilityType
+  startDate: string
+  endDate: string
+  note?: string
+  createdAt: string
+}
+
+export interface AgentAvailabilityRequest {
+  agentId: number
+  type: AvailabilityType
+  startDate: string
+  endDate: string
+  note?: string
+}
+
 export interface AgentAllocationPreview {
   agentId: number
   agentName: string
@@ -199,6 +283,12 @@ export interface ReallocationResponse {
   status: AllocationBatchStatus | string
 }
 
+// Assignment Types
+export interface AssignCaseRequest {
+  userId: number
+  reason?: string
+}
+
 // Deallocation Types
 export interface BulkDeallocateRequest {
   caseIds: number[]
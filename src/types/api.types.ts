@@ -27,6 +27,8 @@ export interface ApiError {
   data: null
   errors?: Record<string, string[]>
   statusCode?: number
+  // True when the request never reached the server (offline, DNS, timeout)
+  isNetworkError?: boolean
 }
 
 export interface PaginationParams {
@@ -3,6 +3,8 @@
  * Matches backend Case Sourcing Service API
  */
 
+import type { FilterGroup } from './strategyEngine.types'
+
 // ===================
 // Enumerations
 // ===================
@@ -209,10 +211,19 @@ export interface CaseSearchParams {
   maxDpd?: number
   geographyCode?: string
   allocatedToUserId?: number
+  // Advanced query expression, see docs/CASE_QUERY_LANGUAGE.md
+  query?: string
   page?: number
   size?: number
 }
 
+// Advanced query: condition groups (the strategy engine's FilterGroup) joined by one outer operator,
+// e.g. (dpd >= 30 AND dpd <= 60) OR lastDisposition = "RTP"
+export interface CaseQuery {
+  logic: 'AND' | 'OR'
+  groups: FilterGroup[]
+}
+
 export interface CaseSearchResult {
   caseId: number
   caseNumber: string
@@ -247,6 +258,27 @@ export interface CaseSearchResponse {
   totalPages: number
 }
 
+// ===================
+// Saved Searches
+// ===================
+
+export type SavedSearchSchedule = 'OFF' | 'HOURLY' | 'EVERY_4_HOURS' | 'DAILY'
+
+export interface SavedCaseSearch {
+  id: string
+  ownerId?: number
+  name: string
+  params: CaseSearchParams
+  pinned: boolean
+  schedule: SavedSearchSchedule
+  createdAt: string
+  lastRunAt?: string
+  lastResultCount?: number
+  // Case IDs already seen by a scheduled run, used to count new matches
+  knownCaseIds: number[]
+  newMatchCount: number
+}
+
 // ===================
 // Case Timeline
 // ===================
@@ -0,0 +1,22 @@
+/**
+ * Dashboard Types
+ * Widget layouts and the role defaults admins push to everyone in a role
+ */
+
+// Column span in the dashboard grid: 1, 2 or 3 columns
+export type WidgetSize = 'small' | 'medium' | 'large'
+
+export interface DashboardLayoutItem {
+  id: string
+  size: WidgetSize
+}
+
+export interface DashboardLayoutPreset {
+  version: number
+  name?: string
+  exportedAt?: string
+  widgets: DashboardLayoutItem[]
+}
+
+// Role code -> preset
+export type RoleLayoutDefaults = Record<string, DashboardLayoutPreset>
@@ -12,3 +12,8 @@ export * from './strategyEngine.types'
 export * from './allocation.types'
 export * from './repayment.types'
 export * from './workflow.types'
+export * from './dashboard.types'
+export * from './template.types'
+
+// template.types declares its own ApiResponse; the shared one from api.types wins
+export type { ApiResponse } from './api.types'
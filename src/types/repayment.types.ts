@@ -30,6 +30,8 @@ export type DigitalPaymentStatus =
 
 export type InstrumentType = 'VPA' | 'MOBILE'
 
+export type ApprovalDecision = 'APPROVED' | 'REJECTED'
+
 // ============ Core Repayment Types ============
 export interface Repayment {
   id: number
@@ -45,6 +47,8 @@ export interface Repayment {
   approvalStatus?: RepaymentStatus
   status: RepaymentStatus
   currentApprovalLevel?: number
+  requiredApprovalLevels?: number
+  approvalHistory?: RepaymentApprovalStep[]
   approvedBy?: number
   approverName?: string
   approvedAt?: string
@@ -59,6 +63,9 @@ export interface Repayment {
   notes?: string
   isOtsPayment?: boolean
   transactionReference?: string
+  payerVpa?: string
+  payerPan?: string
+  repaymentIfscCode?: string
   receiptId?: number
   capturedBy?: number
   capturedAt?: string
@@ -66,6 +73,29 @@ export interface Repayment {
   updatedAt?: string
 }
 
+// ============ Approval Chain Types ============
+export interface RepaymentApprovalStep {
+  level: number
+  decision: ApprovalDecision
+  approverId: number
+  approverName?: string
+  comments?: string
+  decidedAt: string
+}
+
+/**
+ * A rule adds approval levels to matching repayments.
+ * The strictest matching active rule decides how many levels are needed.
+ */
+export interface ApprovalChainRule {
+  id?: number
+  name: string
+  minAmount?: number
+  otsOnly?: boolean
+  requiredLevels: number
+  isActive: boolean
+}
+
 // ============ Request Types ============
 export interface CreateRepaymentRequest {
   caseId: number
@@ -76,6 +106,25 @@ export interface CreateRepaymentRequest {
   collectionLocation?: string
   notes?: string
   otsId?: number
+  payerVpa?: string
+  payerPan?: string
+  repaymentIfscCode?: string
+}
+
+// Offline capture queue: drafts wait locally until the server accepts or rejects them
+export type RepaymentDraftStatus = 'PENDING' | 'SYNCING' | 'CONFLICT'
+
+export interface RepaymentDraft {
+  idempotencyKey: string
+  request: CreateRepaymentRequest
+  // User who captured the draft; only they may sync it
+  capturedBy: number
+  status: RepaymentDraftStatus
+  createdAt: string
+  attempts: number
+  lastAttemptAt?: string
+  conflictReason?: string
+  label?: string
 }
 
 export interface PartialPaymentRequest {
@@ -112,6 +161,13 @@ export interface RepaymentSearchParams {
   size?: number
 }
 
+// Totals over a date range; collectedBy limits them to one collector
+export interface RepaymentSummaryParams {
+  fromDate: string
+  toDate: string
+  collectedBy?: number
+}
+
 // ============ Digital Payment Request Types ============
 export interface PaymentInitRequest {
   serviceType: PaymentServiceType
@@ -124,6 +180,7 @@ export interface PaymentInitRequest {
   loanAccountNumber?: string
   customerName?: string
   customerEmail?: string
+  customerPan?: string
 }
 
 export interface PaymentStatusRequest {
@@ -153,6 +210,7 @@ export interface ReconciliationDTO {
   amount: number
   paymentDate: string
   paymentMode: string
+  transactionReference?: string
   isReconciled: boolean
   reconciledBy?: number
   reconciledAt?: string
@@ -183,6 +241,16 @@ export interface PaymentResponse {
 }
 
 // ============ Dashboard Types ============
+export interface RepaymentSummary {
+  totalCount: number
+  totalAmount: number
+  approvedCount: number
+  approvedAmount: number
+  pendingCount: number
+  pendingAmount: number
+  rejectedCount: number
+}
+
 export interface RepaymentDashboard {
   todayTotalCount: number
   todayTotalAmount: number
@@ -268,3 +336,59 @@ export const DIGITAL_PAYMENT_STATUS_COLORS: Record<DigitalPaymentStatus, string>
   EXPIRED: 'gray',
   REFUNDED: 'purple',
 }
+
+export const APPROVAL_DECISION_LABELS: Record<ApprovalDecision, string> = {
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+}
+
+// ============ Approval Chain Helpers ============
+
+/**
+ * Does an approval chain rule apply to a repayment
+ */
+export const matchesApprovalRule = (repayment: Repayment, rule: ApprovalChainRule): boolean => {
+  if (!rule.isActive) return false
+  if (rule.otsOnly && !repayment.isOtsPayment) return false
+  if (rule.minAmount !== undefined && repayment.amount < rule.minAmount) return false
+  return true
+}
+
+/**
+ * Number of approval levels a repayment needs
+ * Uses the backend value when present, otherwise the strictest matching rule (minimum 1)
+ */
+export const getRequiredApprovalLevels = (repayment: Repayment, rules: ApprovalChainRule[]): number => {
+  if (repayment.requiredApprovalLevels) return repayment.requiredApprovalLevels
+  return rules
+    .filter((rule) => matchesApprovalRule(repayment, rule))
+    .reduce((levels, rule) => Math.max(levels, rule.requiredLevels), 1)
+}
+
+/**
+ * Level currently awaiting a decision (1-based)
+ */
+export const getCurrentApprovalLevel = (repayment: Repayment): number => {
+  if (repayment.currentApprovalLevel) return repayment.currentApprovalLevel
+  const approvedSteps = (repayment.approvalHistory || []).filter((step) => step.decision === 'APPROVED')
+  return approvedSteps.length + 1
+}
+
+/**
+ * Why a user may not approve a repayment, or null when they may
+ * Enforces maker-checker: the capturer cannot approve, and no one approves two levels.
+ * Blocks until the user is known, since neither check can run without their id.
+ */
+export const getApprovalBlockReason = (repayment: Repayment, userId: number | undefined): string | null => {
+  if (!userId) return 'Loading your user details...'
+  if (repayment.capturedBy === userId) {
+    return 'You captured this repayment and cannot approve it'
+  }
+  const alreadyApproved = (repayment.approvalHistory || []).some(
+    (step) => step.decision === 'APPROVED' && step.approverId === userId
+  )
+  if (alreadyApproved) {
+    return 'You already approved an earlier level of this repayment'
+  }
+  return null
+}
@@ -96,6 +96,8 @@ export interface ChannelConfig {
   type: CommunicationChannel
   templateName: string
   templateId?: string
+  // Language group to resolve per customer; templateId is its English variant
+  templateGroupId?: string
 }
 
 // Schedule configuration
@@ -168,6 +170,7 @@ export interface Strategy {
     type: CommunicationChannel
     templateId?: string
     templateName: string
+    templateGroupId?: string
   }
   filters: FiltersResponse
   schedule: ScheduleResponse
@@ -202,6 +205,7 @@ export interface Rule {
   lastRunStatus?: LegacyExecutionStatus
   templateId?: string
   templateName?: string
+  templateGroupId?: string
   ownership: OwnershipType
   priority?: number
   dpdTrigger?: number
@@ -404,6 +408,7 @@ export interface RuleWizardData {
   filters: FilterGroup[]
   templateId: string
   templateName?: string // Template name for API
+  templateGroupId?: string
   ownership: OwnershipType
   priority: number
   dpdTrigger: number
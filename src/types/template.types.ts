@@ -29,6 +29,12 @@ export const LANGUAGE_CODES: Record<TemplateLanguage, string> = {
   PUNJABI: 'PA',
 };
 
+// Every language a template can be written in, in display order
+export const TEMPLATE_LANGUAGES = Object.keys(LANGUAGE_CODES) as TemplateLanguage[];
+
+// Sent when a customer's preferred language has no variant in a group
+export const FALLBACK_TEMPLATE_LANGUAGE: TemplateLanguage = 'ENGLISH';
+
 // Template Variable
 export interface TemplateVariable {
   id: number;
@@ -89,6 +95,8 @@ export interface TemplateDetail {
   documentSizeBytes: number | null;
   hasDocumentVariables: boolean;
   documentPlaceholders: string[] | null;
+  // Version currently sent by strategies; null until a first version is approved
+  activeVersionNumber?: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -111,6 +119,81 @@ export interface UpdateTemplateRequest {
   documentId?: number | null;
 }
 
+// Template version lifecycle: drafts are submitted for review, and approving one makes it the live version
+export type TemplateVersionStatus = 'DRAFT' | 'IN_REVIEW' | 'APPROVED' | 'REJECTED' | 'SUPERSEDED';
+
+export const TEMPLATE_VERSION_STATUS_LABELS: Record<TemplateVersionStatus, string> = {
+  DRAFT: 'Draft',
+  IN_REVIEW: 'In Review',
+  APPROVED: 'Approved',
+  REJECTED: 'Rejected',
+  SUPERSEDED: 'Superseded',
+};
+
+// A saved revision of a template
+export interface TemplateVersion {
+  id: number;
+  templateId: number;
+  versionNumber: number;
+  status: TemplateVersionStatus;
+  templateName: string;
+  channel: TemplateChannelType;
+  language: string;
+  content: TemplateContentObject;
+  changeNote: string;
+  // Set when this version re-published an earlier one
+  rolledBackFromVersion?: number | null;
+  isActive: boolean;
+  createdBy: number;
+  createdByName: string | null;
+  createdAt: string;
+  submittedAt?: string | null;
+  reviewedBy?: number | null;
+  reviewedByName?: string | null;
+  reviewedAt?: string | null;
+  reviewComment?: string | null;
+}
+
+// Save an edit as a new draft version
+export interface CreateTemplateVersionRequest extends UpdateTemplateRequest {
+  changeNote: string;
+}
+
+// Approve or reject a version in review
+export interface ReviewTemplateVersionRequest {
+  decision: 'APPROVE' | 'REJECT';
+  comment?: string;
+}
+
+// One language row of a template group
+export interface TemplateGroupVariant {
+  templateId: number;
+  templateName: string;
+  templateCode: string;
+  language: TemplateLanguage;
+  isActive: boolean;
+}
+
+// One logical template (e.g. a demand notice) with a variant per language
+export interface TemplateGroup {
+  id: number;
+  groupName: string;
+  groupCode: string;
+  channel: TemplateChannelType;
+  description: string | null;
+  variants: TemplateGroupVariant[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Create or update a group; each template must be on the group's channel and in a different language
+export interface TemplateGroupRequest {
+  groupName: string;
+  channel: TemplateChannelType;
+  description?: string | null;
+  templateIds: number[];
+}
+
 // Resolve Template Request
 export interface ResolveTemplateRequest {
   caseId: number;
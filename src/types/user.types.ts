@@ -38,6 +38,9 @@ export interface User {
   firstName: string
   lastName: string
   mobileNumber?: string
+  panNumber?: string
+  aadhaarNumber?: string
+  pincode?: string
   status: UserStatus
   role?: LegacyUserRole
   roles?: UserRole[]
@@ -104,6 +107,8 @@ export interface LoginResponse {
   expiresAt: string
   refreshExpiresAt: string
   sessionId: string
+  // Permission codes granted to the user, when the server includes them
+  permissions?: string[]
 }
 
 export interface AuthUser {
@@ -259,10 +264,13 @@ export interface CreateUserRequest {
   firstName: string
   lastName: string
   mobileNumber?: string
+  panNumber?: string
+  aadhaarNumber?: string
   status: UserStatus
   userGroupId?: number | null
   city: string
   state: string
+  pincode?: string
   maxCaseCapacity: number
   allocationPercentage: number
   allocationBucket: AllocationBucket
@@ -274,10 +282,13 @@ export interface UpdateUserRequest {
   firstName?: string
   lastName?: string
   mobileNumber?: string
+  panNumber?: string
+  aadhaarNumber?: string
   status?: UserStatus
   userGroupId?: number | null
   city?: string
   state?: string
+  pincode?: string
   maxCaseCapacity?: number
   allocationPercentage?: number
   allocationBucket?: AllocationBucket
@@ -189,6 +189,7 @@ export interface WorkflowCallLog {
   duration?: number;
   startTime?: string;
   endTime?: string;
+  dispositionCode?: string;
   notes?: string;
   createdAt: string;
 }
@@ -205,6 +206,18 @@ export interface WorkflowSmsHistory {
   createdAt: string;
 }
 
+// Send a template communication to a case's customer
+export interface SendCaseCommunicationRequest {
+  templateId: number;
+  channel: string;
+}
+
+export interface CaseCommunicationResponse {
+  communicationId: string;
+  channel: string;
+  status: string;
+}
+
 // Email history
 export interface WorkflowEmailHistory {
   id: number;
@@ -227,6 +240,26 @@ export interface WorkflowDocument {
   uploadedBy?: string;
   uploadedAt: string;
   downloadUrl?: string;
+  mimeType?: string;
+  // An upload that replaces an existing document becomes its next version
+  version?: number;
+  replacesDocumentId?: number;
+}
+
+// Upload a document to a case
+export interface UploadCaseDocumentRequest {
+  file: File;
+  documentType: string;
+  replacesDocumentId?: number;
+}
+
+// Document access recorded for the audit trail
+export type DocumentAccessAction = 'VIEW' | 'DOWNLOAD';
+
+// Short-lived signed link to a document file, issued (and audited) per access
+export interface DocumentAccessLink {
+  url: string;
+  expiresAt?: string;
 }
 
 // Audit log
@@ -244,6 +277,60 @@ export interface AuditLog {
   userAgent?: string;
 }
 
+// Create PTP request
+export interface CreateWorkflowPtpRequest {
+  ptpAmount: number;
+  ptpDate: string;
+  commitmentDate?: string;
+  dispositionCode?: string;
+  notes?: string;
+}
+
+// Create call log request
+export interface CreateWorkflowCallLogRequest {
+  calledNumber?: string;
+  callType: string;
+  callStatus: string;
+  dispositionCode: string;
+  duration?: number;
+  startTime?: string;
+  notes?: string;
+}
+
+// PTP lifecycle status
+export type PtpLifecycleStatus = 'PENDING' | 'KEPT' | 'PARTIALLY_KEPT' | 'BROKEN';
+
+// PTP with the owning case and agent, as returned by the PTP tracker
+export interface PtpTrackerItem extends WorkflowPTP {
+  caseId: number;
+  caseNumber: string;
+  customerName: string;
+  loanAccountNumber: string;
+  mobileNumber?: string;
+  agentId?: number;
+  agentName?: string;
+}
+
+// PTP tracker scope - own promises or the whole team
+export type PtpTrackerScope = 'MINE' | 'TEAM';
+
+// PTP tracker query params
+export interface PtpTrackerParams {
+  scope: PtpTrackerScope;
+  status?: PtpLifecycleStatus;
+  fromDate?: string;
+  toDate?: string;
+  agentId?: number;
+}
+
+// Update PTP status request
+export interface UpdatePtpStatusRequest {
+  ptpStatus: PtpLifecycleStatus;
+  paymentReceivedAmount?: number;
+  paymentReceivedDate?: string;
+  brokenReason?: string;
+}
+
 // Combined case tabs data
 export interface CaseTabsDataDTO {
   caseId: number;
@@ -276,6 +363,7 @@ export interface WorkflowCaseDetail {
 
 // Tab types
 export type WorkflowTabType =
+  | 'timeline'
   | 'loan-details'
   | 'customer-details'
   | 'repayments'
@@ -284,7 +372,8 @@ export type WorkflowTabType =
   | 'calls'
   | 'sms'
   | 'emails'
-  | 'documents';
+  | 'documents'
+  | 'allocation-history';
 
 // Case status enum
 export enum WorkflowCaseStatus {
@@ -304,6 +393,29 @@ export const WorkflowCaseStatusLabels: Record<string, string> = {
   BROKEN_PTP: 'Broken PTP',
 };
 
+// Call types offered when logging an interaction
+export const WORKFLOW_CALL_TYPES = ['OUTBOUND', 'INBOUND', 'FIELD_VISIT'] as const;
+
+// Call statuses offered when logging an interaction
+export const WORKFLOW_CALL_STATUSES = ['CONNECTED', 'NOT_CONNECTED', 'BUSY', 'SWITCHED_OFF', 'MISSED'] as const;
+
+// Master data category holding disposition codes
+export const DISPOSITION_MASTER_DATA_TYPE = 'DISPOSITION_CODE';
+
+// Master data category holding case document types (KYC, settlement letter, payment proof...)
+export const DOCUMENT_TYPE_MASTER_DATA_TYPE = 'DOCUMENT_TYPE';
+
+// Disposition code that requires a promise to pay to be captured
+export const PTP_DISPOSITION_CODE = 'PTP';
+
+// PTP status labels
+export const PtpStatusLabels: Record<PtpLifecycleStatus, string> = {
+  PENDING: 'Pending',
+  KEPT: 'Kept',
+  PARTIALLY_KEPT: 'Partially Kept',
+  BROKEN: 'Broken',
+};
+
 // DPD badge colors
 export const getDpdBadgeColor = (dpd: number): string => {
   if (dpd <= 30) return 'success';
@@ -0,0 +1,109 @@
+/**
+ * Agent Availability
+ * Effective capacity on a given day from agents' leave, half-days and training days,
+ * and detection of extended leave whose cases need another owner.
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns'
+import type { AgentAvailability, AvailabilityType } from '@types'
+
+export interface AvailabilityTypeDefinition {
+  value: AvailabilityType
+  label: string
+  // Share of normal capacity the agent has on the day
+  capacityFactor: number
+}
+
+export const AVAILABILITY_TYPES: AvailabilityTypeDefinition[] = [
+  { value: 'LEAVE', label: 'Leave', capacityFactor: 0 },
+  { value: 'HALF_DAY', label: 'Half Day', capacityFactor: 0.5 },
+  { value: 'TRAINING', label: 'Training', capacityFactor: 0 },
+]
+
+// Leave of this many consecutive days or more puts the agent's cases up for reallocation
+export const EXTENDED_LEAVE_DAYS = 5
+
+export const getAvailabilityTypeLabel = (type: AvailabilityType): string =>
+  AVAILABILITY_TYPES.find((definition) => definition.value === type)?.label || type
+
+const getCapacityFactor = (type: AvailabilityType): number =>
+  AVAILABILITY_TYPES.find((definition) => definition.value === type)?.capacityFactor ?? 1
+
+/**
+ * Date as the API stores it (YYYY-MM-DD, local time)
+ */
+export const toDateKey = (date: Date): string => format(date, 'yyyy-MM-dd')
+
+export const todayKey = (): string => toDateKey(new Date())
+
+export const shiftDateKey = (dateKey: string, days: number): string => toDateKey(addDays(parseISO(dateKey), days))
+
+// Keys are zero-padded ISO dates, so string comparison is date comparison
+const coversDate = (entry: AgentAvailability, dateKey: string): boolean =>
+  entry.startDate <= dateKey && dateKey <= entry.endDate
+
+/**
+ * The agent's availability entry on a day; when entries overlap the one leaving least capacity wins
+ */
+export function getAvailabilityOn(
+  entries: AgentAvailability[],
+  agentId: number,
+  dateKey: string
+): AgentAvailability | undefined {
+  return entries
+    .filter((entry) => entry.agentId === agentId && coversDate(entry, dateKey))
+    .sort((a, b) => getCapacityFactor(a.type) - getCapacityFactor(b.type))[0]
+}
+
+/**
+ * Capacity the agent actually has on a day
+ */
+export function getEffectiveCapacity(
+  capacity: number,
+  entries: AgentAvailability[],
+  agentId: number,
+  dateKey: string
+): number {
+  const entry = getAvailabilityOn(entries, agentId, dateKey)
+  return entry ? Math.floor(capacity * getCapacityFactor(entry.type)) : capacity
+}
+
+export interface LeaveSpan {
+  startDate: string
+  endDate: string
+  days: number
+}
+
+/**
+ * The unbroken run of full-day leave around a day, joining back-to-back entries
+ * Returns null when the agent is not on leave that day.
+ */
+export function getLeaveSpan(entries: AgentAvailability[], agentId: number, dateKey: string): LeaveSpan | null {
+  const leave = entries.filter((entry) => entry.agentId === agentId && entry.type === 'LEAVE')
+  if (!leave.some((entry) => coversDate(entry, dateKey))) return null
+
+  let startDate = dateKey
+  let endDate = dateKey
+  let extended = true
+  while (extended) {
+    extended = false
+    for (const entry of leave) {
+      if (entry.startDate < startDate && entry.endDate >= shiftDateKey(startDate, -1)) {
+        startDate = entry.startDate
+        extended = true
+      }
+      if (entry.endDate > endDate && entry.startDate <= shiftDateKey(endDate, 1)) {
+        endDate = entry.endDate
+        extended = true
+      }
+    }
+  }
+
+  return { startDate, endDate, days: differenceInCalendarDays(parseISO(endDate), parseISO(startDate)) + 1 }
+}
+
+/**
+ * Whether the agent is on leave that day as part of a run of EXTENDED_LEAVE_DAYS or more
+ */
+export const isOnExtendedLeave = (entries: AgentAvailability[], agentId: number, dateKey: string): boolean =>
+  (getLeaveSpan(entries, agentId, dateKey)?.days || 0) >= EXTENDED_LEAVE_DAYS
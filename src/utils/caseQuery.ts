@@ -0,0 +1,456 @@
+/**
+ * Case query utility functions
+ * Compile, parse and autocomplete the advanced case search expression (see docs/CASE_QUERY_LANGUAGE.md)
+ */
+
+import type { CaseQuery, FilterCondition, FilterField, FilterFieldType, FilterGroup, LegacyFilterOperator } from '@types'
+import { CASE_STATUSES } from './caseSearch'
+import { generateId } from './helpers'
+
+type QueryLogic = CaseQuery['logic']
+type ConditionValue = FilterCondition['value']
+
+export const CASE_QUERY_FIELDS: FilterField[] = [
+  { id: 'caseStatus', name: 'Case Status', type: 'select', options: CASE_STATUSES },
+  { id: 'dpd', name: 'DPD', type: 'number' },
+  { id: 'bucket', name: 'Bucket', type: 'select', options: ['0-30', '30-60', '60-90', '90+'] },
+  { id: 'totalOutstanding', name: 'Total Outstanding', type: 'number' },
+  { id: 'productType', name: 'Product Type', type: 'text' },
+  { id: 'bankCode', name: 'Bank Code', type: 'text' },
+  { id: 'lastDisposition', name: 'Last Disposition', type: 'text' },
+  { id: 'lastContactedAt', name: 'Last Contacted', type: 'date' },
+  { id: 'caseOpenedAt', name: 'Case Opened', type: 'date' },
+  { id: 'state', name: 'State', type: 'text' },
+  { id: 'city', name: 'City', type: 'text' },
+  { id: 'pincode', name: 'Pincode', type: 'text' },
+]
+
+// How each operator is written in the expression
+export const QUERY_OPERATOR_SYMBOLS: Record<LegacyFilterOperator, string> = {
+  equals: '=',
+  not_equals: '!=',
+  greater_than: '>',
+  less_than: '<',
+  greater_than_or_equal: '>=',
+  less_than_or_equal: '<=',
+  contains: 'CONTAINS',
+  not_contains: 'NOT CONTAINS',
+  in: 'IN',
+  not_in: 'NOT IN',
+}
+
+export const QUERY_OPERATORS_BY_TYPE: Record<FilterFieldType, LegacyFilterOperator[]> = {
+  text: ['equals', 'not_equals', 'contains', 'not_contains', 'in', 'not_in'],
+  select: ['equals', 'not_equals', 'in', 'not_in'],
+  number: ['equals', 'not_equals', 'greater_than', 'greater_than_or_equal', 'less_than', 'less_than_or_equal'],
+  date: ['greater_than', 'greater_than_or_equal', 'less_than', 'less_than_or_equal', 'equals'],
+}
+
+// Relative dates: today, or N days ago as -Nd
+export const RELATIVE_DATE_SUGGESTIONS = ['today', '-1d', '-7d', '-30d', '-90d']
+
+const DATE_VALUE = /^(\d{4}-\d{2}-\d{2}|today|-\d+d)$/i
+const KEYWORDS = ['AND', 'OR', 'NOT', 'IN', 'CONTAINS']
+
+/**
+ * Problem with a typed expression; position is the character offset it was found at
+ */
+export class CaseQueryError extends Error {
+  position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'CaseQueryError'
+    this.position = position
+  }
+}
+
+export const getCaseQueryField = (id: string): FilterField | undefined =>
+  CASE_QUERY_FIELDS.find((field) => field.id.toLowerCase() === id.toLowerCase())
+
+export const isListOperator = (operator: LegacyFilterOperator): boolean =>
+  operator === 'in' || operator === 'not_in'
+
+export const createQueryCondition = (field: FilterField = CASE_QUERY_FIELDS[0]): FilterCondition => ({
+  id: generateId(),
+  field: field.id,
+  operator: QUERY_OPERATORS_BY_TYPE[field.type][0],
+  value: '',
+})
+
+export const createQueryGroup = (logic: QueryLogic = 'AND'): FilterGroup => ({
+  id: generateId(),
+  logic,
+  conditions: [createQueryCondition()],
+})
+
+export const createEmptyQuery = (): CaseQuery => ({ logic: 'OR', groups: [createQueryGroup()] })
+
+// ===================
+// Compiling
+// ===================
+
+const isEmptyValue = (value: ConditionValue): boolean =>
+  Array.isArray(value) ? value.every((item) => item.trim() === '') : String(value).trim() === ''
+
+const formatValue = (value: string | number, type: FilterFieldType): string => {
+  if (type === 'number' || type === 'date') return String(value).trim()
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+const compileCondition = (condition: FilterCondition): string => {
+  const type = getCaseQueryField(condition.field)?.type ?? 'text'
+  const value = Array.isArray(condition.value)
+    ? `[${condition.value
+        .filter((item) => item.trim() !== '')
+        .map((item) => formatValue(item, type))
+        .join(', ')}]`
+    : formatValue(condition.value, type)
+  return `${condition.field} ${QUERY_OPERATOR_SYMBOLS[condition.operator]} ${value}`
+}
+
+/**
+ * Expression text for a query; conditions still missing a value are left out
+ */
+export const compileCaseQuery = (query: CaseQuery): string => {
+  const groups = query.groups
+    .map((group) => ({
+      logic: group.logic,
+      conditions: group.conditions.filter((condition) => !isEmptyValue(condition.value)).map(compileCondition),
+    }))
+    .filter((group) => group.conditions.length > 0)
+
+  return groups
+    .map(({ logic, conditions }) => {
+      const text = conditions.join(` ${logic} `)
+      return groups.length > 1 && conditions.length > 1 ? `(${text})` : text
+    })
+    .join(` ${query.logic} `)
+}
+
+// ===================
+// Parsing
+// ===================
+
+type TokenType = 'word' | 'string' | 'operator' | 'lparen' | 'rparen' | 'lbracket' | 'rbracket' | 'comma'
+
+interface Token {
+  type: TokenType
+  value: string
+  start: number
+  end: number
+}
+
+const WORD_CHAR = /[A-Za-z0-9_.:+-]/
+
+/**
+ * Split an expression into tokens; with lenient set an unterminated string is returned as-is instead of throwing
+ */
+const tokenize = (text: string, lenient = false): Token[] => {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < text.length) {
+    const char = text[i]
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    const start = i
+    const single: Record<string, TokenType> = { '(': 'lparen', ')': 'rparen', '[': 'lbracket', ']': 'rbracket', ',': 'comma' }
+    if (single[char]) {
+      tokens.push({ type: single[char], value: char, start, end: ++i })
+    } else if (char === '"') {
+      let value = ''
+      i++
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) i++
+        value += text[i++]
+      }
+      if (i >= text.length && !lenient) throw new CaseQueryError('Missing closing quote', start)
+      tokens.push({ type: 'string', value, start, end: ++i })
+    } else if (/[=!<>]/.test(char)) {
+      const operator = ['!=', '>=', '<='].includes(text.slice(i, i + 2)) ? text.slice(i, i + 2) : char
+      if (operator === '!') throw new CaseQueryError('Expected != after !', start)
+      i += operator.length
+      tokens.push({ type: 'operator', value: operator, start, end: i })
+    } else if (WORD_CHAR.test(char)) {
+      while (i < text.length && WORD_CHAR.test(text[i])) i++
+      tokens.push({ type: 'word', value: text.slice(start, i), start, end: i })
+    } else {
+      throw new CaseQueryError(`Unexpected character "${char}"`, start)
+    }
+  }
+  return tokens
+}
+
+const isKeyword = (token: Token | undefined, keyword: string): boolean =>
+  token?.type === 'word' && token.value.toUpperCase() === keyword
+
+const SYMBOL_OPERATORS: Record<string, LegacyFilterOperator> = {
+  '=': 'equals',
+  '!=': 'not_equals',
+  '>': 'greater_than',
+  '<': 'less_than',
+  '>=': 'greater_than_or_equal',
+  '<=': 'less_than_or_equal',
+}
+
+class QueryParser {
+  private tokens: Token[]
+  private index = 0
+  private textLength: number
+
+  constructor(text: string) {
+    this.tokens = tokenize(text)
+    this.textLength = text.length
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index]
+  }
+
+  private next(expected: string): Token {
+    const token = this.tokens[this.index++]
+    if (!token) throw new CaseQueryError(`Expected ${expected} but the query ended`, this.textLength)
+    return token
+  }
+
+  private fail(message: string, token?: Token): never {
+    throw new CaseQueryError(message, token?.start ?? this.textLength)
+  }
+
+  /**
+   * Conditions or parenthesised groups joined by a single operator; mixing AND and OR needs parentheses
+   */
+  private parseSequence<T>(parseItem: () => T): { logic: QueryLogic; items: T[] } {
+    const items = [parseItem()]
+    let logic: QueryLogic | undefined
+    while (isKeyword(this.peek(), 'AND') || isKeyword(this.peek(), 'OR')) {
+      const token = this.next('AND or OR')
+      const tokenLogic = token.value.toUpperCase() as QueryLogic
+      if (logic && tokenLogic !== logic) {
+        this.fail(`Use parentheses when mixing AND and OR, e.g. (a ${logic} b) ${tokenLogic} c`, token)
+      }
+      logic = tokenLogic
+      items.push(parseItem())
+    }
+    return { logic: logic ?? 'AND', items }
+  }
+
+  parse(): CaseQuery {
+    if (this.tokens.length === 0) return { logic: 'OR', groups: [] }
+
+    const { logic, items } = this.parseSequence(() => this.parseTerm())
+    const trailing = this.peek()
+    if (trailing) this.fail(trailing.type === 'rparen' ? 'Unmatched )' : `Unexpected "${trailing.value}"`, trailing)
+
+    // Plain conditions joined together form one group; the outer operator only matters once a group is added
+    if (items.every((item) => 'field' in item)) {
+      return { logic: 'OR', groups: [{ id: generateId(), logic, conditions: items as FilterCondition[] }] }
+    }
+    // Lone conditions next to groups become single-condition groups
+    const groups = items.map((item) =>
+      'field' in item ? { id: generateId(), logic: 'AND' as const, conditions: [item] } : item
+    )
+    return { logic: groups.length === 1 ? 'OR' : logic, groups }
+  }
+
+  private parseTerm(): FilterCondition | FilterGroup {
+    if (this.peek()?.type !== 'lparen') return this.parseCondition()
+
+    this.next('(')
+    const { logic, items } = this.parseSequence(() => {
+      if (this.peek()?.type === 'lparen') this.fail('Groups can only be nested one level deep', this.peek())
+      return this.parseCondition()
+    })
+    const close = this.next(')')
+    if (close.type !== 'rparen') this.fail('Expected )', close)
+    return { id: generateId(), logic, conditions: items }
+  }
+
+  private parseCondition(): FilterCondition {
+    const fieldToken = this.next('a field name')
+    const field = fieldToken.type === 'word' ? getCaseQueryField(fieldToken.value) : undefined
+    if (!field) this.fail(`Unknown field "${fieldToken.value}"`, fieldToken)
+
+    const operatorToken = this.next('an operator')
+    let operator: LegacyFilterOperator | undefined
+    if (operatorToken.type === 'operator') {
+      operator = SYMBOL_OPERATORS[operatorToken.value]
+    } else if (isKeyword(operatorToken, 'IN')) {
+      operator = 'in'
+    } else if (isKeyword(operatorToken, 'CONTAINS')) {
+      operator = 'contains'
+    } else if (isKeyword(operatorToken, 'NOT')) {
+      const negated = this.next('IN or CONTAINS')
+      if (isKeyword(negated, 'IN')) operator = 'not_in'
+      else if (isKeyword(negated, 'CONTAINS')) operator = 'not_contains'
+      else this.fail('Expected IN or CONTAINS after NOT', negated)
+    }
+    if (!operator) this.fail(`Expected an operator after ${field.id}`, operatorToken)
+    if (!QUERY_OPERATORS_BY_TYPE[field.type].includes(operator)) {
+      this.fail(`${QUERY_OPERATOR_SYMBOLS[operator]} cannot be used with ${field.id}`, operatorToken)
+    }
+
+    let value: ConditionValue
+    if (isListOperator(operator)) {
+      const open = this.next('[')
+      if (open.type !== 'lbracket') this.fail(`Expected a list like [a, b] after ${QUERY_OPERATOR_SYMBOLS[operator]}`, open)
+      const values: string[] = []
+      while (this.peek()?.type !== 'rbracket') {
+        if (values.length > 0) {
+          const comma = this.next(', or ]')
+          if (comma.type !== 'comma') this.fail('Expected , or ]', comma)
+        }
+        values.push(String(this.parseValue(field)))
+      }
+      this.next(']')
+      if (values.length === 0) this.fail('The list is empty', open)
+      value = values
+    } else {
+      value = this.parseValue(field)
+    }
+
+    return { id: generateId(), field: field.id, operator, value }
+  }
+
+  private parseValue(field: FilterField): string | number {
+    const token = this.next('a value')
+    if ((token.type !== 'word' && token.type !== 'string') || (token.type === 'word' && KEYWORDS.includes(token.value.toUpperCase()))) {
+      this.fail(`Expected a value for ${field.id}`, token)
+    }
+
+    switch (field.type) {
+      case 'number': {
+        const number = Number(token.value)
+        if (token.type === 'string' || !Number.isFinite(number)) this.fail(`${field.id} needs a number`, token)
+        return number
+      }
+      case 'date':
+        if (!DATE_VALUE.test(token.value)) this.fail(`${field.id} needs a date (yyyy-mm-dd, today or -7d)`, token)
+        return token.value.toLowerCase()
+      case 'select': {
+        const option = field.options?.find((o) => o.toLowerCase() === token.value.toLowerCase())
+        if (!option) this.fail(`${field.id} must be one of ${field.options?.join(', ')}`, token)
+        return option
+      }
+      default:
+        return token.value
+    }
+  }
+}
+
+/**
+ * Parse expression text into groups; throws CaseQueryError pointing at the problem
+ */
+export const parseCaseQuery = (text: string): CaseQuery => new QueryParser(text).parse()
+
+/**
+ * Error message for an expression, or null when it is valid
+ */
+export const validateCaseQuery = (text: string): CaseQueryError | null => {
+  try {
+    parseCaseQuery(text)
+    return null
+  } catch (err) {
+    return err instanceof CaseQueryError ? err : new CaseQueryError('Invalid query', 0)
+  }
+}
+
+// ===================
+// Autocomplete
+// ===================
+
+export interface CaseQuerySuggestion {
+  label: string
+  insertText: string
+  detail?: string
+}
+
+export interface CaseQuerySuggestions {
+  // Range of text the chosen suggestion replaces
+  from: number
+  to: number
+  items: CaseQuerySuggestion[]
+}
+
+const CONNECTIVES: CaseQuerySuggestion[] = [
+  { label: 'AND', insertText: 'AND ' },
+  { label: 'OR', insertText: 'OR ' },
+  { label: ')', insertText: ') ', detail: 'Close group' },
+]
+
+/**
+ * Suggestions for the word being typed at the cursor, based on what the expression expects next
+ */
+export const getCaseQuerySuggestions = (text: string, cursor: number): CaseQuerySuggestions => {
+  let from = cursor
+  while (from > 0 && WORD_CHAR.test(text[from - 1])) from--
+  const prefix = text.slice(from, cursor).toLowerCase()
+  const empty = { from, to: cursor, items: [] }
+
+  let tokens: Token[]
+  try {
+    tokens = tokenize(text.slice(0, from), true)
+  } catch {
+    return empty
+  }
+  const last = tokens[tokens.length - 1]
+  // Inside an unterminated string the user is typing free text
+  if (last?.type === 'string' && last.end > from) return empty
+
+  const fieldSuggestions = (): CaseQuerySuggestion[] => [
+    ...CASE_QUERY_FIELDS.map((field) => ({ label: field.id, insertText: `${field.id} `, detail: field.name })),
+    { label: '(', insertText: '(', detail: 'Start a group' },
+  ]
+
+  // Walk back to the field this operator or value belongs to
+  const findField = (tokenIndex: number): FilterField | undefined => {
+    for (let i = tokenIndex; i >= 0; i--) {
+      const token = tokens[i]
+      if (token.type === 'word' && getCaseQueryField(token.value)) return getCaseQueryField(token.value)
+      if (isKeyword(token, 'AND') || isKeyword(token, 'OR') || token.type === 'lparen') return undefined
+    }
+    return undefined
+  }
+
+  const valueSuggestions = (field: FilterField | undefined): CaseQuerySuggestion[] => {
+    if (!field) return []
+    if (field.type === 'select') {
+      return (field.options ?? []).map((option) => ({ label: option, insertText: `"${option}" ` }))
+    }
+    if (field.type === 'date') {
+      return RELATIVE_DATE_SUGGESTIONS.map((value) => ({
+        label: value,
+        insertText: `${value} `,
+        detail: value === 'today' ? 'Today' : `${value.slice(1, -1)} days ago`,
+      }))
+    }
+    return []
+  }
+
+  let items: CaseQuerySuggestion[] = []
+  if (!last || last.type === 'lparen' || isKeyword(last, 'AND') || isKeyword(last, 'OR')) {
+    items = fieldSuggestions()
+  } else if (last.type === 'word' && getCaseQueryField(last.value) && !findField(tokens.length - 2)) {
+    const field = getCaseQueryField(last.value)!
+    items = QUERY_OPERATORS_BY_TYPE[field.type].map((operator) => ({
+      label: QUERY_OPERATOR_SYMBOLS[operator],
+      insertText: `${QUERY_OPERATOR_SYMBOLS[operator]} ${isListOperator(operator) ? '[' : ''}`,
+    }))
+  } else if (isKeyword(last, 'NOT')) {
+    items = [
+      { label: 'IN', insertText: 'IN [' },
+      { label: 'CONTAINS', insertText: 'CONTAINS ' },
+    ]
+  } else if (last.type === 'operator' || isKeyword(last, 'CONTAINS') || last.type === 'lbracket' || last.type === 'comma') {
+    items = valueSuggestions(findField(tokens.length - 1))
+  } else if (isKeyword(last, 'IN')) {
+    items = [{ label: '[', insertText: '[', detail: 'Start a list' }]
+  } else {
+    items = CONNECTIVES
+  }
+
+  return { from, to: cursor, items: items.filter((item) => item.label.toLowerCase().startsWith(prefix)) }
+}
@@ -0,0 +1,134 @@
+/**
+ * Case search utility functions
+ * Round-trip case search filters through the URL so a search can be bookmarked, shared or saved
+ */
+
+import type { CaseSearchParams, CaseStatus, SavedCaseSearch, SavedSearchSchedule } from '@types'
+
+type TextFilterKey =
+  | 'caseNumber'
+  | 'loanAccountNumber'
+  | 'customerName'
+  | 'mobileNumber'
+  | 'bucket'
+  | 'geographyCode'
+  | 'query'
+type NumberFilterKey = 'minDpd' | 'maxDpd' | 'allocatedToUserId'
+
+const TEXT_FILTER_KEYS: TextFilterKey[] = [
+  'caseNumber',
+  'loanAccountNumber',
+  'customerName',
+  'mobileNumber',
+  'bucket',
+  'geographyCode',
+  'query',
+]
+
+const NUMBER_FILTER_KEYS: NumberFilterKey[] = ['minDpd', 'maxDpd', 'allocatedToUserId']
+
+export const CASE_STATUSES: CaseStatus[] = ['UNALLOCATED', 'ALLOCATED', 'IN_PROGRESS', 'RESOLVED', 'CLOSED']
+
+const parseWholeNumber = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined
+  const number = Number(value)
+  return Number.isInteger(number) && number >= 0 ? number : undefined
+}
+
+/**
+ * Drop empty filters and paging, leaving only what narrows the search
+ */
+export const cleanCaseSearchFilters = (params: CaseSearchParams): CaseSearchParams => {
+  const filters: CaseSearchParams = {}
+  TEXT_FILTER_KEYS.forEach((key) => {
+    const value = params[key]?.trim()
+    if (value) filters[key] = value
+  })
+  NUMBER_FILTER_KEYS.forEach((key) => {
+    const value = params[key]
+    if (value !== undefined && Number.isFinite(value)) filters[key] = value
+  })
+  if (params.caseStatus) filters.caseStatus = params.caseStatus
+  return filters
+}
+
+export const hasCaseSearchFilters = (params: CaseSearchParams): boolean =>
+  Object.keys(cleanCaseSearchFilters(params)).length > 0
+
+/**
+ * Query string for a search; page is kept (even 0) because its presence marks a search that has been run
+ */
+export const serializeCaseSearch = (params: CaseSearchParams): string => {
+  const query = new URLSearchParams()
+  const filters = cleanCaseSearchFilters(params)
+  Object.entries(filters).forEach(([key, value]) => query.set(key, String(value)))
+  if (params.page !== undefined) query.set('page', String(params.page))
+  return query.toString()
+}
+
+/**
+ * Read a search back from the URL, ignoring values that are not valid filters
+ */
+export const parseCaseSearch = (query: URLSearchParams): CaseSearchParams => {
+  const params: CaseSearchParams = {}
+  TEXT_FILTER_KEYS.forEach((key) => {
+    const value = query.get(key)?.trim()
+    if (value) params[key] = value
+  })
+  NUMBER_FILTER_KEYS.forEach((key) => {
+    const value = parseWholeNumber(query.get(key))
+    if (value !== undefined) params[key] = value
+  })
+  const status = query.get('caseStatus') as CaseStatus | null
+  if (status && CASE_STATUSES.includes(status)) params.caseStatus = status
+  const page = parseWholeNumber(query.get('page'))
+  if (page !== undefined) params.page = page
+  return params
+}
+
+/**
+ * Short human-readable summary of a search, used as the default name when saving it
+ */
+export const describeCaseSearch = (params: CaseSearchParams): string => {
+  const filters = cleanCaseSearchFilters(params)
+  const parts: string[] = []
+  if (filters.caseStatus) parts.push(filters.caseStatus.replace(/_/g, ' ').toLowerCase())
+  if (filters.bucket) parts.push(`bucket ${filters.bucket}`)
+  if (filters.minDpd !== undefined && filters.maxDpd !== undefined) {
+    parts.push(`DPD ${filters.minDpd}-${filters.maxDpd}`)
+  } else if (filters.minDpd !== undefined) {
+    parts.push(`DPD ${filters.minDpd}+`)
+  } else if (filters.maxDpd !== undefined) {
+    parts.push(`DPD up to ${filters.maxDpd}`)
+  }
+  if (filters.geographyCode) parts.push(filters.geographyCode)
+  if (filters.allocatedToUserId !== undefined) parts.push(`agent #${filters.allocatedToUserId}`)
+  if (filters.customerName) parts.push(`"${filters.customerName}"`)
+  if (filters.caseNumber) parts.push(`case ${filters.caseNumber}`)
+  if (filters.loanAccountNumber) parts.push(`loan ${filters.loanAccountNumber}`)
+  if (filters.mobileNumber) parts.push(`mobile ${filters.mobileNumber}`)
+  if (filters.query) parts.push('advanced query')
+
+  if (parts.length === 0) return 'All cases'
+  const summary = parts.join(', ')
+  return summary.charAt(0).toUpperCase() + summary.slice(1)
+}
+
+// Query parameter that ties an opened search back to the saved search it came from
+export const SAVED_SEARCH_PARAM = 'saved'
+
+export const SAVED_SEARCH_SCHEDULES: { value: SavedSearchSchedule; label: string }[] = [
+  { value: 'OFF', label: 'Not scheduled' },
+  { value: 'HOURLY', label: 'Every hour' },
+  { value: 'EVERY_4_HOURS', label: 'Every 4 hours' },
+  { value: 'DAILY', label: 'Daily' },
+]
+
+/**
+ * Query string that opens a saved search on the first page
+ */
+export const getSavedSearchQuery = (search: SavedCaseSearch): string => {
+  const query = new URLSearchParams(serializeCaseSearch({ ...search.params, page: 0 }))
+  query.set(SAVED_SEARCH_PARAM, search.id)
+  return query.toString()
+}
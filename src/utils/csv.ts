@@ -0,0 +1,84 @@
+/**
+ * CSV utility functions
+ */
+
+export interface CsvRecord {
+  cells: string[]
+  // Line of the file the record starts on (1-based), counting blank lines
+  lineNumber: number
+}
+
+/**
+ * Parse CSV text into records with the file line each starts on
+ * Handles quoted fields, escaped quotes ("") and line breaks inside quotes. Blank lines are skipped.
+ */
+export const parseCsvRecords = (text: string, delimiter: string = ','): CsvRecord[] => {
+  const records: CsvRecord[] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let line = 1
+  let recordLine = 1
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.some((value) => value.trim() !== '')) {
+      records.push({ cells: row, lineNumber: recordLine })
+    }
+    row = []
+    cell = ''
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      endRow()
+      line++
+      recordLine = line
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow()
+
+  return records
+}
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted fields, escaped quotes ("") and line breaks inside quotes. Blank lines are skipped.
+ */
+export const parseCsv = (text: string, delimiter: string = ','): string[][] => {
+  return parseCsvRecords(text, delimiter).map((record) => record.cells)
+}
+
+/**
+ * Escape a single CSV cell, quoting only when needed
+ */
+export const escapeCsvCell = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Serialize rows of cells to CSV text
+ */
+export const toCsv = (rows: string[][]): string => {
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n')
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { formatCurrency, formatIndianMobile, maskAadhaar } from './format'
+
+describe('formatCurrency', () => {
+  it('defaults to rupees with lakh grouping', () => {
+    expect(formatCurrency(1234567.5)).toBe('₹12,34,567.50')
+  })
+
+  it('rounds to whole rupees when asked', () => {
+    expect(formatCurrency(1234567.5, 'INR', 0)).toBe('₹12,34,568')
+  })
+})
+
+describe('formatIndianMobile', () => {
+  it('formats a mobile number with the country code', () => {
+    expect(formatIndianMobile('9876543210')).toBe('+91 98765 43210')
+    expect(formatIndianMobile('+91-9876543210')).toBe('+91 98765 43210')
+  })
+
+  it('returns other input unchanged', () => {
+    expect(formatIndianMobile('12345')).toBe('12345')
+  })
+})
+
+describe('maskAadhaar', () => {
+  it('keeps only the last four digits', () => {
+    expect(maskAadhaar('2341 2341 2346')).toBe('XXXX XXXX 2346')
+  })
+
+  it('returns input that is not 12 digits unchanged', () => {
+    expect(maskAadhaar('12345')).toBe('12345')
+  })
+})
@@ -30,19 +30,65 @@ export const formatRelativeDate = (date: Date | string): string => {
 
 /**
  * Format currency
+ * Defaults to rupees with Indian digit grouping (e.g. ₹12,34,567.00);
+ * pass maximumFractionDigits 0 for whole rupees (₹12,34,567)
  */
-export const formatCurrency = (amount: number, currency = 'USD'): string => {
-  return new Intl.NumberFormat('en-US', {
+export const formatCurrency = (
+  amount: number,
+  currency = 'INR',
+  maximumFractionDigits?: number
+): string => {
+  return new Intl.NumberFormat('en-IN', {
     style: 'currency',
     currency,
+    maximumFractionDigits,
   }).format(amount)
 }
 
+const INDIAN_UNITS = [
+  { value: 10000000, suffix: 'Cr' },
+  { value: 100000, suffix: 'L' },
+  { value: 1000, suffix: 'K' },
+]
+
 /**
- * Format number with commas
+ * Format rupee amount in short form (e.g. ₹1.2 Cr, ₹45.6 L, ₹12.5 K)
+ * Amounts under a thousand are shown in full.
+ */
+export const formatCompactCurrency = (amount: number): string => {
+  const unit = INDIAN_UNITS.find((candidate) => Math.abs(amount) >= candidate.value)
+  if (!unit) {
+    return formatCurrency(amount)
+  }
+  const scaled = Math.round((amount / unit.value) * 10) / 10
+  const sign = scaled < 0 ? '-' : ''
+  return `${sign}₹${formatNumber(Math.abs(scaled))} ${unit.suffix}`
+}
+
+/**
+ * Format number with Indian digit grouping (e.g. 12,34,567)
  */
 export const formatNumber = (num: number): string => {
-  return new Intl.NumberFormat('en-US').format(num)
+  return new Intl.NumberFormat('en-IN').format(num)
+}
+
+/**
+ * Format Indian mobile number as +91 98765 43210
+ * Input that is not a valid mobile number is returned unchanged.
+ */
+export const formatIndianMobile = (mobile: string): string => {
+  const digits = mobile.replace(/[\s-]/g, '').replace(/^(\+91|91|0)(?=\d{10}$)/, '')
+  if (!/^[6-9]\d{9}$/.test(digits)) return mobile
+  return `+91 ${digits.slice(0, 5)} ${digits.slice(5)}`
+}
+
+/**
+ * Mask Aadhaar number, keeping the last four digits (e.g. XXXX XXXX 1234)
+ */
+export const maskAadhaar = (aadhaar: string): string => {
+  const digits = aadhaar.replace(/\D/g, '')
+  if (digits.length !== 12) return aadhaar
+  return `XXXX XXXX ${digits.slice(-4)}`
 }
 
 /**
@@ -86,3 +86,17 @@ export const groupBy = <T>(array: T[], key: keyof T): Record<string, T[]> => {
 export const unique = <T>(array: T[]): T[] => {
   return Array.from(new Set(array))
 }
+
+/**
+ * Save a blob to the user's downloads
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  window.URL.revokeObjectURL(url)
+  document.body.removeChild(a)
+}
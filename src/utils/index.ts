@@ -6,3 +6,13 @@ export * from './storage'
 export * from './format'
 export * from './validation'
 export * from './helpers'
+export * from './permissions'
+export * from './csv'
+export * from './xlsx'
+export * from './uploadValidation'
+export * from './caseSearch'
+export * from './caseQuery'
+export * from './templateContent'
+export * from './textDiff'
+export * from './templateGroups'
+export * from './agentAvailability'
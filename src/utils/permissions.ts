@@ -0,0 +1,34 @@
+/**
+ * Permission utility functions
+ */
+
+import type { User } from '@types'
+import { SUPER_USER_ROLES } from '@config/constants'
+
+/**
+ * Collect permission codes granted directly or through the user's roles
+ */
+export const getUserPermissions = (user: User | null): Set<string> => {
+  const codes = new Set<string>(user?.permissions ?? [])
+  user?.roles?.forEach((role) => {
+    role.permissions?.forEach((permission) => codes.add(permission.code))
+  })
+  return codes
+}
+
+/**
+ * Whether the user holds a super user role and bypasses permission checks
+ */
+export const isSuperUser = (user: User | null): boolean => {
+  if (!user) return false
+  const roleCodes = [user.role, ...(user.roles?.map((role) => role.code) ?? [])]
+  return roleCodes.some((code) => !!code && (SUPER_USER_ROLES as readonly string[]).includes(code))
+}
+
+/**
+ * Check a single permission code against the user
+ */
+export const userHasPermission = (user: User | null, permission: string): boolean => {
+  if (!user) return false
+  return isSuperUser(user) || getUserPermissions(user).has(permission)
+}
@@ -48,6 +48,13 @@ export const setStorageItem = <T>(key: string, value: T): void => {
   localStorage.setItem(key, stringValue)
 }
 
+/**
+ * Storage key scoped to one user, so people sharing a device keep separate data
+ */
+export const getUserStorageKey = (key: string, userId: number | undefined): string => {
+  return `${key}_${userId ?? 'anonymous'}`
+}
+
 /**
  * Remove item from localStorage
  */
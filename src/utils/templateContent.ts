@@ -0,0 +1,260 @@
+/**
+ * Template Content
+ * Placeholder parsing, variable checks, autocomplete and SMS segment counting for
+ * communication templates. Placeholders are written as {{variableKey}}.
+ */
+
+import type { VariableDefinition } from '@types'
+
+export interface TemplatePlaceholder {
+  key: string
+  // Offsets of the whole {{...}} in the content
+  start: number
+  end: number
+}
+
+export type TemplateIssueKind = 'UNKNOWN' | 'INACTIVE' | 'UNCLOSED'
+
+export interface TemplateIssue {
+  kind: TemplateIssueKind
+  key: string
+  start: number
+  end: number
+  message: string
+}
+
+export interface TemplateContentSegment {
+  text: string
+  // Plain text when undefined
+  placeholder?: 'VALID' | TemplateIssueKind
+}
+
+export interface TemplateVariableCompletion {
+  // Range replaced when a suggestion is accepted, starting at the opening {{
+  from: number
+  to: number
+  query: string
+}
+
+export type SmsEncoding = 'GSM-7' | 'UNICODE'
+
+export interface SmsStats {
+  encoding: SmsEncoding
+  // Length in encoding units; GSM-7 extension characters count twice
+  length: number
+  segments: number
+  perSegment: number
+  remaining: number
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([\w.]*)\s*\}\}/g
+
+// Characters in the GSM 03.38 default alphabet, each one septet
+const GSM_BASIC_CHARS =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+
+// Characters reached through the GSM escape, each two septets
+const GSM_EXTENSION_CHARS = '^{}\\[~]|€\f'
+
+const SMS_LIMITS: Record<SmsEncoding, { single: number; multi: number }> = {
+  'GSM-7': { single: 160, multi: 153 },
+  UNICODE: { single: 70, multi: 67 },
+}
+
+/**
+ * Every {{key}} in the content, in order
+ */
+export const findTemplatePlaceholders = (content: string): TemplatePlaceholder[] => {
+  return Array.from(content.matchAll(PLACEHOLDER_PATTERN), (match) => ({
+    key: match[1],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+  }))
+}
+
+/**
+ * Distinct variable keys used in the content
+ */
+export const getTemplateVariableKeys = (content: string): string[] => {
+  return Array.from(new Set(findTemplatePlaceholders(content).map((placeholder) => placeholder.key)))
+}
+
+/**
+ * Variables added and removed between two versions of a template
+ */
+export const diffTemplateVariables = (
+  before: string,
+  after: string
+): { added: string[]; removed: string[]; unchanged: string[] } => {
+  const beforeKeys = getTemplateVariableKeys(before)
+  const afterKeys = getTemplateVariableKeys(after)
+  return {
+    added: afterKeys.filter((key) => !beforeKeys.includes(key)),
+    removed: beforeKeys.filter((key) => !afterKeys.includes(key)),
+    unchanged: afterKeys.filter((key) => beforeKeys.includes(key)),
+  }
+}
+
+/**
+ * Placeholders that will not resolve: unknown keys, inactive variables and {{ never closed
+ */
+export const validateTemplateContent = (content: string, variables: VariableDefinition[]): TemplateIssue[] => {
+  const byKey = new Map(variables.map((variable) => [variable.variableKey, variable]))
+  const placeholders = findTemplatePlaceholders(content)
+  const issues: TemplateIssue[] = []
+
+  placeholders.forEach(({ key, start, end }) => {
+    const variable = byKey.get(key)
+    if (!key) {
+      issues.push({ kind: 'UNKNOWN', key, start, end, message: 'Empty placeholder' })
+    } else if (!variable) {
+      issues.push({ kind: 'UNKNOWN', key, start, end, message: `Unknown variable "${key}"` })
+    } else if (!variable.isActive) {
+      issues.push({ kind: 'INACTIVE', key, start, end, message: `Variable "${key}" is inactive` })
+    }
+  })
+
+  // An opening {{ outside every complete placeholder was never closed
+  let index = content.indexOf('{{')
+  while (index >= 0) {
+    const at = index
+    const inside = placeholders.find((placeholder) => at >= placeholder.start && at < placeholder.end)
+    if (inside) {
+      index = content.indexOf('{{', inside.end)
+      continue
+    }
+    const lineEnd = content.indexOf('\n', at)
+    const end = lineEnd >= 0 ? lineEnd : content.length
+    issues.push({ kind: 'UNCLOSED', key: content.slice(at + 2, end).trim(), start: at, end, message: 'Missing }}' })
+    index = content.indexOf('{{', end)
+  }
+
+  return issues.sort((a, b) => a.start - b.start)
+}
+
+/**
+ * Split content into plain text and placeholders marked valid or with their issue, for highlighting
+ */
+export const splitTemplateContent = (content: string, issues: TemplateIssue[]): TemplateContentSegment[] => {
+  const marks = [
+    ...findTemplatePlaceholders(content).map((placeholder) => ({
+      start: placeholder.start,
+      end: placeholder.end,
+      placeholder: (issues.find((issue) => issue.start === placeholder.start)?.kind ?? 'VALID') as
+        | 'VALID'
+        | TemplateIssueKind,
+    })),
+    ...issues
+      .filter((issue) => issue.kind === 'UNCLOSED')
+      .map((issue) => ({ start: issue.start, end: issue.end, placeholder: issue.kind })),
+  ].sort((a, b) => a.start - b.start)
+
+  const segments: TemplateContentSegment[] = []
+  let position = 0
+  marks.forEach((mark) => {
+    if (mark.start > position) segments.push({ text: content.slice(position, mark.start) })
+    segments.push({ text: content.slice(mark.start, mark.end), placeholder: mark.placeholder })
+    position = mark.end
+  })
+  if (position < content.length) segments.push({ text: content.slice(position) })
+  return segments
+}
+
+/**
+ * The variable being typed at the cursor, when the cursor sits after an unclosed {{
+ */
+export const getVariableCompletion = (content: string, cursor: number): TemplateVariableCompletion | null => {
+  const before = content.slice(0, cursor)
+  const match = /\{\{\s*([\w.]*)$/.exec(before)
+  if (!match) return null
+
+  // Replace the rest of the key and the closing braces if they are already there
+  const after = /^[\w.]*\s*(\}\})?/.exec(content.slice(cursor))
+  return {
+    from: match.index,
+    to: cursor + (after ? after[0].length : 0),
+    query: match[1],
+  }
+}
+
+/**
+ * Active variables matching what has been typed, keys starting with it first
+ */
+export const suggestTemplateVariables = (
+  variables: VariableDefinition[],
+  query: string,
+  limit = 8
+): VariableDefinition[] => {
+  const text = query.toLowerCase()
+  const score = (variable: VariableDefinition): number => {
+    const key = variable.variableKey.toLowerCase()
+    if (key.startsWith(text)) return 0
+    if (key.includes(text)) return 1
+    if (variable.displayName?.toLowerCase().includes(text)) return 2
+    return -1
+  }
+  return variables
+    .filter((variable) => variable.isActive && score(variable) >= 0)
+    .sort((a, b) => score(a) - score(b) || a.variableKey.localeCompare(b.variableKey))
+    .slice(0, limit)
+}
+
+/**
+ * Replace placeholders with the given values; keys without a value are left as written
+ */
+export const fillTemplate = (content: string, values: Record<string, string>): string => {
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => values[key] ?? placeholder)
+}
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Recover the value each variable took by lining the resolved text up with the content it came from
+ * Returns null when the resolved text does not follow the content, e.g. after the template changed.
+ */
+export const extractVariableValues = (content: string, resolved: string): Record<string, string> | null => {
+  const placeholders = findTemplatePlaceholders(content)
+  if (placeholders.length === 0) return {}
+
+  let pattern = '^'
+  let position = 0
+  placeholders.forEach((placeholder) => {
+    pattern += `${escapeRegExp(content.slice(position, placeholder.start))}([\\s\\S]*?)`
+    position = placeholder.end
+  })
+  pattern += `${escapeRegExp(content.slice(position))}$`
+
+  const match = new RegExp(pattern).exec(resolved)
+  if (!match) return null
+
+  const values: Record<string, string> = {}
+  placeholders.forEach((placeholder, index) => {
+    if (!(placeholder.key in values)) values[placeholder.key] = match[index + 1]
+  })
+  return values
+}
+
+/**
+ * Encoding, length and segment count of an SMS; any character outside GSM-7 switches the whole message to Unicode
+ */
+export const getSmsStats = (text: string): SmsStats => {
+  const characters = Array.from(text)
+  const isGsm = characters.every((char) => GSM_BASIC_CHARS.includes(char) || GSM_EXTENSION_CHARS.includes(char))
+  const encoding: SmsEncoding = isGsm ? 'GSM-7' : 'UNICODE'
+
+  const length = isGsm
+    ? characters.reduce((total, char) => total + (GSM_EXTENSION_CHARS.includes(char) ? 2 : 1), 0)
+    : // Characters outside the Basic Multilingual Plane take two UTF-16 units
+      text.length
+
+  const limits = SMS_LIMITS[encoding]
+  const perSegment = length <= limits.single ? limits.single : limits.multi
+  const segments = length === 0 ? 0 : Math.ceil(length / perSegment)
+  return {
+    encoding,
+    length,
+    segments,
+    perSegment,
+    remaining: segments === 0 ? perSegment : segments * perSegment - length,
+  }
+}
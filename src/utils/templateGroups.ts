@@ -0,0 +1,71 @@
+/**
+ * Template Groups
+ * Language coverage and per-customer variant resolution for multi-language template groups.
+ */
+
+import { FALLBACK_TEMPLATE_LANGUAGE, LANGUAGE_CODES, TEMPLATE_LANGUAGES } from '@types'
+import type { TemplateGroup, TemplateGroupVariant, TemplateLanguage } from '@types'
+
+export interface ResolvedGroupVariant {
+  // Language asked for, when the preference could be recognised
+  requestedLanguage: TemplateLanguage | null
+  // Variant that will be sent; null when neither the preference nor the fallback exists
+  variant: TemplateGroupVariant | null
+  isFallback: boolean
+}
+
+/**
+ * Map a stored language preference to a template language
+ * Accepts names ("Hindi", "HINDI") and codes ("hi", "HI", "hi-IN").
+ */
+export function normalizeTemplateLanguage(preference: string | null | undefined): TemplateLanguage | null {
+  if (!preference) return null
+  const value = preference.trim().toUpperCase()
+  if (!value) return null
+
+  const byName = TEMPLATE_LANGUAGES.find((language) => language === value)
+  if (byName) return byName
+
+  const code = value.split(/[-_]/)[0]
+  return TEMPLATE_LANGUAGES.find((language) => LANGUAGE_CODES[language] === code) ?? null
+}
+
+/**
+ * Active variant of a group for one language
+ */
+export function getGroupVariant(
+  group: TemplateGroup,
+  language: TemplateLanguage
+): TemplateGroupVariant | undefined {
+  return group.variants.find((variant) => variant.language === language && variant.isActive)
+}
+
+/**
+ * Languages with no active variant in the group, in display order
+ */
+export function getMissingLanguages(group: TemplateGroup): TemplateLanguage[] {
+  return TEMPLATE_LANGUAGES.filter((language) => !getGroupVariant(group, language))
+}
+
+/**
+ * Pick the variant to send to a customer: their preferred language when the group has it,
+ * English otherwise
+ */
+export function resolveGroupVariant(
+  group: TemplateGroup,
+  languagePreference: string | null | undefined
+): ResolvedGroupVariant {
+  const requestedLanguage = normalizeTemplateLanguage(languagePreference)
+  const preferred = requestedLanguage ? getGroupVariant(group, requestedLanguage) : undefined
+  if (preferred) {
+    return { requestedLanguage, variant: preferred, isFallback: false }
+  }
+
+  const fallback = getGroupVariant(group, FALLBACK_TEMPLATE_LANGUAGE)
+  return {
+    requestedLanguage,
+    variant: fallback ?? null,
+    // Customers with no preference get English as intended, not as a fallback
+    isFallback: !!fallback && !!languagePreference?.trim() && requestedLanguage !== FALLBACK_TEMPLATE_LANGUAGE,
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Text Diff
+ * Line-by-line comparison of two texts laid out for a side-by-side view
+ */
+
+export type DiffRowType = 'same' | 'added' | 'removed' | 'changed'
+
+export interface DiffRow {
+  type: DiffRowType
+  // 1-based line numbers; missing on the side that has no line
+  leftNumber?: number
+  left?: string
+  rightNumber?: number
+  right?: string
+}
+
+type DiffOp = { type: 'same' | 'removed' | 'added'; line: string }
+
+// Longest common subsequence of lines, walked back into keep/remove/add steps
+const diffOps = (before: string[], after: string[]): DiffOp[] => {
+  const lengths = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+
+  const ops: DiffOp[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'same', line: before[i] })
+      i++
+      j++
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      ops.push({ type: 'removed', line: before[i++] })
+    } else {
+      ops.push({ type: 'added', line: after[j++] })
+    }
+  }
+  while (i < before.length) ops.push({ type: 'removed', line: before[i++] })
+  while (j < after.length) ops.push({ type: 'added', line: after[j++] })
+  return ops
+}
+
+/**
+ * Compare two texts line by line
+ * A run of removed lines followed by added lines is shown as changed lines side by side.
+ */
+export const diffLines = (before: string, after: string): DiffRow[] => {
+  const ops = diffOps(before.split('\n'), after.split('\n'))
+  const rows: DiffRow[] = []
+  let leftNumber = 0
+  let rightNumber = 0
+  let index = 0
+
+  while (index < ops.length) {
+    if (ops[index].type === 'same') {
+      const line = ops[index].line
+      rows.push({ type: 'same', leftNumber: ++leftNumber, left: line, rightNumber: ++rightNumber, right: line })
+      index++
+      continue
+    }
+
+    const removed: string[] = []
+    const added: string[] = []
+    while (index < ops.length && ops[index].type === 'removed') removed.push(ops[index++].line)
+    while (index < ops.length && ops[index].type === 'added') added.push(ops[index++].line)
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const hasLeft = k < removed.length
+      const hasRight = k < added.length
+      rows.push({
+        type: hasLeft && hasRight ? 'changed' : hasLeft ? 'removed' : 'added',
+        ...(hasLeft ? { leftNumber: ++leftNumber, left: removed[k] } : {}),
+        ...(hasRight ? { rightNumber: ++rightNumber, right: added[k] } : {}),
+      })
+    }
+  }
+
+  return rows
+}
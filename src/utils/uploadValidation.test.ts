@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { parseCsvRecords } from './csv'
+import { readUploadSheet } from './uploadValidation'
+
+const encoder = new TextEncoder()
+
+const fakeFile = (name: string, bytes: Uint8Array): File =>
+  ({
+    name,
+    text: async () => new TextDecoder().decode(bytes),
+    arrayBuffer: async () => bytes.slice().buffer,
+  }) as unknown as File
+
+// Zip with uncompressed (stored) entries, carrying only the fields the reader looks at
+const buildZip = (files: Record<string, string>): Uint8Array => {
+  const locals: Uint8Array[] = []
+  const centrals: Uint8Array[] = []
+  let offset = 0
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name)
+    const data = encoder.encode(content)
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, nameBytes.length, true)
+    local.set(nameBytes, 30)
+    local.set(data, 30 + nameBytes.length)
+
+    const central = new Uint8Array(46 + nameBytes.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, data.length, true)
+    centralView.setUint16(28, nameBytes.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(nameBytes, 46)
+
+    locals.push(local)
+    centrals.push(central)
+    offset += local.length
+  })
+
+  const centralSize = centrals.reduce((sum, central) => sum + central.length, 0)
+  const eocd = new Uint8Array(22)
+  const eocdView = new DataView(eocd.buffer)
+  eocdView.setUint32(0, 0x06054b50, true)
+  eocdView.setUint16(8, centrals.length, true)
+  eocdView.setUint16(10, centrals.length, true)
+  eocdView.setUint32(12, centralSize, true)
+  eocdView.setUint32(16, offset, true)
+
+  const zip = new Uint8Array(offset + centralSize + eocd.length)
+  let position = 0
+  ;[...locals, ...centrals, eocd].forEach((part) => {
+    zip.set(part, position)
+    position += part.length
+  })
+  return zip
+}
+
+const inlineRow = (rowNumber: number, values: string[]): string =>
+  `<row r="${rowNumber}">${values
+    .map((value, index) => {
+      const reference = `${String.fromCharCode(65 + index)}${rowNumber}`
+      return `<c r="${reference}" t="inlineStr"><is><t>${value}</t></is></c>`
+    })
+    .join('')}</row>`
+
+describe('parseCsvRecords', () => {
+  it('keeps the file line of each record across blank lines and CRLF', () => {
+    const records = parseCsvRecords('name,amount\r\n\r\nRavi,100\r\n\r\n\r\nAsha,200\r\n')
+    expect(records).toEqual([
+      { cells: ['name', 'amount'], lineNumber: 1 },
+      { cells: ['Ravi', '100'], lineNumber: 3 },
+      { cells: ['Asha', '200'], lineNumber: 6 },
+    ])
+  })
+
+  it('counts line breaks inside quoted cells', () => {
+    const records = parseCsvRecords('name,address\n"Ravi","12 MG Road\r\nBengaluru"\n\nAsha,Pune')
+    expect(records.map((record) => record.lineNumber)).toEqual([1, 2, 5])
+  })
+
+  it('treats a lone CR as a line break', () => {
+    const records = parseCsvRecords('name\r\rRavi\rAsha')
+    expect(records.map((record) => record.lineNumber)).toEqual([1, 3, 4])
+  })
+})
+
+describe('readUploadSheet', () => {
+  it('numbers CSV rows by their file line', async () => {
+    const csv = 'Name,Amount\r\n\r\nRavi,100\r\n  ,  \r\nAsha,200\r\n'
+    const sheet = await readUploadSheet(fakeFile('cases.csv', encoder.encode(csv)))
+    expect(sheet.headers).toEqual(['Name', 'Amount'])
+    expect(sheet.rows).toEqual([
+      ['Ravi', '100'],
+      ['Asha', '200'],
+    ])
+    expect(sheet.rowNumbers).toEqual([3, 5])
+  })
+
+  it('numbers XLSX rows by their sheet row', async () => {
+    const sheetXml = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>',
+      inlineRow(1, ['Name', 'Amount']),
+      inlineRow(2, ['Ravi', '100']),
+      '<row r="3"/>',
+      inlineRow(5, ['Asha', '200']),
+      '</sheetData></worksheet>',
+    ].join('\r\n')
+    const zip = buildZip({ 'xl/worksheets/sheet1.xml': sheetXml })
+
+    const sheet = await readUploadSheet(fakeFile('cases.xlsx', zip))
+    expect(sheet.headers).toEqual(['Name', 'Amount'])
+    expect(sheet.rows).toEqual([
+      ['Ravi', '100'],
+      ['Asha', '200'],
+    ])
+    expect(sheet.rowNumbers).toEqual([2, 5])
+  })
+
+  it('numbers XLSX rows when the header is not on the first row', async () => {
+    const sheetXml = [
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>',
+      inlineRow(2, ['Name', 'Amount']),
+      inlineRow(4, ['Ravi', '100']),
+      '</sheetData></worksheet>',
+    ].join('\r\n')
+    const zip = buildZip({ 'xl/worksheets/sheet1.xml': sheetXml })
+
+    const sheet = await readUploadSheet(fakeFile('cases.xlsx', zip))
+    expect(sheet.rowNumbers).toEqual([4])
+  })
+})
@@ -0,0 +1,169 @@
+/**
+ * Upload validation utility functions
+ * Read CSV/XLSX upload files in the browser and check each row before it is sent
+ */
+
+import { parseCsvRecords, toCsv } from './csv'
+import { readXlsx } from './xlsx'
+import { isValidIndianMobile } from './validation'
+
+export type UploadFieldType = 'text' | 'number' | 'date' | 'mobile'
+
+export interface UploadFieldRule {
+  header: string
+  type: UploadFieldType
+  required: boolean
+  unique: boolean
+}
+
+export interface UploadSchema {
+  // Normalised header names (lowercase, alphanumeric only)
+  requiredFields: string[]
+  uniqueFields: string[]
+}
+
+export interface UploadSheet {
+  headers: string[]
+  rows: string[][]
+  // Row number of each data row in the original file, for messages users can match to the file
+  rowNumbers: number[]
+}
+
+// Column index -> problem with that cell
+export type RowIssues = Record<number, string>
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const normalize = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+/**
+ * Whether a file can be read in the browser
+ */
+export const isSpreadsheetFile = (file: File): boolean => /\.(csv|xlsx)$/i.test(file.name)
+
+/**
+ * Read a CSV or XLSX file into headers and non-blank rows
+ */
+export const readUploadSheet = async (file: File): Promise<UploadSheet> => {
+  // XLSX rows sit at their sheet row; CSV records keep the line they start on
+  const allRows = /\.xlsx$/i.test(file.name)
+    ? (await readXlsx(file)).map((row, index) => ({ row, rowNumber: index + 1 }))
+    : parseCsvRecords(await file.text()).map(({ cells, lineNumber }) => ({
+        row: cells,
+        rowNumber: lineNumber,
+      }))
+  const [header, ...dataRows] = allRows.filter(({ row }) => row.some((cell) => cell.trim() !== ''))
+  const headers = header?.row ?? []
+  const width = headers.length
+  return {
+    headers: headers.map((cell) => cell.trim()),
+    rows: dataRows.map(({ row }) => Array.from({ length: width }, (_, i) => (row[i] ?? '').trim())),
+    rowNumbers: dataRows.map(({ rowNumber }) => rowNumber),
+  }
+}
+
+/**
+ * Build the CSV file that is uploaded in place of the original
+ */
+export const createUploadFile = (originalName: string, sheet: UploadSheet): File => {
+  const baseName = originalName.replace(/\.(csv|xlsx)$/i, '')
+  return new File([toCsv([sheet.headers, ...sheet.rows])], `${baseName}.csv`, { type: 'text/csv' })
+}
+
+/**
+ * Infer each column's rule from its header name and the upload schema
+ */
+export const buildFieldRules = (headers: string[], schema: UploadSchema): UploadFieldRule[] => {
+  return headers.map((header) => {
+    const key = normalize(header)
+    let type: UploadFieldType = 'text'
+    if (/mobile|phone/.test(key)) type = 'mobile'
+    else if (/^date|date$|dob$/.test(key)) type = 'date'
+    else if (/amount|outstanding|balance|principal|interest|emi|penalty|charges|dpd/.test(key)) type = 'number'
+
+    return {
+      header,
+      type,
+      required: schema.requiredFields.includes(key),
+      unique: schema.uniqueFields.includes(key),
+    }
+  })
+}
+
+/**
+ * Check a date in yyyy-MM-dd, dd/MM/yyyy, dd-MM-yyyy or dd-MMM-yyyy form is a real calendar date
+ */
+export const isValidUploadDate = (value: string): boolean => {
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  const numeric = value.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/)
+  const named = value.match(/^(\d{1,2})[\s/-]([A-Za-z]{3})[\s/-](\d{4})$/)
+
+  let parts: [number, number, number] | null = null
+  if (iso) parts = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+  else if (numeric) parts = [Number(numeric[3]), Number(numeric[2]), Number(numeric[1])]
+  else if (named) parts = [Number(named[3]), MONTHS.indexOf(named[2].toLowerCase()) + 1, Number(named[1])]
+  if (!parts) return false
+
+  const [year, month, day] = parts
+  const date = new Date(year, month - 1, day)
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day
+}
+
+const validateCell = (value: string, rule: UploadFieldRule): string | undefined => {
+  if (!value) return rule.required ? `${rule.header} is required` : undefined
+
+  switch (rule.type) {
+    case 'number': {
+      const amount = Number(value.replace(/[,₹\s]/g, ''))
+      if (!Number.isFinite(amount)) return `${rule.header} must be a number`
+      if (amount < 0) return `${rule.header} cannot be negative`
+      return undefined
+    }
+    case 'date':
+      return isValidUploadDate(value) ? undefined : `${rule.header} must be a valid date (dd/mm/yyyy or yyyy-mm-dd)`
+    case 'mobile':
+      return isValidIndianMobile(value) ? undefined : `${rule.header} must be a 10-digit mobile number`
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Validate every row; rows listed in excludedRows (dropped by the user) are skipped, including for duplicates
+ */
+export const validateUploadRows = (
+  rows: string[][],
+  rules: UploadFieldRule[],
+  excludedRows: Set<number> = new Set(),
+  rowNumbers: number[] = []
+): RowIssues[] => {
+  const issues: RowIssues[] = rows.map((row, rowIndex) => {
+    const rowIssues: RowIssues = {}
+    if (excludedRows.has(rowIndex)) return rowIssues
+    rules.forEach((rule, column) => {
+      const message = validateCell(row[column] ?? '', rule)
+      if (message) rowIssues[column] = message
+    })
+    return rowIssues
+  })
+
+  rules.forEach((rule, column) => {
+    if (!rule.unique) return
+    const seen = new Map<string, number[]>()
+    rows.forEach((row, rowIndex) => {
+      const value = (row[column] ?? '').trim().toUpperCase()
+      if (!value || excludedRows.has(rowIndex)) return
+      seen.set(value, [...(seen.get(value) || []), rowIndex])
+    })
+    seen.forEach((rowIndexes) => {
+      if (rowIndexes.length < 2) return
+      // Row numbers as users see them in the file
+      const fileRows = rowIndexes.map((rowIndex) => rowNumbers[rowIndex] ?? rowIndex + 2).join(', ')
+      rowIndexes.forEach((rowIndex) => {
+        issues[rowIndex][column] ??= `Duplicate ${rule.header} (rows ${fileRows})`
+      })
+    })
+  })
+
+  return issues
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  isValidAadhaar,
+  isValidIFSC,
+  isValidIndianMobile,
+  isValidPAN,
+  isValidPincode,
+  isValidVPA,
+} from './validation'
+
+describe('isValidIndianMobile', () => {
+  it('accepts 10-digit numbers starting 6-9 with an optional prefix', () => {
+    expect(isValidIndianMobile('9876543210')).toBe(true)
+    expect(isValidIndianMobile('+91 98765 43210')).toBe(true)
+    expect(isValidIndianMobile('09876543210')).toBe(true)
+  })
+
+  it('rejects numbers starting below 6 or of the wrong length', () => {
+    expect(isValidIndianMobile('5876543210')).toBe(false)
+    expect(isValidIndianMobile('987654321')).toBe(false)
+  })
+})
+
+describe('isValidPAN', () => {
+  it('accepts a PAN in either case', () => {
+    expect(isValidPAN('ABCPE1234F')).toBe(true)
+    expect(isValidPAN(' abcpe1234f ')).toBe(true)
+  })
+
+  it('rejects an unknown holder type or a malformed PAN', () => {
+    expect(isValidPAN('ABCXE1234F')).toBe(false)
+    expect(isValidPAN('ABCPE12345')).toBe(false)
+    expect(isValidPAN('ABCP1234F')).toBe(false)
+  })
+})
+
+describe('isValidIFSC', () => {
+  it('accepts a bank code, a zero and a branch code', () => {
+    expect(isValidIFSC('HDFC0001234')).toBe(true)
+    expect(isValidIFSC('sbin0ab1234')).toBe(true)
+  })
+
+  it('rejects a missing zero or the wrong length', () => {
+    expect(isValidIFSC('HDFC1001234')).toBe(false)
+    expect(isValidIFSC('HDFC000123')).toBe(false)
+  })
+})
+
+describe('isValidVPA', () => {
+  it('accepts a handle and provider', () => {
+    expect(isValidVPA('ravi.kumar@okhdfcbank')).toBe(true)
+    expect(isValidVPA('9876543210@ybl')).toBe(true)
+  })
+
+  it('rejects a missing provider or handle', () => {
+    expect(isValidVPA('ravi.kumar')).toBe(false)
+    expect(isValidVPA('@okhdfcbank')).toBe(false)
+  })
+})
+
+describe('isValidPincode', () => {
+  it('accepts six digits not starting with zero', () => {
+    expect(isValidPincode('560001')).toBe(true)
+  })
+
+  it('rejects a leading zero or the wrong length', () => {
+    expect(isValidPincode('060001')).toBe(false)
+    expect(isValidPincode('56001')).toBe(false)
+    expect(isValidPincode('5600012')).toBe(false)
+  })
+})
+
+describe('isValidAadhaar', () => {
+  it('accepts a number with a valid check digit, with or without separators', () => {
+    expect(isValidAadhaar('234123412346')).toBe(true)
+    expect(isValidAadhaar('2341 2341 2346')).toBe(true)
+    expect(isValidAadhaar('2341-2341-2346')).toBe(true)
+  })
+
+  it('rejects a wrong check digit', () => {
+    expect(isValidAadhaar('234123412345')).toBe(false)
+  })
+
+  it('rejects numbers starting 0 or 1 and the wrong length', () => {
+    expect(isValidAadhaar('123412341234')).toBe(false)
+    expect(isValidAadhaar('23412341234')).toBe(false)
+  })
+})
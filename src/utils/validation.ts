@@ -32,11 +32,89 @@ export const isValidUrl = (url: string): boolean => {
 }
 
 /**
- * Validate phone number (basic US format)
+ * Validate Indian mobile number (10 digits starting 6-9, optional +91 / 0 prefix)
+ */
+export const isValidIndianMobile = (mobile: string): boolean => {
+  const digits = mobile.replace(/[\s-]/g, '').replace(/^(\+91|91|0)(?=\d{10}$)/, '')
+  return /^[6-9]\d{9}$/.test(digits)
+}
+
+/**
+ * Validate Indian phone number: a mobile number, or a landline with STD code (e.g. 022-24567890)
  */
 export const isValidPhoneNumber = (phone: string): boolean => {
-  const phoneRegex = /^\+?1?\s*\(?(\d{3})\)?[-.\s]?(\d{3})[-.\s]?(\d{4})$/
-  return phoneRegex.test(phone)
+  if (isValidIndianMobile(phone)) return true
+  const digits = phone.replace(/[\s-]/g, '').replace(/^\+91/, '0')
+  return /^0[1-9]\d{9}$/.test(digits)
+}
+
+/**
+ * Validate PAN (e.g. ABCPE1234F); the fourth letter is the holder type
+ */
+export const isValidPAN = (pan: string): boolean => {
+  return /^[A-Z]{3}[ABCFGHJLPT][A-Z]\d{4}[A-Z]$/.test(pan.trim().toUpperCase())
+}
+
+/**
+ * Validate IFSC (4-letter bank code, a zero, 6-character branch code, e.g. HDFC0001234)
+ */
+export const isValidIFSC = (ifsc: string): boolean => {
+  return /^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc.trim().toUpperCase())
+}
+
+/**
+ * Validate UPI virtual payment address (e.g. name.surname@okhdfcbank)
+ */
+export const isValidVPA = (vpa: string): boolean => {
+  return /^[a-zA-Z0-9][a-zA-Z0-9._-]{1,255}@[a-zA-Z][a-zA-Z0-9]{1,63}$/.test(vpa.trim())
+}
+
+/**
+ * Validate Indian postal pincode (6 digits, not starting with 0)
+ */
+export const isValidPincode = (pincode: string): boolean => {
+  return /^[1-9]\d{5}$/.test(pincode.trim())
+}
+
+// Verhoeff checksum tables used by Aadhaar
+const VERHOEFF_MULTIPLY = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+]
+
+const VERHOEFF_PERMUTE = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+]
+
+/**
+ * Validate Aadhaar number (12 digits, not starting 0 or 1, valid Verhoeff check digit)
+ */
+export const isValidAadhaar = (aadhaar: string): boolean => {
+  const digits = aadhaar.replace(/[\s-]/g, '')
+  if (!/^[2-9]\d{11}$/.test(digits)) return false
+  const checksum = digits
+    .split('')
+    .reverse()
+    .reduce(
+      (check, digit, index) => VERHOEFF_MULTIPLY[check][VERHOEFF_PERMUTE[index % 8][Number(digit)]],
+      0
+    )
+  return checksum === 0
 }
 
 /**
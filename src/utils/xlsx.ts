@@ -0,0 +1,184 @@
+/**
+ * XLSX utility functions
+ * Minimal reader for the first worksheet of an .xlsx file, using the browser's zip inflater
+ */
+
+interface ZipEntry {
+  name: string
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_SIGNATURE = 0x02014b50
+
+// Built-in number formats that render as dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+// Excel serial 25569 is 1970-01-01
+const EXCEL_EPOCH_OFFSET = 25569
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+const readZipEntries = (view: DataView): ZipEntry[] => {
+  let eocd = -1
+  for (let i = view.byteLength - 22; i >= 0; i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i
+      break
+    }
+  }
+  if (eocd < 0) throw new Error('Not a valid .xlsx file')
+
+  const count = view.getUint16(eocd + 10, true)
+  let offset = view.getUint32(eocd + 16, true)
+  const decoder = new TextDecoder()
+  const entries: ZipEntry[] = []
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) break
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    entries.push({
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+      name: decoder.decode(new Uint8Array(view.buffer, offset + 46, nameLength)),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+const readZipText = async (view: DataView, entry: ZipEntry): Promise<string> => {
+  const start =
+    entry.localHeaderOffset + 30 + view.getUint16(entry.localHeaderOffset + 26, true) +
+    view.getUint16(entry.localHeaderOffset + 28, true)
+  const data = (view.buffer as ArrayBuffer).slice(start, start + entry.compressedSize)
+
+  if (entry.method === 0) return new TextDecoder().decode(data)
+  if (entry.method !== 8) throw new Error(`Unsupported compression in ${entry.name}`)
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+const parseXml = (text: string): Document => new DOMParser().parseFromString(text, 'application/xml')
+
+const columnIndex = (reference: string): number => {
+  const letters = reference.replace(/\d+/g, '')
+  return letters.split('').reduce((acc, letter) => acc * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+const serialToIsoDate = (serial: number): string => {
+  return new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * MS_PER_DAY)).toISOString().split('T')[0]
+}
+
+/**
+ * Style indexes whose number format is a date, so serial numbers can be shown as yyyy-MM-dd
+ */
+const readDateStyles = (stylesXml: string | undefined): Set<number> => {
+  const dateStyles = new Set<number>()
+  if (!stylesXml) return dateStyles
+
+  const doc = parseXml(stylesXml)
+  const customDateFormats = new Set<number>()
+  Array.from(doc.getElementsByTagName('numFmt')).forEach((format) => {
+    const code = (format.getAttribute('formatCode') || '').replace(/"[^"]*"|\[[^\]]*\]/g, '')
+    if (/[dy]/i.test(code)) customDateFormats.add(Number(format.getAttribute('numFmtId')))
+  })
+
+  const cellXfs = doc.getElementsByTagName('cellXfs')[0]
+  if (!cellXfs) return dateStyles
+  Array.from(cellXfs.getElementsByTagName('xf')).forEach((xf, index) => {
+    const formatId = Number(xf.getAttribute('numFmtId'))
+    if (DATE_FORMAT_IDS.has(formatId) || customDateFormats.has(formatId)) dateStyles.add(index)
+  })
+  return dateStyles
+}
+
+/**
+ * Path of the first worksheet in workbook order, resolved through the workbook relationships
+ */
+const readFirstSheetPath = async (
+  view: DataView,
+  findEntry: (name: string) => ZipEntry | undefined
+): Promise<string | undefined> => {
+  const workbookEntry = findEntry('xl/workbook.xml')
+  const relsEntry = findEntry('xl/_rels/workbook.xml.rels')
+  if (!workbookEntry || !relsEntry) return undefined
+
+  const firstSheet = parseXml(await readZipText(view, workbookEntry)).getElementsByTagName('sheet')[0]
+  // The relationship id is the namespaced r:id attribute
+  const relationshipId = firstSheet
+    ? Array.from(firstSheet.attributes).find((attribute) => attribute.localName === 'id')?.value
+    : undefined
+  if (!relationshipId) return undefined
+
+  const relationship = Array.from(
+    parseXml(await readZipText(view, relsEntry)).getElementsByTagName('Relationship')
+  ).find((element) => element.getAttribute('Id') === relationshipId)
+  const target = relationship?.getAttribute('Target')
+  if (!target) return undefined
+  // Targets are relative to xl/ unless they start with a slash
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+}
+
+/**
+ * Read the first worksheet of an .xlsx file into rows of cell text
+ * Rows sit at their sheet row number minus one; rows the file leaves out (blank rows) are empty arrays.
+ */
+export const readXlsx = async (file: File): Promise<string[][]> => {
+  const view = new DataView(await file.arrayBuffer())
+  const entries = readZipEntries(view)
+  const findEntry = (name: string) => entries.find((entry) => entry.name === name)
+
+  const firstSheetPath = await readFirstSheetPath(view, findEntry)
+  const sheetEntry =
+    (firstSheetPath && findEntry(firstSheetPath)) || findEntry('xl/worksheets/sheet1.xml')
+  if (!sheetEntry) throw new Error('The workbook has no worksheets')
+
+  const sharedStringsEntry = findEntry('xl/sharedStrings.xml')
+  const stylesEntry = findEntry('xl/styles.xml')
+  const sharedStrings = sharedStringsEntry
+    ? Array.from(parseXml(await readZipText(view, sharedStringsEntry)).getElementsByTagName('si')).map((si) =>
+        Array.from(si.getElementsByTagName('t'))
+          .map((t) => t.textContent || '')
+          .join('')
+      )
+    : []
+  const dateStyles = readDateStyles(stylesEntry ? await readZipText(view, stylesEntry) : undefined)
+
+  const sheet = parseXml(await readZipText(view, sheetEntry))
+  const rows: string[][] = []
+  Array.from(sheet.getElementsByTagName('row')).forEach((rowElement) => {
+    const rowNumber = Number(rowElement.getAttribute('r')) || rows.length + 1
+    const row: string[] = []
+    Array.from(rowElement.getElementsByTagName('c')).forEach((cell, position) => {
+      const reference = cell.getAttribute('r')
+      const index = reference ? columnIndex(reference) : position
+      const type = cell.getAttribute('t')
+      const raw = cell.getElementsByTagName('v')[0]?.textContent ?? ''
+
+      let value = raw
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? ''
+      } else if (type === 'inlineStr') {
+        value = Array.from(cell.getElementsByTagName('t'))
+          .map((t) => t.textContent || '')
+          .join('')
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE'
+      } else if (raw && !type && dateStyles.has(Number(cell.getAttribute('s')))) {
+        value = serialToIsoDate(Number(raw))
+      }
+
+      while (row.length < index) row.push('')
+      row[index] = value
+    })
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows[rowNumber - 1] = row
+  })
+  return rows
+}